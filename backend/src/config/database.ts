@@ -1,17 +1,190 @@
-import { PrismaClient } from '@prisma/client'
+import { AsyncLocalStorage } from 'async_hooks'
+import { EventEmitter } from 'events'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 // Singleton de Prisma para evitar múltiples conexiones en desarrollo
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
 }
 
-export const prisma = globalForPrisma.prisma ?? new PrismaClient({
-  log: process.env.NODE_ENV === 'development' 
-    ? ['query', 'error', 'warn'] 
+const basePrisma = globalForPrisma.prisma ?? new PrismaClient({
+  log: process.env.NODE_ENV === 'development'
+    ? ['query', 'error', 'warn']
     : ['error']
 })
 
 if (process.env.NODE_ENV !== 'production') {
-  globalForPrisma.prisma = prisma
+  globalForPrisma.prisma = basePrisma
 }
 
+// Modelos sincronizados con los dispositivos -> nombre de tabla en el cliente (Dexie)
+export const SYNC_TRACKED_MODELS: Record<string, string> = {
+  Category: 'categories',
+  Product: 'products',
+  ProductVariant: 'productVariants',
+  PaymentMethod: 'paymentMethods',
+  Customer: 'customers',
+  Supplier: 'suppliers',
+  User: 'users',
+  Sale: 'sales',
+  SaleReturn: 'saleReturns',
+  StockMovement: 'stockMovements'
+}
+
+type IdDelegate = {
+  findMany: (args: { where: unknown; select: { id: true } }) => Promise<Array<{ id: string }>>
+}
+
+export interface SyncChangeEvent {
+  tableName: string
+  operation: 'upsert' | 'delete'
+  count: number
+}
+
+// Emite 'change' por cada escritura registrada en el change log (canal de eventos en tiempo real)
+export const syncChangeEvents = new EventEmitter()
+
+// Transacción interactiva en curso: el change log se escribe con su cliente
+// y los eventos se emiten recién cuando se confirma
+interface TransactionContext {
+  tx: PrismaClient
+  events: SyncChangeEvent[]
+}
+
+const transactionContext = new AsyncLocalStorage<TransactionContext>()
+
+function currentClient(): PrismaClient {
+  return transactionContext.getStore()?.tx ?? basePrisma
+}
+
+function modelDelegate(model: string): IdDelegate {
+  const key = `${model.charAt(0).toLowerCase()}${model.slice(1)}` as keyof PrismaClient
+  return currentClient()[key] as unknown as IdDelegate
+}
+
+function emitChange(event: SyncChangeEvent) {
+  const context = transactionContext.getStore()
+  if (context) {
+    context.events.push(event)
+  } else {
+    syncChangeEvents.emit('change', event)
+  }
+}
+
+async function appendChanges(tableName: string, recordIds: string[], operation: 'upsert' | 'delete') {
+  if (recordIds.length === 0) return
+  await currentClient().syncChange.createMany({
+    data: recordIds.map(recordId => ({ tableName, recordId, operation }))
+  })
+  emitChange({ tableName, operation, count: recordIds.length })
+}
+
+/**
+ * Registra tombstones para registros eliminados y su entrada 'delete' en el change log
+ * Se usa para borrados físicos (automático) y para bajas recibidas por sincronización.
+ * Llamada dentro de prisma.$transaction, se confirma o revierte junto con la baja.
+ */
+export async function recordSyncTombstones(tableName: string, recordIds: string[]) {
+  if (recordIds.length === 0) return
+  await currentClient().syncTombstone.createMany({
+    data: recordIds.map(recordId => ({ tableName, recordId })),
+    skipDuplicates: true
+  })
+  await appendChanges(tableName, recordIds, 'delete')
+}
+
+/**
+ * Registra en el change log (sync_changes) cada escritura sobre un modelo sincronizado.
+ * Dentro de prisma.$transaction(async tx => ...) el log se escribe en la misma transacción:
+ * si se revierte, sus entradas también.
+ */
+const changeLogExtension = Prisma.defineExtension({
+  name: 'sync-change-log',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const tableName = SYNC_TRACKED_MODELS[model]
+        if (!tableName) {
+          return query(args)
+        }
+
+        switch (operation) {
+          case 'create':
+          case 'update':
+          case 'upsert': {
+            const result = await query(args) as { id?: string }
+            if (result?.id) {
+              await appendChanges(tableName, [result.id], 'upsert')
+            }
+            return result
+          }
+          case 'delete': {
+            const result = await query(args) as { id?: string }
+            if (result?.id) {
+              await recordSyncTombstones(tableName, [result.id])
+            }
+            return result
+          }
+          case 'createMany': {
+            // createMany no devuelve los registros: los ids tienen que venir en los datos
+            const rows = [(args as { data: unknown }).data].flat() as Array<{ id?: string }>
+            const ids = rows.map(row => row.id)
+            if (ids.some(id => !id)) {
+              throw new Error(`createMany sobre ${model} requiere ids explícitos para el change log`)
+            }
+            const result = await query(args)
+            await appendChanges(tableName, ids as string[], 'upsert')
+            return result
+          }
+          case 'createManyAndReturn': {
+            const result = await query(args) as Array<{ id?: string }>
+            await appendChanges(tableName, result.flatMap(row => (row.id ? [row.id] : [])), 'upsert')
+            return result
+          }
+          case 'updateMany':
+          case 'deleteMany': {
+            // Sin ids en el resultado: se resuelven antes de ejecutar
+            const where = (args as { where?: unknown }).where ?? {}
+            const affected = await modelDelegate(model).findMany({ where, select: { id: true } })
+            const result = await query(args)
+            const ids = affected.map(row => row.id)
+            if (operation === 'deleteMany') {
+              await recordSyncTombstones(tableName, ids)
+            } else {
+              await appendChanges(tableName, ids, 'upsert')
+            }
+            return result
+          }
+          default:
+            return query(args)
+        }
+      }
+    }
+  }
+})
+
+const extendedPrisma = basePrisma.$extends(changeLogExtension)
+
+// Las transacciones interactivas corren dentro del contexto que usa el change log
+const transaction = (async (arg: unknown, options?: unknown) => {
+  if (typeof arg !== 'function') {
+    return extendedPrisma.$transaction(arg as never, options as never)
+  }
+
+  const events: SyncChangeEvent[] = []
+  const result = await extendedPrisma.$transaction(
+    tx => transactionContext.run({ tx: tx as unknown as PrismaClient, events }, () => arg(tx)),
+    options as never
+  )
+  for (const event of events) {
+    syncChangeEvents.emit('change', event)
+  }
+  return result
+}) as typeof extendedPrisma.$transaction
+
+export const prisma = new Proxy(extendedPrisma, {
+  get: (target, property) => (property === '$transaction' ? transaction : Reflect.get(target, property))
+})
+
+// Cliente que recibe el callback de prisma.$transaction (incluye la extensión del change log)
+export type TxClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
@@ -4,6 +4,30 @@ import { z } from 'zod'
 // Cargar variables de entorno
 config()
 
+// Punto de venta: acepta strings con ceros a la izquierda (ej: "00003") y los normaliza a número
+const ptoVtaSchema = (name: string) => z.union([
+  z.string().transform((val) => {
+    const trimmed = val.trim()
+    if (trimmed === '') return undefined
+    const num = parseInt(trimmed, 10)
+    if (isNaN(num) || num <= 0 || !Number.isInteger(num)) {
+      throw new Error(`${name} inválido: "${val}". Debe ser un entero positivo.`)
+    }
+    return num
+  }),
+  z.number().int().positive()
+])
+
+// Certificado adicional: otro CUIT emisor con su propio P12 (p. ej. un segundo local o taller)
+const extraCertificateSchema = z.object({
+  cuit: z.string()
+    .regex(/^\d{2}-?\d{8}-?\d$/, 'CUIT debe tener formato válido (XX-XXXXXXXX-X)')
+    .transform((val) => val.replace(/-/g, '')),
+  p12Base64: z.string().min(100, 'El certificado Base64 parece inválido'),
+  password: z.string().min(1, 'La contraseña del certificado no puede estar vacía'),
+  ptoVta: z.number().int().positive().optional()
+})
+
 const envSchema = z.object({
   // Base de datos y servidor
   DATABASE_URL: z.string().min(1),
@@ -14,6 +38,7 @@ const envSchema = z.object({
   
   // Configuración AFIP/ARCA (Facturación Electrónica)
   // Entorno: 'homo' = homologación, 'prod' = producción
+  // Es el entorno inicial: desde Configuración → Facturación se puede cambiar sin reiniciar
   AFIP_ENV: z.enum(['homo', 'prod']).default('homo'),
   
   // CUIT del emisor (formato: 20-12345678-9 o 20123456789)
@@ -24,42 +49,60 @@ const envSchema = z.object({
     .optional(),
   
   // Certificado P12 en Base64 (obtenido del certificado .p12 de AFIP)
-  // Requerido solo si se usa facturación electrónica
+  // Opcional si el certificado se genera y carga desde Configuración → Facturación
   AFIP_CERT_P12_BASE64: z.string()
     .min(100, 'El certificado Base64 parece inválido')
     .optional(),
   
   // Contraseña del certificado P12
-  // Requerido solo si se usa facturación electrónica
+  // Requerida si se configura AFIP_CERT_P12_BASE64
   AFIP_CERT_P12_PASSWORD: z.string()
     .min(1, 'La contraseña del certificado no puede estar vacía')
     .optional(),
   
+  // Certificados de otros CUIT emisores (JSON): [{"cuit":"30-...","p12Base64":"...","password":"...","ptoVta":2}]
+  // Cada CUIT emite con el punto de venta configurado para él (FiscalConfig o ptoVta del JSON)
+  AFIP_EXTRA_CERTIFICATES: z.string()
+    .transform((val, ctx) => {
+      try {
+        return JSON.parse(val) as unknown
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'AFIP_EXTRA_CERTIFICATES debe ser un JSON válido' })
+        return z.NEVER
+      }
+    })
+    .pipe(z.array(extraCertificateSchema))
+    .optional(),
+
+  // Clave para cifrar en DB las claves privadas de los certificados (por defecto se deriva de JWT_SECRET)
+  // Si cambia, hay que volver a generar los certificados guardados
+  FISCAL_CERT_ENCRYPTION_KEY: z.string().min(32).optional(),
+
   // Punto de venta (opcional: se puede descubrir por API)
   // Acepta strings con ceros a la izquierda (ej: "00003") y los normaliza a número
   // Si no se especifica, se usará el primero habilitado obtenido de FEParamGetPtosVenta
-  AFIP_PTO_VTA: z.union([
-    z.string().transform((val) => {
-      const trimmed = val.trim()
-      if (trimmed === '') return undefined
-      const num = parseInt(trimmed, 10)
-      if (isNaN(num) || num <= 0 || !Number.isInteger(num)) {
-        throw new Error(`AFIP_PTO_VTA inválido: "${val}". Debe ser un entero positivo.`)
-      }
-      return num
-    }),
-    z.number().int().positive()
-  ]).optional(),
+  AFIP_PTO_VTA: ptoVtaSchema('AFIP_PTO_VTA').optional(),
+
+  // Punto de venta habilitado para CAEA (comprobantes emitidos sin conexión a WSFE)
+  // Requerido solo para emitir con CAEA; no puede ser el mismo que el de CAE
+  AFIP_CAEA_PTO_VTA: ptoVtaSchema('AFIP_CAEA_PTO_VTA').optional(),
+
+  // Datos del emisor impresos en los comprobantes (razón social, domicilio, condición IVA, IIBB, inicio de actividades)
+  FISCAL_RAZON_SOCIAL: z.string().optional(),
+  FISCAL_DOMICILIO: z.string().optional(),
+  FISCAL_CONDICION_IVA: z.string().optional(),
+  FISCAL_IIBB: z.string().optional(),
+  FISCAL_INICIO_ACTIVIDADES: z.string().optional(),
   
   // Flag para habilitar emisión real de comprobantes (solo homologación por ahora)
   // Requiere FISCAL_ISSUE_ENABLED=true explícitamente
   FISCAL_ISSUE_ENABLED: z.string().transform((val) => val === 'true').default('false').optional()
 })
 
-// Validación condicional: si alguna variable de AFIP está presente, todas deben estar
+// Validación condicional: si se configura un certificado en .env, deben estar el CUIT, el P12 y su contraseña
+// (AFIP_CUIT solo alcanza cuando el certificado se gestiona desde Configuración)
 const envSchemaWithConditional = envSchema.superRefine((data, ctx) => {
   const hasAfipConfig = 
-    data.AFIP_CUIT !== undefined || 
     data.AFIP_CERT_P12_BASE64 !== undefined || 
     data.AFIP_CERT_P12_PASSWORD !== undefined
   
@@ -99,11 +142,13 @@ if (!parsed.success) {
 export const env = parsed.data
 
 // Helper para verificar si la facturación electrónica está configurada
+// El certificado puede venir de .env o de la DB (ArcaCertificateStore): alcanza con el CUIT emisor
 export const isFiscalEnabled = (): boolean => {
-  return !!(
-    env.AFIP_CUIT && 
-    env.AFIP_CERT_P12_BASE64 && 
-    env.AFIP_CERT_P12_PASSWORD
-  )
+  return !!env.AFIP_CUIT
+}
+
+// Certificado del CUIT principal configurado en .env (solo vale para AFIP_ENV)
+export const hasEnvCertificate = (): boolean => {
+  return !!(env.AFIP_CERT_P12_BASE64 && env.AFIP_CERT_P12_PASSWORD)
 }
 
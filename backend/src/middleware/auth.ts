@@ -5,6 +5,8 @@ interface JWTPayload {
   id: string
   email: string
   role: UserRole
+  // Dispositivo con el que se inició sesión (sincronización offline)
+  deviceId?: string
 }
 
 declare module '@fastify/jwt' {
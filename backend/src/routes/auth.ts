@@ -3,16 +3,20 @@ import { z } from 'zod'
 import bcrypt from 'bcryptjs'
 import { prisma } from '../config/database.js'
 import { authenticate } from '../middleware/auth.js'
+import { SyncDeviceRegistry } from '../services/sync/index.js'
 
 const loginSchema = z.object({
   email: z.string().email('Email inválido'),
-  password: z.string().min(6, 'Contraseña debe tener al menos 6 caracteres')
+  password: z.string().min(6, 'Contraseña debe tener al menos 6 caracteres'),
+  // Dispositivo que inicia sesión: queda fijado en el token para sincronizar
+  deviceId: z.string().min(1).optional()
 })
 
 const registerSchema = z.object({
   email: z.string().email('Email inválido'),
   password: z.string().min(6, 'Contraseña debe tener al menos 6 caracteres'),
-  name: z.string().min(2, 'Nombre debe tener al menos 2 caracteres')
+  name: z.string().min(2, 'Nombre debe tener al menos 2 caracteres'),
+  deviceId: z.string().min(1).optional()
 })
 
 export const authRoutes: FastifyPluginAsync = async (app) => {
@@ -25,7 +29,8 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
         type: 'object',
         properties: {
           email: { type: 'string', format: 'email' },
-          password: { type: 'string', minLength: 6 }
+          password: { type: 'string', minLength: 6 },
+          deviceId: { type: 'string' }
         },
         required: ['email', 'password']
       }
@@ -36,7 +41,7 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
     }
 
-    const { email, password } = parsed.data
+    const { email, password, deviceId } = parsed.data
 
     const user = await prisma.user.findUnique({ where: { email } })
     if (!user || !user.isActive) {
@@ -48,6 +53,10 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(401).send({ error: true, message: 'Credenciales inválidas' })
     }
 
+    if (deviceId && await SyncDeviceRegistry.isRevoked(deviceId)) {
+      return reply.status(403).send({ error: true, message: 'Dispositivo revocado: no puede iniciar sesión' })
+    }
+
     // Actualizar último login
     await prisma.user.update({
       where: { id: user.id },
@@ -58,7 +67,8 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
     const token = app.jwt.sign({
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      deviceId
     }, { expiresIn: '7d' })
 
     return {
@@ -82,7 +92,8 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
         properties: {
           email: { type: 'string', format: 'email' },
           password: { type: 'string', minLength: 6 },
-          name: { type: 'string', minLength: 2 }
+          name: { type: 'string', minLength: 2 },
+          deviceId: { type: 'string' }
         },
         required: ['email', 'password', 'name']
       }
@@ -93,7 +104,11 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
     }
 
-    const { email, password, name } = parsed.data
+    const { email, password, name, deviceId } = parsed.data
+
+    if (deviceId && await SyncDeviceRegistry.isRevoked(deviceId)) {
+      return reply.status(403).send({ error: true, message: 'Dispositivo revocado: no puede iniciar sesión' })
+    }
 
     // Verificar si ya existe
     const existing = await prisma.user.findUnique({ where: { email } })
@@ -119,7 +134,8 @@ export const authRoutes: FastifyPluginAsync = async (app) => {
     const token = app.jwt.sign({
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      deviceId
     }, { expiresIn: '7d' })
 
     return {
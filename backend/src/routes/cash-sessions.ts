@@ -0,0 +1,56 @@
+import { FastifyPluginAsync } from 'fastify'
+import { z } from 'zod'
+import { authenticate, authorize } from '../middleware/auth.js'
+import { CashSessionService, CashSessionError } from '../services/cash/index.js'
+
+// Esquemas
+const listQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  userId: z.string().uuid().optional(),
+  deviceId: z.string().optional(),
+  status: z.enum(['OPEN', 'CLOSED']).optional(),
+  withDifference: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+})
+
+// Las sesiones se abren y cierran desde los dispositivos (por sync); aquí solo se auditan
+export const cashSessionsRoutes: FastifyPluginAsync = async (app) => {
+  // Listar sesiones de caja con su arqueo
+  app.get('/', {
+    preHandler: [authenticate, authorize('ADMIN', 'MANAGER')],
+    schema: {
+      description: 'Listar sesiones de caja con su diferencia de arqueo',
+      tags: ['Caja'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = listQuerySchema.safeParse(request.query)
+    if (!parsed.success) {
+      return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
+    }
+
+    return CashSessionService.list(parsed.data)
+  })
+
+  // Detalle con movimientos y arqueo recalculado con las ventas sincronizadas
+  app.get('/:id', {
+    preHandler: [authenticate, authorize('ADMIN', 'MANAGER')],
+    schema: {
+      description: 'Obtener una sesión de caja con su auditoría',
+      tags: ['Caja'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      return await CashSessionService.getAudit(id)
+    } catch (error) {
+      if (error instanceof CashSessionError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+}
@@ -6,6 +6,7 @@ import { authenticate } from '../middleware/auth.js'
 const createCustomerSchema = z.object({
   name: z.string().min(2, 'Nombre debe tener al menos 2 caracteres'),
   documentNumber: z.string().optional(),
+  ivaConditionId: z.number().int().positive().nullable().optional(),
   phone: z.string().optional(),
   email: z.string().email('Email inválido').optional().or(z.literal('')),
   address: z.string().optional(),
@@ -16,6 +17,7 @@ const createCustomerSchema = z.object({
 const updateCustomerSchema = z.object({
   name: z.string().min(2, 'Nombre debe tener al menos 2 caracteres').optional(),
   documentNumber: z.string().optional(),
+  ivaConditionId: z.number().int().positive().nullable().optional(),
   phone: z.string().optional(),
   email: z.string().email('Email inválido').optional().or(z.literal('')),
   address: z.string().optional(),
@@ -42,6 +44,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
         id: true,
         name: true,
         documentNumber: true,
+        ivaConditionId: true,
         phone: true,
         email: true,
         address: true,
@@ -77,6 +80,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
         id: true,
         name: true,
         documentNumber: true,
+        ivaConditionId: true,
         phone: true,
         email: true,
         address: true,
@@ -139,6 +143,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
       data: {
         name: data.name,
         documentNumber: data.documentNumber || null,
+        ivaConditionId: data.ivaConditionId ?? null,
         phone: data.phone || null,
         email: data.email || null,
         address: data.address || null,
@@ -149,6 +154,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
         id: true,
         name: true,
         documentNumber: true,
+        ivaConditionId: true,
         phone: true,
         email: true,
         address: true,
@@ -219,6 +225,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
         id: true,
         name: true,
         documentNumber: true,
+        ivaConditionId: true,
         phone: true,
         email: true,
         address: true,
@@ -256,6 +263,7 @@ export const customersRoutes: FastifyPluginAsync = async (app) => {
         id: true,
         name: true,
         documentNumber: true,
+        ivaConditionId: true,
         phone: true,
         email: true,
         address: true,
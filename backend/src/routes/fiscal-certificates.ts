@@ -0,0 +1,163 @@
+import { FastifyPluginAsync } from 'fastify'
+import { z } from 'zod'
+import { authenticate, authorize } from '../middleware/auth.js'
+import { FiscalCertificateService, FiscalCertificateError } from '../services/arca/index.js'
+
+// Esquemas
+const generateCsrSchema = z.object({
+  env: z.enum(['homo', 'prod']),
+  cuit: z.string().regex(/^\d{2}-?\d{8}-?\d$/, 'CUIT debe tener formato válido (XX-XXXXXXXX-X)'),
+  // AFIP solo acepta letras y números en el nombre del certificado
+  alias: z.string().regex(/^[A-Za-z0-9]{1,50}$/, 'El nombre del certificado solo admite letras y números'),
+  organization: z.string().trim().min(1, 'La razón social es requerida').max(100)
+})
+
+const uploadCertificateSchema = z.object({
+  certificatePem: z.string().min(100, 'El certificado parece incompleto')
+})
+
+const switchEnvironmentSchema = z.object({
+  env: z.enum(['homo', 'prod'])
+})
+
+export const fiscalCertificatesRoutes: FastifyPluginAsync = async (app) => {
+  // Certificados de AFIP (DB y .env) con su vencimiento, y entorno activo
+  app.get('/', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Listar certificados de AFIP',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async () => {
+    return FiscalCertificateService.list()
+  })
+
+  // Generar clave privada y CSR
+  app.post('/', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Generar clave privada y CSR para pedir un certificado en AFIP',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = generateCsrSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    try {
+      const result = await FiscalCertificateService.generateCsr(parsed.data, request.user.id)
+      return reply.status(201).send(result)
+    } catch (error) {
+      if (error instanceof FiscalCertificateError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // CSR de un certificado (para descargarlo otra vez)
+  app.get('/:id/csr', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Obtener el CSR de un certificado',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      return await FiscalCertificateService.getCsr(id)
+    } catch (error) {
+      if (error instanceof FiscalCertificateError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Cargar el certificado firmado por AFIP (lo activa)
+  app.post('/:id/certificate', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Cargar el certificado firmado por AFIP y activarlo',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = uploadCertificateSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    try {
+      const certificate = await FiscalCertificateService.uploadCertificate(id, parsed.data.certificatePem, request.user.id)
+      return { certificate }
+    } catch (error) {
+      if (error instanceof FiscalCertificateError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Eliminar un CSR pendiente
+  app.delete('/:id', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Eliminar un CSR pendiente de carga',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      await FiscalCertificateService.deletePending(id)
+      return reply.status(204).send()
+    } catch (error) {
+      if (error instanceof FiscalCertificateError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Cambiar el entorno activo (homo/prod)
+  app.put('/environment', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Cambiar el entorno de AFIP activo',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = switchEnvironmentSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    try {
+      const activeEnv = await FiscalCertificateService.switchEnvironment(parsed.data.env, request.user.id)
+      return { activeEnv }
+    } catch (error) {
+      if (error instanceof FiscalCertificateError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+}
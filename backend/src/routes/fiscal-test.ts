@@ -13,7 +13,7 @@ import { FastifyPluginAsync } from 'fastify'
 import { authenticate, authorize } from '../middleware/auth.js'
 import { isFiscalEnabled, env } from '../config/env.js'
 import crypto from 'crypto'
-import { ArcaTokenManager } from '../services/arca/index.js'
+import { ArcaTokenManager, ArcaCertificateStore } from '../services/arca/index.js'
 import { ArcaWsfeClient } from '../services/arca/ArcaWsfeClient.js'
 import { FiscalConfigService } from '../services/arca/FiscalConfigService.js'
 import { prisma } from '../config/database.js'
@@ -33,7 +33,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
             hasCuit: !!env.AFIP_CUIT,
             hasCert: !!env.AFIP_CERT_P12_BASE64,
             hasPassword: !!env.AFIP_CERT_P12_PASSWORD,
-            env: env.AFIP_ENV || 'homo'
+            env: ArcaCertificateStore.getActiveEnv()
           }
         })
       }
@@ -90,14 +90,14 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
           tokenLength: token.length,
           signLength: sign.length,
           elapsedTimeMs: elapsedTime,
-          environment: env.AFIP_ENV || 'homo',
+          environment: ArcaCertificateStore.getActiveEnv(),
           source, // 'cache' o 'wsaa'
           fromCache: source === 'cache'
         },
         // Información adicional útil
         info: {
           cuit: env.AFIP_CUIT?.replace(/(\d{2})(\d{8})(\d)/, '$1-$2-$3'), // Formatear CUIT
-          env: env.AFIP_ENV || 'homo',
+          env: ArcaCertificateStore.getActiveEnv(),
           hasPtoVta: !!(await FiscalConfigService.getPtoVta()),
           ptoVta: (await FiscalConfigService.getPtoVta()) || 'auto-detect',
           service: 'wsfe'
@@ -145,7 +145,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
     return {
       fiscalEnabled: isEnabled,
       config: {
-        env: env.AFIP_ENV || 'homo',
+        env: ArcaCertificateStore.getActiveEnv(),
         hasCuit: !!env.AFIP_CUIT,
         cuit: env.AFIP_CUIT 
           ? env.AFIP_CUIT.replace(/(\d{2})(\d{8})(\d)/, '$1-$2-$3')
@@ -252,7 +252,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
       const ptoVtaNotImpacted = ptoVtaError602 !== undefined || ptoVtaError11002 !== undefined
 
       // Obtener estado persistido desde DB
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = env.AFIP_CUIT!
       const statusRecord = await prisma.fiscalPtoVtaStatus.findUnique({
         where: {
@@ -420,7 +420,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
               }
             : null
         },
-        environment: env.AFIP_ENV || 'homo',
+        environment: ArcaCertificateStore.getActiveEnv(),
         cuit: env.AFIP_CUIT ? env.AFIP_CUIT.replace(/(\d{2})(\d{8})(\d)/, '$1-$2-$3') : null,
         cuitNormalized: env.AFIP_CUIT, // CUIT del certificado sin guiones
         cuitUsedInAuth: (await FiscalConfigService.getCuitRepresentado()) || env.AFIP_CUIT || null, // CUIT efectivamente usado en Auth (puede ser representado)
@@ -508,7 +508,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = env.AFIP_CUIT!
 
       // Obtener estado actual desde DB
@@ -769,7 +769,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
     dataType: 'tiposDoc' | 'tiposIva' | 'tiposMonedas' | 'tiposTributos' | 'tiposCbte' | 'condicionIvaReceptor',
     wsfeMethod: () => Promise<any>
   ) {
-    const envKey = env.AFIP_ENV || 'homo'
+    const envKey = ArcaCertificateStore.getActiveEnv()
     const cacheKey = `${envKey}_${dataType}`
     
     // Verificar cache en DB
@@ -1139,7 +1139,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
       }
 
       const { type, env: envParam } = request.body as { type: string; env?: string }
-      const envKey = envParam || env.AFIP_ENV || 'homo'
+      const envKey = envParam || ArcaCertificateStore.getActiveEnv()
 
       if (type === 'all') {
         // Invalidar todos los tipos
@@ -1467,7 +1467,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
       }
 
       // 2. Generar o usar idempotency key
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = (await FiscalConfigService.getCuitRepresentado()) || env.AFIP_CUIT!
       const ptoVtaConfig = body.ptoVta || await FiscalConfigService.getPtoVta()
       
@@ -1761,7 +1761,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         cbteTipo?: number
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = (await FiscalConfigService.getCuitRepresentado()) || env.AFIP_CUIT!
       const ptoVtaToQuery = ptoVta || await FiscalConfigService.getPtoVta()
 
@@ -1919,7 +1919,8 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const body = request.body as { ptoVta?: string | number }
+      // cuit: certificado al que se asigna el punto de venta (por defecto, el principal)
+      const body = request.body as { ptoVta?: string | number; cuit?: string }
       if (!body.ptoVta) {
         return reply.status(400).send({
           error: true,
@@ -1927,12 +1928,23 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
-      const cuitNormalized = env.AFIP_CUIT!
+      const envKey = ArcaCertificateStore.getActiveEnv()
+      const cuitNormalized = body.cuit
+        ? (await ArcaCertificateStore.get(body.cuit.replace(/-/g, ''))).cuit
+        : env.AFIP_CUIT!
       const userId = (request.user as any)?.id || null
 
       // Obtener valor anterior
-      const oldPtoVta = await FiscalConfigService.getPtoVta()
+      const oldPtoVta = await FiscalConfigService.getPtoVta(envKey, cuitNormalized)
+
+      // El punto de venta identifica al CUIT emisor: no puede repetirse entre certificados
+      const owner = await FiscalConfigService.getEmisorForPtoVta(Number(body.ptoVta))
+      if (owner && owner.cuit !== cuitNormalized) {
+        return reply.status(409).send({
+          error: true,
+          message: `El punto de venta ${Number(body.ptoVta)} ya está asignado al CUIT ${owner.cuitEmisor}`
+        })
+      }
 
       // Normalizar y persistir
       const newPtoVta = await FiscalConfigService.setPtoVta(
@@ -1985,7 +1997,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = env.AFIP_CUIT!
       const userId = (request.user as any)?.id || null
 
@@ -2048,7 +2060,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = env.AFIP_CUIT!
 
       const ptoVta = await FiscalConfigService.getPtoVta()
@@ -2088,7 +2100,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitNormalized = env.AFIP_CUIT!
 
       const wsfeClient = new ArcaWsfeClient()
@@ -2277,7 +2289,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
       return {
         success: true,
         method,
-        environment: env.AFIP_ENV || 'homo',
+        environment: ArcaCertificateStore.getActiveEnv(),
         cuitUsedInAuth: soapExport.cuitUsedInAuth,
         instructions: {
           soapui: 'Copia el soapRequestSanitized y pégalo en SoapUI. Reemplaza *** con tu Token/Sign real.',
@@ -2342,7 +2354,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
       }
 
       // Verificar que el ambiente solicitado coincida con el configurado (para evitar confusiones)
-      const currentEnv = env.AFIP_ENV || 'homo'
+      const currentEnv = ArcaCertificateStore.getActiveEnv()
       if (environment !== currentEnv) {
         console.warn(`⚠️ [Debug] Solicitando ambiente ${environment} pero el sistema está configurado para ${currentEnv}`)
       }
@@ -2587,7 +2599,7 @@ export const fiscalTestRoutes: FastifyPluginAsync = async (app) => {
         })
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
+      const envKey = ArcaCertificateStore.getActiveEnv()
       const cuitCertificado = env.AFIP_CUIT!
       const cuitRepresentado = await FiscalConfigService.getCuitRepresentado()
       const cuitUsedInAuth = cuitRepresentado || cuitCertificado
@@ -1,37 +1,119 @@
 import { FastifyPluginAsync } from 'fastify'
 import { z } from 'zod'
-import { prisma } from '../config/database.js'
-import { authenticate } from '../middleware/auth.js'
+import { authenticate, authorize } from '../middleware/auth.js'
+import {
+  FiscalInvoiceService,
+  FiscalInvoiceError,
+  FiscalAlertService,
+  FiscalCaeaService,
+  FiscalPdfService,
+  FiscalPdfError,
+  FiscalPadronService,
+  FiscalPadronError,
+  FiscalConfigService,
+  FISCAL_DOCUMENT_TYPES,
+  type IssueNoteParams
+} from '../services/arca/index.js'
+import { getCaeaPeriod, isValidCuit, formatCuit } from '../utils/fiscal.js'
 
 // Esquemas
 const createInvoiceSchema = z.object({
   saleId: z.string().uuid(),
-  type: z.enum(['FACTURA_A', 'FACTURA_B', 'FACTURA_C', 'TICKET']),
-  receiver: z.object({
-    name: z.string(),
-    documentType: z.enum(['DNI', 'CUIT', 'CUIL', 'CONSUMIDOR_FINAL']),
-    documentNumber: z.string(),
-    ivaCondition: z.enum([
-      'RESPONSABLE_INSCRIPTO',
-      'MONOTRIBUTISTA',
-      'EXENTO',
-      'CONSUMIDOR_FINAL'
-    ]),
-    address: z.string().optional(),
-    email: z.string().email().optional()
-  })
+  type: z.enum(['FACTURA_A', 'FACTURA_B', 'FACTURA_C']).default('FACTURA_C'),
+  // Si no se indica, se usa la condición IVA del cliente (o Consumidor Final)
+  condicionIvaReceptorId: z.number().int().positive().optional(),
+  // CAEA: emitir con el CAEA vigente cuando WSFE no responde (se informa después)
+  mode: z.enum(['CAE', 'CAEA']).default('CAE'),
+  // Punto de venta con el que se emite (define el CUIT emisor); por defecto, el del certificado principal
+  ptoVta: z.number().int().positive().optional()
+})
+
+const batchInvoiceSchema = z.object({
+  saleIds: z.array(z.string().uuid()).min(1, 'Seleccione al menos una venta').max(1000),
+  type: z.enum(['FACTURA_A', 'FACTURA_B', 'FACTURA_C']).default('FACTURA_C'),
+  ptoVta: z.number().int().positive().optional()
+})
+
+const pendingSalesSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500)
+})
+
+const requestCaeaSchema = z.object({
+  // Por defecto, la quincena actual
+  periodo: z.number().int().min(200001).max(209912).optional(),
+  orden: z.union([z.literal(1), z.literal(2)]).optional()
+}).refine(data => (data.periodo === undefined) === (data.orden === undefined), {
+  message: 'Indique periodo y orden juntos'
+})
+
+const listInvoicesSchema = z.object({
+  saleId: z.string().uuid().optional(),
+  estado: z.enum(['PENDING', 'SENT', 'AUTHORIZED', 'REJECTED', 'NEEDS_REVIEW']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+})
+
+const creditNoteSchema = z.object({
+  reason: z.string().min(3, 'Indique el motivo de la nota'),
+  // Sin importe ni items se acredita el saldo completo de la factura
+  amount: z.number().positive().optional(),
+  items: z.array(z.object({
+    saleItemId: z.string().uuid(),
+    quantity: z.number().int().positive()
+  })).optional()
+})
+
+const debitNoteSchema = z.object({
+  reason: z.string().min(3, 'Indique el motivo de la nota'),
+  amount: z.number().positive('Importe requerido')
 })
 
-// Códigos de tipo de comprobante AFIP
-const INVOICE_TYPE_CODES: Record<string, number> = {
-  'FACTURA_A': 1,
-  'FACTURA_B': 6,
-  'FACTURA_C': 11,
-  'TICKET': 83
+type FiscalDocumentRecord = NonNullable<Awaited<ReturnType<typeof FiscalInvoiceService.getById>>>
+
+// Respuesta común de un comprobante
+function toInvoiceResponse(doc: Omit<FiscalDocumentRecord, 'sale' | 'associatedDocument' | 'notes'>) {
+  return {
+    id: doc.id,
+    saleId: doc.saleId,
+    type: FISCAL_DOCUMENT_TYPES[doc.cbteTipo] ?? null,
+    cbteTipo: doc.cbteTipo,
+    ptoVta: doc.ptoVta,
+    cbteNro: doc.cbteNro,
+    formattedNumber: FiscalInvoiceService.formatNumber(doc.ptoVta, doc.cbteNro),
+    cuitEmisor: doc.cuitEmisor,
+    docTipo: doc.docTipo,
+    docNro: doc.docNro,
+    condicionIvaReceptorId: doc.condicionIvaReceptorId,
+    impTotal: Number(doc.impTotal),
+    impNeto: Number(doc.impNeto),
+    impIva: Number(doc.impIva),
+    alicIva: doc.alicIva,
+    associatedDocumentId: doc.associatedDocumentId,
+    motivo: doc.motivo,
+    items: doc.items,
+    emisionTipo: doc.caeaId ? 'CAEA' : 'CAE',
+    cae: doc.cae,
+    caeVto: doc.caeVto,
+    caeaId: doc.caeaId,
+    informadoAt: doc.informadoAt,
+    estado: doc.estado,
+    errores: doc.errores,
+    observaciones: doc.observaciones,
+    fechaEmision: doc.fechaEmision,
+    fechaServidor: doc.fechaServidor,
+    attempts: doc.attempts,
+    nextAttemptAt: doc.nextAttemptAt,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt
+  }
 }
 
 export const invoicingRoutes: FastifyPluginAsync = async (app) => {
-  // Crear factura para una venta
+  // Emitir factura electrónica para una venta (solicita CAE a ARCA)
   app.post('/', {
     preHandler: [authenticate],
     schema: {
@@ -48,87 +130,104 @@ export const invoicingRoutes: FastifyPluginAsync = async (app) => {
       })
     }
 
-    const { saleId, type, receiver } = parsed.data
-
-    // Obtener la venta con sus items
-    const sale = await prisma.sale.findUnique({
-      where: { id: saleId },
-      include: {
-        items: {
-          include: {
-            variant: {
-              include: {
-                product: true
-              }
-            }
-          }
-        }
+    const { saleId, type, condicionIvaReceptorId, mode, ptoVta } = parsed.data
+
+    try {
+      const document = await FiscalInvoiceService.issueForSale(saleId, type, { condicionIvaReceptorId, mode, ptoVta })
+      const invoice = toInvoiceResponse(document)
+
+      if (document.estado === 'REJECTED') {
+        return reply.status(422).send({ error: true, message: 'AFIP rechazó el comprobante', invoice })
       }
-    })
 
-    if (!sale) {
-      return reply.status(404).send({ error: true, message: 'Venta no encontrada' })
+      // PENDING / NEEDS_REVIEW: se aceptó la solicitud; el worker reintenta o concilia con AFIP
+      return reply.status(document.estado === 'AUTHORIZED' ? 201 : 202).send({ invoice })
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
     }
+  })
 
-    if (sale.status !== 'COMPLETED') {
-      return reply.status(400).send({ 
-        error: true, 
-        message: 'Solo se pueden facturar ventas completadas' 
+  // Facturar varias ventas en lotes de FECAESolicitar
+  app.post('/batch', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Facturar ventas en lote',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = batchInvoiceSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
       })
     }
 
-    // Calcular totales
-    // TODO: En producción, estos cálculos serían más complejos
-    // considerando diferentes alícuotas de IVA
-    const ivaRate = type === 'FACTURA_C' ? 0 : 21
-    const netAmount = Number(sale.total) / (1 + ivaRate / 100)
-    const ivaAmount = Number(sale.total) - netAmount
-
-    // Generar número de factura (en producción, viene de AFIP)
-    const invoiceNumber = Math.floor(Math.random() * 100000000)
-    const pointOfSale = 1 // Configurar según negocio
-
-    // Crear registro de factura
-    // TODO: Crear tabla de facturas en Prisma schema
-    const invoice = {
-      id: crypto.randomUUID(),
-      saleId,
-      type,
-      typeCode: INVOICE_TYPE_CODES[type],
-      pointOfSale,
-      number: invoiceNumber,
-      formattedNumber: `${String(pointOfSale).padStart(4, '0')}-${String(invoiceNumber).padStart(8, '0')}`,
-      date: new Date(),
-      receiver,
-      items: sale.items.map(item => ({
-        description: item.variant.product.name + (item.variant.color ? ` - ${item.variant.color}` : ''),
-        quantity: item.quantity,
-        unitPrice: Number(item.unitPrice),
-        subtotal: Number(item.subtotal)
-      })),
-      netAmount: Math.round(netAmount * 100) / 100,
-      ivaRate,
-      ivaAmount: Math.round(ivaAmount * 100) / 100,
-      totalAmount: Number(sale.total),
-      // En producción, estos datos vienen de AFIP
-      cae: null as string | null,
-      caeExpirationDate: null as Date | null,
-      status: 'draft' as const,
-      createdAt: new Date()
-    }
+    try {
+      const results = await FiscalInvoiceService.issueBatch(parsed.data.saleIds, parsed.data.type, { ptoVta: parsed.data.ptoVta })
 
-    // TODO: Guardar en base de datos
-    // TODO: Enviar a AFIP para obtener CAE
+      const summary = { authorized: 0, rejected: 0, pending: 0, skipped: 0 }
+      for (const result of results) {
+        const estado = result.document?.estado
+        if (!estado) summary.skipped++
+        else if (estado === 'AUTHORIZED') summary.authorized++
+        else if (estado === 'REJECTED') summary.rejected++
+        else summary.pending++
+      }
 
-    // Placeholder: simular autorización de AFIP
-    const authorizedInvoice = {
-      ...invoice,
-      cae: '12345678901234',
-      caeExpirationDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
-      status: 'authorized' as const
+      return {
+        results: results.map(result => ({
+          saleId: result.saleId,
+          receiptNumber: result.receiptNumber,
+          status: result.document?.estado ?? 'SKIPPED',
+          message: result.message ?? null,
+          invoice: result.document ? toInvoiceResponse(result.document) : null
+        })),
+        summary
+      }
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
     }
+  })
 
-    return reply.status(201).send({ invoice: authorizedInvoice })
+  // Ventas completadas sin factura (candidatas a facturar en lote)
+  app.get('/pending-sales', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Listar ventas sin facturar',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = pendingSalesSchema.safeParse(request.query)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    const sales = await FiscalInvoiceService.listUninvoicedSales(parsed.data)
+
+    return {
+      sales: sales.map(sale => ({
+        id: sale.id,
+        receiptNumber: sale.receiptNumber,
+        total: Number(sale.total),
+        createdAt: sale.createdAt,
+        customerName: sale.customer?.name ?? null,
+        customerDocument: sale.customer?.documentNumber ?? null,
+        ivaConditionId: sale.customer?.ivaConditionId ?? null,
+        lastRejection: sale.fiscalDocuments[0] ?? null
+      }))
+    }
   })
 
   // Listar facturas
@@ -139,11 +238,32 @@ export const invoicingRoutes: FastifyPluginAsync = async (app) => {
       tags: ['Facturación'],
       security: [{ bearerAuth: [] }]
     }
-  }, async (request) => {
-    // TODO: Implementar cuando exista la tabla de facturas
-    return { 
-      invoices: [],
-      message: 'Funcionalidad en desarrollo - requiere tabla de facturas en DB'
+  }, async (request, reply) => {
+    const parsed = listInvoicesSchema.safeParse(request.query)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    const { documents, total } = await FiscalInvoiceService.list(parsed.data)
+
+    return {
+      invoices: documents.map(doc => ({
+        ...toInvoiceResponse(doc),
+        sale: {
+          receiptNumber: doc.sale.receiptNumber,
+          total: Number(doc.sale.total),
+          customerName: doc.sale.customer?.name ?? null
+        }
+      })),
+      pagination: {
+        page: parsed.data.page,
+        limit: parsed.data.limit,
+        total,
+        totalPages: Math.ceil(total / parsed.data.limit)
+      }
     }
   })
 
@@ -157,32 +277,304 @@ export const invoicingRoutes: FastifyPluginAsync = async (app) => {
     }
   }, async (request, reply) => {
     const { id } = request.params as { id: string }
-    
-    // TODO: Implementar cuando exista la tabla de facturas
-    return reply.status(404).send({ 
-      error: true, 
-      message: 'Factura no encontrada' 
-    })
+    const document = await FiscalInvoiceService.getById(id)
+
+    if (!document) {
+      return reply.status(404).send({ 
+        error: true, 
+        message: 'Factura no encontrada' 
+      })
+    }
+
+    return {
+      invoice: {
+        ...toInvoiceResponse(document),
+        sale: {
+          receiptNumber: document.sale.receiptNumber,
+          total: Number(document.sale.total),
+          createdAt: document.sale.createdAt,
+          customerName: document.sale.customer?.name ?? null
+        },
+        associatedDocument: document.associatedDocument ? toInvoiceResponse(document.associatedDocument) : null,
+        notes: document.notes.map(toInvoiceResponse)
+      }
+    }
+  })
+
+  // CUIT emisores configurados y el punto de venta con el que factura cada uno
+  app.get('/emisores', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Listar los CUIT emisores y sus puntos de venta',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async () => {
+    const emisores = await FiscalConfigService.listEmisores()
+    return {
+      emisores: emisores.map(emisor => ({
+        ...emisor,
+        formattedCuitEmisor: formatCuit(emisor.cuitEmisor)
+      }))
+    }
+  })
+
+  // Alertas de comprobantes que requieren revisión manual
+  app.get('/alerts', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Listar alertas de facturación (por defecto, solo las abiertas)',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const includeResolved = (request.query as { includeResolved?: string }).includeResolved === 'true'
+
+    const alerts = await FiscalAlertService.list(includeResolved)
+    return {
+      alerts: alerts.map(alert => ({
+        ...alert,
+        fiscalDocument: {
+          ...alert.fiscalDocument,
+          type: FISCAL_DOCUMENT_TYPES[alert.fiscalDocument.cbteTipo] ?? null,
+          formattedNumber: FiscalInvoiceService.formatNumber(alert.fiscalDocument.ptoVta, alert.fiscalDocument.cbteNro),
+          impTotal: Number(alert.fiscalDocument.impTotal)
+        }
+      }))
+    }
+  })
+
+  // Marcar una alerta como resuelta
+  app.post('/alerts/:alertId/resolve', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Marcar una alerta de facturación como resuelta',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const { alertId } = request.params as { alertId: string }
+    const alert = await FiscalAlertService.resolve(alertId, request.user.id)
+    return { alert }
+  })
+
+  // CAEA por quincena, con sus comprobantes emitidos y pendientes de informar
+  app.get('/caea', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Listar los CAEA solicitados',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async () => {
+    const caeas = await FiscalCaeaService.list()
+    return { caeas }
+  })
+
+  // Solicitar (o recuperar) el CAEA de una quincena
+  app.post('/caea', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Solicitar el CAEA de una quincena (por defecto, la actual)',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = requestCaeaSchema.safeParse(request.body ?? {})
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    const { periodo, orden } = parsed.data
+    const period = periodo !== undefined && orden !== undefined ? { periodo, orden } : getCaeaPeriod(new Date())
+
+    try {
+      const caea = await FiscalCaeaService.request(period)
+      return { caea }
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Informar ahora los comprobantes pendientes de un CAEA (o informarlo sin movimiento si venció sin uso)
+  app.post('/caea/:caeaId/inform', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Informar a AFIP los comprobantes emitidos con un CAEA',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const { caeaId } = request.params as { caeaId: string }
+
+    const summary = await FiscalCaeaService.informDue({ caeaId, force: true })
+    await FiscalCaeaService.informWithoutMovement(caeaId)
+    return { summary }
+  })
+
+  // Conciliar ahora un comprobante SENT/NEEDS_REVIEW con FECompConsultar
+  app.post('/:id/reconcile', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Consultar en AFIP un comprobante con resultado incierto y actualizar su estado',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    const document = await FiscalInvoiceService.reconcile(id)
+    if (!document) {
+      return reply.status(404).send({ error: true, message: 'Comprobante no encontrado' })
+    }
+
+    return { invoice: toInvoiceResponse(document) }
   })
 
-  // Generar PDF de factura
+  // Emitir nota de crédito o débito sobre una factura autorizada
+  const issueNote = async (id: string, params: IssueNoteParams) => {
+    const document = await FiscalInvoiceService.issueNote(id, params)
+    const note = toInvoiceResponse(document)
+
+    if (document.estado === 'REJECTED') {
+      return { status: 422, body: { error: true, message: 'AFIP rechazó la nota', note } }
+    }
+    return { status: document.estado === 'AUTHORIZED' ? 201 : 202, body: { note } }
+  }
+
+  app.post('/:id/credit-note', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Emitir nota de crédito (total o parcial) asociada a una factura',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    const parsed = creditNoteSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    if (parsed.data.amount !== undefined && parsed.data.items) {
+      return reply.status(400).send({ error: true, message: 'Indique el importe o los items, no ambos' })
+    }
+
+    try {
+      const result = await issueNote(id, { kind: 'CREDIT', ...parsed.data })
+      return reply.status(result.status).send(result.body)
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  app.post('/:id/debit-note', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Emitir nota de débito asociada a una factura',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    const parsed = debitNoteSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: true,
+        message: parsed.error.errors[0]?.message
+      })
+    }
+
+    try {
+      const result = await issueNote(id, { kind: 'DEBIT', ...parsed.data })
+      return reply.status(result.status).send(result.body)
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Datos del comprobante imprimible (el cliente arma el PDF con PDFService)
+  app.get('/:id/print-data', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Obtener datos para imprimir el comprobante (incluye QR de RG 4892)',
+      tags: ['Facturación'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+
+    try {
+      return await FiscalPdfService.getPrintData(id)
+    } catch (error) {
+      if (error instanceof FiscalPdfError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // PDF del comprobante generado en el servidor
   app.get('/:id/pdf', {
     preHandler: [authenticate],
     schema: {
-      description: 'Generar PDF de factura',
+      description: 'Descargar PDF de factura',
       tags: ['Facturación'],
       security: [{ bearerAuth: [] }]
     }
   }, async (request, reply) => {
     const { id } = request.params as { id: string }
-    
-    // TODO: Implementar generación de PDF
-    // Usar librería como PDFKit o Puppeteer
-    
-    return reply.status(501).send({ 
-      error: true, 
-      message: 'Generación de PDF en desarrollo' 
-    })
+
+    try {
+      const { fileName, buffer } = await FiscalPdfService.render(id)
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(buffer)
+    } catch (error) {
+      if (error instanceof FiscalPdfError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
+  // Datos del contribuyente en el padrón de AFIP (razón social, domicilio fiscal, condición IVA)
+  app.get('/padron/:cuit', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Consultar un CUIT en el padrón de AFIP (con cache)',
+      tags: ['Facturación']
+    }
+  }, async (request, reply) => {
+    const { cuit } = request.params as { cuit: string }
+    const { refresh } = request.query as { refresh?: string }
+
+    try {
+      return await FiscalPadronService.lookup(cuit, { refresh: refresh === 'true' })
+    } catch (error) {
+      if (error instanceof FiscalPadronError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
   })
 
   // Validar CUIT
@@ -199,21 +591,9 @@ export const invoicingRoutes: FastifyPluginAsync = async (app) => {
       return { valid: false, message: 'Formato de CUIT inválido' }
     }
 
-    // Algoritmo de validación
-    const multipliers = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
-    let sum = 0
-    
-    for (let i = 0; i < 10; i++) {
-      sum += parseInt(cleanCuit[i]!) * multipliers[i]!
-    }
-    
-    const remainder = sum % 11
-    const verifier = remainder === 0 ? 0 : remainder === 1 ? 9 : 11 - remainder
-    const isValid = parseInt(cleanCuit[10]!) === verifier
-
     return { 
-      valid: isValid, 
-      formatted: `${cleanCuit.slice(0, 2)}-${cleanCuit.slice(2, 10)}-${cleanCuit.slice(10)}`
+      valid: isValidCuit(cleanCuit), 
+      formatted: formatCuit(cleanCuit)
     }
   })
 }
@@ -4,11 +4,28 @@ import { prisma } from '../config/database.js'
 import { authenticate } from '../middleware/auth.js'
 import { PaymentMethodType } from '@prisma/client'
 
+const percentageSchema = z.number().min(0, 'El porcentaje no puede ser negativo').max(100, 'El porcentaje no puede superar 100')
+
+// Recargos, cuotas, descuentos y comisiones (PaymentPricingConfig); se conservan otras claves del método
+const paymentMethodConfigSchema = z.object({
+  installmentPlans: z.array(z.object({
+    installments: z.number().int().min(1).max(60),
+    surchargePercentage: percentageSchema
+  })).refine(
+    plans => new Set(plans.map(plan => plan.installments)).size === plans.length,
+    { message: 'Hay planes de cuotas repetidos' }
+  ).optional(),
+  surchargePercentage: percentageSchema.optional(),
+  discountPercentage: percentageSchema.optional(),
+  commissionPercentage: percentageSchema.optional(),
+  fixedFee: z.number().min(0).optional()
+}).passthrough()
+
 const paymentMethodSchema = z.object({
   name: z.string().min(2),
   type: z.enum(['CASH', 'DEBIT', 'CREDIT', 'TRANSFER', 'QR', 'OTHER']),
   isActive: z.boolean().optional(),
-  config: z.record(z.unknown()).optional()
+  config: paymentMethodConfigSchema.optional()
 })
 
 export const paymentMethodsRoutes: FastifyPluginAsync = async (app) => {
@@ -10,6 +10,7 @@ const productSchema = z.object({
   categoryId: z.string().uuid('ID de categoría inválido'),
   supplierId: z.string().uuid().optional(),
   basePrice: z.number().positive('Precio debe ser positivo'),
+  ivaRate: z.union([z.literal(0), z.literal(10.5), z.literal(21)]).default(21),
   minStock: z.number().int().min(0).default(10)
 })
 
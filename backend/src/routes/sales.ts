@@ -3,6 +3,9 @@ import { z } from 'zod'
 import { prisma } from '../config/database.js'
 import { authenticate } from '../middleware/auth.js'
 import { Prisma } from '@prisma/client'
+import { FiscalInvoiceService, FiscalInvoiceError } from '../services/arca/index.js'
+import { SaleReturnService, SaleReturnError } from '../services/sales/index.js'
+import { settlePayments, pricePayment, parsePaymentConfig } from '../utils/payments.js'
 
 const saleItemSchema = z.object({
   variantId: z.string().uuid(),
@@ -11,11 +14,40 @@ const saleItemSchema = z.object({
   discount: z.number().min(0).max(100).default(0)
 })
 
-const createSaleSchema = z.object({
+// Un pago de la venta; en efectivo puede informarse lo entregado para calcular el vuelto.
+// El monto es la parte del total de los artículos: el recargo del método (o de las cuotas) se suma aparte
+const salePaymentSchema = z.object({
   paymentMethodId: z.string().uuid(),
+  amount: z.number().positive(),
+  tendered: z.number().positive().optional(),
+  installments: z.number().int().positive().optional()
+})
+
+const createSaleSchema = z.object({
+  // Método único (compatibilidad): equivale a un pago por el total
+  paymentMethodId: z.string().uuid().optional(),
+  installments: z.number().int().positive().optional(),
+  payments: z.array(salePaymentSchema).min(1).optional(),
   customerId: z.string().uuid().optional(),
   items: z.array(saleItemSchema).min(1),
   notes: z.string().optional()
+}).refine(data => data.paymentMethodId || data.payments, {
+  message: 'Indique el método de pago o los pagos de la venta'
+})
+
+const createReturnSchema = z.object({
+  items: z.array(z.object({
+    saleItemId: z.string().uuid(),
+    quantity: z.number().int().positive()
+  })).min(1, 'Seleccione al menos un artículo a devolver'),
+  // Artículos que se llevan a cambio (opcional)
+  exchangeItems: z.array(saleItemSchema).default([]),
+  // Positivo = reintegro al cliente; negativo = cobro de la diferencia del cambio
+  refunds: z.array(z.object({
+    paymentMethodId: z.string().uuid(),
+    amount: z.number()
+  })).default([]),
+  reason: z.string().max(500).optional()
 })
 
 export const salesRoutes: FastifyPluginAsync = async (app) => {
@@ -43,8 +75,14 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
     const skip = (page - 1) * limit
 
     const where: Prisma.SaleWhereInput = {
-      ...(query.status && { status: query.status as 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED' }),
-      ...(query.paymentMethodId && { paymentMethodId: query.paymentMethodId }),
+      ...(query.status && { status: query.status as 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED' | 'PARTIALLY_REFUNDED' }),
+      // Incluye las ventas con pagos divididos que usaron el método
+      ...(query.paymentMethodId && {
+        OR: [
+          { paymentMethodId: query.paymentMethodId },
+          { payments: { some: { paymentMethodId: query.paymentMethodId } } }
+        ]
+      }),
       ...(query.userId && { userId: query.userId }),
       ...(query.startDate && {
         createdAt: {
@@ -68,6 +106,7 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
         include: {
           user: { select: { id: true, name: true } },
           paymentMethod: { select: { id: true, name: true, type: true } },
+          payments: { include: { paymentMethod: { select: { id: true, name: true, type: true } } } },
           customer: { select: { id: true, name: true } },
           items: {
             include: {
@@ -110,6 +149,7 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
       include: {
         user: { select: { id: true, name: true, email: true } },
         paymentMethod: true,
+        payments: { include: { paymentMethod: { select: { id: true, name: true, type: true } } } },
         customer: true,
         items: {
           include: {
@@ -119,6 +159,10 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
               }
             }
           }
+        },
+        returns: {
+          include: { items: true, exchangeItems: true, refunds: true },
+          orderBy: { createdAt: 'desc' }
         }
       }
     })
@@ -144,7 +188,7 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
     }
 
-    const { paymentMethodId, customerId, items, notes } = parsed.data
+    const { customerId, items, notes } = parsed.data
     const userId = request.user.id
 
     // Generar número de recibo
@@ -179,7 +223,38 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
       totalDiscount += itemDiscount
     }
 
-    const total = subtotal - totalDiscount
+    const itemsTotal = Math.round((subtotal - totalDiscount) * 100) / 100
+
+    // Pagos: deben sumar el total; el efectivo entregado de más se devuelve como vuelto
+    const requestedPayments = parsed.data.payments
+      ?? [{ paymentMethodId: parsed.data.paymentMethodId!, amount: itemsTotal, installments: parsed.data.installments }]
+    const methods = await prisma.paymentMethod.findMany({
+      where: { id: { in: requestedPayments.map(payment => payment.paymentMethodId) } },
+      select: { id: true, type: true, isActive: true, config: true }
+    })
+    const methodById = new Map(methods.map(method => [method.id, method]))
+    const unknownMethod = requestedPayments.find(payment => !methodById.get(payment.paymentMethodId)?.isActive)
+    if (unknownMethod) {
+      return reply.status(400).send({ error: true, message: `Método de pago ${unknownMethod.paymentMethodId} no encontrado o inactivo` })
+    }
+
+    // Recargos y comisiones según la configuración vigente de cada método
+    let settlement: ReturnType<typeof settlePayments>
+    try {
+      settlement = settlePayments(itemsTotal, requestedPayments.map(payment => {
+        const method = methodById.get(payment.paymentMethodId)!
+        return {
+          ...payment,
+          type: method.type,
+          pricing: pricePayment(payment.amount, method.type, parsePaymentConfig(method.config), payment.installments)
+        }
+      }))
+    } catch (error) {
+      return reply.status(400).send({ error: true, message: error instanceof Error ? error.message : 'Pagos inválidos' })
+    }
+
+    // Método principal: el indicado o el del primer pago
+    const paymentMethodId = parsed.data.paymentMethodId ?? settlement.payments[0]!.paymentMethodId
 
     // Crear venta con transacción
     const sale = await prisma.$transaction(async (tx) => {
@@ -194,7 +269,9 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
           notes,
           subtotal,
           discount: totalDiscount,
-          total,
+          surcharge: settlement.surcharge,
+          total: Math.round((itemsTotal + settlement.surcharge) * 100) / 100,
+          paymentFees: settlement.fees,
           items: {
             create: items.map(item => ({
               variantId: item.variantId,
@@ -203,11 +280,23 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
               discount: item.discount,
               subtotal: item.unitPrice * item.quantity * (1 - item.discount / 100)
             }))
+          },
+          payments: {
+            create: settlement.payments.map(payment => ({
+              paymentMethodId: payment.paymentMethodId,
+              amount: payment.amount,
+              tendered: payment.tendered,
+              change: payment.change,
+              installments: payment.installments,
+              surcharge: payment.surcharge,
+              fee: payment.fee
+            }))
           }
         },
         include: {
           items: true,
-          paymentMethod: true
+          paymentMethod: true,
+          payments: true
         }
       })
 
@@ -240,7 +329,7 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
       return newSale
     })
 
-    return reply.status(201).send({ sale })
+    return reply.status(201).send({ sale, change: settlement.change })
   })
 
   // Cancelar venta
@@ -267,6 +356,16 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: 'Solo se pueden cancelar ventas completadas' })
     }
 
+    // Una venta facturada requiere nota de crédito por el total antes de cancelarse
+    try {
+      await FiscalInvoiceService.assertCanCancel(id)
+    } catch (error) {
+      if (error instanceof FiscalInvoiceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+
     // Cancelar con transacción
     await prisma.$transaction(async (tx) => {
       // Actualizar estado
@@ -305,6 +404,46 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
     return { message: 'Venta cancelada y stock restaurado' }
   })
 
+  // Devoluciones y cambios de una venta
+  app.get('/:id/returns', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Listar devoluciones y cambios de una venta',
+      tags: ['Ventas'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const { id } = request.params as { id: string }
+    const returns = await SaleReturnService.listBySale(id)
+    return { returns }
+  })
+
+  // Devolución parcial (con cambio opcional)
+  app.post('/:id/returns', {
+    preHandler: [authenticate],
+    schema: {
+      description: 'Registrar devolución parcial o cambio de artículos',
+      tags: ['Ventas'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = createReturnSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
+    }
+
+    try {
+      const result = await SaleReturnService.register(id, parsed.data, request.user.id)
+      return reply.status(201).send({ saleReturn: result.saleReturn, stockLevels: result.stockLevels })
+    } catch (error) {
+      if (error instanceof SaleReturnError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+  })
+
   // Resumen de ventas del día
   app.get('/summary/today', {
     preHandler: [authenticate],
@@ -317,27 +456,36 @@ export const salesRoutes: FastifyPluginAsync = async (app) => {
     const today = new Date()
     today.setHours(0, 0, 0, 0)
 
-    const [sales, totals] = await Promise.all([
+    // Las ventas con devoluciones parciales siguen contando; lo reintegrado se informa aparte
+    const [sales, totals, refunds] = await Promise.all([
       prisma.sale.count({
         where: {
-          status: 'COMPLETED',
+          status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED'] },
           createdAt: { gte: today }
         }
       }),
       prisma.sale.aggregate({
         where: {
-          status: 'COMPLETED',
+          status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED'] },
           createdAt: { gte: today }
         },
-        _sum: { total: true },
+        _sum: { total: true, paymentFees: true },
         _avg: { total: true }
+      }),
+      prisma.saleRefund.aggregate({
+        where: { createdAt: { gte: today } },
+        _sum: { amount: true }
       })
     ])
 
     return {
       salesCount: sales,
       totalAmount: totals._sum.total ?? 0,
-      averageAmount: totals._avg.total ?? 0
+      averageAmount: totals._avg.total ?? 0,
+      // Bruto (totalAmount) y neto de comisiones de tarjeta/QR
+      paymentFeesAmount: totals._sum.paymentFees ?? 0,
+      netAmount: Math.round((Number(totals._sum.total ?? 0) - Number(totals._sum.paymentFees ?? 0)) * 100) / 100,
+      refundedAmount: refunds._sum.amount ?? 0
     }
   })
 }
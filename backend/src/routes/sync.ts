@@ -1,7 +1,13 @@
 import { FastifyPluginAsync } from 'fastify'
 import { z } from 'zod'
-import { prisma } from '../config/database.js'
-import { authenticate } from '../middleware/auth.js'
+import { prisma, recordSyncTombstones, type TxClient } from '../config/database.js'
+import { authenticate, authorize } from '../middleware/auth.js'
+import { SyncChangeLog, SyncChangeNotifier, SyncDeviceRegistry, SyncDeviceError } from '../services/sync/index.js'
+import { FiscalInvoiceService } from '../services/arca/index.js'
+import { SaleReturnService } from '../services/sales/index.js'
+import { CashSessionService } from '../services/cash/index.js'
+import { settlePayments } from '../utils/payments.js'
+import { createMovementIdPool } from '../utils/sales.js'
 
 // Esquema para operación de sincronización
 const syncOperationSchema = z.object({
@@ -15,7 +21,9 @@ const syncOperationSchema = z.object({
 
 const syncPullSchema = z.object({
   deviceId: z.string(),
-  lastSyncAt: z.string().datetime().nullable().optional()
+  // Cursor devuelto por el pull anterior (seq del change log); 0 = sincronización completa
+  cursor: z.number().int().nonnegative().default(0),
+  limit: z.number().int().positive().max(SyncChangeLog.MAX_PAGE_SIZE).default(SyncChangeLog.DEFAULT_PAGE_SIZE)
 })
 
 const syncPushSchema = z.object({
@@ -23,6 +31,180 @@ const syncPushSchema = z.object({
   operations: z.array(syncOperationSchema)
 })
 
+// Esquema del payload de una venta creada offline (formato SaleRecord del cliente)
+const syncSaleSchema = z.object({
+  receiptNumber: z.string().min(1),
+  userId: z.string().optional(),
+  customerId: z.string().uuid().nullable().optional(),
+  paymentMethodId: z.string().uuid(),
+  cashSessionId: z.string().uuid().nullable().optional(),
+  status: z.enum(['pending', 'completed', 'cancelled', 'refunded']).default('completed'),
+  notes: z.string().nullable().optional(),
+  items: z.array(z.object({
+    id: z.string().uuid().optional(),
+    variantId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+    unitPriceCents: z.number().int().nonnegative(),
+    discountPercentage: z.number().min(0).max(100).default(0)
+  })).min(1),
+  payments: z.array(z.object({
+    id: z.string().uuid().optional(),
+    paymentMethodId: z.string().uuid(),
+    amount: z.number().positive(),
+    tendered: z.number().positive().nullable().optional(),
+    // Cuotas, recargo y comisión aplicados en el dispositivo al cobrar
+    installments: z.number().int().positive().optional(),
+    surcharge: z.number().optional(),
+    fee: z.number().nonnegative().optional()
+  })).optional(),
+  stockMovements: z.array(z.object({
+    id: z.string().uuid(),
+    variantId: z.string().uuid()
+  })).optional(),
+  createdAt: z.string().datetime().optional()
+})
+
+// Devolución parcial o cambio registrado offline (formato SaleReturnRecord del cliente)
+const syncSaleReturnSchema = z.object({
+  saleId: z.string().uuid(),
+  userId: z.string().optional(),
+  cashSessionId: z.string().uuid().nullable().optional(),
+  reason: z.string().nullable().optional(),
+  items: z.array(z.object({
+    saleItemId: z.string().uuid(),
+    quantity: z.number().int().positive()
+  })).min(1),
+  exchangeItems: z.array(z.object({
+    id: z.string().uuid().optional(),
+    variantId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+    unitPriceCents: z.number().int().nonnegative(),
+    discountPercentage: z.number().min(0).max(100).default(0)
+  })).default([]),
+  refunds: z.array(z.object({
+    id: z.string().uuid().optional(),
+    paymentMethodId: z.string().uuid(),
+    amount: z.number()
+  })).default([]),
+  stockMovements: z.array(z.object({
+    id: z.string().uuid(),
+    variantId: z.string().uuid(),
+    type: z.enum(['return', 'sale'])
+  })).optional(),
+  createdAt: z.string().datetime().optional()
+})
+
+// Sesión de caja del dispositivo (formato CashSessionRecord del cliente): se envía completa en cada cambio
+const syncCashSessionSchema = z.object({
+  deviceId: z.string().min(1),
+  userId: z.string().optional(),
+  status: z.enum(['open', 'closed']),
+  openingAmount: z.number().nonnegative(),
+  openedAt: z.coerce.date().optional(),
+  closedAt: z.coerce.date().nullish(),
+  closedById: z.string().nullish(),
+  movements: z.array(z.object({
+    id: z.string().uuid(),
+    type: z.enum(['deposit', 'withdrawal']),
+    amount: z.number().positive(),
+    reason: z.string().min(1),
+    userId: z.string().optional(),
+    createdAt: z.coerce.date().optional()
+  })).default([]),
+  expectedCash: z.number().nullish(),
+  countedCash: z.number().nonnegative().nullish(),
+  difference: z.number().nullish(),
+  cashCount: z.record(z.number()).nullish(),
+  notes: z.string().nullish()
+})
+
+const syncLogsQuerySchema = z.object({
+  deviceId: z.string().optional(),
+  status: z.string().default('ERROR,CONFLICT')
+    .transform(value => value.split(',').map(s => s.trim().toUpperCase()))
+    .pipe(z.array(z.enum(['PENDING', 'SYNCED', 'ERROR', 'CONFLICT'])).min(1)),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+})
+
+const syncDeviceUpdateSchema = z.object({
+  name: z.string().trim().max(100).nullable()
+})
+
+const syncEventsQuerySchema = z.object({
+  token: z.string().min(1)
+})
+
+// Comentario periódico para que proxies y navegadores no cierren la conexión SSE
+const SSE_HEARTBEAT_MS = 25000
+
+// Conexiones SSE abiertas por dispositivo: se cierran al revocarlo
+const eventStreams = new Map<string, Set<() => void>>()
+
+// Movimiento de stock creado offline (formato del cliente).
+// Se aplica como delta con signo: previousStock/newStock del dispositivo solo sirven para calcularlo
+const syncStockMovementSchema = z.object({
+  variantId: z.string().uuid(),
+  userId: z.string().optional(),
+  type: z.enum(['sale', 'purchase', 'adjustment', 'return', 'transfer', 'damage']),
+  quantity: z.number().nonnegative(),
+  previousStock: z.number(),
+  newStock: z.number(),
+  delta: z.number().int().optional(),
+  reason: z.string().optional(),
+  referenceId: z.string().nullish(),
+  createdAt: z.string().datetime().optional()
+})
+
+const STOCK_MOVEMENT_TYPE_TO_SERVER = {
+  sale: 'SALE',
+  purchase: 'ENTRY',
+  adjustment: 'ADJUSTMENT',
+  return: 'RETURN',
+  transfer: 'ADJUSTMENT',
+  damage: 'LOSS'
+} as const
+
+interface StockShortage {
+  variantId: string
+  requested: number
+  available: number
+}
+
+// Stock autoritativo de una variante luego de aplicar la operación
+interface StockLevel {
+  variantId: string
+  currentStock: number
+}
+
+// Resultado opcional de procesar una operación (se devuelve al cliente en el push)
+interface OperationOutcome {
+  duplicate?: boolean
+  stockShortages?: StockShortage[]
+  stockLevels?: StockLevel[]
+}
+
+interface OperationContext {
+  userId: string
+}
+
+interface SyncPushResult {
+  id: string
+  status: 'success' | 'error'
+  error?: string
+  duplicate?: boolean
+  tombstoned?: boolean
+  stockShortages?: StockShortage[]
+  stockLevels?: StockLevel[]
+}
+
+// Operación sobre un registro eliminado (con tombstone): el dispositivo debe descartarla
+class TombstonedRecordError extends Error {
+  constructor(tableName: string, recordId: string) {
+    super(`El registro ${tableName}/${recordId} fue eliminado en el servidor`)
+    this.name = 'TombstonedRecordError'
+  }
+}
+
 export const syncRoutes: FastifyPluginAsync = async (app) => {
   // Pull: obtener cambios desde el servidor
   app.post('/pull', {
@@ -38,33 +220,139 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
     }
 
-    const { deviceId, lastSyncAt } = parsed.data
-    const since = lastSyncAt ? new Date(lastSyncAt) : new Date(0)
+    const { cursor, limit } = parsed.data
 
-    // Obtener cambios de cada tabla desde lastSyncAt
-    const [categories, products, variants, paymentMethods] = await Promise.all([
+    let deviceId: string
+    try {
+      deviceId = await SyncDeviceRegistry.resolveSessionDevice(request.user.deviceId, parsed.data.deviceId)
+    } catch (error) {
+      if (error instanceof SyncDeviceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+
+    // Leer una página del change log y cargar el estado actual de esos registros
+    const page = await SyncChangeLog.readPage(cursor, limit)
+    const idsByTable = SyncChangeLog.groupByTable(page.entries)
+    const idsFor = (tableName: string) => ({ id: { in: idsByTable.get(tableName) ?? [] } })
+
+    const [
+      categories,
+      products,
+      variants,
+      paymentMethods,
+      customers,
+      suppliers,
+      users,
+      sales,
+      saleReturns,
+      stockMovements
+    ] = await Promise.all([
       prisma.category.findMany({
-        where: { updatedAt: { gt: since } }
+        where: idsFor('categories')
       }),
       prisma.product.findMany({
-        where: { updatedAt: { gt: since } },
+        where: idsFor('products'),
         include: { category: { select: { name: true } } }
       }),
       prisma.productVariant.findMany({
-        where: { updatedAt: { gt: since } }
+        where: idsFor('productVariants')
       }),
       prisma.paymentMethod.findMany({
-        where: { updatedAt: { gt: since } }
+        where: idsFor('paymentMethods')
+      }),
+      prisma.customer.findMany({
+        where: idsFor('customers')
+      }),
+      prisma.supplier.findMany({
+        where: idsFor('suppliers')
+      }),
+      // Nunca enviar el hash de la contraseña a los dispositivos
+      prisma.user.findMany({
+        where: idsFor('users'),
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          isActive: true,
+          lastLoginAt: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      }),
+      prisma.sale.findMany({
+        where: idsFor('sales'),
+        include: {
+          paymentMethod: { select: { type: true } },
+          payments: true,
+          items: {
+            include: {
+              variant: {
+                select: {
+                  sku: true,
+                  color: true,
+                  size: true,
+                  product: { select: { name: true } }
+                }
+              }
+            }
+          }
+        }
+      }),
+      prisma.saleReturn.findMany({
+        where: idsFor('saleReturns'),
+        include: {
+          refunds: true,
+          items: {
+            include: {
+              variant: {
+                select: {
+                  color: true,
+                  size: true,
+                  product: { select: { name: true } }
+                }
+              }
+            }
+          },
+          exchangeItems: {
+            include: {
+              variant: {
+                select: {
+                  color: true,
+                  size: true,
+                  product: { select: { name: true } }
+                }
+              }
+            }
+          }
+        }
+      }),
+      prisma.stockMovement.findMany({
+        where: idsFor('stockMovements')
       })
     ])
 
+    // Tombstones de los registros eliminados dentro de esta página
+    const deletedEntries = page.entries.filter(entry => entry.operation === 'delete')
+    const tombstones = deletedEntries.length > 0
+      ? (await prisma.syncTombstone.findMany({
+          where: { recordId: { in: deletedEntries.map(entry => entry.recordId) } },
+          select: { tableName: true, recordId: true, deletedAt: true }
+        })).filter(t => deletedEntries.some(e => e.tableName === t.tableName && e.recordId === t.recordId))
+      : []
+
     // Registrar sync log
+    await SyncDeviceRegistry.touch(deviceId, 'pull')
+
     await prisma.syncLog.create({
       data: {
         deviceId,
         operation: 'pull',
         tableName: 'all',
         recordId: 'pull-all',
+        data: { cursor, nextCursor: page.nextCursor, changes: page.entries.length },
         status: 'SYNCED',
         syncedAt: new Date()
       }
@@ -72,12 +360,21 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
 
     return {
       syncedAt: new Date().toISOString(),
+      cursor: page.nextCursor,
+      hasMore: page.hasMore,
       changes: {
         categories,
         products,
         variants,
-        paymentMethods
-      }
+        paymentMethods,
+        customers,
+        suppliers,
+        users,
+        sales,
+        saleReturns,
+        stockMovements
+      },
+      tombstones
     }
   })
 
@@ -95,13 +392,26 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
     }
 
-    const { deviceId, operations } = parsed.data
-    const results: Array<{ id: string; status: 'success' | 'error'; error?: string }> = []
+    const { operations } = parsed.data
+
+    // El dispositivo sale del token; uno revocado desde el panel de salud no puede enviar cambios
+    let deviceId: string
+    try {
+      deviceId = await SyncDeviceRegistry.resolveSessionDevice(request.user.deviceId, parsed.data.deviceId)
+    } catch (error) {
+      if (error instanceof SyncDeviceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+    await SyncDeviceRegistry.touch(deviceId, 'push')
+
+    const results: SyncPushResult[] = []
 
     for (const op of operations) {
       try {
         // Procesar operación según tabla
-        await processOperation(op)
+        const outcome = await processOperation(op, { userId: request.user.id })
         
         // Registrar éxito
         await prisma.syncLog.create({
@@ -116,7 +426,7 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
           }
         })
 
-        results.push({ id: op.id, status: 'success' })
+        results.push({ id: op.id, status: 'success', ...outcome })
       } catch (error) {
         // Registrar error
         await prisma.syncLog.create({
@@ -126,7 +436,7 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
             tableName: op.tableName,
             recordId: op.recordId,
             data: op.data,
-            status: 'ERROR',
+            status: error instanceof TombstonedRecordError ? 'CONFLICT' : 'ERROR',
             error: error instanceof Error ? error.message : 'Error desconocido'
           }
         })
@@ -134,7 +444,8 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
         results.push({ 
           id: op.id, 
           status: 'error', 
-          error: error instanceof Error ? error.message : 'Error desconocido'
+          error: error instanceof Error ? error.message : 'Error desconocido',
+          ...(error instanceof TombstonedRecordError && { tombstoned: true })
         })
       }
     }
@@ -148,6 +459,77 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
     }
   })
 
+  // Canal de eventos en tiempo real (Server-Sent Events)
+  // EventSource no permite enviar headers: el token JWT se recibe por query string
+  app.get('/events', {
+    schema: {
+      description: 'Notificaciones de cambios en tiempo real (text/event-stream)',
+      tags: ['Sincronización']
+    }
+  }, async (request, reply) => {
+    const parsed = syncEventsQuerySchema.safeParse(request.query)
+    if (!parsed.success) {
+      return reply.status(401).send({ error: true, message: 'Token JWT no proporcionado' })
+    }
+
+    let tokenDeviceId: string | undefined
+    try {
+      tokenDeviceId = app.jwt.verify<{ deviceId?: string }>(parsed.data.token).deviceId
+    } catch {
+      return reply.status(401).send({ error: true, message: 'Token JWT inválido o expirado' })
+    }
+
+    let deviceId: string
+    try {
+      deviceId = await SyncDeviceRegistry.resolveSessionDevice(tokenDeviceId)
+    } catch (error) {
+      if (error instanceof SyncDeviceError) {
+        return reply.status(error.statusCode).send({ error: true, message: error.message })
+      }
+      throw error
+    }
+
+    // La conexión queda abierta: se responde directamente sobre el socket
+    reply.hijack()
+    const origin = request.headers.origin
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      ...(origin && {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Credentials': 'true'
+      })
+    })
+
+    const send = (event: string, data: unknown) => {
+      reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    // Reintento del EventSource si se corta la conexión
+    reply.raw.write('retry: 5000\n\n')
+    send('ready', { connectedAt: new Date().toISOString() })
+
+    const unsubscribe = SyncChangeNotifier.subscribe(notification => send('changes', notification))
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), SSE_HEARTBEAT_MS)
+
+    const streams = eventStreams.get(deviceId) ?? new Set()
+    const cleanup = () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+      streams.delete(close)
+      if (streams.size === 0 && eventStreams.get(deviceId) === streams) eventStreams.delete(deviceId)
+    }
+    const close = () => {
+      cleanup()
+      reply.raw.end()
+    }
+    streams.add(close)
+    eventStreams.set(deviceId, streams)
+
+    request.raw.on('close', cleanup)
+  })
+
   // Estado de sincronización
   app.get('/status', {
     preHandler: [authenticate],
@@ -190,6 +572,89 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
     }
   })
 
+  // Salud de sincronización por dispositivo (panel de administración)
+  app.get('/devices', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Dispositivos con última sincronización, tasa de errores y operaciones trabadas',
+      tags: ['Sincronización'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async () => {
+    const devices = await SyncDeviceRegistry.getHealth()
+    return { devices, windowDays: SyncDeviceRegistry.HEALTH_WINDOW_DAYS }
+  })
+
+  // Entradas del log con payload (por defecto, errores y conflictos)
+  app.get('/logs', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Entradas recientes del log de sincronización',
+      tags: ['Sincronización'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const parsed = syncLogsQuerySchema.safeParse(request.query)
+    if (!parsed.success) {
+      return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
+    }
+
+    const logs = await SyncDeviceRegistry.getLogs({
+      deviceId: parsed.data.deviceId,
+      statuses: parsed.data.status,
+      limit: parsed.data.limit
+    })
+    return { logs }
+  })
+
+  // Nombrar un dispositivo
+  app.patch('/devices/:deviceId', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Asignar un nombre a un dispositivo',
+      tags: ['Sincronización'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    const { deviceId } = request.params as { deviceId: string }
+    const parsed = syncDeviceUpdateSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ error: true, message: parsed.error.errors[0]?.message })
+    }
+
+    const device = await SyncDeviceRegistry.rename(deviceId, parsed.data.name || null)
+    return { device }
+  })
+
+  // Revocar un dispositivo: se rechazan sus push, pull e inicios de sesión y se cierra su canal de eventos
+  app.post('/devices/:deviceId/revoke', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Revocar un dispositivo',
+      tags: ['Sincronización'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const { deviceId } = request.params as { deviceId: string }
+    const device = await SyncDeviceRegistry.setRevoked(deviceId, true)
+    eventStreams.get(deviceId)?.forEach(close => close())
+    return { device }
+  })
+
+  // Rehabilitar un dispositivo revocado
+  app.post('/devices/:deviceId/restore', {
+    preHandler: [authenticate, authorize('ADMIN')],
+    schema: {
+      description: 'Rehabilitar un dispositivo revocado',
+      tags: ['Sincronización'],
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request) => {
+    const { deviceId } = request.params as { deviceId: string }
+    const device = await SyncDeviceRegistry.setRevoked(deviceId, false)
+    return { device }
+  })
+
   // Limpiar logs de sync antiguos
   app.delete('/logs/cleanup', {
     preHandler: [authenticate],
@@ -217,9 +682,22 @@ export const syncRoutes: FastifyPluginAsync = async (app) => {
 }
 
 // Función auxiliar para procesar operaciones
-async function processOperation(op: z.infer<typeof syncOperationSchema>) {
+async function processOperation(
+  op: z.infer<typeof syncOperationSchema>,
+  context: OperationContext
+): Promise<OperationOutcome | void> {
   const { operation, tableName, recordId, data } = op
 
+  // Rechazar cambios sobre registros eliminados (evita que un dispositivo desactualizado los resucite)
+  if (operation !== 'delete') {
+    const tombstone = await prisma.syncTombstone.findUnique({
+      where: { tableName_recordId: { tableName, recordId } }
+    })
+    if (tombstone) {
+      throw new TombstonedRecordError(tableName, recordId)
+    }
+  }
+
   switch (tableName) {
     case 'categories':
       return processCategory(operation, recordId, data)
@@ -227,10 +705,18 @@ async function processOperation(op: z.infer<typeof syncOperationSchema>) {
       return processProduct(operation, recordId, data)
     case 'productVariants':
       return processVariant(operation, recordId, data)
+    case 'customers':
+      return processCustomer(operation, recordId, data)
+    case 'suppliers':
+      return processSupplier(operation, recordId, data)
     case 'sales':
-      return processSale(operation, recordId, data)
+      return processSale(operation, recordId, data, context)
+    case 'saleReturns':
+      return processSaleReturn(operation, recordId, data, context)
     case 'stockMovements':
-      return processStockMovement(operation, recordId, data)
+      return processStockMovement(operation, recordId, data, context)
+    case 'cashSessions':
+      return processCashSession(operation, recordId, data, context)
     default:
       throw new Error(`Tabla no soportada: ${tableName}`)
   }
@@ -238,7 +724,11 @@ async function processOperation(op: z.infer<typeof syncOperationSchema>) {
 
 async function processCategory(operation: string, id: string, data: Record<string, unknown> | null) {
   if (operation === 'delete') {
-    await prisma.category.update({ where: { id }, data: { isActive: false } })
+    // Baja lógica (hay referencias históricas) + tombstone para el resto de los dispositivos
+    await prisma.$transaction(async (tx) => {
+      await tx.category.update({ where: { id }, data: { isActive: false } })
+      await recordSyncTombstones('categories', [id])
+    })
     return
   }
 
@@ -258,7 +748,11 @@ async function processCategory(operation: string, id: string, data: Record<strin
 
 async function processProduct(operation: string, id: string, data: Record<string, unknown> | null) {
   if (operation === 'delete') {
-    await prisma.product.update({ where: { id }, data: { isActive: false } })
+    // Baja lógica (hay referencias históricas) + tombstone para el resto de los dispositivos
+    await prisma.$transaction(async (tx) => {
+      await tx.product.update({ where: { id }, data: { isActive: false } })
+      await recordSyncTombstones('products', [id])
+    })
     return
   }
 
@@ -269,6 +763,7 @@ async function processProduct(operation: string, id: string, data: Record<string
       description?: string
       categoryId?: string
       basePrice?: number
+      ivaRate?: number
       minStock?: number
     }
 
@@ -282,7 +777,11 @@ async function processProduct(operation: string, id: string, data: Record<string
 
 async function processVariant(operation: string, id: string, data: Record<string, unknown> | null) {
   if (operation === 'delete') {
-    await prisma.productVariant.update({ where: { id }, data: { isActive: false } })
+    // Baja lógica (hay referencias históricas) + tombstone para el resto de los dispositivos
+    await prisma.$transaction(async (tx) => {
+      await tx.productVariant.update({ where: { id }, data: { isActive: false } })
+      await recordSyncTombstones('productVariants', [id])
+    })
     return
   }
 
@@ -297,54 +796,437 @@ async function processVariant(operation: string, id: string, data: Record<string
       barcode?: string
     }
 
+    // El stock solo cambia por movimientos (deltas): en una actualización se ignora el valor del dispositivo
     await prisma.productVariant.upsert({
       where: { id },
       create: { id, ...variantData, sku: variantData.sku ?? id, productId: variantData.productId ?? '' },
-      update: variantData
+      update: { ...variantData, currentStock: undefined }
+    })
+  }
+}
+
+async function processCustomer(operation: string, id: string, data: Record<string, unknown> | null) {
+  if (operation === 'delete') {
+    const existing = await prisma.customer.findUnique({ where: { id }, select: { id: true } })
+    if (existing) {
+      // El borrado físico registra el tombstone automáticamente
+      await prisma.customer.delete({ where: { id } })
+    } else {
+      await prisma.$transaction(() => recordSyncTombstones('customers', [id]))
+    }
+    return
+  }
+
+  if ((operation === 'create' || operation === 'update') && data) {
+    const customerData = {
+      name: data.name as string,
+      documentNumber: (data.documentNumber as string | undefined) ?? null,
+      // Los clientes que no manejan la condición IVA no la envían: se conserva la del servidor
+      ...(data.ivaConditionId !== undefined && { ivaConditionId: data.ivaConditionId as number | null }),
+      phone: (data.phone as string | undefined) ?? null,
+      email: (data.email as string | undefined) ?? null,
+      address: (data.address as string | undefined) ?? null,
+      notes: (data.notes as string | undefined) ?? null,
+      isActive: (data.isActive as boolean | undefined) ?? true
+    }
+
+    await prisma.customer.upsert({
+      where: { id },
+      create: { id, ...customerData },
+      update: customerData
     })
   }
 }
 
-async function processSale(operation: string, id: string, data: Record<string, unknown> | null) {
+async function processSupplier(operation: string, id: string, data: Record<string, unknown> | null) {
+  if (operation === 'delete') {
+    const existing = await prisma.supplier.findUnique({ where: { id }, select: { id: true } })
+    if (existing) {
+      // El borrado físico registra el tombstone automáticamente
+      await prisma.supplier.delete({ where: { id } })
+    } else {
+      await prisma.$transaction(() => recordSyncTombstones('suppliers', [id]))
+    }
+    return
+  }
+
+  if ((operation === 'create' || operation === 'update') && data) {
+    const supplierData = {
+      name: data.name as string,
+      contactName: (data.contactName as string | undefined) ?? null,
+      phone: (data.phone as string | undefined) ?? null,
+      email: (data.email as string | undefined) ?? null,
+      address: (data.address as string | undefined) ?? null,
+      notes: (data.notes as string | undefined) ?? null,
+      isActive: (data.isActive as boolean | undefined) ?? true
+    }
+
+    await prisma.supplier.upsert({
+      where: { id },
+      create: { id, ...supplierData },
+      update: supplierData
+    })
+  }
+}
+
+async function processSale(
+  operation: string,
+  id: string,
+  data: Record<string, unknown> | null,
+  context: OperationContext
+): Promise<OperationOutcome | void> {
   // Las ventas generalmente solo se crean desde dispositivos
   if (operation === 'create' && data) {
-    // Aquí se podría implementar la creación de venta desde sync
-    // Por ahora, solo registramos que llegó
-    console.log('Sync sale create:', id, data)
+    return createSaleFromSync(id, data, context)
   }
   
   if (operation === 'update' && data) {
-    const status = data.status as 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED' | undefined
+    // El cliente envía el estado en minúsculas
+    const status = (data.status as string | undefined)?.toUpperCase() as 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED' | 'PARTIALLY_REFUNDED' | undefined
     if (status) {
+      // Una venta facturada no se anula sin su nota de crédito
+      if (status === 'CANCELLED' || status === 'REFUNDED') {
+        await FiscalInvoiceService.assertCanCancel(id)
+      }
       await prisma.sale.update({ where: { id }, data: { status } })
     }
   }
 }
 
-async function processStockMovement(operation: string, id: string, data: Record<string, unknown> | null) {
-  if (operation === 'create' && data) {
-    const movementData = data as {
-      variantId: string
-      userId: string
-      type: 'ENTRY' | 'SALE' | 'RETURN' | 'ADJUSTMENT' | 'LOSS'
-      quantity: number
-      previousStock: number
-      newStock: number
-      reason?: string
-      referenceId?: string
-    }
-
-    await prisma.stockMovement.upsert({
-      where: { id },
-      create: { id, ...movementData },
-      update: {}
-    })
+/**
+ * Materializa una venta creada offline: venta, items, pagos y movimientos SALE
+ * en una única transacción. Es idempotente por id y por número de recibo.
+ */
+async function createSaleFromSync(
+  id: string,
+  data: Record<string, unknown>,
+  context: OperationContext
+): Promise<OperationOutcome> {
+  const parsed = syncSaleSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Venta inválida: ${parsed.error.errors[0]?.message}`)
+  }
+
+  const sale = parsed.data
+
+  // Idempotencia: la venta ya fue procesada en un push anterior
+  const existing = await prisma.sale.findFirst({
+    where: { OR: [{ id }, { receiptNumber: sale.receiptNumber }] },
+    select: { id: true }
+  })
+  if (existing) {
+    if (existing.id !== id) {
+      throw new Error(`El número de recibo ${sale.receiptNumber} ya está registrado en otra venta`)
+    }
+    return { duplicate: true, stockLevels: await getStockLevels(sale.items.map(item => item.variantId)) }
+  }
 
-    // Actualizar stock de variante
-    await prisma.productVariant.update({
-      where: { id: movementData.variantId },
-      data: { currentStock: movementData.newStock }
+  // El usuario local puede no existir en el servidor; se usa el autenticado
+  const saleUser = sale.userId
+    ? await prisma.user.findUnique({ where: { id: sale.userId }, select: { id: true } })
+    : null
+  const userId = saleUser?.id ?? context.userId
+
+  const items = sale.items.map(item => {
+    const unitPrice = item.unitPriceCents / 100
+    return {
+      ...item,
+      unitPrice,
+      subtotal: unitPrice * item.quantity * (1 - item.discountPercentage / 100)
+    }
+  })
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)
+  const itemsTotal = items.reduce((sum, item) => sum + item.subtotal, 0)
+
+  const requestedPayments = sale.payments && sale.payments.length > 0
+    ? sale.payments
+    : [{ id: undefined, paymentMethodId: sale.paymentMethodId, amount: itemsTotal, tendered: undefined }]
+
+  // Mismas reglas que POST /api/sales: los pagos suman el total y el vuelto sale del efectivo
+  const methodTypes = new Map(
+    (await prisma.paymentMethod.findMany({
+      where: { id: { in: requestedPayments.map(payment => payment.paymentMethodId) } },
+      select: { id: true, type: true }
+    })).map(method => [method.id, method.type])
+  )
+  // El recargo se respeta tal como se cobró en el dispositivo (la configuración pudo cambiar desde entonces)
+  const settlement = settlePayments(itemsTotal, requestedPayments.map(payment => ({
+    paymentMethodId: payment.paymentMethodId,
+    type: methodTypes.get(payment.paymentMethodId) ?? 'OTHER',
+    amount: payment.amount,
+    tendered: payment.tendered ?? undefined,
+    pricing: 'surcharge' in payment && payment.surcharge !== undefined
+      ? { installments: payment.installments ?? 1, surcharge: payment.surcharge, fee: payment.fee ?? 0 }
+      : undefined
+  })))
+  const total = Math.round((itemsTotal + settlement.surcharge) * 100) / 100
+  const payments = settlement.payments.map((payment, index) => ({ ...payment, id: requestedPayments[index]!.id }))
+
+  // Un movimiento por línea: la misma variante puede venir en varias líneas de la venta
+  const takeMovementId = createMovementIdPool(sale.stockMovements?.map(m => ({ key: m.variantId, id: m.id })) ?? [])
+  const createdAt = sale.createdAt ? new Date(sale.createdAt) : new Date()
+  const status = sale.status.toUpperCase() as 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED'
+
+  return prisma.$transaction(async (tx) => {
+    const stockShortages: StockShortage[] = []
+
+    await tx.sale.create({
+      data: {
+        id,
+        receiptNumber: sale.receiptNumber,
+        userId,
+        customerId: sale.customerId ?? undefined,
+        paymentMethodId: sale.paymentMethodId,
+        cashSessionId: sale.cashSessionId ?? undefined,
+        status,
+        notes: sale.notes ?? undefined,
+        subtotal,
+        discount: subtotal - itemsTotal,
+        surcharge: settlement.surcharge,
+        total,
+        paymentFees: settlement.fees,
+        createdAt,
+        items: {
+          create: items.map(item => ({
+            id: item.id,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: item.discountPercentage,
+            subtotal: item.subtotal
+          }))
+        },
+        payments: {
+          create: payments.map(payment => ({
+            id: payment.id,
+            paymentMethodId: payment.paymentMethodId,
+            amount: payment.amount,
+            tendered: payment.tendered,
+            change: payment.change,
+            installments: payment.installments,
+            surcharge: payment.surcharge,
+            fee: payment.fee,
+            createdAt
+          }))
+        }
+      }
     })
+
+    // Una venta pendiente o anulada no descuenta stock
+    if (status !== 'COMPLETED') {
+      return {}
+    }
+
+    const stockLevels = new Map<string, number>()
+
+    for (const item of items) {
+      const variant = await tx.productVariant.findUnique({ where: { id: item.variantId }, select: { id: true } })
+      if (!variant) {
+        throw new Error(`Variante ${item.variantId} no encontrada`)
+      }
+
+      const { previousStock, newStock } = await applyStockDelta(tx, item.variantId, -item.quantity)
+
+      // La venta ya ocurrió offline: se registra igual y se informa el faltante
+      if (previousStock < item.quantity) {
+        stockShortages.push({
+          variantId: item.variantId,
+          requested: item.quantity,
+          available: previousStock
+        })
+      }
+
+      await tx.stockMovement.create({
+        data: {
+          id: takeMovementId(item.variantId),
+          variantId: item.variantId,
+          userId,
+          type: 'SALE',
+          quantity: item.quantity,
+          previousStock,
+          newStock,
+          reason: `Venta ${sale.receiptNumber}`,
+          referenceId: id,
+          createdAt
+        }
+      })
+
+      stockLevels.set(item.variantId, newStock)
+    }
+
+    return {
+      stockLevels: Array.from(stockLevels, ([variantId, currentStock]) => ({ variantId, currentStock })),
+      ...(stockShortages.length > 0 ? { stockShortages } : {})
+    }
+  })
+}
+
+/**
+ * Registra una devolución parcial o cambio hecho offline sobre una venta ya sincronizada.
+ * Es idempotente por id. El cambio se registra aunque falte stock (ya se entregó) y se informa el faltante.
+ */
+async function processSaleReturn(
+  operation: string,
+  id: string,
+  data: Record<string, unknown> | null,
+  context: OperationContext
+): Promise<OperationOutcome | void> {
+  if (operation !== 'create' || !data) {
+    // Las devoluciones son inmutables
+    return
+  }
+
+  const parsed = syncSaleReturnSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Devolución inválida: ${parsed.error.errors[0]?.message}`)
+  }
+
+  const saleReturn = parsed.data
+
+  // El usuario local puede no existir en el servidor; se usa el autenticado
+  const returnUser = saleReturn.userId
+    ? await prisma.user.findUnique({ where: { id: saleReturn.userId }, select: { id: true } })
+    : null
+
+  const result = await SaleReturnService.register(
+    saleReturn.saleId,
+    {
+      id,
+      items: saleReturn.items,
+      exchangeItems: saleReturn.exchangeItems.map(item => ({
+        id: item.id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPrice: item.unitPriceCents / 100,
+        discount: item.discountPercentage
+      })),
+      refunds: saleReturn.refunds,
+      reason: saleReturn.reason ?? undefined,
+      cashSessionId: saleReturn.cashSessionId ?? undefined,
+      stockMovements: saleReturn.stockMovements,
+      createdAt: saleReturn.createdAt ? new Date(saleReturn.createdAt) : undefined
+    },
+    returnUser?.id ?? context.userId,
+    { allowStockShortage: true }
+  )
+
+  return {
+    stockLevels: result.stockLevels,
+    ...(result.duplicate && { duplicate: true }),
+    ...(result.stockShortages.length > 0 && { stockShortages: result.stockShortages })
+  }
+}
+
+/**
+ * Registra la apertura, los movimientos y el cierre de una sesión de caja del dispositivo.
+ * Cada operación trae la sesión completa; el servicio la aplica de forma idempotente.
+ */
+async function processCashSession(
+  operation: string,
+  id: string,
+  data: Record<string, unknown> | null,
+  context: OperationContext
+): Promise<void> {
+  if (operation === 'delete' || !data) {
+    // Las sesiones de caja no se eliminan: quedan para auditoría
+    return
+  }
+
+  const parsed = syncCashSessionSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Sesión de caja inválida: ${parsed.error.errors[0]?.message}`)
   }
+
+  const session = parsed.data
+  await CashSessionService.syncFromDevice(id, {
+    ...session,
+    closedAt: session.closedAt ?? undefined,
+    closedById: session.closedById ?? undefined,
+    expectedCash: session.expectedCash ?? undefined,
+    countedCash: session.countedCash ?? undefined,
+    difference: session.difference ?? undefined,
+    cashCount: session.cashCount ?? undefined,
+    notes: session.notes ?? undefined
+  }, context.userId)
 }
 
+/**
+ * Aplica un delta con signo al stock de forma atómica (increment) y devuelve
+ * el stock anterior y el nuevo según el servidor. Así los descuentos hechos
+ * offline en distintas cajas se suman en lugar de pisarse.
+ */
+async function applyStockDelta(tx: TxClient, variantId: string, delta: number) {
+  const updated = await tx.productVariant.update({
+    where: { id: variantId },
+    data: { currentStock: { increment: delta } },
+    select: { currentStock: true }
+  })
+
+  return { previousStock: updated.currentStock - delta, newStock: updated.currentStock }
+}
+
+async function getStockLevels(variantIds: string[]): Promise<StockLevel[]> {
+  const variants = await prisma.productVariant.findMany({
+    where: { id: { in: [...new Set(variantIds)] } },
+    select: { id: true, currentStock: true }
+  })
+  return variants.map(v => ({ variantId: v.id, currentStock: v.currentStock }))
+}
+
+/**
+ * Registra un movimiento de stock creado offline aplicándolo como delta.
+ * El servidor recalcula previousStock/newStock y devuelve el stock autoritativo.
+ * Es idempotente por id: un movimiento ya registrado no se vuelve a aplicar.
+ */
+async function processStockMovement(
+  operation: string,
+  id: string,
+  data: Record<string, unknown> | null,
+  context: OperationContext
+): Promise<OperationOutcome | void> {
+  if (operation !== 'create' || !data) {
+    // Los movimientos son inmutables
+    return
+  }
+
+  const parsed = syncStockMovementSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`Movimiento de stock inválido: ${parsed.error.errors[0]?.message}`)
+  }
+
+  const movement = parsed.data
+
+  const existing = await prisma.stockMovement.findUnique({ where: { id }, select: { id: true } })
+  if (existing) {
+    return { duplicate: true, stockLevels: await getStockLevels([movement.variantId]) }
+  }
+
+  const delta = movement.delta ?? movement.newStock - movement.previousStock
+  const type = STOCK_MOVEMENT_TYPE_TO_SERVER[movement.type]
+
+  // El usuario local puede no existir en el servidor; se usa el autenticado
+  const movementUser = movement.userId
+    ? await prisma.user.findUnique({ where: { id: movement.userId }, select: { id: true } })
+    : null
+
+  return prisma.$transaction(async (tx) => {
+    const { previousStock, newStock } = await applyStockDelta(tx, movement.variantId, delta)
+
+    await tx.stockMovement.create({
+      data: {
+        id,
+        variantId: movement.variantId,
+        userId: movementUser?.id ?? context.userId,
+        type,
+        quantity: type === 'ADJUSTMENT' ? Math.abs(delta) : movement.quantity,
+        previousStock,
+        newStock,
+        reason: movement.reason,
+        referenceId: movement.referenceId ?? undefined,
+        createdAt: movement.createdAt ? new Date(movement.createdAt) : undefined
+      }
+    })
+
+    return { stockLevels: [{ variantId: movement.variantId, currentStock: newStock }] }
+  })
+}
@@ -3,7 +3,7 @@ import cors from '@fastify/cors'
 import jwt from '@fastify/jwt'
 import swagger from '@fastify/swagger'
 import swaggerUi from '@fastify/swagger-ui'
-import { env } from './config/env.js'
+import { env, isFiscalEnabled } from './config/env.js'
 import { prisma } from './config/database.js'
 
 // Importar rutas
@@ -20,7 +20,12 @@ import { usersRoutes } from './routes/users.js'
 import { customersRoutes } from './routes/customers.js'
 import { suppliersRoutes } from './routes/suppliers.js'
 import { fiscalTestRoutes } from './routes/fiscal-test.js'
+import { fiscalCertificatesRoutes } from './routes/fiscal-certificates.js'
+import { cashSessionsRoutes } from './routes/cash-sessions.js'
 import { FiscalPtoVtaPoller } from './services/arca/FiscalPtoVtaPoller.js'
+import { FiscalIssuanceWorker } from './services/arca/FiscalIssuanceWorker.js'
+import { ArcaCertificateStore, FiscalCertificateService } from './services/arca/index.js'
+import { SyncChangeLog, SyncChangeNotifier } from './services/sync/index.js'
 
 const app = Fastify({
   logger: {
@@ -87,6 +92,8 @@ await app.register(usersRoutes, { prefix: '/api/users' })
 await app.register(customersRoutes, { prefix: '/api/customers' })
 await app.register(suppliersRoutes, { prefix: '/api/suppliers' })
 await app.register(fiscalTestRoutes, { prefix: '/api/fiscal' })
+await app.register(fiscalCertificatesRoutes, { prefix: '/api/fiscal/certificates' })
+await app.register(cashSessionsRoutes, { prefix: '/api/cash-sessions' })
 
 // Manejo de errores global
 app.setErrorHandler((error, request, reply) => {
@@ -111,6 +118,7 @@ const shutdown = async () => {
   } catch (error) {
     // Ignorar errores al detener poller
   }
+  FiscalIssuanceWorker.getInstance().stop()
   await prisma.$disconnect()
   await app.close()
   process.exit(0)
@@ -126,6 +134,23 @@ const start = async () => {
     await prisma.$connect()
     console.log('✅ Conectado a PostgreSQL')
 
+    // Inicializar el change log de sincronización (solo la primera vez)
+    await SyncChangeLog.seedIfEmpty()
+
+    // Notificar cambios a los dispositivos conectados por /api/sync/events
+    SyncChangeNotifier.start()
+
+    // Entorno de AFIP activo y certificados guardados en DB (antes de pedir cualquier TA)
+    if (isFiscalEnabled()) {
+      try {
+        const activeEnv = await ArcaCertificateStore.reload()
+        console.log(`🔐 Facturación electrónica en ${activeEnv}`)
+        await FiscalCertificateService.checkExpirations()
+      } catch (certificateError) {
+        console.warn('⚠️ No se pudieron cargar los certificados de AFIP:', certificateError instanceof Error ? certificateError.message : 'Error desconocido')
+      }
+    }
+
     // Iniciar polling automático de PV (si está configurado)
     try {
       const poller = FiscalPtoVtaPoller.getInstance()
@@ -134,6 +159,9 @@ const start = async () => {
       console.warn('⚠️ No se pudo iniciar el polling de PV:', pollerError instanceof Error ? pollerError.message : 'Error desconocido')
     }
 
+    // Cola de emisión: reintentos de PENDING y conciliación de SENT/NEEDS_REVIEW
+    FiscalIssuanceWorker.getInstance().start()
+
     await app.listen({ port: env.PORT, host: env.HOST })
     console.log(`🚀 Servidor corriendo en http://${env.HOST}:${env.PORT}`)
     console.log(`📚 Documentación API: http://${env.HOST}:${env.PORT}/docs`)
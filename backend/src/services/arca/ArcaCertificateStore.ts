@@ -0,0 +1,191 @@
+/**
+ * Certificados de AFIP disponibles para autenticarse en WSAA y entorno activo (homo/prod)
+ * - Certificados cargados desde Configuración (FiscalCertificate ACTIVE del entorno activo, clave cifrada en DB)
+ * - Certificado principal de .env (AFIP_CUIT/AFIP_CERT_P12_*) y AFIP_EXTRA_CERTIFICATES, solo para AFIP_ENV
+ * Si un CUIT tiene certificado en DB y en .env, se usa el de la DB
+ */
+
+import { randomBytes } from 'crypto'
+import forge from 'node-forge'
+import { prisma } from '../../config/database.js'
+import { env, hasEnvCertificate, isFiscalEnabled } from '../../config/env.js'
+import { decryptSecret } from '../../utils/crypto.js'
+
+export type FiscalEnv = 'homo' | 'prod'
+
+export interface ArcaCertificate {
+  cuit: string // CUIT del titular del certificado (11 dígitos, sin guiones)
+  p12Base64: string
+  password: string
+  // Punto de venta por defecto del CUIT (si no está configurado en FiscalConfig)
+  ptoVta?: number
+}
+
+// Entorno activo y certificados de la DB para ese entorno
+interface StoreSnapshot {
+  env: FiscalEnv
+  certificates: ArcaCertificate[]
+}
+
+export class ArcaCertificateStore {
+  private static snapshot: StoreSnapshot | null = null
+  private static initialLoad: Promise<StoreSnapshot> | null = null
+
+  /**
+   * Entorno de AFIP activo (el de FiscalSettings o, si no se cambió, AFIP_ENV)
+   */
+  static getActiveEnv(): FiscalEnv {
+    return this.snapshot?.env ?? env.AFIP_ENV
+  }
+
+  /**
+   * CUIT del certificado principal (el que se usa si no se indica otro)
+   */
+  static getPrimaryCuit(): string {
+    if (!isFiscalEnabled()) {
+      throw new Error('Facturación electrónica no está configurada. Verifica las variables de entorno AFIP_*')
+    }
+    return env.AFIP_CUIT!
+  }
+
+  /**
+   * Secreto con el que se cifran las claves privadas guardadas en DB
+   */
+  static getEncryptionSecret(): string {
+    return env.FISCAL_CERT_ENCRYPTION_KEY ?? env.JWT_SECRET
+  }
+
+  /**
+   * Volver a leer el entorno activo y los certificados de la DB
+   * El estado se reemplaza de una sola vez: nadie ve un entorno con los certificados del otro
+   */
+  static async reload(): Promise<FiscalEnv> {
+    this.snapshot = await this.readSnapshot()
+    return this.snapshot.env
+  }
+
+  /**
+   * Todos los certificados del entorno activo, empezando por el principal
+   */
+  static async list(): Promise<ArcaCertificate[]> {
+    if (!isFiscalEnabled()) return []
+
+    const snapshot = await this.getSnapshot()
+    const certificates = [...snapshot.certificates]
+
+    // Los certificados de .env valen solo para el entorno configurado en AFIP_ENV
+    if (snapshot.env === env.AFIP_ENV) {
+      for (const certificate of this.listFromEnv()) {
+        if (!certificates.some(c => c.cuit === certificate.cuit)) {
+          certificates.push(certificate)
+        }
+      }
+    }
+
+    return certificates.sort((a, b) => Number(b.cuit === env.AFIP_CUIT) - Number(a.cuit === env.AFIP_CUIT))
+  }
+
+  /**
+   * Certificado de un CUIT
+   * @throws Error si no hay certificado para ese CUIT
+   */
+  static async get(cuit: string): Promise<ArcaCertificate> {
+    const certificate = (await this.list()).find(c => c.cuit === cuit)
+    if (!certificate) {
+      throw new Error(`No hay certificado de AFIP configurado para el CUIT ${cuit} en ${this.getActiveEnv()}`)
+    }
+    return certificate
+  }
+
+  /**
+   * Si hay un certificado utilizable para el CUIT en un entorno (activo o no)
+   */
+  static async hasCertificate(environment: FiscalEnv, cuit: string): Promise<boolean> {
+    if (environment === env.AFIP_ENV && this.listFromEnv().some(c => c.cuit === cuit)) {
+      return true
+    }
+
+    const stored = await prisma.fiscalCertificate.count({
+      where: { env: environment, cuit, status: 'ACTIVE', certificatePem: { not: null } }
+    })
+    return stored > 0
+  }
+
+  /**
+   * Certificados configurados en .env (principal y AFIP_EXTRA_CERTIFICATES)
+   */
+  static listFromEnv(): ArcaCertificate[] {
+    const certificates: ArcaCertificate[] = []
+
+    if (isFiscalEnabled() && hasEnvCertificate()) {
+      certificates.push({
+        cuit: env.AFIP_CUIT!,
+        p12Base64: env.AFIP_CERT_P12_BASE64!,
+        password: env.AFIP_CERT_P12_PASSWORD!,
+        ptoVta: env.AFIP_PTO_VTA
+      })
+    }
+
+    for (const extra of env.AFIP_EXTRA_CERTIFICATES ?? []) {
+      if (!certificates.some(certificate => certificate.cuit === extra.cuit)) {
+        certificates.push(extra)
+      }
+    }
+
+    return certificates
+  }
+
+  private static async getSnapshot(): Promise<StoreSnapshot> {
+    if (this.snapshot) return this.snapshot
+
+    // La primera carga se comparte entre los pedidos concurrentes
+    this.initialLoad ??= this.readSnapshot().finally(() => {
+      this.initialLoad = null
+    })
+    const loaded = await this.initialLoad
+    // Si mientras tanto se recargó (p. ej. cambio de entorno), se conserva el estado más nuevo
+    this.snapshot ??= loaded
+    return this.snapshot
+  }
+
+  private static async readSnapshot(): Promise<StoreSnapshot> {
+    const settings = await prisma.fiscalSettings.findUnique({ where: { id: 'default' } })
+    const activeEnv = (settings?.activeEnv as FiscalEnv | undefined) ?? env.AFIP_ENV
+
+    const stored = await prisma.fiscalCertificate.findMany({
+      where: { env: activeEnv, status: 'ACTIVE', certificatePem: { not: null } },
+      orderBy: { activatedAt: 'desc' }
+    })
+
+    const certificates: ArcaCertificate[] = []
+    for (const record of stored) {
+      if (certificates.some(certificate => certificate.cuit === record.cuit)) continue
+      try {
+        const privateKeyPem = decryptSecret(record.privateKeyEncrypted, this.getEncryptionSecret())
+        certificates.push({ cuit: record.cuit, ...this.buildP12(privateKeyPem, record.certificatePem!) })
+      } catch (error) {
+        console.error(`❌ [Certificados] No se pudo cargar el certificado "${record.alias}" (${record.cuit}):`, error instanceof Error ? error.message : 'Error desconocido')
+      }
+    }
+
+    return { env: activeEnv, certificates }
+  }
+
+  /**
+   * Armar un P12 en memoria (con contraseña aleatoria) a partir de la clave y el certificado PEM,
+   * que es el formato con el que ArcaTokenManager firma el TRA
+   */
+  private static buildP12(privateKeyPem: string, certificatePem: string): { p12Base64: string; password: string } {
+    const password = randomBytes(16).toString('hex')
+    const p12Asn1 = forge.pkcs12.toPkcs12Asn1(
+      forge.pki.privateKeyFromPem(privateKeyPem),
+      [forge.pki.certificateFromPem(certificatePem)],
+      password,
+      { algorithm: '3des' }
+    )
+    return {
+      p12Base64: Buffer.from(forge.asn1.toDer(p12Asn1).getBytes(), 'binary').toString('base64'),
+      password
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * ArcaPadronClient - Cliente SOAP para los servicios de padrón de AFIP
+ *
+ * Responsabilidades:
+ * - Consultar la constancia de inscripción (ws_sr_constancia_inscripcion, ex padrón A5)
+ * - Consultar el padrón A13 (ws_sr_padron_a13) como alternativa
+ * - Autenticar con el TA de WSAA propio de cada servicio (ArcaTokenManager)
+ * - Logs seguros (nunca exponer Token/Sign)
+ */
+
+import { XMLParser } from 'fast-xml-parser'
+import { env } from '../../config/env.js'
+import { ArcaTokenManager, type ArcaService } from './ArcaTokenManager.js'
+import { FiscalConfigService } from './FiscalConfigService.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
+
+type PadronSource = 'A5' | 'A13'
+
+interface PadronEndpoint {
+  service: ArcaService
+  urls: { homo: string; prod: string }
+  method: string
+  namespace: string
+}
+
+// Endpoints de padrón según entorno
+const PADRON_ENDPOINTS: Record<PadronSource, PadronEndpoint> = {
+  A5: {
+    service: 'ws_sr_constancia_inscripcion',
+    urls: {
+      homo: 'https://awshomo.afip.gov.ar/sr-padron/webservices/personaServiceA5',
+      prod: 'https://aws.afip.gov.ar/sr-padron/webservices/personaServiceA5'
+    },
+    method: 'getPersona_v2',
+    namespace: 'http://a5.soap.ws.server.puc.sr/'
+  },
+  A13: {
+    service: 'ws_sr_padron_a13',
+    urls: {
+      homo: 'https://awshomo.afip.gov.ar/sr-padron/webservices/personaServiceA13',
+      prod: 'https://aws.afip.gov.ar/sr-padron/webservices/personaServiceA13'
+    },
+    method: 'getPersona',
+    namespace: 'http://a13.soap.ws.server.puc.sr/'
+  }
+}
+
+/**
+ * Error de AFIP al consultar el padrón
+ * notFound = la persona no existe en el padrón (no tiene sentido reintentar con otro servicio)
+ */
+export class ArcaPadronError extends Error {
+  constructor(message: string, public readonly notFound: boolean = false) {
+    super(message)
+    this.name = 'ArcaPadronError'
+  }
+}
+
+export class ArcaPadronClient {
+  private parser: XMLParser
+  private environment: 'homo' | 'prod'
+
+  constructor(environment?: 'homo' | 'prod') {
+    this.environment = environment || ArcaCertificateStore.getActiveEnv()
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      // Las respuestas usan prefijos variables (soap:, ns2:); se ignoran para navegar el XML
+      removeNSPrefix: true,
+      // Los CUIT/códigos postales se conservan como texto
+      parseTagValue: false
+    })
+  }
+
+  /**
+   * getPersona_v2 - Constancia de inscripción (datos generales, régimen general y monotributo)
+   */
+  async getPersonaA5(cuit: string): Promise<Record<string, unknown>> {
+    return this.getPersona('A5', cuit)
+  }
+
+  /**
+   * getPersona - Padrón A13 (datos generales y domicilios, sin impuestos)
+   */
+  async getPersonaA13(cuit: string): Promise<Record<string, unknown>> {
+    return this.getPersona('A13', cuit)
+  }
+
+  private async getPersona(source: PadronSource, idPersona: string): Promise<Record<string, unknown>> {
+    const endpoint = PADRON_ENDPOINTS[source]
+    const url = endpoint.urls[this.environment]
+    const { token, sign } = await ArcaTokenManager.getInstance(endpoint.service).getTokenAndSign()
+    const cuitRepresentada = (await FiscalConfigService.getCuitRepresentado()) || env.AFIP_CUIT!
+
+    const soapBody = `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ns="${endpoint.namespace}">
+  <soapenv:Header/>
+  <soapenv:Body>
+    <ns:${endpoint.method}>
+      <token>${token}</token>
+      <sign>${sign}</sign>
+      <cuitRepresentada>${cuitRepresentada}</cuitRepresentada>
+      <idPersona>${idPersona}</idPersona>
+    </ns:${endpoint.method}>
+  </soapenv:Body>
+</soapenv:Envelope>`
+
+    console.log(`📤 [Padrón ${source}] Consultando ${idPersona} en ${url}`)
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 15000)
+
+    let responseText: string
+    let status: number
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/xml; charset=utf-8',
+          'SOAPAction': ''
+        },
+        body: soapBody,
+        signal: controller.signal
+      })
+      responseText = await response.text()
+      status = response.status
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ArcaPadronError(`Padrón ${source} timeout: La solicitud tardó más de 15 segundos`)
+      }
+      throw new ArcaPadronError(`No se pudo conectar con el padrón ${source}: ${error instanceof Error ? error.message : 'Error desconocido'}`)
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    console.log(`📥 [Padrón ${source}] ${endpoint.method} respondió con status ${status}`)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let parsed: any
+    try {
+      parsed = this.parser.parse(responseText)
+    } catch (parseError) {
+      throw new ArcaPadronError(`Error al parsear respuesta XML del padrón ${source}: ${parseError instanceof Error ? parseError.message : 'Error desconocido'}`)
+    }
+
+    const body = parsed?.Envelope?.Body
+
+    // Los errores de negocio llegan como SOAP Fault (HTTP 500)
+    const fault = body?.Fault
+    if (fault) {
+      const message = String(fault.faultstring ?? 'Error desconocido')
+      console.warn(`⚠️ [Padrón ${source}] ${message}`)
+      throw new ArcaPadronError(message, /no existe|inexistente/i.test(message))
+    }
+
+    const persona = body?.[`${endpoint.method}Response`]?.personaReturn
+    if (status >= 400 || !persona) {
+      console.error(`❌ [Padrón ${source}] Respuesta inesperada (primeros 500 chars):`, responseText.substring(0, 500))
+      throw new ArcaPadronError(`El padrón ${source} respondió con status ${status} sin datos de la persona`)
+    }
+
+    console.log(`✅ [Padrón ${source}] Datos de ${idPersona} obtenidos`)
+    return persona as Record<string, unknown>
+  }
+}
@@ -3,22 +3,27 @@
  * 
  * Responsabilidades:
  * - Construir TRA (Ticket de Requerimiento de Acceso)
- * - Firmar TRA con CMS usando certificado P12
+ * - Firmar TRA con CMS usando certificado P12 (uno por CUIT emisor)
  * - Obtener Token + Sign desde WSAA
  * - Cachear Token/Sign con expiración (~12h)
  * - Renovar automáticamente cuando expire
+ * - Un TA por entorno, servicio (wsfe, padrón, wsfex) y CUIT
  * - Logs seguros (nunca exponer Token/Sign)
  */
 
 import { XMLParser } from 'fast-xml-parser'
-import { env, isFiscalEnabled } from '../../config/env.js'
+import { isFiscalEnabled } from '../../config/env.js'
 import { prisma } from '../../config/database.js'
+import { ArcaCertificateStore, type FiscalEnv } from './ArcaCertificateStore.js'
 
 // node-forge no tiene soporte nativo para ES modules
 // Usamos importación dinámica para cargarlo correctamente
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let forge: any
 
+// Servicios de AFIP que usan TA propio de WSAA (uno por servicio)
+export type ArcaService = 'wsfe' | 'wsfex' | 'ws_sr_constancia_inscripcion' | 'ws_sr_padron_a13'
+
 interface TokenCache {
   token: string
   sign: string
@@ -28,7 +33,7 @@ interface TokenCache {
 
 
 export class ArcaTokenManager {
-  private static instance: ArcaTokenManager | null = null
+  private static instances = new Map<string, ArcaTokenManager>()
   private tokenCache: TokenCache | null = null
   private refreshPromise: Promise<{ token: string; sign: string }> | null = null
 
@@ -45,16 +50,25 @@ export class ArcaTokenManager {
     prod: 'https://wsaa.afip.gov.ar/ws/services/LoginCms'
   }
 
-  // Service para WSFE
-  private readonly SERVICE = 'wsfe'
+  // Servicio para el que se pide el TA (wsfe, padrón, etc.)
+  private readonly SERVICE: ArcaService
+
+  // CUIT del certificado con el que se firma el TRA
+  private readonly CUIT: string
+
+  // Entorno de AFIP del TA (el activo al crear la instancia)
+  private readonly ENV: FiscalEnv
 
   // Margen de seguridad para renovar antes de expirar (5 minutos)
   private readonly REFRESH_MARGIN_MS = 5 * 60 * 1000
 
-  private constructor() {
+  private constructor(service: ArcaService, cuit: string, environment: FiscalEnv) {
     if (!isFiscalEnabled()) {
       throw new Error('Facturación electrónica no está configurada. Verifica las variables de entorno AFIP_*')
     }
+    this.SERVICE = service
+    this.CUIT = cuit
+    this.ENV = environment
     // Cargar TA desde DB al inicializar (si existe y está vigente)
     // No esperamos a que termine, se carga en background
     this.loadTokenFromDB().catch((error) => {
@@ -64,13 +78,48 @@ export class ArcaTokenManager {
   }
 
   /**
-   * Singleton pattern - una sola instancia del TokenManager
+   * Una instancia por entorno, servicio y CUIT: cada servicio de AFIP requiere su propio TA,
+   * firmado con el certificado del CUIT (por defecto, el certificado principal) en el entorno activo
+   */
+  static getInstance(service: ArcaService = 'wsfe', cuit?: string): ArcaTokenManager {
+    const cuitKey = cuit || ArcaCertificateStore.getPrimaryCuit()
+    const environment = ArcaCertificateStore.getActiveEnv()
+    const key = `${environment}:${service}:${cuitKey}`
+    let instance = ArcaTokenManager.instances.get(key)
+    if (!instance) {
+      instance = new ArcaTokenManager(service, cuitKey, environment)
+      ArcaTokenManager.instances.set(key, instance)
+    }
+    return instance
+  }
+
+  /**
+   * Invalidar los TA (memoria y DB) de todos los servicios, o solo los de un entorno y/o CUIT
+   * Se usa al cambiar de certificado: el TA de WSAA está ligado al certificado que firmó el TRA
    */
-  static getInstance(): ArcaTokenManager {
-    if (!ArcaTokenManager.instance) {
-      ArcaTokenManager.instance = new ArcaTokenManager()
+  static async invalidateAll(filter: { env?: FiscalEnv; cuit?: string } = {}): Promise<void> {
+    const matching = [...ArcaTokenManager.instances.entries()].filter(([, instance]) =>
+      (!filter.env || instance.ENV === filter.env) && (!filter.cuit || instance.CUIT === filter.cuit)
+    )
+
+    await Promise.all(matching.map(([, instance]) => instance.invalidateCache()))
+    for (const [key] of matching) {
+      ArcaTokenManager.instances.delete(key)
+    }
+  }
+
+  /**
+   * Descartar de memoria las instancias de un entorno (al pasar al otro)
+   * Los TA quedan en DB: WSAA no emite otro mientras siga vigente, y se reutilizan al volver
+   */
+  static releaseEnvironment(environment: FiscalEnv): void {
+    for (const [key, instance] of ArcaTokenManager.instances) {
+      if (instance.ENV === environment) {
+        instance.tokenCache = null
+        instance.refreshPromise = null
+        ArcaTokenManager.instances.delete(key)
+      }
     }
-    return ArcaTokenManager.instance
   }
 
   /**
@@ -276,7 +325,8 @@ export class ArcaTokenManager {
     console.log(`   uniqueId: ${uniqueId} (${String(uniqueId).length} dígitos - debe ser 10)`)
     console.log(`   generationTime: ${generationTime}`)
     console.log(`   expirationTime: ${expirationTime}`)
-    console.log(`   service: ${this.SERVICE}\n`)
+    console.log(`   service: ${this.SERVICE}`)
+    console.log(`   cuit: ${this.CUIT}\n`)
 
     return tra
   }
@@ -300,12 +350,13 @@ export class ArcaTokenManager {
         }
       }
 
-      // Decodificar certificado desde Base64
-      const certBuffer = Buffer.from(env.AFIP_CERT_P12_BASE64!, 'base64')
+      // Decodificar certificado del CUIT desde Base64
+      const arcaCertificate = await ArcaCertificateStore.get(this.CUIT)
+      const certBuffer = Buffer.from(arcaCertificate.p12Base64, 'base64')
 
       // Cargar certificado P12
       const p12Asn1 = forge.asn1.fromDer(certBuffer.toString('binary'))
-      const p12 = forge.pkcs12.pkcs12FromAsn1(p12Asn1, false, env.AFIP_CERT_P12_PASSWORD!)
+      const p12 = forge.pkcs12.pkcs12FromAsn1(p12Asn1, false, arcaCertificate.password)
 
       // Obtener clave privada y certificado
       const bags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })
@@ -418,7 +469,7 @@ export class ArcaTokenManager {
     sign: string
     expirationTime: number
   }> {
-    const wsaaUrl = this.WSAA_URLS[env.AFIP_ENV]
+    const wsaaUrl = this.WSAA_URLS[this.ENV]
 
     // Construir SOAP request según WSAA Manual del Desarrollador 20.2.19
     // IMPORTANTE: WSAA requiere SOAP 1.1 (no SOAP 1.2) con namespaces exactos
@@ -669,8 +720,8 @@ export class ArcaTokenManager {
       const cached = await prisma.fiscalTokenCache.findUnique({
         where: {
           env_cuit_service: {
-            env: env.AFIP_ENV || 'homo',
-            cuit: env.AFIP_CUIT!,
+            env: this.ENV,
+            cuit: this.CUIT,
             service: this.SERVICE
           }
         }
@@ -716,14 +767,14 @@ export class ArcaTokenManager {
       await prisma.fiscalTokenCache.upsert({
         where: {
           env_cuit_service: {
-            env: env.AFIP_ENV || 'homo',
-            cuit: env.AFIP_CUIT!,
+            env: this.ENV,
+            cuit: this.CUIT,
             service: this.SERVICE
           }
         },
         create: {
-          env: env.AFIP_ENV || 'homo',
-          cuit: env.AFIP_CUIT!,
+          env: this.ENV,
+          cuit: this.CUIT,
           service: this.SERVICE,
           token,
           sign,
@@ -754,8 +805,8 @@ export class ArcaTokenManager {
     try {
       await prisma.fiscalTokenCache.deleteMany({
         where: {
-          env: env.AFIP_ENV || 'homo',
-          cuit: env.AFIP_CUIT!,
+          env: this.ENV,
+          cuit: this.CUIT,
           service: this.SERVICE
         }
       })
@@ -6,6 +6,7 @@
  * - Manejar métodos de parámetros (FEParamGetPtosVenta, FEParamGetTiposCbte, etc.)
  * - Manejar métodos de consulta (FECompUltimoAutorizado, FECompConsultar)
  * - Manejar emisión de comprobantes (FECAESolicitar)
+ * - Manejar CAEA: solicitud por quincena y rendición de comprobantes (FECAEA*)
  * - Logs seguros (nunca exponer Token/Sign completos)
  */
 
@@ -13,6 +14,7 @@ import { XMLParser, XMLBuilder } from 'fast-xml-parser'
 import { env } from '../../config/env.js'
 import { ArcaTokenManager } from './ArcaTokenManager.js'
 import { FiscalConfigService } from './FiscalConfigService.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
 
 // Endpoints WSFEv1 según entorno
 const WSFEv1_URLS = {
@@ -26,7 +28,25 @@ interface WsfeAuth {
   cuit: string
 }
 
-interface WsfeResponse<T = any> {
+/**
+ * Aplicar el namespace ar: a todos los elementos de un parámetro (incluidos los anidados)
+ * Los arrays generan elementos repetidos (ej: varios ar:AlicIva)
+ */
+function withNamespace(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withNamespace)
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, child]) => child !== undefined)
+      .map(([key, child]) => [`ar:${key}`, withNamespace(child)])
+  )
+}
+
+interface WsfeResponse<T = Record<string, unknown>> {
   success: boolean
   data?: T
   errors: Array<{ code: number; msg: string }> // Siempre presente (puede estar vacío)
@@ -34,16 +54,68 @@ interface WsfeResponse<T = any> {
   observations?: Array<{ code: number; msg: string }> // Observaciones adicionales
 }
 
+// Detalle de un comprobante en FECAESolicitar
+interface FECAEDetRequestData {
+  Concepto: number
+  DocTipo: number
+  DocNro: number
+  CbteDesde: number
+  CbteHasta: number
+  CbteFch: string
+  ImpTotal: number
+  ImpTotConc: number
+  ImpNeto: number
+  ImpOpEx: number
+  ImpIVA: number
+  ImpTrib: number
+  MonId: string
+  MonCotiz: number
+  FchServDesde?: string
+  FchServHasta?: string
+  FchVtoPago?: string
+  CondicionIVAReceptorId?: number
+  CbtesAsoc?: { CbteAsoc: Array<{ Tipo: number; PtoVta: number; Nro: number; Cuit: string; CbteFch: string }> }
+  Iva?: { AlicIva: Array<{ Id: number; BaseImp: number; Importe: number }> }
+}
+
+// Resultado de un comprobante en FECAESolicitar
+interface FECAEDetResponseData {
+  Concepto: number
+  DocTipo: number
+  DocNro: number
+  CbteDesde: number
+  CbteHasta: number
+  CbteFch: string
+  Resultado: string // 'A' = Aprobado, 'R' = Rechazado
+  CAE?: string
+  CAEFchVto?: string
+  Observaciones?: Array<{ Code: number; Msg: string }>
+}
+
+// CAEA otorgado (FECAEASolicitar / FECAEAConsultar)
+interface CaeaResultGet {
+  CAEA: string
+  Periodo: number
+  Orden: number
+  FchVigDesde: string
+  FchVigHasta: string
+  FchTopeInf: string
+  FchProceso?: string
+}
+
 export class ArcaWsfeClient {
   private tokenManager: ArcaTokenManager
+  // CUIT del certificado con el que se autentica (el principal si no se indica)
+  private certificateCuit?: string
   private wsfeUrl: string
   private parser: XMLParser
   private builder: XMLBuilder
 
-  constructor(environment?: 'homo' | 'prod') {
-    this.tokenManager = ArcaTokenManager.getInstance()
+  constructor(environment?: 'homo' | 'prod', cuit?: string) {
+    this.tokenManager = ArcaTokenManager.getInstance('wsfe', cuit)
+    this.certificateCuit = cuit
     // Permitir especificar ambiente para diagnóstico
-    const envToUse = environment || (env.AFIP_ENV || 'homo')
+    const envToUse = environment || ArcaCertificateStore.getActiveEnv()
     this.wsfeUrl = WSFEv1_URLS[envToUse]
     this.parser = new XMLParser({ 
       ignoreAttributes: false,
@@ -70,12 +142,13 @@ export class ArcaWsfeClient {
     const { token, sign } = await this.tokenManager.getTokenAndSign()
     
     // Obtener CUIT representado (si está configurado) o usar CUIT del certificado
-    const cuitRepresentado = await FiscalConfigService.getCuitRepresentado()
-    const cuitUsedInAuth = cuitRepresentado || env.AFIP_CUIT!
+    const cuitCertificado = this.certificateCuit || env.AFIP_CUIT!
+    const cuitRepresentado = await FiscalConfigService.getCuitRepresentado(undefined, cuitCertificado)
+    const cuitUsedInAuth = cuitRepresentado || cuitCertificado
     
     // Log del CUIT usado en Auth (para diagnóstico)
     if (cuitRepresentado) {
-      console.log(`🔑 [WSFE] Using CUIT representado in Auth: ${cuitRepresentado} (certificado: ${env.AFIP_CUIT})`)
+      console.log(`🔑 [WSFE] Using CUIT representado in Auth: ${cuitRepresentado} (certificado: ${cuitCertificado})`)
     } else {
       console.log(`🔑 [WSFE] Using CUIT del certificado in Auth: ${cuitUsedInAuth}`)
     }
@@ -160,7 +233,33 @@ export class ArcaWsfeClient {
         // Para FECAESolicitar, FeCAEReq y todos sus elementos deben tener namespace ar:
         const feCabReq = value.FeCabReq || {}
         const feDetReq = value.FeDetReq || {}
-        
+        // Un lote lleva un FECAEDetRequest por comprobante
+        const detRequests: FECAEDetRequestData[] = Array.isArray(feDetReq.FECAEDetRequest)
+          ? feDetReq.FECAEDetRequest
+          : [feDetReq.FECAEDetRequest || {}]
+        const detElements = detRequests.map(det => ({
+          'ar:Concepto': det.Concepto,
+          'ar:DocTipo': det.DocTipo,
+          'ar:DocNro': det.DocNro,
+          'ar:CondicionIVAReceptorId': det.CondicionIVAReceptorId, // OBLIGATORIO desde 2025
+          'ar:CbteDesde': det.CbteDesde,
+          'ar:CbteHasta': det.CbteHasta,
+          'ar:CbteFch': det.CbteFch,
+          'ar:ImpTotal': det.ImpTotal,
+          'ar:ImpTotConc': det.ImpTotConc,
+          'ar:ImpNeto': det.ImpNeto,
+          'ar:ImpOpEx': det.ImpOpEx,
+          'ar:ImpIVA': det.ImpIVA,
+          'ar:ImpTrib': det.ImpTrib,
+          'ar:MonId': det.MonId,
+          'ar:MonCotiz': det.MonCotiz,
+          ...(det.FchServDesde ? { 'ar:FchServDesde': det.FchServDesde } : {}),
+          ...(det.FchServHasta ? { 'ar:FchServHasta': det.FchServHasta } : {}),
+          ...(det.FchVtoPago ? { 'ar:FchVtoPago': det.FchVtoPago } : {}),
+          ...(det.CbtesAsoc ? { 'ar:CbtesAsoc': withNamespace(det.CbtesAsoc) } : {}),
+          ...(det.Iva ? { 'ar:Iva': withNamespace(det.Iva) } : {})
+        }))
+
         methodParamsWithNamespace['ar:FeCAEReq'] = {
           'ar:FeCabReq': {
             'ar:CantReg': feCabReq.CantReg,
@@ -168,31 +267,12 @@ export class ArcaWsfeClient {
             'ar:CbteTipo': feCabReq.CbteTipo
           },
           'ar:FeDetReq': {
-            'ar:FECAEDetRequest': {
-              'ar:Concepto': feDetReq.FECAEDetRequest?.Concepto,
-              'ar:DocTipo': feDetReq.FECAEDetRequest?.DocTipo,
-              'ar:DocNro': feDetReq.FECAEDetRequest?.DocNro,
-              'ar:CondicionIVAReceptorId': feDetReq.FECAEDetRequest?.CondicionIVAReceptorId, // OBLIGATORIO desde 2025
-              'ar:CbteDesde': feDetReq.FECAEDetRequest?.CbteDesde,
-              'ar:CbteHasta': feDetReq.FECAEDetRequest?.CbteHasta,
-              'ar:CbteFch': feDetReq.FECAEDetRequest?.CbteFch,
-              'ar:ImpTotal': feDetReq.FECAEDetRequest?.ImpTotal,
-              'ar:ImpTotConc': feDetReq.FECAEDetRequest?.ImpTotConc,
-              'ar:ImpNeto': feDetReq.FECAEDetRequest?.ImpNeto,
-              'ar:ImpOpEx': feDetReq.FECAEDetRequest?.ImpOpEx,
-              'ar:ImpIVA': feDetReq.FECAEDetRequest?.ImpIVA,
-              'ar:ImpTrib': feDetReq.FECAEDetRequest?.ImpTrib,
-              'ar:MonId': feDetReq.FECAEDetRequest?.MonId,
-              'ar:MonCotiz': feDetReq.FECAEDetRequest?.MonCotiz,
-              ...(feDetReq.FECAEDetRequest?.FchServDesde ? { 'ar:FchServDesde': feDetReq.FECAEDetRequest.FchServDesde } : {}),
-              ...(feDetReq.FECAEDetRequest?.FchServHasta ? { 'ar:FchServHasta': feDetReq.FECAEDetRequest.FchServHasta } : {}),
-              ...(feDetReq.FECAEDetRequest?.FchVtoPago ? { 'ar:FchVtoPago': feDetReq.FECAEDetRequest.FchVtoPago } : {})
-            }
+            'ar:FECAEDetRequest': detElements.length === 1 ? detElements[0] : detElements
           }
         }
       } else {
-        // Aplicar namespace ar: a todos los demás parámetros del método
-        methodParamsWithNamespace[`ar:${key}`] = value
+        // Aplicar namespace ar: a todos los demás parámetros del método (y a sus elementos anidados)
+        methodParamsWithNamespace[`ar:${key}`] = withNamespace(value)
       }
     }
     
@@ -721,13 +801,103 @@ export class ArcaWsfeClient {
    * IMPORTANTE: Este método EMITE realmente el comprobante en AFIP
    */
   async solicitarCAE(feCAEReq: {
+    FeCabReq: {
+      CantReg: number // Cantidad de FECAEDetRequest (máximo según FECompTotXRequest)
+      PtoVta: number
+      CbteTipo: number
+    }
+    FeDetReq: {
+      FECAEDetRequest: FECAEDetRequestData | FECAEDetRequestData[]
+    }
+  }): Promise<WsfeResponse<{
+    FeCabResp: {
+      CantReg: number
+      Resultado: string // 'A' = Aprobado, 'R' = Rechazado, 'P' = Parcial (lote)
+      Reproceso?: string
+    }
+    FeDetResp: {
+      // Un elemento por comprobante del lote (el XML con uno solo se parsea como objeto)
+      FECAEDetResponse: FECAEDetResponseData | FECAEDetResponseData[]
+    }
+  }>> {
+    // IMPORTANTE: FECAESolicitar requiere que FeCAEReq esté en el nivel superior del método
+    // No dentro de un wrapper adicional
+    return this.callSoapMethod('FECAESolicitar', {
+      FeCAEReq: feCAEReq
+    })
+  }
+
+  /**
+   * FECompTotXRequest - Cantidad máxima de comprobantes por FECAESolicitar
+   */
+  async getMaxRegistrosPorRequest(): Promise<WsfeResponse<{ RegXReq: number }>> {
+    return this.callSoapMethod('FECompTotXRequest', {})
+  }
+
+  /**
+   * FECompConsultar - Consultar un comprobante ya emitido
+   * Si el comprobante no existe, AFIP devuelve el error 602 (sin resultados)
+   */
+  async consultarComprobante(ptoVta: number, cbteTipo: number, cbteNro: number): Promise<WsfeResponse<{
+    ResultGet?: {
+      Concepto: number
+      DocTipo: number
+      DocNro: number
+      CbteDesde: number
+      CbteHasta: number
+      CbteFch: string
+      ImpTotal: number
+      Resultado: string
+      CodAutorizacion?: string
+      EmisionTipo?: string
+      FchVto?: string
+      FchProceso?: string
+      PtoVta: number
+      CbteTipo: number
+    }
+  }>> {
+    return this.callSoapMethod('FECompConsultar', {
+      FeCompConsReq: {
+        CbteTipo: cbteTipo,
+        CbteNro: cbteNro,
+        PtoVta: ptoVta
+      }
+    })
+  }
+
+  /**
+   * FECAEASolicitar - Solicitar el CAEA de una quincena
+   * Se puede pedir desde 5 días corridos antes del inicio de la quincena y durante su vigencia
+   */
+  async solicitarCAEA(periodo: number, orden: 1 | 2): Promise<WsfeResponse<{ ResultGet?: CaeaResultGet }>> {
+    return this.callSoapMethod('FECAEASolicitar', {
+      Periodo: periodo,
+      Orden: orden
+    })
+  }
+
+  /**
+   * FECAEAConsultar - Consultar un CAEA ya otorgado (por ejemplo, si se solicitó desde otro sistema)
+   */
+  async consultarCAEA(periodo: number, orden: 1 | 2): Promise<WsfeResponse<{ ResultGet?: CaeaResultGet }>> {
+    return this.callSoapMethod('FECAEAConsultar', {
+      Periodo: periodo,
+      Orden: orden
+    })
+  }
+
+  /**
+   * FECAEARegInformativo - Informar comprobantes emitidos con CAEA
+   * Cada FECAEADetRequest lleva el CAEA con el que se emitió
+   */
+  async informarCAEA(feCAEARegInfReq: {
     FeCabReq: {
       CantReg: number
       PtoVta: number
       CbteTipo: number
     }
     FeDetReq: {
-      FECAEDetRequest: {
+      FECAEADetRequest: Array<{
         Concepto: number
         DocTipo: number
         DocNro: number
@@ -738,40 +908,50 @@ export class ArcaWsfeClient {
         ImpTotConc: number
         ImpNeto: number
         ImpOpEx: number
-        ImpIVA: number
         ImpTrib: number
+        ImpIVA: number
         MonId: string
         MonCotiz: number
-        FchServDesde?: string
-        FchServHasta?: string
-        FchVtoPago?: string
-      }
+        CondicionIVAReceptorId?: number
+        CbtesAsoc?: { CbteAsoc: Array<{ Tipo: number; PtoVta: number; Nro: number; Cuit: string; CbteFch: string }> }
+        Iva?: { AlicIva: Array<{ Id: number; BaseImp: number; Importe: number }> }
+        CAEA: string
+      }>
     }
   }): Promise<WsfeResponse<{
     FeCabResp: {
       CantReg: number
-      Resultado: string // 'A' = Aprobado, 'R' = Rechazado
-      Reproceso?: string
+      Resultado: string // 'A' = Aprobado, 'R' = Rechazado, 'P' = Parcial
+      FchProceso?: string
     }
     FeDetResp: {
-      FECAEDetResponse: {
-        Concepto: number
-        DocTipo: number
-        DocNro: number
+      FECAEADetResponse: {
         CbteDesde: number
         CbteHasta: number
         CbteFch: string
-        Resultado: string // 'A' = Aprobado, 'R' = Rechazado
-        CAE?: string
-        CAEFchVto?: string
+        Resultado: string
+        CAEA: string
         Observaciones?: Array<{ Code: number; Msg: string }>
       }
     }
   }>> {
-    // IMPORTANTE: FECAESolicitar requiere que FeCAEReq esté en el nivel superior del método
-    // No dentro de un wrapper adicional
-    return this.callSoapMethod('FECAESolicitar', {
-      FeCAEReq: feCAEReq
+    return this.callSoapMethod('FECAEARegInformativo', {
+      FeCAEARegInfReq: feCAEARegInfReq
+    })
+  }
+
+  /**
+   * FECAEASinMovimientoInformar - Informar que un CAEA no se usó en un punto de venta
+   */
+  async informarCAEASinMovimiento(ptoVta: number, caea: string): Promise<WsfeResponse<{
+    CAEA: string
+    FchProceso?: string
+    PtoVta: number
+    Resultado: string
+  }>> {
+    return this.callSoapMethod('FECAEASinMovimientoInformar', {
+      PtoVta: ptoVta,
+      CAEA: caea
     })
   }
 
@@ -0,0 +1,64 @@
+/**
+ * FiscalAlertService - Alertas de comprobantes que requieren revisión manual
+ *
+ * Se generan desde la cola de emisión cuando no se puede determinar (o corregir)
+ * el estado de un comprobante sin intervención de un administrador
+ */
+
+import { prisma } from '../../config/database.js'
+
+export type FiscalAlertCode =
+  | 'ISSUE_FAILED' // No se pudo emitir tras agotar los reintentos
+  | 'RECONCILE_FAILED' // No se pudo consultar el comprobante en AFIP tras agotar los reintentos
+  | 'MISMATCH' // AFIP tiene otro comprobante con el número reservado
+  | 'CAEA_INFORM_FAILED' // No se pudo informar (o AFIP rechazó) un comprobante emitido con CAEA
+
+export class FiscalAlertService {
+  /**
+   * Registrar una alerta (una sola abierta por comprobante y código)
+   */
+  static async raise(fiscalDocumentId: string, code: FiscalAlertCode, message: string): Promise<void> {
+    const open = await prisma.fiscalAlert.findFirst({
+      where: { fiscalDocumentId, code, resolvedAt: null },
+      select: { id: true }
+    })
+    if (open) return
+
+    await prisma.fiscalAlert.create({
+      data: { fiscalDocumentId, code, message }
+    })
+    console.error(`🚨 [FiscalAlert] ${code} en comprobante ${fiscalDocumentId}: ${message}`)
+  }
+
+  /**
+   * Listar alertas (por defecto solo las abiertas)
+   */
+  static async list(includeResolved = false) {
+    return prisma.fiscalAlert.findMany({
+      where: includeResolved ? {} : { resolvedAt: null },
+      include: {
+        fiscalDocument: {
+          select: { id: true, saleId: true, ptoVta: true, cbteTipo: true, cbteNro: true, estado: true, impTotal: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  static async resolve(id: string, userId: string) {
+    return prisma.fiscalAlert.update({
+      where: { id },
+      data: { resolvedAt: new Date(), resolvedBy: userId }
+    })
+  }
+
+  /**
+   * Cerrar las alertas abiertas de un comprobante que ya llegó a un estado final
+   */
+  static async resolveForDocument(fiscalDocumentId: string): Promise<void> {
+    await prisma.fiscalAlert.updateMany({
+      where: { fiscalDocumentId, resolvedAt: null },
+      data: { resolvedAt: new Date() }
+    })
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * FiscalCaeaService - CAEA (Código de Autorización Electrónico Anticipado)
+ *
+ * Este servicio:
+ * - Solicita el CAEA de la quincena actual y de la siguiente (FECAEASolicitar / FECAEAConsultar)
+ * - Informa los comprobantes emitidos con CAEA (FECAEARegInformativo)
+ * - Informa sin movimiento los CAEA vencidos que no se usaron (FECAEASinMovimientoInformar)
+ *
+ * La emisión con CAEA está en FiscalInvoiceService; la rendición la invoca FiscalIssuanceWorker
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../../config/database.js'
+import { env } from '../../config/env.js'
+import { ArcaWsfeClient } from './ArcaWsfeClient.js'
+import { FiscalAlertService } from './FiscalAlertService.js'
+import {
+  FiscalInvoiceService,
+  FiscalInvoiceError,
+  FISCAL_LEASE_MS,
+  FISCAL_MAX_ATTEMPTS,
+  fiscalRetryAt,
+  toCbteAsoc,
+  normalizeObservaciones,
+  type FiscalMessage
+} from './FiscalInvoiceService.js'
+import {
+  formatAfipDate,
+  parseAfipDate,
+  getCaeaPeriod,
+  getNextCaeaPeriod,
+  getCaeaPeriodStart,
+  type AlicIva,
+  type CaeaPeriod
+} from '../../utils/fiscal.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
+
+// El CAEA de la quincena siguiente se puede pedir desde 5 días corridos antes de su inicio
+const REQUEST_AHEAD_MS = 5 * 24 * 60 * 60 * 1000
+// Solicitud de CAEA e informes sin movimiento: una vez por hora alcanza
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000
+const BATCH_SIZE = 20
+
+const startOfToday = () => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+export interface CaeaInformSummary {
+  informed: number
+  rejected: number
+  failed: number
+}
+
+export class FiscalCaeaService {
+  private static lastMaintenanceAt = 0
+
+  /**
+   * Pasada del worker: rendir los comprobantes vencidos y, cada hora, pedir CAEA e informar los no usados
+   * Solo corre si hay un punto de venta CAEA configurado
+   */
+  static async processDue(): Promise<void> {
+    if (!env.AFIP_CAEA_PTO_VTA) return
+
+    await this.informDue()
+
+    if (Date.now() - this.lastMaintenanceAt < MAINTENANCE_INTERVAL_MS) return
+    this.lastMaintenanceAt = Date.now()
+
+    await this.ensureUpcoming()
+    await this.informWithoutMovement()
+  }
+
+  /**
+   * CAEA de una quincena: el guardado o, si no existe, el otorgado por AFIP
+   */
+  static async request(period: CaeaPeriod) {
+    const envKey = ArcaCertificateStore.getActiveEnv()
+    const cuit = await FiscalInvoiceService.getCuitEmisor()
+    const key = { env: envKey, cuit, periodo: period.periodo, orden: period.orden }
+
+    const existing = await prisma.fiscalCaea.findUnique({ where: { env_cuit_periodo_orden: key } })
+    if (existing) return existing
+
+    const wsfeClient = new ArcaWsfeClient()
+    let result = await wsfeClient.solicitarCAEA(period.periodo, period.orden)
+
+    // Si ya estaba otorgado (por ejemplo, pedido desde otro sistema) se recupera con FECAEAConsultar
+    if (!result.data?.ResultGet?.CAEA) {
+      const consulta = await wsfeClient.consultarCAEA(period.periodo, period.orden)
+      if (consulta.data?.ResultGet?.CAEA) {
+        result = consulta
+      }
+    }
+
+    const granted = result.data?.ResultGet
+    const vigDesde = parseAfipDate(granted?.FchVigDesde)
+    const vigHasta = parseAfipDate(granted?.FchVigHasta)
+    const topeInf = parseAfipDate(granted?.FchTopeInf)
+
+    if (!granted?.CAEA || !vigDesde || !vigHasta || !topeInf) {
+      const detail = result.errors.map(e => `${e.code}: ${e.msg}`).join(', ') || 'Respuesta vacía'
+      throw new FiscalInvoiceError(`AFIP no otorgó el CAEA ${period.periodo}/${period.orden}: ${detail}`, 502)
+    }
+
+    console.log(`✅ [FiscalCaea] CAEA ${granted.CAEA} para ${period.periodo}/${period.orden} (vigente hasta ${granted.FchVigHasta})`)
+    const data = {
+      caea: String(granted.CAEA),
+      fchVigDesde: vigDesde,
+      fchVigHasta: vigHasta,
+      fchTopeInf: topeInf,
+      fchProceso: parseAfipDate(granted.FchProceso)
+    }
+    return prisma.fiscalCaea.upsert({
+      where: { env_cuit_periodo_orden: key },
+      create: { ...key, ...data },
+      update: data
+    })
+  }
+
+  /**
+   * Asegurar el CAEA de la quincena actual y, si ya se puede pedir, el de la siguiente
+   */
+  static async ensureUpcoming(): Promise<void> {
+    const current = getCaeaPeriod(new Date())
+    const next = getNextCaeaPeriod(current)
+    const periods = getCaeaPeriodStart(next).getTime() - Date.now() <= REQUEST_AHEAD_MS ? [current, next] : [current]
+
+    for (const period of periods) {
+      try {
+        await this.request(period)
+      } catch (error) {
+        console.warn(`⚠️ [FiscalCaea] No se pudo obtener el CAEA ${period.periodo}/${period.orden}:`, error instanceof Error ? error.message : 'Error desconocido')
+      }
+    }
+  }
+
+  /**
+   * Listar los CAEA (más recientes primero) con sus comprobantes emitidos y pendientes de informar
+   */
+  static async list() {
+    const caeas = await prisma.fiscalCaea.findMany({
+      where: { env: ArcaCertificateStore.getActiveEnv() },
+      include: { _count: { select: { documents: true } } },
+      orderBy: [{ periodo: 'desc' }, { orden: 'desc' }],
+      take: 24
+    })
+
+    const pending = await prisma.fiscalDocument.groupBy({
+      by: ['caeaId'],
+      where: { caeaId: { in: caeas.map(c => c.id) }, informadoAt: null },
+      _count: { _all: true }
+    })
+    const pendingByCaea = new Map(pending.map(p => [p.caeaId, p._count._all]))
+
+    return caeas.map(({ _count, ...caea }) => ({
+      ...caea,
+      documents: _count.documents,
+      pendingInform: pendingByCaea.get(caea.id) ?? 0
+    }))
+  }
+
+  /**
+   * Informar los comprobantes CAEA con nextAttemptAt vencido
+   * Con force se informan todos los pendientes de un CAEA (acción manual del administrador)
+   */
+  static async informDue(options: { caeaId?: string; force?: boolean } = {}): Promise<CaeaInformSummary> {
+    const summary: CaeaInformSummary = { informed: 0, rejected: 0, failed: 0 }
+
+    const due = await prisma.fiscalDocument.findMany({
+      where: {
+        caeaId: options.caeaId ?? { not: null },
+        informadoAt: null,
+        ...(!options.force && { nextAttemptAt: { lte: new Date() } })
+      },
+      select: { id: true, nextAttemptAt: true },
+      orderBy: [{ ptoVta: 'asc' }, { cbteTipo: 'asc' }, { cbteNro: 'asc' }],
+      take: options.force ? undefined : BATCH_SIZE
+    })
+
+    for (const document of due) {
+      // Lease: si otro proceso lo tomó desde la consulta, se saltea
+      const claimed = await prisma.fiscalDocument.updateMany({
+        where: { id: document.id, informadoAt: null, nextAttemptAt: document.nextAttemptAt },
+        data: { nextAttemptAt: new Date(Date.now() + FISCAL_LEASE_MS) }
+      })
+      if (claimed.count === 0) continue
+
+      try {
+        const result = await this.inform(document.id)
+        summary[result]++
+      } catch (error) {
+        summary.failed++
+        console.error(`❌ [FiscalCaea] Error informando ${document.id}:`, error instanceof Error ? error.message : 'Error desconocido')
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Informar sin movimiento los CAEA vencidos sin comprobantes emitidos
+   */
+  static async informWithoutMovement(caeaId?: string): Promise<void> {
+    const ptoVta = env.AFIP_CAEA_PTO_VTA
+    if (!ptoVta) return
+
+    const unused = await prisma.fiscalCaea.findMany({
+      where: {
+        ...(caeaId && { id: caeaId }),
+        env: ArcaCertificateStore.getActiveEnv(),
+        fchVigHasta: { lt: startOfToday() },
+        sinMovimientoAt: null,
+        documents: { none: {} }
+      }
+    })
+
+    for (const caea of unused) {
+      try {
+        const wsfeClient = new ArcaWsfeClient()
+        const result = await wsfeClient.informarCAEASinMovimiento(ptoVta, caea.caea)
+        if (!result.success || result.data?.Resultado === 'R') {
+          console.warn(`⚠️ [FiscalCaea] AFIP rechazó el informe sin movimiento del CAEA ${caea.caea}: ${result.errors.map(e => `${e.code}: ${e.msg}`).join(', ')}`)
+          continue
+        }
+
+        await prisma.fiscalCaea.update({
+          where: { id: caea.id },
+          data: { sinMovimientoAt: new Date() }
+        })
+        console.log(`✅ [FiscalCaea] CAEA ${caea.caea} informado sin movimiento (ptoVta ${ptoVta})`)
+      } catch (error) {
+        console.warn(`⚠️ [FiscalCaea] No se pudo informar sin movimiento el CAEA ${caea.caea}:`, error instanceof Error ? error.message : 'Error desconocido')
+      }
+    }
+  }
+
+  /**
+   * Informar un comprobante emitido con CAEA (FECAEARegInformativo)
+   */
+  private static async inform(documentId: string): Promise<keyof CaeaInformSummary> {
+    const document = await prisma.fiscalDocument.findUnique({
+      where: { id: documentId },
+      include: { caea: true, associatedDocument: true }
+    })
+    if (!document || !document.caea || document.cbteNro === null || document.informadoAt) return 'informed'
+
+    const { caea, associatedDocument } = document
+    const number = FiscalInvoiceService.formatNumber(document.ptoVta, document.cbteNro)
+    const wsfeClient = new ArcaWsfeClient()
+
+    // Un intento anterior pudo haber llegado a AFIP sin respuesta: si ya figura con el CAEA, está informado
+    if (document.attempts > 0) {
+      try {
+        const consulta = await wsfeClient.consultarComprobante(document.ptoVta, document.cbteTipo, document.cbteNro)
+        if (consulta.success && String(consulta.data?.ResultGet?.CodAutorizacion ?? '') === caea.caea) {
+          await this.markInformed(document.id, [])
+          return 'informed'
+        }
+      } catch {
+        // Se intenta informar igual; si AFIP no responde, falla abajo
+      }
+    }
+
+    const alicIva = document.alicIva ? document.alicIva as unknown as AlicIva[] : undefined
+
+    let result
+    try {
+      result = await wsfeClient.informarCAEA({
+        FeCabReq: {
+          CantReg: 1,
+          PtoVta: document.ptoVta,
+          CbteTipo: document.cbteTipo
+        },
+        FeDetReq: {
+          FECAEADetRequest: [{
+            Concepto: 1, // Productos
+            DocTipo: document.docTipo,
+            DocNro: Number(document.docNro),
+            CbteDesde: document.cbteNro,
+            CbteHasta: document.cbteNro,
+            CbteFch: formatAfipDate(document.fechaEmision),
+            ImpTotal: Number(document.impTotal),
+            ImpTotConc: 0,
+            ImpNeto: Number(document.impNeto),
+            ImpOpEx: 0,
+            ImpTrib: 0,
+            ImpIVA: Number(document.impIva),
+            MonId: 'PES',
+            MonCotiz: 1,
+            CondicionIVAReceptorId: document.condicionIvaReceptorId ?? undefined,
+            ...(associatedDocument?.cbteNro != null && {
+              CbtesAsoc: { CbteAsoc: [toCbteAsoc({ ...associatedDocument, cbteNro: associatedDocument.cbteNro })] }
+            }),
+            ...(alicIva && alicIva.length > 0 && { Iva: { AlicIva: alicIva } }),
+            CAEA: caea.caea
+          }]
+        }
+      })
+    } catch (error) {
+      await this.informFailed(document, number, error instanceof Error ? error.message : 'Error desconocido')
+      return 'failed'
+    }
+
+    const rawDetail = result.data?.FeDetResp?.FECAEADetResponse
+    const detail = Array.isArray(rawDetail) ? rawDetail[0] : rawDetail
+    const resultado = detail?.Resultado || result.data?.FeCabResp?.Resultado || 'R'
+    const observaciones = normalizeObservaciones(detail?.Observaciones)
+
+    if (resultado === 'A') {
+      console.log(`✅ [FiscalCaea] ${number} informado con CAEA ${caea.caea}`)
+      await this.markInformed(document.id, observaciones, parseAfipDate(result.data?.FeCabResp?.FchProceso))
+      return 'informed'
+    }
+
+    // Rechazo: el comprobante ya se entregó al cliente, requiere corrección manual
+    const errores: FiscalMessage[] = [...result.errors, ...observaciones]
+    const message = errores.map(e => `${e.code}: ${e.msg}`).join(', ') || 'Sin detalle'
+    console.warn(`⚠️ [FiscalCaea] AFIP rechazó el informe de ${number}: ${message}`)
+    await FiscalAlertService.raise(document.id, 'CAEA_INFORM_FAILED', `AFIP rechazó el informe de ${number} (CAEA ${caea.caea}): ${message}`)
+    await prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        errores: errores as unknown as Prisma.InputJsonValue,
+        attempts: document.attempts + 1,
+        nextAttemptAt: null
+      }
+    })
+    return 'rejected'
+  }
+
+  private static async markInformed(documentId: string, observaciones: FiscalMessage[], fechaServidor?: Date | null) {
+    await FiscalAlertService.resolveForDocument(documentId)
+    await prisma.fiscalDocument.update({
+      where: { id: documentId },
+      data: {
+        informadoAt: new Date(),
+        errores: Prisma.DbNull,
+        observaciones: observaciones.length > 0 ? observaciones as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+        ...(fechaServidor && { fechaServidor }),
+        nextAttemptAt: null
+      }
+    })
+  }
+
+  /**
+   * Falla de red al informar: se reintenta siempre (hay plazo hasta FchTopeInf) y se alerta al agotar los intentos
+   */
+  private static async informFailed(
+    document: { id: string; attempts: number; caea: { caea: string; fchTopeInf: Date } | null },
+    number: string | null,
+    message: string
+  ) {
+    const attempts = document.attempts + 1
+    console.warn(`⚠️ [FiscalCaea] No se pudo informar ${number} (intento ${attempts}): ${message}`)
+
+    if (attempts === FISCAL_MAX_ATTEMPTS) {
+      const tope = document.caea ? formatAfipDate(document.caea.fchTopeInf) : '-'
+      await FiscalAlertService.raise(
+        document.id,
+        'CAEA_INFORM_FAILED',
+        `No se pudo informar ${number} tras ${attempts} intentos (fecha tope ${tope}): ${message}`
+      )
+    }
+
+    await prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        errores: [{ code: 'NETWORK', msg: message }],
+        attempts,
+        nextAttemptAt: fiscalRetryAt(attempts)
+      }
+    })
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * FiscalCertificateService - Ciclo de vida de los certificados de AFIP
+ *
+ * Este servicio:
+ * - Genera la clave privada (RSA 2048) y el CSR para pedir el certificado en AFIP
+ * - Guarda la clave cifrada en DB y activa el certificado firmado cuando se carga
+ * - Informa el vencimiento de cada certificado (aviso 30 días antes)
+ * - Cambia el entorno activo (homo/prod) sin reiniciar el servidor
+ */
+
+import { generateKeyPair } from 'crypto'
+import { promisify } from 'util'
+import forge from 'node-forge'
+import { prisma } from '../../config/database.js'
+import { env, isFiscalEnabled } from '../../config/env.js'
+import { encryptSecret } from '../../utils/crypto.js'
+import { getCertificateExpiry, isValidCuit, type CertificateExpiry } from '../../utils/fiscal.js'
+import { ArcaCertificateStore, type FiscalEnv } from './ArcaCertificateStore.js'
+import { ArcaTokenManager } from './ArcaTokenManager.js'
+import { FiscalPtoVtaPoller } from './FiscalPtoVtaPoller.js'
+
+const generateKeyPairAsync = promisify(generateKeyPair)
+
+export class FiscalCertificateError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'FiscalCertificateError'
+  }
+}
+
+export interface GenerateCsrParams {
+  env: FiscalEnv
+  cuit: string
+  alias: string // Nombre del certificado en AFIP (CN)
+  organization: string // Razón social (O)
+}
+
+export interface CertificateSummary {
+  id: string | null // null para los certificados de .env
+  source: 'db' | 'env'
+  env: FiscalEnv
+  cuit: string
+  alias: string | null
+  status: 'PENDING' | 'ACTIVE' | 'REPLACED'
+  // Es el certificado con el que se firma hoy (entorno activo)
+  inUse: boolean
+  serialNumber: string | null
+  issuer: string | null
+  validFrom: Date | null
+  validTo: Date | null
+  expiry: CertificateExpiry | null
+  createdAt: Date | null
+  activatedAt: Date | null
+}
+
+interface ParsedCertificate {
+  serialNumber: string
+  issuer: string
+  cuit: string | null
+  validFrom: Date
+  validTo: Date
+}
+
+/**
+ * Datos de un certificado X.509 (el CUIT va en el serialNumber del subject: "CUIT 20123456786")
+ */
+function describeCertificate(certificate: forge.pki.Certificate): ParsedCertificate {
+  const subjectSerial = certificate.subject.getField({ name: 'serialNumber' })?.value as string | undefined
+  const cuitMatch = subjectSerial?.match(/(\d{11})/)
+  const issuerCn = certificate.issuer.getField('CN')?.value as string | undefined
+  return {
+    serialNumber: certificate.serialNumber,
+    issuer: issuerCn ?? certificate.issuer.attributes.map(attr => `${attr.shortName ?? attr.name}=${attr.value}`).join(', '),
+    cuit: cuitMatch?.[1] ?? null,
+    validFrom: certificate.validity.notBefore,
+    validTo: certificate.validity.notAfter
+  }
+}
+
+export class FiscalCertificateService {
+  /**
+   * Certificados de DB y de .env, con su vencimiento
+   */
+  static async list(): Promise<{ activeEnv: FiscalEnv; certificates: CertificateSummary[] }> {
+    const activeEnv = ArcaCertificateStore.getActiveEnv()
+    const inUse = await ArcaCertificateStore.list().catch(() => [])
+
+    const records = await prisma.fiscalCertificate.findMany({
+      orderBy: [{ env: 'asc' }, { cuit: 'asc' }, { createdAt: 'desc' }]
+    })
+
+    const certificates: CertificateSummary[] = records.map(record => ({
+      id: record.id,
+      source: 'db',
+      env: record.env as FiscalEnv,
+      cuit: record.cuit,
+      alias: record.alias,
+      status: record.status,
+      inUse: record.env === activeEnv && record.status === 'ACTIVE',
+      serialNumber: record.serialNumber,
+      issuer: record.issuer,
+      validFrom: record.validFrom,
+      validTo: record.validTo,
+      expiry: record.validTo ? getCertificateExpiry(record.validTo) : null,
+      createdAt: record.createdAt,
+      activatedAt: record.activatedAt
+    }))
+
+    // Los de .env se usan solo en AFIP_ENV y si no hay uno activo en DB para el mismo CUIT
+    for (const certificate of ArcaCertificateStore.listFromEnv()) {
+      const parsed = this.parseP12(certificate.p12Base64, certificate.password)
+      const replacedByDb = records.some(r => r.env === env.AFIP_ENV && r.cuit === certificate.cuit && r.status === 'ACTIVE')
+      certificates.push({
+        id: null,
+        source: 'env',
+        env: env.AFIP_ENV,
+        cuit: certificate.cuit,
+        alias: null,
+        status: replacedByDb ? 'REPLACED' : 'ACTIVE',
+        inUse: env.AFIP_ENV === activeEnv && !replacedByDb && inUse.some(c => c.cuit === certificate.cuit),
+        serialNumber: parsed?.serialNumber ?? null,
+        issuer: parsed?.issuer ?? null,
+        validFrom: parsed?.validFrom ?? null,
+        validTo: parsed?.validTo ?? null,
+        expiry: parsed ? getCertificateExpiry(parsed.validTo) : null,
+        createdAt: null,
+        activatedAt: null
+      })
+    }
+
+    return { activeEnv, certificates }
+  }
+
+  /**
+   * Generar clave privada y CSR
+   * El CSR se sube en AFIP (Administración de Certificados Digitales) y el certificado que devuelve se carga con uploadCertificate
+   */
+  static async generateCsr(params: GenerateCsrParams, createdBy?: string): Promise<{ certificate: CertificateSummary; csrPem: string }> {
+    const cuit = params.cuit.replace(/-/g, '')
+    if (!isValidCuit(cuit)) {
+      throw new FiscalCertificateError('CUIT inválido', 400)
+    }
+
+    const { privateKey } = await generateKeyPairAsync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    })
+
+    const forgeKey = forge.pki.privateKeyFromPem(privateKey) as forge.pki.rsa.PrivateKey
+    const csr = forge.pki.createCertificationRequest()
+    csr.publicKey = forge.pki.setRsaPublicKey(forgeKey.n, forgeKey.e)
+    csr.setSubject([
+      { name: 'countryName', value: 'AR' },
+      { name: 'organizationName', value: params.organization },
+      { name: 'commonName', value: params.alias },
+      { name: 'serialNumber', value: `CUIT ${cuit}` }
+    ])
+    csr.sign(forgeKey, forge.md.sha256.create())
+    const csrPem = forge.pki.certificationRequestToPem(csr)
+
+    const record = await prisma.fiscalCertificate.create({
+      data: {
+        env: params.env,
+        cuit,
+        alias: params.alias,
+        status: 'PENDING',
+        privateKeyEncrypted: encryptSecret(privateKey, ArcaCertificateStore.getEncryptionSecret()),
+        csrPem,
+        createdBy
+      }
+    })
+
+    console.log(`🔐 [Certificados] CSR generado para ${cuit} (${params.env}, alias ${params.alias})`)
+
+    const { certificates } = await this.list()
+    return { certificate: certificates.find(c => c.id === record.id)!, csrPem }
+  }
+
+  /**
+   * CSR de un certificado (para volver a descargarlo)
+   */
+  static async getCsr(id: string): Promise<{ alias: string; csrPem: string }> {
+    const record = await prisma.fiscalCertificate.findUnique({ where: { id } })
+    if (!record) {
+      throw new FiscalCertificateError('Certificado no encontrado', 404)
+    }
+    return { alias: record.alias, csrPem: record.csrPem }
+  }
+
+  /**
+   * Cargar el certificado firmado por AFIP y activarlo
+   * Reemplaza al certificado activo del mismo CUIT y entorno; si es el entorno activo,
+   * los TA firmados con el certificado anterior se invalidan
+   */
+  static async uploadCertificate(id: string, certificateInput: string, changedBy?: string): Promise<CertificateSummary> {
+    const record = await prisma.fiscalCertificate.findUnique({ where: { id } })
+    if (!record) {
+      throw new FiscalCertificateError('Certificado no encontrado', 404)
+    }
+    if (record.status !== 'PENDING') {
+      throw new FiscalCertificateError('El certificado ya fue cargado. Genere un nuevo CSR para renovarlo', 409)
+    }
+
+    const certificatePem = this.normalizePem(certificateInput)
+    let certificate: forge.pki.Certificate
+    try {
+      certificate = forge.pki.certificateFromPem(certificatePem)
+    } catch {
+      throw new FiscalCertificateError('El certificado no es un X.509 válido (se espera el .crt en formato PEM)', 400)
+    }
+
+    // El certificado tiene que ser el emitido para este CSR
+    const csr = forge.pki.certificationRequestFromPem(record.csrPem)
+    const certificateKey = certificate.publicKey as forge.pki.rsa.PublicKey
+    const csrKey = csr.publicKey as forge.pki.rsa.PublicKey | null
+    if (!csrKey || certificateKey.n.compareTo(csrKey.n) !== 0) {
+      throw new FiscalCertificateError('El certificado no corresponde a la clave privada generada para este CSR', 400)
+    }
+
+    const parsed = describeCertificate(certificate)
+    if (parsed.cuit && parsed.cuit !== record.cuit) {
+      throw new FiscalCertificateError(`El certificado es del CUIT ${parsed.cuit}, no de ${record.cuit}`, 400)
+    }
+    if (getCertificateExpiry(parsed.validTo).expired) {
+      throw new FiscalCertificateError('El certificado está vencido', 400)
+    }
+
+    const previous = await prisma.fiscalCertificate.findFirst({
+      where: { env: record.env, cuit: record.cuit, status: 'ACTIVE' }
+    })
+
+    await prisma.$transaction([
+      prisma.fiscalCertificate.updateMany({
+        where: { env: record.env, cuit: record.cuit, status: 'ACTIVE' },
+        data: { status: 'REPLACED' }
+      }),
+      prisma.fiscalCertificate.update({
+        where: { id },
+        data: {
+          status: 'ACTIVE',
+          certificatePem,
+          serialNumber: parsed.serialNumber,
+          issuer: parsed.issuer,
+          validFrom: parsed.validFrom,
+          validTo: parsed.validTo,
+          activatedAt: new Date()
+        }
+      }),
+      prisma.fiscalConfigAudit.create({
+        data: {
+          env: record.env,
+          cuit: record.cuit,
+          fieldName: 'certificate',
+          oldValue: previous?.serialNumber ? JSON.stringify(previous.serialNumber) : null,
+          newValue: JSON.stringify(parsed.serialNumber),
+          changedBy: changedBy || null
+        }
+      })
+    ])
+
+    if (record.env === ArcaCertificateStore.getActiveEnv()) {
+      await ArcaCertificateStore.reload()
+      await ArcaTokenManager.invalidateAll({ env: record.env, cuit: record.cuit })
+    }
+
+    console.log(`✅ [Certificados] Certificado ${parsed.serialNumber} activo para ${record.cuit} (${record.env}), vence ${parsed.validTo.toISOString()}`)
+
+    const { certificates } = await this.list()
+    return certificates.find(c => c.id === id)!
+  }
+
+  /**
+   * Eliminar un CSR que no llegó a cargarse (los activos o reemplazados se conservan)
+   */
+  static async deletePending(id: string): Promise<void> {
+    const record = await prisma.fiscalCertificate.findUnique({ where: { id } })
+    if (!record) {
+      throw new FiscalCertificateError('Certificado no encontrado', 404)
+    }
+    if (record.status !== 'PENDING') {
+      throw new FiscalCertificateError('Solo se pueden eliminar los CSR pendientes de carga', 409)
+    }
+    await prisma.fiscalCertificate.delete({ where: { id } })
+  }
+
+  /**
+   * Cambiar el entorno activo (homo ↔ prod)
+   * El entorno y sus certificados se reemplazan de una vez en ArcaCertificateStore;
+   * los TA en memoria del entorno anterior se descartan y el poller revisa los puntos de venta del nuevo
+   */
+  static async switchEnvironment(target: FiscalEnv, changedBy?: string): Promise<FiscalEnv> {
+    const previous = ArcaCertificateStore.getActiveEnv()
+    if (previous === target) {
+      return target
+    }
+
+    if (!isFiscalEnabled()) {
+      throw new FiscalCertificateError('Facturación electrónica no está configurada (falta AFIP_CUIT)', 400)
+    }
+
+    const primaryCuit = ArcaCertificateStore.getPrimaryCuit()
+    if (!(await ArcaCertificateStore.hasCertificate(target, primaryCuit))) {
+      throw new FiscalCertificateError(`No hay un certificado activo para el CUIT ${primaryCuit} en ${target}`, 409)
+    }
+
+    await prisma.$transaction([
+      prisma.fiscalSettings.upsert({
+        where: { id: 'default' },
+        create: { id: 'default', activeEnv: target, changedBy: changedBy || null },
+        update: { activeEnv: target, changedBy: changedBy || null }
+      }),
+      prisma.fiscalConfigAudit.create({
+        data: {
+          env: target,
+          cuit: primaryCuit,
+          fieldName: 'activeEnv',
+          oldValue: JSON.stringify(previous),
+          newValue: JSON.stringify(target),
+          changedBy: changedBy || null
+        }
+      })
+    ])
+
+    await ArcaCertificateStore.reload()
+    ArcaTokenManager.releaseEnvironment(previous)
+
+    console.log(`🔀 [Certificados] Entorno activo: ${previous} → ${target}`)
+
+    try {
+      const poller = FiscalPtoVtaPoller.getInstance()
+      poller.stop()
+      await poller.start()
+    } catch (error) {
+      console.warn('⚠️ [Certificados] No se pudo reiniciar el polling de PV:', error instanceof Error ? error.message : 'Error desconocido')
+    }
+
+    return target
+  }
+
+  /**
+   * Avisar en el log los certificados en uso vencidos o por vencer
+   */
+  static async checkExpirations(): Promise<CertificateSummary[]> {
+    const { certificates } = await this.list()
+    const warnings = certificates.filter(c => c.inUse && c.expiry && (c.expiry.expired || c.expiry.expiringSoon))
+
+    for (const certificate of warnings) {
+      const label = `${certificate.cuit} (${certificate.env}${certificate.alias ? `, ${certificate.alias}` : ''})`
+      if (certificate.expiry!.expired) {
+        console.error(`❌ [Certificados] El certificado de ${label} está vencido`)
+      } else {
+        console.warn(`⚠️ [Certificados] El certificado de ${label} vence en ${certificate.expiry!.daysLeft} días`)
+      }
+    }
+
+    return warnings
+  }
+
+  /**
+   * Acepta el certificado con o sin encabezados PEM (el contenido Base64 del .crt)
+   */
+  private static normalizePem(input: string): string {
+    const trimmed = input.trim()
+    if (trimmed.includes('-----BEGIN CERTIFICATE-----')) {
+      return trimmed
+    }
+    const body = trimmed.replace(/\s+/g, '').match(/.{1,64}/g)?.join('\n') ?? ''
+    return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`
+  }
+
+  private static parseP12(p12Base64: string, password: string): ParsedCertificate | null {
+    try {
+      const p12Asn1 = forge.asn1.fromDer(Buffer.from(p12Base64, 'base64').toString('binary'))
+      const p12 = forge.pkcs12.pkcs12FromAsn1(p12Asn1, false, password)
+      const certificate = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag!]?.[0]?.cert
+      return certificate ? describeCertificate(certificate) : null
+    } catch (error) {
+      console.warn('⚠️ [Certificados] No se pudo leer el certificado de .env:', error instanceof Error ? error.message : 'Error desconocido')
+      return null
+    }
+  }
+}
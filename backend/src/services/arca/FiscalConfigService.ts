@@ -1,6 +1,14 @@
 import { prisma } from '../../config/database.js'
 import { env as envConfig } from '../../config/env.js'
 import { normalizePtoVta } from '../../utils/fiscal.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
+
+// Emisor de comprobantes: certificado con el que se autentica y punto de venta con el que emite
+export interface FiscalEmisor {
+  cuit: string // CUIT del certificado (WSAA y registros de FiscalConfig)
+  cuitEmisor: string // CUIT informado en Auth de WSFE y en los comprobantes (representado o el del certificado)
+  ptoVta: number | null
+}
 
 /**
  * Servicio para gestionar configuración fiscal persistida en DB
@@ -21,7 +29,7 @@ export class FiscalConfigService {
    * @returns CUIT representado (11 dígitos) o null si no está configurado (usar CUIT del certificado)
    */
   static async getCuitRepresentado(env?: string, cuit?: string): Promise<string | null> {
-    const envKey = env || envConfig.AFIP_ENV || 'homo'
+    const envKey = env || ArcaCertificateStore.getActiveEnv()
     const cuitNormalized = cuit || envConfig.AFIP_CUIT
 
     if (!cuitNormalized) {
@@ -76,7 +84,7 @@ export class FiscalConfigService {
     cuit?: string,
     changedBy?: string
   ): Promise<string> {
-    const envKey = env || envConfig.AFIP_ENV || 'homo'
+    const envKey = env || ArcaCertificateStore.getActiveEnv()
     const cuitNormalized = cuit || envConfig.AFIP_CUIT
 
     if (!cuitNormalized) {
@@ -156,7 +164,7 @@ export class FiscalConfigService {
    * @returns Punto de venta como número o null si no está configurado
    */
   static async getPtoVta(env?: string, cuit?: string): Promise<number | null> {
-    const envKey = env || envConfig.AFIP_ENV || 'homo'
+    const envKey = env || ArcaCertificateStore.getActiveEnv()
     const cuitNormalized = cuit || envConfig.AFIP_CUIT
 
     if (!cuitNormalized) {
@@ -164,6 +172,11 @@ export class FiscalConfigService {
       return envConfig.AFIP_PTO_VTA || null
     }
 
+    // Sin configuración en DB: el punto de venta del certificado (AFIP_PTO_VTA para el principal)
+    const defaultPtoVta = (await ArcaCertificateStore.list()).find(c => c.cuit === cuitNormalized)?.ptoVta
+      ?? (cuitNormalized === envConfig.AFIP_CUIT ? envConfig.AFIP_PTO_VTA : undefined)
+      ?? null
+
     const cacheKey = `${envKey}:${cuitNormalized}`
     const now = Date.now()
     const cached = this.cache.get(cacheKey)
@@ -185,7 +198,7 @@ export class FiscalConfigService {
         }
       })
 
-      const ptoVta = config?.ptoVta || envConfig.AFIP_PTO_VTA || null
+      const ptoVta = config?.ptoVta || defaultPtoVta
 
       // Actualizar cache
       this.cache.set(cacheKey, ptoVta)
@@ -195,8 +208,52 @@ export class FiscalConfigService {
     } catch (error) {
       console.error('❌ [FiscalConfig] Error al leer configuración de DB, usando .env:', error)
       // Fallback a .env en caso de error
-      return envConfig.AFIP_PTO_VTA || null
+      return defaultPtoVta
+    }
+  }
+
+  /**
+   * Emisor de un certificado (por defecto, el principal)
+   */
+  static async getEmisor(cuit?: string): Promise<FiscalEmisor> {
+    const envKey = ArcaCertificateStore.getActiveEnv()
+    const cuitCertificado = cuit || ArcaCertificateStore.getPrimaryCuit()
+
+    return {
+      cuit: cuitCertificado,
+      cuitEmisor: (await this.getCuitRepresentado(envKey, cuitCertificado)) || cuitCertificado,
+      ptoVta: await this.getPtoVta(envKey, cuitCertificado)
+    }
+  }
+
+  /**
+   * Emisores de todos los certificados configurados
+   */
+  static async listEmisores(): Promise<FiscalEmisor[]> {
+    const certificates = await ArcaCertificateStore.list()
+    return Promise.all(certificates.map(certificate => this.getEmisor(certificate.cuit)))
+  }
+
+  /**
+   * Emisor que factura con un punto de venta (cada CUIT tiene su propio punto de venta)
+   * @returns null si ningún CUIT tiene configurado ese punto de venta
+   */
+  static async getEmisorForPtoVta(ptoVta: number): Promise<FiscalEmisor | null> {
+    const emisores = await this.listEmisores()
+    return emisores.find(emisor => emisor.ptoVta === ptoVta) ?? null
+  }
+
+  /**
+   * Emisor de un comprobante ya registrado, a partir del CUIT con el que se emitió
+   * @throws Error si ningún certificado configurado emite con ese CUIT
+   */
+  static async getEmisorByCuitEmisor(cuitEmisor: string): Promise<FiscalEmisor> {
+    const emisores = await this.listEmisores()
+    const emisor = emisores.find(e => e.cuitEmisor === cuitEmisor) ?? emisores.find(e => e.cuit === cuitEmisor)
+    if (!emisor) {
+      throw new Error(`No hay certificado de AFIP configurado para emitir con el CUIT ${cuitEmisor}`)
     }
+    return emisor
   }
 
   /**
@@ -215,7 +272,7 @@ export class FiscalConfigService {
     cuit?: string,
     changedBy?: string
   ): Promise<number> {
-    const envKey = env || envConfig.AFIP_ENV || 'homo'
+    const envKey = env || ArcaCertificateStore.getActiveEnv()
     const cuitNormalized = cuit || envConfig.AFIP_CUIT
 
     if (!cuitNormalized) {
@@ -299,7 +356,7 @@ export class FiscalConfigService {
    * Reinicia attemptCount, firstSeenAt, y limpia errores
    */
   static async resetPtoVtaTracking(env?: string, cuit?: string): Promise<void> {
-    const envKey = env || envConfig.AFIP_ENV || 'homo'
+    const envKey = env || ArcaCertificateStore.getActiveEnv()
     const cuitNormalized = cuit || envConfig.AFIP_CUIT
 
     if (!cuitNormalized) {
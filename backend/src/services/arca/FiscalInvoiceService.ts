@@ -0,0 +1,1334 @@
+/**
+ * FiscalInvoiceService - Emisión de comprobantes para ventas
+ *
+ * Este servicio:
+ * - Solicita el CAE real a ARCA (FECAESolicitar) para una venta completada
+ * - Factura ventas pendientes en lotes (varios FECAEDetRequest por FECAESolicitar)
+ * - Sin conexión a WSFE, emite con el CAEA vigente y numeración local
+ *   (los informa FiscalCaeaService)
+ * - Emite notas de crédito/débito asociadas a la factura original (CbtesAsoc)
+ * - Persiste cada FiscalDocument y su ciclo de estados:
+ *   PENDING → SENT → AUTHORIZED | REJECTED | NEEDS_REVIEW
+ * - Reintenta los PENDING y concilia los SENT/NEEDS_REVIEW con FECompConsultar
+ *   (lo invoca FiscalIssuanceWorker)
+ * - Lista y consulta los comprobantes emitidos
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../../config/database.js'
+import { env, isFiscalEnabled } from '../../config/env.js'
+import { ArcaWsfeClient } from './ArcaWsfeClient.js'
+import { FiscalIssueValidator, type CbteAsoc } from './FiscalIssueValidator.js'
+import { FiscalConfigService, type FiscalEmisor } from './FiscalConfigService.js'
+import { FiscalAlertService } from './FiscalAlertService.js'
+import {
+  buildIvaBreakdown,
+  calculateCreditedAmount,
+  resolveReceiverDocument,
+  formatAfipDate,
+  parseAfipDate,
+  DOC_TIPO_CUIT,
+  CONDICION_IVA_CONSUMIDOR_FINAL,
+  type AlicIva,
+  type IvaBreakdown,
+  splitInBatches,
+  type ReceiverDocument
+} from '../../utils/fiscal.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
+
+// Códigos de tipo de comprobante AFIP
+export const INVOICE_TYPE_CODES = {
+  FACTURA_A: 1,
+  FACTURA_B: 6,
+  FACTURA_C: 11
+} as const
+
+export type InvoiceType = keyof typeof INVOICE_TYPE_CODES
+
+// Notas de crédito y débito según la clase de la factura original
+const NOTE_TYPE_CODES: Record<number, { CREDIT: number; DEBIT: number }> = {
+  1: { CREDIT: 3, DEBIT: 2 },
+  6: { CREDIT: 8, DEBIT: 7 },
+  11: { CREDIT: 13, DEBIT: 12 }
+}
+
+// Nombre de cada tipo de comprobante
+export const FISCAL_DOCUMENT_TYPES: Record<number, string> = {
+  1: 'FACTURA_A',
+  6: 'FACTURA_B',
+  11: 'FACTURA_C',
+  3: 'NOTA_CREDITO_A',
+  8: 'NOTA_CREDITO_B',
+  13: 'NOTA_CREDITO_C',
+  2: 'NOTA_DEBITO_A',
+  7: 'NOTA_DEBITO_B',
+  12: 'NOTA_DEBITO_C'
+}
+
+const INVOICE_CODES: number[] = Object.values(INVOICE_TYPE_CODES)
+const CREDIT_NOTE_CODES = Object.values(NOTE_TYPE_CODES).map(codes => codes.CREDIT)
+const DEBIT_NOTE_CODES = Object.values(NOTE_TYPE_CODES).map(codes => codes.DEBIT)
+
+// Clase de comprobante (para validar la condición IVA del receptor)
+const INVOICE_CLASS: Record<InvoiceType, string> = {
+  FACTURA_A: 'A',
+  FACTURA_B: 'B',
+  FACTURA_C: 'C'
+}
+
+export type FiscalNoteKind = 'CREDIT' | 'DEBIT'
+
+// CAE: se solicita a WSFE al emitir. CAEA: se usa el CAEA de la quincena, sin llamar a WSFE
+export type IssueMode = 'CAE' | 'CAEA'
+
+export interface IssueInvoiceOptions {
+  // Condición IVA del receptor; por defecto la del cliente o Consumidor Final
+  condicionIvaReceptorId?: number
+  mode?: IssueMode
+  // Punto de venta con el que se emite: define el CUIT emisor (por defecto, el del certificado principal)
+  ptoVta?: number
+}
+
+export interface IssueNoteParams {
+  kind: FiscalNoteKind
+  reason: string
+  // Importe a acreditar/debitar; en notas de crédito sin importe ni items se acredita el saldo completo
+  amount?: number
+  // Crédito parcial por items devueltos
+  items?: Array<{ saleItemId: string; quantity: number }>
+}
+
+export interface FiscalMessage {
+  code: number | string
+  msg: string
+}
+
+// Resultado de una venta dentro de una emisión por lotes
+// Sin documento: la venta no se envió (message indica el motivo)
+export interface BatchIssueResult {
+  saleId: string
+  receiptNumber: string | null
+  document: FiscalDocumentRow | null
+  message?: string
+}
+
+export interface UninvoicedSalesFilter {
+  from?: Date
+  to?: Date
+  limit: number
+}
+
+export interface InvoiceListFilter {
+  saleId?: string
+  estado?: 'PENDING' | 'SENT' | 'AUTHORIZED' | 'REJECTED' | 'NEEDS_REVIEW'
+  from?: Date
+  to?: Date
+  page: number
+  limit: number
+}
+
+/**
+ * Error de emisión con el status HTTP que corresponde devolver
+ */
+export class FiscalInvoiceError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'FiscalInvoiceError'
+  }
+}
+
+const SALE_INCLUDE = {
+  customer: true,
+  items: {
+    include: {
+      variant: {
+        include: { product: true }
+      }
+    }
+  }
+} satisfies Prisma.SaleInclude
+
+// Estados desde los que se puede volver a solicitar CAE: el comprobante nunca llegó a AFIP o fue rechazado
+const RETRYABLE_STATES = ['PENDING', 'REJECTED']
+
+// Notas que comprometen saldo: autorizadas o con resultado todavía incierto
+const COMMITTED_STATES: Array<'SENT' | 'AUTHORIZED' | 'NEEDS_REVIEW'> = ['SENT', 'AUTHORIZED', 'NEEDS_REVIEW']
+
+// Cola de emisión
+export const FISCAL_MAX_ATTEMPTS = 5
+// Tiempo que un comprobante queda tomado por quien lo procesa (emisión sincrónica o worker)
+export const FISCAL_LEASE_MS = 2 * 60 * 1000
+// Un SENT sin respuesta pasado este tiempo se concilia con FECompConsultar
+const SENT_STALE_MS = 5 * 60 * 1000
+
+// Error de FECompConsultar cuando el comprobante no existe en AFIP
+const WSFE_NOT_FOUND_CODE = 602
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Backoff exponencial: 1, 2, 4, 8... minutos (máximo 30)
+export const fiscalRetryAt = (attempts: number) =>
+  new Date(Date.now() + Math.min(2 ** Math.max(attempts - 1, 0), 30) * 60 * 1000)
+
+type FiscalDocumentRow = Awaited<ReturnType<typeof prisma.fiscalDocument.create>>
+type SaleWithItems = Prisma.SaleGetPayload<{ include: typeof SALE_INCLUDE }>
+
+
+// Resultado de un comprobante en FECAESolicitar
+interface DetResponse {
+  CbteDesde?: number
+  Resultado?: string
+  CAE?: string
+  CAEFchVto?: string
+  Observaciones?: unknown
+}
+
+// Estados que ya tienen una factura en curso o emitida (no se vuelven a enviar en lote)
+const INVOICED_STATES: Array<'PENDING' | 'SENT' | 'AUTHORIZED' | 'NEEDS_REVIEW'> = ['PENDING', 'SENT', 'AUTHORIZED', 'NEEDS_REVIEW']
+
+// Datos del comprobante que se informan en FECAESolicitar
+interface AuthorizationRequest {
+  cuitEmisor: string
+  ptoVta: number
+  cbteTipo: number
+  importeTotal: number
+  importeNeto?: number
+  importeIva?: number
+  alicIva?: IvaBreakdown['alicIva']
+  cbtesAsoc?: CbteAsoc[]
+  docTipo: number
+  docNro: number
+  fechaEmision: Date
+  condicionIvaReceptorId?: number
+}
+
+export class FiscalInvoiceService {
+  /**
+   * Emitir el comprobante de una venta y solicitar su CAE
+   * Devuelve el FiscalDocument en su estado final (AUTHORIZED, REJECTED o NEEDS_REVIEW)
+   */
+  static async issueForSale(saleId: string, type: InvoiceType, options: IssueInvoiceOptions = {}) {
+    this.assertIssuingEnabled()
+
+    const sale = await prisma.sale.findUnique({
+      where: { id: saleId },
+      include: SALE_INCLUDE
+    })
+
+    if (!sale) {
+      throw new FiscalInvoiceError('Venta no encontrada', 404)
+    }
+
+    const { existing, receiver, condicionIvaReceptorId } = await this.checkInvoiceable(sale, type, options.condicionIvaReceptorId)
+
+    if (options.mode === 'CAEA') {
+      // El CAEA se gestiona solo para el CUIT principal y su punto de venta CAEA
+      if (options.ptoVta !== undefined && options.ptoVta !== env.AFIP_CAEA_PTO_VTA) {
+        throw new FiscalInvoiceError(`El punto de venta ${options.ptoVta} no emite con CAEA`, 400)
+      }
+      return this.issueWithCaea(sale, type, receiver, condicionIvaReceptorId, existing?.id)
+    }
+
+    const cbteTipo = INVOICE_TYPE_CODES[type]
+    const emisor = await this.resolveEmisor(options.ptoVta)
+    const validator = new FiscalIssueValidator(emisor)
+    const ptoVta = await this.resolvePtoVta(validator, cbteTipo)
+
+    // Desglose de IVA por alícuota (Factura C no discrimina IVA)
+    let breakdown: IvaBreakdown | null = null
+    try {
+      if (condicionIvaReceptorId) {
+        await validator.validateCondicionIvaReceptor(condicionIvaReceptorId, INVOICE_CLASS[type])
+      }
+
+      if (type !== 'FACTURA_C') {
+        breakdown = this.buildSaleBreakdown(sale)
+        await validator.validateAlicuotas(breakdown.alicIva)
+      }
+    } catch (error) {
+      throw new FiscalInvoiceError(error instanceof Error ? error.message : 'Error al validar el comprobante', 400)
+    }
+
+    const request: AuthorizationRequest = {
+      cuitEmisor: emisor.cuitEmisor,
+      ptoVta,
+      cbteTipo,
+      importeTotal: Number(sale.total),
+      importeNeto: breakdown?.impNeto,
+      importeIva: breakdown?.impIva,
+      alicIva: breakdown?.alicIva,
+      docTipo: receiver.docTipo,
+      docNro: receiver.docNro,
+      fechaEmision: new Date(),
+      condicionIvaReceptorId
+    }
+
+    const document = await this.savePending(saleId, request, existing?.id)
+    return this.authorize(document, request, validator, `venta ${sale.receiptNumber}`)
+  }
+
+  /**
+   * Facturar varias ventas completadas en lotes de FECAESolicitar (hasta el máximo de FECompTotXRequest)
+   * Cada venta se resuelve por separado: las que no se pueden facturar no se envían, y dentro de un lote
+   * AFIP puede aprobar algunos comprobantes y rechazar otros (los rechazados se pueden volver a emitir)
+   */
+  static async issueBatch(saleIds: string[], type: InvoiceType, options: { ptoVta?: number } = {}): Promise<BatchIssueResult[]> {
+    this.assertIssuingEnabled()
+
+    const cbteTipo = INVOICE_TYPE_CODES[type]
+    const emisor = await this.resolveEmisor(options.ptoVta)
+    const validator = new FiscalIssueValidator(emisor)
+    const ptoVta = await this.resolvePtoVta(validator, cbteTipo)
+
+    const sales = await prisma.sale.findMany({
+      where: { id: { in: saleIds } },
+      include: SALE_INCLUDE,
+      orderBy: { createdAt: 'asc' }
+    })
+    const salesById = new Map(sales.map(sale => [sale.id, sale]))
+
+    const results = new Map<string, BatchIssueResult>()
+    const skip = (saleId: string, message: string) => {
+      const sale = salesById.get(saleId)
+      results.set(saleId, { saleId, receiptNumber: sale?.receiptNumber ?? null, document: null, message })
+    }
+
+    // Validaciones propias de cada venta (sin AFIP)
+    const candidates: Array<{
+      sale: SaleWithItems
+      existingId?: string
+      receiver: ReceiverDocument
+      condicionIvaReceptorId?: number
+      breakdown: IvaBreakdown | null
+    }> = []
+
+    for (const saleId of new Set(saleIds)) {
+      const sale = salesById.get(saleId)
+      if (!sale) {
+        skip(saleId, 'Venta no encontrada')
+        continue
+      }
+
+      try {
+        const { existing, receiver, condicionIvaReceptorId } = await this.checkInvoiceable(sale, type)
+        const breakdown = type !== 'FACTURA_C' ? this.buildSaleBreakdown(sale) : null
+        candidates.push({ sale, existingId: existing?.id, receiver, condicionIvaReceptorId, breakdown })
+      } catch (error) {
+        skip(saleId, error instanceof Error ? error.message : 'La venta no se puede facturar')
+      }
+    }
+
+    // Validaciones contra WSFE: una consulta por condición IVA y una para todas las alícuotas
+    const condicionErrors = new Map<number, string | null>()
+    for (const candidate of candidates) {
+      const condicion = candidate.condicionIvaReceptorId
+      if (!condicion || condicionErrors.has(condicion)) continue
+      try {
+        await validator.validateCondicionIvaReceptor(condicion, INVOICE_CLASS[type])
+        condicionErrors.set(condicion, null)
+      } catch (error) {
+        condicionErrors.set(condicion, error instanceof Error ? error.message : 'Condición IVA inválida')
+      }
+    }
+
+    const alicIva = candidates.flatMap(candidate => candidate.breakdown?.alicIva ?? [])
+    if (alicIva.length > 0) {
+      try {
+        await validator.validateAlicuotas(alicIva)
+      } catch (error) {
+        throw new FiscalInvoiceError(error instanceof Error ? error.message : 'Error al validar las alícuotas', 400)
+      }
+    }
+
+    const valid = candidates.filter(candidate => {
+      const error = candidate.condicionIvaReceptorId ? condicionErrors.get(candidate.condicionIvaReceptorId) : null
+      if (error) skip(candidate.sale.id, error)
+      return !error
+    })
+
+    const maxPerRequest = await validator.getMaxRegistrosPorRequest()
+    const batches = splitInBatches(valid, maxPerRequest)
+    const fechaEmision = new Date()
+
+    for (const [index, batch] of batches.entries()) {
+      console.log(`📦 [FiscalInvoice] Lote ${index + 1}/${batches.length}: ${batch.length} comprobantes ${type}`)
+
+      const items = []
+      for (const candidate of batch) {
+        const request: AuthorizationRequest = {
+          cuitEmisor: emisor.cuitEmisor,
+          ptoVta,
+          cbteTipo,
+          importeTotal: Number(candidate.sale.total),
+          importeNeto: candidate.breakdown?.impNeto,
+          importeIva: candidate.breakdown?.impIva,
+          alicIva: candidate.breakdown?.alicIva,
+          docTipo: candidate.receiver.docTipo,
+          docNro: candidate.receiver.docNro,
+          fechaEmision,
+          condicionIvaReceptorId: candidate.condicionIvaReceptorId
+        }
+        const document = await this.savePending(candidate.sale.id, request, candidate.existingId)
+        items.push({ document, request, label: `venta ${candidate.sale.receiptNumber}` })
+      }
+
+      const documents = await this.authorizeBatch(items, validator)
+      documents.forEach((document, i) => {
+        const { sale } = batch[i]!
+        results.set(sale.id, { saleId: sale.id, receiptNumber: sale.receiptNumber, document })
+      })
+    }
+
+    // Mismo orden en que se pidieron
+    return [...new Set(saleIds)].map(saleId => results.get(saleId)!)
+  }
+
+  /**
+   * Ventas completadas sin factura emitida ni en curso (las rechazadas se incluyen para reintentar)
+   */
+  static async listUninvoicedSales(filter: UninvoicedSalesFilter) {
+    return prisma.sale.findMany({
+      where: {
+        status: 'COMPLETED',
+        ...((filter.from || filter.to) && {
+          createdAt: {
+            ...(filter.from && { gte: filter.from }),
+            ...(filter.to && { lte: filter.to })
+          }
+        }),
+        fiscalDocuments: {
+          none: { cbteTipo: { in: INVOICE_CODES }, estado: { in: INVOICED_STATES } }
+        }
+      },
+      select: {
+        id: true,
+        receiptNumber: true,
+        total: true,
+        createdAt: true,
+        customer: { select: { name: true, documentNumber: true, ivaConditionId: true } },
+        // Último rechazo de AFIP, si lo hubo
+        fiscalDocuments: {
+          where: { cbteTipo: { in: INVOICE_CODES }, estado: 'REJECTED' },
+          select: { errores: true, observaciones: true, updatedAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: filter.limit
+    })
+  }
+
+  /**
+   * Emitir una nota de crédito o débito asociada a una factura autorizada
+   * Las notas de crédito pueden ser parciales (por importe o por items devueltos)
+   */
+  static async issueNote(invoiceId: string, params: IssueNoteParams) {
+    this.assertIssuingEnabled()
+
+    const invoice = await prisma.fiscalDocument.findUnique({
+      where: { id: invoiceId },
+      include: { sale: { include: SALE_INCLUDE } }
+    })
+
+    if (!invoice || !INVOICE_CODES.includes(invoice.cbteTipo)) {
+      throw new FiscalInvoiceError('Factura no encontrada', 404)
+    }
+
+    if (invoice.estado !== 'AUTHORIZED' || invoice.cbteNro === null) {
+      throw new FiscalInvoiceError('Solo se pueden emitir notas sobre facturas autorizadas', 409)
+    }
+
+    const { sale } = invoice
+    const balance = await this.getCreditBalance(invoice.id, Number(invoice.impTotal))
+
+    // Items e importe de la nota
+    let lines = sale.items.map(item => ({ ivaRate: Number(item.variant.product.ivaRate), subtotal: Number(item.subtotal) }))
+    let amount: number
+
+    if (params.kind === 'CREDIT' && params.items && params.items.length > 0) {
+      const creditedQuantities = await this.getCreditedQuantities(invoice.id)
+
+      lines = params.items.map(requested => {
+        const item = sale.items.find(i => i.id === requested.saleItemId)
+        if (!item) {
+          throw new FiscalInvoiceError(`El item ${requested.saleItemId} no pertenece a la venta`, 400)
+        }
+
+        const available = item.quantity - (creditedQuantities.get(item.id) ?? 0)
+        if (requested.quantity > available) {
+          throw new FiscalInvoiceError(`Cantidad a acreditar mayor a la disponible para ${item.variant.product.name} (${available})`, 400)
+        }
+
+        return {
+          ivaRate: Number(item.variant.product.ivaRate),
+          subtotal: Number(item.subtotal) * requested.quantity / item.quantity
+        }
+      })
+      amount = calculateCreditedAmount(
+        sale.items.map(item => ({ subtotal: Number(item.subtotal) })),
+        lines,
+        Number(sale.total)
+      )
+    } else if (params.amount !== undefined) {
+      amount = round2(params.amount)
+    } else if (params.kind === 'CREDIT') {
+      amount = balance
+    } else {
+      throw new FiscalInvoiceError('La nota de débito requiere un importe', 400)
+    }
+
+    if (amount <= 0) {
+      throw new FiscalInvoiceError('El importe de la nota debe ser mayor a cero', 400)
+    }
+
+    if (params.kind === 'CREDIT' && amount > balance + 0.005) {
+      throw new FiscalInvoiceError(`El importe supera el saldo disponible para acreditar (${balance.toFixed(2)})`, 400)
+    }
+
+    // La nota la emite el mismo CUIT que emitió la factura
+    const cbteTipo = NOTE_TYPE_CODES[invoice.cbteTipo]![params.kind]
+    const emisor = await this.resolveEmisorOf(invoice.cuitEmisor)
+    const validator = new FiscalIssueValidator(emisor)
+    const ptoVta = await this.resolvePtoVta(validator, cbteTipo)
+
+    // La nota replica el receptor y discrimina IVA igual que la factura original
+    let breakdown: IvaBreakdown | null = null
+    if (invoice.alicIva) {
+      try {
+        breakdown = buildIvaBreakdown(lines, amount)
+      } catch (error) {
+        throw new FiscalInvoiceError(error instanceof Error ? error.message : 'Error al calcular el IVA de la nota', 400)
+      }
+    }
+
+    const request: AuthorizationRequest = {
+      cuitEmisor: emisor.cuitEmisor,
+      ptoVta,
+      cbteTipo,
+      importeTotal: amount,
+      importeNeto: breakdown?.impNeto,
+      importeIva: breakdown?.impIva,
+      alicIva: breakdown?.alicIva,
+      cbtesAsoc: [toCbteAsoc({ ...invoice, cbteNro: invoice.cbteNro })],
+      docTipo: invoice.docTipo,
+      docNro: Number(invoice.docNro),
+      fechaEmision: new Date(),
+      condicionIvaReceptorId: invoice.condicionIvaReceptorId ?? undefined
+    }
+
+    const document = await this.savePending(sale.id, request, undefined, {
+      associatedDocumentId: invoice.id,
+      motivo: params.reason,
+      items: params.kind === 'CREDIT' && params.items && params.items.length > 0 ? params.items : undefined
+    })
+
+    const label = `${params.kind === 'CREDIT' ? 'nota de crédito' : 'nota de débito'} de venta ${sale.receiptNumber}`
+    return this.authorize(document, request, validator, label)
+  }
+
+  /**
+   * Verificar que una venta se pueda cancelar o reembolsar
+   * Una venta con factura autorizada requiere notas de crédito por el total facturado
+   */
+  static async assertCanCancel(saleId: string): Promise<void> {
+    const invoice = await this.findInvoice(saleId)
+    if (!invoice || RETRYABLE_STATES.includes(invoice.estado)) return
+
+    if (invoice.estado !== 'AUTHORIZED') {
+      throw new FiscalInvoiceError('La venta tiene un comprobante en curso o pendiente de revisión', 409)
+    }
+
+    const balance = await this.getCreditBalance(invoice.id, Number(invoice.impTotal), ['AUTHORIZED'])
+    if (balance > 0.005) {
+      throw new FiscalInvoiceError(
+        `La venta tiene una factura autorizada. Emita una nota de crédito por el saldo (${balance.toFixed(2)}) antes de cancelarla`,
+        409
+      )
+    }
+  }
+
+  /**
+   * Verificar que una venta facturada admita reintegros parciales
+   * Las notas de crédito autorizadas deben cubrir el total reintegrado (incluido el nuevo)
+   */
+  static async assertCanRefund(saleId: string, refundedTotal: number): Promise<void> {
+    const invoice = await this.findInvoice(saleId)
+    if (!invoice || RETRYABLE_STATES.includes(invoice.estado) || refundedTotal <= 0) return
+
+    if (invoice.estado !== 'AUTHORIZED') {
+      throw new FiscalInvoiceError('La venta tiene un comprobante en curso o pendiente de revisión', 409)
+    }
+
+    const invoiceTotal = Number(invoice.impTotal)
+    const credited = round2(invoiceTotal - await this.getCreditBalance(invoice.id, invoiceTotal, ['AUTHORIZED']))
+    if (credited + 0.005 < refundedTotal) {
+      throw new FiscalInvoiceError(
+        `La venta tiene una factura autorizada. Emita una nota de crédito por ${(refundedTotal - credited).toFixed(2)} antes de reintegrar el dinero`,
+        409
+      )
+    }
+  }
+
+  /**
+   * Listar comprobantes (más recientes primero)
+   */
+  static async list(filter: InvoiceListFilter) {
+    const where: Prisma.FiscalDocumentWhereInput = {
+      ...(filter.saleId && { saleId: filter.saleId }),
+      ...(filter.estado && { estado: filter.estado }),
+      ...((filter.from || filter.to) && {
+        fechaEmision: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to })
+        }
+      })
+    }
+
+    const [documents, total] = await Promise.all([
+      prisma.fiscalDocument.findMany({
+        where,
+        include: { sale: { select: { receiptNumber: true, total: true, customer: { select: { name: true } } } } },
+        orderBy: { fechaEmision: 'desc' },
+        skip: (filter.page - 1) * filter.limit,
+        take: filter.limit
+      }),
+      prisma.fiscalDocument.count({ where })
+    ])
+
+    return { documents, total }
+  }
+
+  /**
+   * Obtener un comprobante con la venta, sus items y los comprobantes asociados
+   */
+  static async getById(id: string) {
+    return prisma.fiscalDocument.findUnique({
+      where: { id },
+      include: {
+        sale: { include: SALE_INCLUDE },
+        associatedDocument: true,
+        notes: { orderBy: { createdAt: 'asc' } }
+      }
+    })
+  }
+
+  /**
+   * Reintentar la emisión de un comprobante PENDING (la solicitud se reconstruye desde el registro)
+   */
+  static async processPending(documentId: string) {
+    this.assertIssuingEnabled()
+
+    const document = await prisma.fiscalDocument.findUnique({
+      where: { id: documentId },
+      include: { associatedDocument: true, sale: { select: { receiptNumber: true } } }
+    })
+    if (!document || document.estado !== 'PENDING') return document
+
+    const alicIva = document.alicIva ? document.alicIva as unknown as AlicIva[] : undefined
+    const { associatedDocument } = document
+
+    const request: AuthorizationRequest = {
+      cuitEmisor: document.cuitEmisor,
+      ptoVta: document.ptoVta,
+      cbteTipo: document.cbteTipo,
+      importeTotal: Number(document.impTotal),
+      importeNeto: alicIva ? Number(document.impNeto) : undefined,
+      importeIva: alicIva ? Number(document.impIva) : undefined,
+      alicIva,
+      cbtesAsoc: associatedDocument?.cbteNro != null
+        ? [toCbteAsoc({ ...associatedDocument, cbteNro: associatedDocument.cbteNro })]
+        : undefined,
+      docTipo: document.docTipo,
+      docNro: Number(document.docNro),
+      // AFIP no acepta fechas anteriores al último comprobante emitido: se emite con la fecha del reintento
+      fechaEmision: new Date(),
+      condicionIvaReceptorId: document.condicionIvaReceptorId ?? undefined
+    }
+
+    const label = `${FISCAL_DOCUMENT_TYPES[document.cbteTipo] ?? document.cbteTipo} de venta ${document.sale.receiptNumber}`
+    const emisor = await this.resolveEmisorOf(document.cuitEmisor)
+    return this.authorize(document, request, new FiscalIssueValidator(emisor), label)
+  }
+
+  /**
+   * Conciliar un comprobante SENT o NEEDS_REVIEW consultándolo en AFIP por ptoVta/tipo/número
+   * Si AFIP lo autorizó pasa a AUTHORIZED; si no lo registra pasa a REJECTED y el número se libera
+   */
+  static async reconcile(documentId: string) {
+    const document = await prisma.fiscalDocument.findUnique({ where: { id: documentId } })
+    if (!document || (document.estado !== 'SENT' && document.estado !== 'NEEDS_REVIEW')) return document
+
+    if (document.cbteNro === null) {
+      await FiscalAlertService.raise(document.id, 'RECONCILE_FAILED', 'El comprobante no tiene número asignado: no se puede consultar en AFIP')
+      return prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: { estado: 'NEEDS_REVIEW', nextAttemptAt: null }
+      })
+    }
+
+    const number = this.formatNumber(document.ptoVta, document.cbteNro)
+
+    let result
+    try {
+      const emisor = await FiscalConfigService.getEmisorByCuitEmisor(document.cuitEmisor)
+      const wsfeClient = new ArcaWsfeClient(undefined, emisor.cuit)
+      result = await wsfeClient.consultarComprobante(document.ptoVta, document.cbteTipo, document.cbteNro)
+    } catch (error) {
+      return this.reconcileFailed(document, error instanceof Error ? error.message : 'Error desconocido')
+    }
+
+    const comprobante = result.data?.ResultGet
+    const notFound = result.errors.some(e => Number(e.code) === WSFE_NOT_FOUND_CODE)
+
+    if (notFound || (result.success && comprobante && (comprobante.Resultado !== 'A' || !comprobante.CodAutorizacion))) {
+      console.warn(`⚠️ [FiscalInvoice] ${number} no figura autorizado en AFIP: se rechaza`)
+      await FiscalAlertService.resolveForDocument(document.id)
+      return prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: {
+          estado: 'REJECTED',
+          cbteNro: null,
+          errores: [{ code: 'NOT_FOUND', msg: `AFIP no registra el comprobante ${number}` }],
+          nextAttemptAt: null
+        }
+      })
+    }
+
+    if (!result.success || !comprobante) {
+      return this.reconcileFailed(document, result.errors.map(e => `${e.code}: ${e.msg}`).join(', ') || 'Respuesta vacía')
+    }
+
+    // El número pudo haberlo usado otro sistema con el mismo CUIT y punto de venta
+    const matches = Math.abs(Number(comprobante.ImpTotal) - Number(document.impTotal)) < 0.01 &&
+      String(comprobante.DocNro) === document.docNro
+    if (!matches) {
+      await FiscalAlertService.raise(
+        document.id,
+        'MISMATCH',
+        `AFIP autorizó ${number} con otros datos (total ${comprobante.ImpTotal}, documento ${comprobante.DocNro})`
+      )
+      return prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: { estado: 'NEEDS_REVIEW', nextAttemptAt: null }
+      })
+    }
+
+    console.log(`✅ [FiscalInvoice] ${number} conciliado: CAE=${comprobante.CodAutorizacion}`)
+    await FiscalAlertService.resolveForDocument(document.id)
+    return prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        estado: 'AUTHORIZED',
+        cae: String(comprobante.CodAutorizacion),
+        caeVto: parseAfipDate(comprobante.FchVto),
+        fechaEmision: parseAfipDate(comprobante.CbteFch) ?? document.fechaEmision,
+        fechaServidor: parseAfipDate(comprobante.FchProceso),
+        errores: Prisma.DbNull,
+        nextAttemptAt: null
+      }
+    })
+  }
+
+  /**
+   * Número de comprobante formateado (PPPPP-NNNNNNNN)
+   */
+  static formatNumber(ptoVta: number, cbteNro: number | null): string | null {
+    if (cbteNro === null) return null
+    return `${String(ptoVta).padStart(5, '0')}-${String(cbteNro).padStart(8, '0')}`
+  }
+
+  /**
+   * CUIT emisor del certificado principal: el representado (delegación WSASS) o el del certificado
+   */
+  static async getCuitEmisor(): Promise<string> {
+    return (await FiscalConfigService.getCuitRepresentado()) || env.AFIP_CUIT!
+  }
+
+  private static assertIssuingEnabled(): void {
+    if (!env.FISCAL_ISSUE_ENABLED) {
+      throw new FiscalInvoiceError('Emisión de comprobantes no está habilitada. Requiere FISCAL_ISSUE_ENABLED=true en .env', 403)
+    }
+
+    if (!isFiscalEnabled()) {
+      throw new FiscalInvoiceError('Facturación electrónica no está configurada', 400)
+    }
+  }
+
+  /**
+   * Verificar que la venta se pueda facturar y resolver el receptor
+   */
+  private static async checkInvoiceable(sale: SaleWithItems, type: InvoiceType, condicionOverride?: number) {
+    if (sale.status !== 'COMPLETED') {
+      throw new FiscalInvoiceError('Solo se pueden facturar ventas completadas', 400)
+    }
+
+    const existing = await this.findInvoice(sale.id)
+    if (existing && !RETRYABLE_STATES.includes(existing.estado)) {
+      const message = existing.estado === 'AUTHORIZED'
+        ? 'La venta ya tiene un comprobante autorizado'
+        : 'La venta tiene un comprobante en curso o pendiente de revisión'
+      throw new FiscalInvoiceError(message, 409)
+    }
+
+    // Receptor: documento del cliente y condición IVA validada contra WSFE
+    let receiver: ReceiverDocument
+    try {
+      receiver = resolveReceiverDocument(sale.customer?.documentNumber)
+    } catch (error) {
+      throw new FiscalInvoiceError(error instanceof Error ? error.message : 'Documento del receptor inválido', 400)
+    }
+
+    if (type === 'FACTURA_A' && receiver.docTipo !== DOC_TIPO_CUIT) {
+      throw new FiscalInvoiceError('La Factura A requiere un cliente con CUIT', 400)
+    }
+
+    const condicionIvaReceptorId = condicionOverride ?? sale.customer?.ivaConditionId ?? undefined
+    if (type === 'FACTURA_A' && !condicionIvaReceptorId) {
+      throw new FiscalInvoiceError('El cliente no tiene condición frente al IVA configurada', 400)
+    }
+
+    return { existing, receiver, condicionIvaReceptorId }
+  }
+
+  /**
+   * Desglose de IVA de la venta completa
+   */
+  private static buildSaleBreakdown(sale: SaleWithItems): IvaBreakdown {
+    return buildIvaBreakdown(
+      sale.items.map(item => ({ ivaRate: Number(item.variant.product.ivaRate), subtotal: Number(item.subtotal) })),
+      Number(sale.total)
+    )
+  }
+
+  private static async resolvePtoVta(validator: FiscalIssueValidator, cbteTipo: number): Promise<number> {
+    const canIssueResult = await validator.canIssue(cbteTipo)
+
+    if (!canIssueResult.canIssue || !canIssueResult.ptoVta) {
+      throw new FiscalInvoiceError(canIssueResult.reason || 'No se puede emitir comprobante', 400)
+    }
+
+    return canIssueResult.ptoVta
+  }
+
+  /**
+   * Emisor que corresponde al punto de venta pedido (o el del certificado principal)
+   */
+  private static async resolveEmisor(ptoVta?: number): Promise<FiscalEmisor> {
+    if (ptoVta === undefined) {
+      return FiscalConfigService.getEmisor()
+    }
+
+    const emisor = await FiscalConfigService.getEmisorForPtoVta(ptoVta)
+    if (!emisor) {
+      throw new FiscalInvoiceError(`El punto de venta ${ptoVta} no está configurado para ningún CUIT emisor`, 400)
+    }
+    return emisor
+  }
+
+  /**
+   * Emisor de un comprobante ya registrado (notas, reintentos)
+   */
+  private static async resolveEmisorOf(cuitEmisor: string): Promise<FiscalEmisor> {
+    try {
+      return await FiscalConfigService.getEmisorByCuitEmisor(cuitEmisor)
+    } catch (error) {
+      throw new FiscalInvoiceError(error instanceof Error ? error.message : 'CUIT emisor no configurado', 400)
+    }
+  }
+
+  /**
+   * Emitir con el CAEA vigente: no hay llamadas a WSFE y el número se asigna localmente
+   * El comprobante queda AUTHORIZED y pendiente de informar con FECAEARegInformativo
+   */
+  private static async issueWithCaea(
+    sale: SaleWithItems,
+    type: InvoiceType,
+    receiver: ReceiverDocument,
+    condicionIvaReceptorId: number | undefined,
+    existingId?: string
+  ) {
+    const ptoVta = env.AFIP_CAEA_PTO_VTA
+    if (!ptoVta) {
+      throw new FiscalInvoiceError('No hay punto de venta para CAEA configurado (AFIP_CAEA_PTO_VTA)', 400)
+    }
+
+    const cuitEmisor = await this.getCuitEmisor()
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+
+    const caea = await prisma.fiscalCaea.findFirst({
+      where: {
+        env: ArcaCertificateStore.getActiveEnv(),
+        cuit: cuitEmisor,
+        fchVigDesde: { lte: today },
+        fchVigHasta: { gte: today }
+      }
+    })
+    if (!caea) {
+      throw new FiscalInvoiceError('No hay un CAEA vigente para la quincena actual. Solicítelo cuando haya conexión con AFIP', 409)
+    }
+
+    // Sin WSFE no se pueden validar las alícuotas: se usan los Id fijos de AFIP
+    let breakdown: IvaBreakdown | null = null
+    if (type !== 'FACTURA_C') {
+      try {
+        breakdown = this.buildSaleBreakdown(sale)
+      } catch (error) {
+        throw new FiscalInvoiceError(error instanceof Error ? error.message : 'Error al calcular el IVA', 400)
+      }
+    }
+
+    const cbteTipo = INVOICE_TYPE_CODES[type]
+    const request: AuthorizationRequest = {
+      cuitEmisor,
+      ptoVta,
+      cbteTipo,
+      importeTotal: Number(sale.total),
+      importeNeto: breakdown?.impNeto,
+      importeIva: breakdown?.impIva,
+      alicIva: breakdown?.alicIva,
+      docTipo: receiver.docTipo,
+      docNro: receiver.docNro,
+      fechaEmision: now,
+      condicionIvaReceptorId: condicionIvaReceptorId ?? CONDICION_IVA_CONSUMIDOR_FINAL
+    }
+
+    // Numeración local: el punto de venta CAEA es exclusivo de este sistema
+    for (let attempt = 1; ; attempt++) {
+      const last = await prisma.fiscalDocument.aggregate({
+        where: { cuitEmisor, ptoVta, cbteTipo },
+        _max: { cbteNro: true }
+      })
+      const cbteNro = (last._max.cbteNro ?? 0) + 1
+
+      const data = {
+        ...this.buildDocumentData(request),
+        cbteNro,
+        cae: caea.caea,
+        caeVto: caea.fchVigHasta,
+        caeaId: caea.id,
+        informadoAt: null,
+        estado: 'AUTHORIZED' as const,
+        // Lo toma el worker para informarlo a AFIP
+        nextAttemptAt: now
+      }
+
+      try {
+        const document = existingId
+          ? await prisma.fiscalDocument.update({ where: { id: existingId }, data })
+          : await prisma.fiscalDocument.create({ data: { saleId: sale.id, ...data } })
+
+        console.log(`✅ [FiscalInvoice] Venta ${sale.receiptNumber} emitida con CAEA ${caea.caea}: ${this.formatNumber(ptoVta, cbteNro)}`)
+        return document
+      } catch (error) {
+        // Otro comprobante tomó el mismo número: se recalcula
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          if (attempt < 3) continue
+          throw new FiscalInvoiceError('Otro comprobante se está emitiendo con el mismo número. Reintente en unos segundos', 409)
+        }
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Factura de la venta (la última, si hubo intentos rechazados)
+   */
+  private static async findInvoice(saleId: string) {
+    return prisma.fiscalDocument.findFirst({
+      where: { saleId, cbteTipo: { in: INVOICE_CODES } },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Saldo acreditable de una factura: total + notas de débito - notas de crédito
+   */
+  private static async getCreditBalance(
+    invoiceId: string,
+    invoiceTotal: number,
+    states: Array<'SENT' | 'AUTHORIZED' | 'NEEDS_REVIEW'> = COMMITTED_STATES
+  ): Promise<number> {
+    const notes = await prisma.fiscalDocument.findMany({
+      where: { associatedDocumentId: invoiceId, estado: { in: states } },
+      select: { cbteTipo: true, impTotal: true }
+    })
+
+    const credited = notes
+      .filter(note => CREDIT_NOTE_CODES.includes(note.cbteTipo))
+      .reduce((sum, note) => sum + Number(note.impTotal), 0)
+    const debited = notes
+      .filter(note => DEBIT_NOTE_CODES.includes(note.cbteTipo))
+      .reduce((sum, note) => sum + Number(note.impTotal), 0)
+
+    return round2(invoiceTotal + debited - credited)
+  }
+
+  /**
+   * Cantidades ya acreditadas por item de venta
+   */
+  private static async getCreditedQuantities(invoiceId: string): Promise<Map<string, number>> {
+    const notes = await prisma.fiscalDocument.findMany({
+      where: { associatedDocumentId: invoiceId, cbteTipo: { in: CREDIT_NOTE_CODES }, estado: { in: COMMITTED_STATES } },
+      select: { items: true }
+    })
+
+    const quantities = new Map<string, number>()
+    for (const note of notes) {
+      const items = (note.items ?? []) as Array<{ saleItemId: string; quantity: number }>
+      for (const item of items) {
+        quantities.set(item.saleItemId, (quantities.get(item.saleItemId) ?? 0) + item.quantity)
+      }
+    }
+    return quantities
+  }
+
+  /**
+   * PENDING: el comprobante queda registrado antes de hablar con AFIP
+   */
+  private static async savePending(
+    saleId: string,
+    request: AuthorizationRequest,
+    existingId?: string,
+    note?: { associatedDocumentId: string; motivo: string; items?: IssueNoteParams['items'] }
+  ): Promise<FiscalDocumentRow> {
+    const data = {
+      ...this.buildDocumentData(request),
+      cbteNro: null,
+      cae: null,
+      caeVto: null,
+      estado: 'PENDING' as const,
+      // Tomado por la emisión sincrónica; si el proceso se interrumpe, lo retoma el worker
+      nextAttemptAt: new Date(Date.now() + FISCAL_LEASE_MS)
+    }
+
+    if (existingId) {
+      return prisma.fiscalDocument.update({ where: { id: existingId }, data })
+    }
+
+    return prisma.fiscalDocument.create({
+      data: {
+        saleId,
+        ...data,
+        ...(note && {
+          associatedDocumentId: note.associatedDocumentId,
+          motivo: note.motivo,
+          items: note.items ? note.items as unknown as Prisma.InputJsonValue : Prisma.DbNull
+        })
+      }
+    })
+  }
+
+  /**
+   * Emisor, receptor e importes del comprobante (sin número ni estado)
+   */
+  private static buildDocumentData(request: AuthorizationRequest) {
+    return {
+      cuitEmisor: request.cuitEmisor,
+      ptoVta: request.ptoVta,
+      cbteTipo: request.cbteTipo,
+      cbteNro: null,
+      docTipo: request.docTipo,
+      docNro: String(request.docNro),
+      condicionIvaReceptorId: request.condicionIvaReceptorId ?? null,
+      impTotal: request.importeTotal,
+      impNeto: request.importeNeto ?? request.importeTotal,
+      impIva: request.importeIva ?? 0,
+      alicIva: request.alicIva ? request.alicIva as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+      errores: Prisma.DbNull,
+      observaciones: Prisma.DbNull,
+      fechaEmision: request.fechaEmision,
+      fechaServidor: null,
+      attempts: 0
+    }
+  }
+
+  /**
+   * Solicitar el CAE de un comprobante PENDING y registrar el resultado
+   */
+  private static async authorize(
+    document: FiscalDocumentRow,
+    request: AuthorizationRequest,
+    validator: FiscalIssueValidator,
+    label: string
+  ) {
+    // Preparar la solicitud (numeración siguiente según FECompUltimoAutorizado)
+    let dto
+    try {
+      dto = await validator.prepareFECAESolicitarDTO(request)
+    } catch (error) {
+      return this.prepareFailed(document, error instanceof Error ? error.message : 'Error desconocido', label)
+    }
+
+    const cbteNro = dto.FeCAEReq.FeDetReq.FECAEDetRequest.CbteDesde
+    const condicionIvaReceptorUsed = dto.FeCAEReq.FeDetReq.FECAEDetRequest.CondicionIVAReceptorId
+
+    // SENT: el número queda reservado por el índice único (cuit, ptoVta, cbteTipo, cbteNro)
+    try {
+      await prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: {
+          estado: 'SENT',
+          cbteNro,
+          condicionIvaReceptorId: condicionIvaReceptorUsed,
+          fechaEmision: request.fechaEmision,
+          // Si no hay respuesta en este plazo (p. ej. se reinicia el servidor) el worker lo concilia
+          attempts: 0,
+          nextAttemptAt: new Date(Date.now() + SENT_STALE_MS)
+        }
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await prisma.fiscalDocument.update({
+          where: { id: document.id },
+          data: {
+            estado: 'REJECTED',
+            errores: [{ code: 'NUMBERING', msg: `El número ${cbteNro} ya está asignado a otro comprobante` }],
+            nextAttemptAt: null
+          }
+        })
+        throw new FiscalInvoiceError('Otro comprobante se está emitiendo con el mismo número. Reintente en unos segundos', 409)
+      }
+      throw error
+    }
+
+    console.log(`📤 [FiscalInvoice] Emitiendo ${label}: ptoVta=${request.ptoVta}, cbteTipo=${request.cbteTipo}, cbteNro=${cbteNro}`)
+
+    // FECAESolicitar
+    let result
+    try {
+      result = await validator.getWsfeClient().solicitarCAE(dto.FeCAEReq)
+    } catch (error) {
+      // Timeout o error de red: no se sabe si AFIP autorizó el comprobante
+      console.error(`❌ [FiscalInvoice] Sin respuesta de AFIP para ${label}:`, error instanceof Error ? error.message : error)
+      return prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: {
+          estado: 'NEEDS_REVIEW',
+          errores: [{ code: 'NETWORK', msg: error instanceof Error ? error.message : 'Error desconocido' }],
+          nextAttemptAt: fiscalRetryAt(1)
+        }
+      })
+    }
+
+    const feCabResp = result.data?.FeCabResp as { Resultado?: string; FchProceso?: string } | undefined
+    return this.applyDetResponse(document, cbteNro, result.data?.FeDetResp?.FECAEDetResponse as DetResponse | undefined, feCabResp, result.errors, label)
+  }
+
+  /**
+   * Solicitar en un único FECAESolicitar el CAE de varios comprobantes PENDING del mismo tipo y punto de venta
+   * Cada FECAEDetResponse se asocia a su comprobante por número (CbteDesde)
+   */
+  private static async authorizeBatch(
+    items: Array<{ document: FiscalDocumentRow; request: AuthorizationRequest; label: string }>,
+    validator: FiscalIssueValidator
+  ): Promise<FiscalDocumentRow[]> {
+    const { ptoVta, cbteTipo, fechaEmision } = items[0]!.request
+
+    // Numeración consecutiva a partir de FECompUltimoAutorizado
+    let dto
+    try {
+      dto = await validator.prepareFECAESolicitarBatchDTO(ptoVta, cbteTipo, items.map(item => item.request))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      return Promise.all(items.map(item => this.prepareFailed(item.document, message, item.label)))
+    }
+
+    const detRequests = dto.FeCAEReq.FeDetReq.FECAEDetRequest
+
+    // SENT: todos los números se reservan juntos o ninguno
+    try {
+      await prisma.$transaction(items.map((item, index) => prisma.fiscalDocument.update({
+        where: { id: item.document.id },
+        data: {
+          estado: 'SENT',
+          cbteNro: detRequests[index]!.CbteDesde,
+          condicionIvaReceptorId: detRequests[index]!.CondicionIVAReceptorId,
+          fechaEmision,
+          attempts: 0,
+          nextAttemptAt: new Date(Date.now() + SENT_STALE_MS)
+        }
+      })))
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        // Otro comprobante tomó uno de los números: quedan PENDING y el worker los emite de a uno
+        console.warn(`⚠️ [FiscalInvoice] Numeración ocupada al reservar el lote (ptoVta=${ptoVta}, cbteTipo=${cbteTipo}): se reencola`)
+        return Promise.all(items.map(item => prisma.fiscalDocument.update({
+          where: { id: item.document.id },
+          data: {
+            errores: [{ code: 'NUMBERING', msg: 'La numeración del lote ya estaba asignada a otro comprobante' }],
+            nextAttemptAt: fiscalRetryAt(1)
+          }
+        })))
+      }
+      throw error
+    }
+
+    const desde = detRequests[0]!.CbteDesde
+    const hasta = detRequests[detRequests.length - 1]!.CbteDesde
+    console.log(`📤 [FiscalInvoice] Emitiendo lote: ptoVta=${ptoVta}, cbteTipo=${cbteTipo}, cbteNro=${desde}-${hasta} (${items.length})`)
+
+    let result
+    try {
+      result = await validator.getWsfeClient().solicitarCAE(dto.FeCAEReq)
+    } catch (error) {
+      // Timeout o error de red: no se sabe qué comprobantes autorizó AFIP, se concilian uno por uno
+      const message = error instanceof Error ? error.message : 'Error desconocido'
+      console.error(`❌ [FiscalInvoice] Sin respuesta de AFIP para el lote ${desde}-${hasta}:`, message)
+      return Promise.all(items.map(item => prisma.fiscalDocument.update({
+        where: { id: item.document.id },
+        data: {
+          estado: 'NEEDS_REVIEW',
+          errores: [{ code: 'NETWORK', msg: message }],
+          nextAttemptAt: fiscalRetryAt(1)
+        }
+      })))
+    }
+
+    const feCabResp = result.data?.FeCabResp as { Resultado?: string; FchProceso?: string } | undefined
+    const rawDetResponses = result.data?.FeDetResp?.FECAEDetResponse as DetResponse | DetResponse[] | undefined
+    const detResponses = Array.isArray(rawDetResponses) ? rawDetResponses : rawDetResponses ? [rawDetResponses] : []
+    const byNumber = new Map(detResponses.map(det => [Number(det.CbteDesde), det]))
+
+    const documents: FiscalDocumentRow[] = []
+    for (const [index, item] of items.entries()) {
+      const cbteNro = detRequests[index]!.CbteDesde
+      const detResponse = byNumber.get(cbteNro)
+
+      if (!detResponse && detResponses.length > 0) {
+        // AFIP respondió el lote sin este comprobante: se concilia con FECompConsultar
+        console.warn(`⚠️ [FiscalInvoice] El lote no trajo respuesta para ${item.label} (cbteNro=${cbteNro})`)
+        documents.push(await prisma.fiscalDocument.update({
+          where: { id: item.document.id },
+          data: {
+            estado: 'NEEDS_REVIEW',
+            errores: [{ code: 'MISSING_RESPONSE', msg: `La respuesta del lote no incluye el comprobante ${cbteNro}` }],
+            nextAttemptAt: fiscalRetryAt(1)
+          }
+        }))
+        continue
+      }
+
+      documents.push(await this.applyDetResponse(item.document, cbteNro, detResponse, feCabResp, result.errors, item.label))
+    }
+
+    return documents
+  }
+
+  /**
+   * No se pudo preparar la solicitud (no se envió nada a AFIP): queda PENDING para que el worker lo reintente
+   */
+  private static async prepareFailed(document: FiscalDocumentRow, message: string, label: string) {
+    const attempts = document.attempts + 1
+    const exhausted = attempts >= FISCAL_MAX_ATTEMPTS
+
+    if (exhausted) {
+      await FiscalAlertService.raise(document.id, 'ISSUE_FAILED', `No se pudo emitir ${label} tras ${attempts} intentos: ${message}`)
+    }
+
+    return prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        estado: exhausted ? 'REJECTED' : 'PENDING',
+        errores: [{ code: 'PREPARE', msg: message }],
+        attempts,
+        nextAttemptAt: exhausted ? null : fiscalRetryAt(attempts)
+      }
+    })
+  }
+
+  /**
+   * AUTHORIZED o REJECTED según el FECAEDetResponse del comprobante
+   */
+  private static async applyDetResponse(
+    document: FiscalDocumentRow,
+    cbteNro: number,
+    detResponse: DetResponse | undefined,
+    feCabResp: { Resultado?: string; FchProceso?: string } | undefined,
+    errores: FiscalMessage[],
+    label: string
+  ) {
+    const resultado = detResponse?.Resultado || feCabResp?.Resultado || 'R'
+    const cae = detResponse?.CAE ? String(detResponse.CAE) : null
+    const caeVto = parseAfipDate(detResponse?.CAEFchVto)
+    const observaciones = normalizeObservaciones(detResponse?.Observaciones)
+
+    if (resultado === 'A' && cae && caeVto) {
+      console.log(`✅ [FiscalInvoice] ${label} autorizada: CAE=${cae}`)
+      return prisma.fiscalDocument.update({
+        where: { id: document.id },
+        data: {
+          estado: 'AUTHORIZED',
+          cbteNro: Number(detResponse?.CbteDesde) || cbteNro,
+          cae,
+          caeVto,
+          errores: errores.length > 0 ? errores as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+          observaciones: observaciones.length > 0 ? observaciones as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+          fechaServidor: parseAfipDate(feCabResp?.FchProceso),
+          nextAttemptAt: null
+        }
+      })
+    }
+
+    console.warn(`⚠️ [FiscalInvoice] ${label} rechazada: ${[...errores, ...observaciones].map(e => `${e.code}: ${e.msg}`).join(', ')}`)
+    return prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        estado: 'REJECTED',
+        // El número no se consumió en AFIP: se libera para el próximo comprobante
+        cbteNro: null,
+        errores: errores as unknown as Prisma.InputJsonValue,
+        observaciones: observaciones.length > 0 ? observaciones as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+        fechaServidor: parseAfipDate(feCabResp?.FchProceso),
+        nextAttemptAt: null
+      }
+    })
+  }
+
+  /**
+   * Falla al consultar AFIP: se reintenta con backoff y, agotados los intentos, se alerta a un administrador
+   */
+  private static async reconcileFailed(document: FiscalDocumentRow, message: string) {
+    const attempts = document.attempts + 1
+    const exhausted = attempts >= FISCAL_MAX_ATTEMPTS
+    const number = this.formatNumber(document.ptoVta, document.cbteNro)
+
+    console.warn(`⚠️ [FiscalInvoice] No se pudo conciliar ${number} (intento ${attempts}): ${message}`)
+    if (exhausted) {
+      await FiscalAlertService.raise(document.id, 'RECONCILE_FAILED', `No se pudo consultar ${number} en AFIP tras ${attempts} intentos: ${message}`)
+    }
+
+    return prisma.fiscalDocument.update({
+      where: { id: document.id },
+      data: {
+        estado: 'NEEDS_REVIEW',
+        attempts,
+        nextAttemptAt: exhausted ? null : fiscalRetryAt(attempts)
+      }
+    })
+  }
+}
+
+/**
+ * Comprobante asociado (CbtesAsoc) a partir de la factura original
+ */
+export function toCbteAsoc(invoice: { cbteTipo: number; ptoVta: number; cbteNro: number; cuitEmisor: string; fechaEmision: Date }): CbteAsoc {
+  return {
+    Tipo: invoice.cbteTipo,
+    PtoVta: invoice.ptoVta,
+    Nro: invoice.cbteNro,
+    Cuit: invoice.cuitEmisor,
+    CbteFch: formatAfipDate(invoice.fechaEmision)
+  }
+}
+
+/**
+ * Observaciones del detalle: el XML puede venir como { Obs: [...] }, { Obs: {...} } o array
+ */
+export function normalizeObservaciones(raw: unknown): FiscalMessage[] {
+  if (!raw) return []
+  const list = (raw as { Obs?: unknown }).Obs ?? raw
+  const items = (Array.isArray(list) ? list : [list]) as Array<{ Code?: number; Msg?: string }>
+  return items.map(o => ({ code: o.Code ?? 0, msg: String(o.Msg ?? '') }))
+}
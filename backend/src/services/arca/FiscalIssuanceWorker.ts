@@ -0,0 +1,125 @@
+/**
+ * FiscalIssuanceWorker - Cola persistente de emisión de comprobantes
+ *
+ * Este servicio:
+ * - Cada minuto toma los FiscalDocument con nextAttemptAt vencido
+ * - PENDING: reintenta la emisión (FECAESolicitar)
+ * - SENT / NEEDS_REVIEW: concilia el resultado con FECompConsultar
+ * - Toma cada comprobante con un lease para no procesarlo dos veces
+ *   (la emisión sincrónica desde la API también lo toma al crearlo)
+ * - CAEA: informa los comprobantes emitidos sin conexión y pide el CAEA de cada quincena
+ * - Una vez por día avisa los certificados de AFIP vencidos o por vencer
+ */
+
+import { prisma } from '../../config/database.js'
+import { env, isFiscalEnabled } from '../../config/env.js'
+import { FiscalInvoiceService, FISCAL_LEASE_MS } from './FiscalInvoiceService.js'
+import { FiscalCaeaService } from './FiscalCaeaService.js'
+import { FiscalCertificateService } from './FiscalCertificateService.js'
+
+export class FiscalIssuanceWorker {
+  private static instance: FiscalIssuanceWorker | null = null
+  private intervalId: NodeJS.Timeout | null = null
+  private isProcessing = false
+  private readonly POLL_INTERVAL_MS = 60 * 1000 // 1 minuto
+  private readonly BATCH_SIZE = 20
+  private readonly CERTIFICATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000
+  private lastCertificateCheckAt = Date.now() // El servidor ya los revisa al iniciar
+
+  private constructor() {}
+
+  static getInstance(): FiscalIssuanceWorker {
+    if (!FiscalIssuanceWorker.instance) {
+      FiscalIssuanceWorker.instance = new FiscalIssuanceWorker()
+    }
+    return FiscalIssuanceWorker.instance
+  }
+
+  /**
+   * Iniciar el worker
+   */
+  start(): void {
+    if (this.intervalId) {
+      console.log('⚠️ [FiscalWorker] Ya está corriendo')
+      return
+    }
+
+    if (!env.FISCAL_ISSUE_ENABLED || !isFiscalEnabled()) {
+      console.log('⚠️ [FiscalWorker] Emisión no habilitada, no se inicia la cola')
+      return
+    }
+
+    this.intervalId = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('❌ [FiscalWorker] Error procesando la cola:', error instanceof Error ? error.message : 'Error desconocido')
+      })
+    }, this.POLL_INTERVAL_MS)
+
+    console.log('✅ [FiscalWorker] Cola de emisión iniciada')
+  }
+
+  /**
+   * Detener el worker
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    console.log('🛑 [FiscalWorker] Cola de emisión detenida')
+  }
+
+  /**
+   * Procesar los comprobantes vencidos (uno a la vez: la numeración de AFIP es secuencial)
+   */
+  async processDue(): Promise<void> {
+    if (this.isProcessing) return
+    this.isProcessing = true
+
+    try {
+      const due = await prisma.fiscalDocument.findMany({
+        where: {
+          estado: { in: ['PENDING', 'SENT', 'NEEDS_REVIEW'] },
+          nextAttemptAt: { lte: new Date() }
+        },
+        select: { id: true, estado: true, nextAttemptAt: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.BATCH_SIZE
+      })
+
+      for (const document of due) {
+        // Lease: si otro proceso lo tomó (o cambió de estado) desde la consulta, se saltea
+        const claimed = await prisma.fiscalDocument.updateMany({
+          where: { id: document.id, estado: document.estado, nextAttemptAt: document.nextAttemptAt },
+          data: { nextAttemptAt: new Date(Date.now() + FISCAL_LEASE_MS) }
+        })
+        if (claimed.count === 0) continue
+
+        try {
+          const result = document.estado === 'PENDING'
+            ? await FiscalInvoiceService.processPending(document.id)
+            : await FiscalInvoiceService.reconcile(document.id)
+          console.log(`🔄 [FiscalWorker] Comprobante ${document.id}: ${document.estado} → ${result?.estado ?? '-'}`)
+        } catch (error) {
+          // El lease vence y el comprobante se vuelve a tomar en una próxima pasada
+          console.error(`❌ [FiscalWorker] Error procesando ${document.id}:`, error instanceof Error ? error.message : 'Error desconocido')
+        }
+      }
+
+      try {
+        await FiscalCaeaService.processDue()
+      } catch (error) {
+        console.error('❌ [FiscalWorker] Error procesando CAEA:', error instanceof Error ? error.message : 'Error desconocido')
+      }
+
+      if (Date.now() - this.lastCertificateCheckAt >= this.CERTIFICATE_CHECK_INTERVAL_MS) {
+        this.lastCertificateCheckAt = Date.now()
+        await FiscalCertificateService.checkExpirations().catch((error) => {
+          console.error('❌ [FiscalWorker] Error revisando certificados:', error instanceof Error ? error.message : 'Error desconocido')
+        })
+      }
+    } finally {
+      this.isProcessing = false
+    }
+  }
+}
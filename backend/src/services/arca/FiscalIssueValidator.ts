@@ -4,13 +4,14 @@
  * Este servicio:
  * - Valida si se puede emitir un comprobante (canIssue)
  * - Obtiene la numeración siguiente
- * - Prepara el DTO para FECAESolicitar
+ * - Prepara el DTO para FECAESolicitar (un comprobante o un lote)
  */
 
 import { ArcaWsfeClient } from './ArcaWsfeClient.js'
 import { prisma } from '../../config/database.js'
-import { env } from '../../config/env.js'
-import { FiscalConfigService } from './FiscalConfigService.js'
+import { FiscalConfigService, type FiscalEmisor } from './FiscalConfigService.js'
+import type { AlicIva } from '../../utils/fiscal.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
 
 export interface CanIssueResult {
   canIssue: boolean
@@ -27,6 +28,38 @@ export interface UltimoAutorizadoResult {
   nextCbteNro: number
 }
 
+// Comprobante asociado (obligatorio en notas de crédito/débito)
+export interface CbteAsoc {
+  Tipo: number
+  PtoVta: number
+  Nro: number
+  Cuit: string
+  CbteFch: string // YYYYMMDD
+}
+
+export interface FECAEDetRequestDTO {
+  Concepto: number // 1 = Productos, 2 = Servicios, 3 = Productos y Servicios
+  DocTipo: number // 99 = Consumidor Final
+  DocNro: number // 0 para Consumidor Final
+  CondicionIVAReceptorId: number // Condición IVA del receptor (OBLIGATORIO desde 2025)
+  CbteDesde: number // Número de comprobante desde
+  CbteHasta: number // Número de comprobante hasta (igual a desde si es 1)
+  CbteFch: string // Fecha en formato YYYYMMDD
+  ImpTotal: number // Importe total
+  ImpTotConc: number // Importe neto no gravado
+  ImpNeto: number // Importe neto gravado
+  ImpOpEx: number // Importe exento
+  ImpIVA: number // Importe de IVA
+  ImpTrib: number // Importe de tributos
+  FchServDesde?: string // Fecha de inicio de servicio (opcional)
+  FchServHasta?: string // Fecha de fin de servicio (opcional)
+  FchVtoPago?: string // Fecha de vencimiento de pago (opcional)
+  MonId: string // Moneda: 'PES' = Pesos
+  MonCotiz: number // Cotización de la moneda (1 para pesos)
+  CbtesAsoc?: { CbteAsoc: CbteAsoc[] } // Comprobante original de una nota de crédito/débito
+  Iva?: { AlicIva: AlicIva[] } // Desglose por alícuota (Factura A/B, no se informa en C)
+}
+
 export interface FECAESolicitarDTO {
   FeCAEReq: {
     FeCabReq: {
@@ -35,43 +68,78 @@ export interface FECAESolicitarDTO {
       CbteTipo: number // 11 = Factura C
     }
     FeDetReq: {
-      FECAEDetRequest: {
-        Concepto: number // 1 = Productos, 2 = Servicios, 3 = Productos y Servicios
-        DocTipo: number // 99 = Consumidor Final
-        DocNro: number // 0 para Consumidor Final
-        CondicionIVAReceptorId: number // Condición IVA del receptor (OBLIGATORIO desde 2025)
-        CbteDesde: number // Número de comprobante desde
-        CbteHasta: number // Número de comprobante hasta (igual a desde si es 1)
-        CbteFch: string // Fecha en formato YYYYMMDD
-        ImpTotal: number // Importe total
-        ImpTotConc: number // Importe neto no gravado
-        ImpNeto: number // Importe neto gravado
-        ImpOpEx: number // Importe exento
-        ImpIVA: number // Importe de IVA
-        ImpTrib: number // Importe de tributos
-        FchServDesde?: string // Fecha de inicio de servicio (opcional)
-        FchServHasta?: string // Fecha de fin de servicio (opcional)
-        FchVtoPago?: string // Fecha de vencimiento de pago (opcional)
-        MonId: string // Moneda: 'PES' = Pesos
-        MonCotiz: number // Cotización de la moneda (1 para pesos)
-      }
+      FECAEDetRequest: FECAEDetRequestDTO
+    }
+  }
+}
+
+// Lote de comprobantes del mismo tipo y punto de venta con numeración consecutiva
+export interface FECAESolicitarBatchDTO {
+  FeCAEReq: {
+    FeCabReq: {
+      CantReg: number
+      PtoVta: number
+      CbteTipo: number
+    }
+    FeDetReq: {
+      FECAEDetRequest: FECAEDetRequestDTO[]
     }
   }
 }
 
+// Datos de un comprobante para armar su FECAEDetRequest
+export interface ComprobanteParams {
+  importeTotal: number
+  importeNeto?: number
+  importeIva?: number
+  alicIva?: AlicIva[] // Obligatorio en Factura A/B
+  cbtesAsoc?: CbteAsoc[] // Obligatorio en notas de crédito/débito
+  docTipo?: number // Por defecto 99 (Consumidor Final)
+  docNro?: number
+  fechaEmision?: Date
+  condicionIvaReceptorId?: number // Si no se proporciona, se resuelve automáticamente
+}
+
+// Máximo de comprobantes por FECAESolicitar si FECompTotXRequest no responde
+const DEFAULT_MAX_REGISTROS = 250
+
+// Item de las tablas de parámetros de WSFE (FEParamGet*)
+interface WsfeParamItem {
+  Id?: number | string
+  Desc?: string
+  Cmp_Clase?: string
+}
+
+function toArray<T>(value: unknown): T[] {
+  if (value === undefined || value === null) return []
+  return (Array.isArray(value) ? value : [value]) as T[]
+}
+
 export class FiscalIssueValidator {
   private wsfeClient: ArcaWsfeClient
+  // Emisor con el que se valida y numera (por defecto, el del certificado principal)
+  private emisor?: FiscalEmisor
 
-  constructor() {
-    this.wsfeClient = new ArcaWsfeClient()
+  constructor(emisor?: FiscalEmisor) {
+    this.wsfeClient = new ArcaWsfeClient(undefined, emisor?.cuit)
+    this.emisor = emisor
+  }
+
+  /**
+   * Cliente WSFE autenticado con el certificado del emisor (para FECAESolicitar)
+   */
+  getWsfeClient(): ArcaWsfeClient {
+    return this.wsfeClient
   }
 
   /**
    * Validar si se puede emitir un comprobante
    */
   async canIssue(cbteTipo: number = 11): Promise<CanIssueResult> {
-    const envKey = env.AFIP_ENV || 'homo'
-    const cuitNormalized = env.AFIP_CUIT!
+    const envKey = ArcaCertificateStore.getActiveEnv()
+    const emisor = this.emisor ?? await FiscalConfigService.getEmisor()
+    // El estado del PV se registra con el CUIT usado en Auth (ver FiscalPtoVtaPoller)
+    const cuitNormalized = emisor.cuitEmisor
 
     // 1. Verificar estado de PV
     const statusRecord = await prisma.fiscalPtoVtaStatus.findUnique({
@@ -129,7 +197,7 @@ export class FiscalIssueValidator {
     }
 
     // 3. Obtener punto de venta configurado o el primero disponible
-    const ptoVtaConfig = await FiscalConfigService.getPtoVta()
+    const ptoVtaConfig = emisor.ptoVta
     let ptoVta: number | null = null
 
     if (ptoVtaConfig) {
@@ -251,38 +319,76 @@ export class FiscalIssueValidator {
   }
 
   /**
-   * Preparar DTO para FECAESolicitar (Factura C mínima)
+   * Validar que las alícuotas del desglose existan en FEParamGetTiposIva
    */
-  async prepareFECAESolicitarDTO(params: {
+  async validateAlicuotas(alicIva: AlicIva[]): Promise<void> {
+    const result = await this.wsfeClient.getTiposIva()
+    if (!result.success || !result.data) {
+      throw new Error('No se pudo obtener tipos de IVA desde WSFE')
+    }
+
+    const rawData = result.data as { IvaTipo?: unknown; ResultGet?: { IvaTipo?: unknown } }
+    const tipos = toArray<WsfeParamItem>(rawData.IvaTipo ?? rawData.ResultGet?.IvaTipo)
+    const ids = new Set(tipos.map(t => Number(t.Id)))
+
+    const invalid = alicIva.filter(a => !ids.has(a.Id))
+    if (invalid.length > 0) {
+      throw new Error(`Alícuotas de IVA no habilitadas en WSFE: ${invalid.map(a => a.Id).join(', ')}`)
+    }
+  }
+
+  /**
+   * Validar que la condición IVA del receptor exista y admita la clase de comprobante (A, B o C)
+   */
+  async validateCondicionIvaReceptor(condicionIvaReceptorId: number, cbteClase: string): Promise<void> {
+    const result = await this.wsfeClient.getCondicionIvaReceptor()
+    if (!result.success || !result.data) {
+      throw new Error('No se pudo obtener condiciones IVA del receptor desde WSFE')
+    }
+
+    // getCondicionIvaReceptor ya normaliza la lista en CondicionIvaReceptor
+    const rawData = result.data as { CondicionIvaReceptor?: unknown; ResultGet?: { CondicionIvaReceptor?: unknown } }
+    const condiciones = toArray<WsfeParamItem>(rawData.CondicionIvaReceptor ?? rawData.ResultGet?.CondicionIvaReceptor)
+
+    const condicion = condiciones.find(c => Number(c.Id) === condicionIvaReceptorId)
+    if (!condicion) {
+      throw new Error(`Condición IVA del receptor inexistente: ${condicionIvaReceptorId}`)
+    }
+
+    // Cmp_Clase indica las clases de comprobante admitidas (ej: "A/M/C")
+    const clases = String(condicion.Cmp_Clase ?? '')
+    if (clases && !clases.split('/').map(c => c.trim()).includes(cbteClase)) {
+      const desc = condicion.Desc ?? condicionIvaReceptorId
+      throw new Error(`La condición IVA "${desc}" no admite comprobantes clase ${cbteClase} (admite ${clases})`)
+    }
+  }
+
+  /**
+   * Cantidad máxima de comprobantes por FECAESolicitar (FECompTotXRequest)
+   */
+  async getMaxRegistrosPorRequest(): Promise<number> {
+    try {
+      const result = await this.wsfeClient.getMaxRegistrosPorRequest()
+      const regXReq = Number(result.data?.RegXReq)
+      if (result.success && regXReq > 0) return regXReq
+    } catch (error) {
+      console.warn('⚠️ [IssueValidator] No se pudo consultar FECompTotXRequest:', error instanceof Error ? error.message : error)
+    }
+    return DEFAULT_MAX_REGISTROS
+  }
+
+  /**
+   * Preparar DTO para FECAESolicitar
+   * Sin receptor ni desglose de IVA genera una Factura C a Consumidor Final
+   */
+  async prepareFECAESolicitarDTO(params: ComprobanteParams & {
     ptoVta: number
     cbteTipo?: number
-    importeTotal: number
-    importeNeto?: number
-    importeIva?: number
-    fechaEmision?: Date
-    condicionIvaReceptorId?: number // Si no se proporciona, se resuelve automáticamente
   }): Promise<FECAESolicitarDTO> {
     const cbteTipo = params.cbteTipo || 11 // Factura C
-    const fechaEmision = params.fechaEmision || new Date()
-    
+
     // Obtener siguiente número de comprobante
     const ultimo = await this.getUltimoAutorizado(params.ptoVta, cbteTipo)
-    const cbteDesde = ultimo.nextCbteNro
-    const cbteHasta = cbteDesde // Si es 1 comprobante, desde = hasta
-
-    // Formatear fecha YYYYMMDD
-    const year = fechaEmision.getFullYear()
-    const month = String(fechaEmision.getMonth() + 1).padStart(2, '0')
-    const day = String(fechaEmision.getDate()).padStart(2, '0')
-    const cbteFch = `${year}${month}${day}`
-
-    // Calcular importes (valores por defecto si no se especifican)
-    const impTotal = params.importeTotal
-    const impNeto = params.importeNeto || impTotal
-    const impIVA = params.importeIva || 0
-    const impTotConc = 0 // No gravado
-    const impOpEx = 0 // Exento
-    const impTrib = 0 // Tributos
 
     // Resolver CondicionIVAReceptorId (obligatorio desde 2025)
     let condicionIvaReceptorId = params.condicionIvaReceptorId
@@ -300,25 +406,89 @@ export class FiscalIssueValidator {
           CbteTipo: cbteTipo
         },
         FeDetReq: {
-          FECAEDetRequest: {
-            Concepto: 1, // Productos
-            DocTipo: 99, // Consumidor Final
-            DocNro: 0, // 0 para Consumidor Final
-            CondicionIVAReceptorId: condicionIvaReceptorId, // OBLIGATORIO desde 2025
-            CbteDesde: cbteDesde,
-            CbteHasta: cbteHasta,
-            CbteFch: cbteFch,
-            ImpTotal: impTotal,
-            ImpTotConc: impTotConc,
-            ImpNeto: impNeto,
-            ImpOpEx: impOpEx,
-            ImpIVA: impIVA,
-            ImpTrib: impTrib,
-            MonId: 'PES', // Pesos
-            MonCotiz: 1 // Cotización 1 para pesos
-          }
+          FECAEDetRequest: this.buildDetRequest(params, ultimo.nextCbteNro, condicionIvaReceptorId)
+        }
+      }
+    }
+  }
+
+  /**
+   * Preparar un lote para FECAESolicitar: todos los comprobantes comparten tipo y punto de venta
+   * y reciben números consecutivos a partir del último autorizado, en el orden recibido
+   */
+  async prepareFECAESolicitarBatchDTO(
+    ptoVta: number,
+    cbteTipo: number,
+    comprobantes: ComprobanteParams[]
+  ): Promise<FECAESolicitarBatchDTO> {
+    if (comprobantes.length === 0) {
+      throw new Error('El lote no tiene comprobantes')
+    }
+
+    const ultimo = await this.getUltimoAutorizado(ptoVta, cbteTipo)
+
+    // Consumidor Final se resuelve una sola vez para todo el lote
+    let condicionDefault: number | undefined
+    if (comprobantes.some(c => !c.condicionIvaReceptorId)) {
+      condicionDefault = await this.resolveCondicionIvaReceptorDefault()
+    }
+
+    return {
+      FeCAEReq: {
+        FeCabReq: {
+          CantReg: comprobantes.length,
+          PtoVta: ptoVta,
+          CbteTipo: cbteTipo
+        },
+        FeDetReq: {
+          FECAEDetRequest: comprobantes.map((comprobante, index) => this.buildDetRequest(
+            comprobante,
+            ultimo.nextCbteNro + index,
+            comprobante.condicionIvaReceptorId || condicionDefault!
+          ))
         }
       }
     }
   }
+
+  /**
+   * FECAEDetRequest de un comprobante con su número ya asignado
+   */
+  private buildDetRequest(params: ComprobanteParams, cbteNro: number, condicionIvaReceptorId: number): FECAEDetRequestDTO {
+    const fechaEmision = params.fechaEmision || new Date()
+
+    // Formatear fecha YYYYMMDD
+    const year = fechaEmision.getFullYear()
+    const month = String(fechaEmision.getMonth() + 1).padStart(2, '0')
+    const day = String(fechaEmision.getDate()).padStart(2, '0')
+    const cbteFch = `${year}${month}${day}`
+
+    // Calcular importes (valores por defecto si no se especifican)
+    const impTotal = params.importeTotal
+    const impNeto = params.importeNeto || impTotal
+    const impIVA = params.importeIva || 0
+    const impTotConc = 0 // No gravado
+    const impOpEx = 0 // Exento
+    const impTrib = 0 // Tributos
+
+    return {
+      Concepto: 1, // Productos
+      DocTipo: params.docTipo ?? 99, // 99 = Consumidor Final
+      DocNro: params.docNro ?? 0, // 0 para Consumidor Final
+      CondicionIVAReceptorId: condicionIvaReceptorId, // OBLIGATORIO desde 2025
+      CbteDesde: cbteNro,
+      CbteHasta: cbteNro, // Un comprobante por detalle: desde = hasta
+      CbteFch: cbteFch,
+      ImpTotal: impTotal,
+      ImpTotConc: impTotConc,
+      ImpNeto: impNeto,
+      ImpOpEx: impOpEx,
+      ImpIVA: impIVA,
+      ImpTrib: impTrib,
+      MonId: 'PES', // Pesos
+      MonCotiz: 1, // Cotización 1 para pesos
+      ...(params.cbtesAsoc && params.cbtesAsoc.length > 0 && { CbtesAsoc: { CbteAsoc: params.cbtesAsoc } }),
+      ...(params.alicIva && params.alicIva.length > 0 && { Iva: { AlicIva: params.alicIva } })
+    }
+  }
 }
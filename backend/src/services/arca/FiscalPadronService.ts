@@ -0,0 +1,220 @@
+/**
+ * Consulta de contribuyentes en el padrón de AFIP con cache en DB
+ * Se usa para autocompletar razón social, domicilio fiscal y condición IVA de clientes
+ */
+
+import { prisma } from '../../config/database.js'
+import { isFiscalEnabled } from '../../config/env.js'
+import {
+  CONDICIONES_IVA_RECEPTOR,
+  formatCuit,
+  formatPadronDomicilio,
+  isValidCuit,
+  resolvePadronCondicionIva,
+  type PadronDomicilio
+} from '../../utils/fiscal.js'
+import { ArcaPadronClient, ArcaPadronError } from './ArcaPadronClient.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
+
+type PadronSource = 'A5' | 'A13'
+
+export interface PadronPersona {
+  cuit: string
+  formattedCuit: string
+  razonSocial: string
+  domicilio: string | null
+  // null cuando el padrón consultado no informa impuestos (A13)
+  condicionIvaId: number | null
+  condicionIva: string | null
+  source: PadronSource
+  cachedAt: Date
+  fromCache: boolean
+}
+
+export class FiscalPadronError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'FiscalPadronError'
+  }
+}
+
+interface ParsedPersona {
+  razonSocial: string
+  domicilio: string | null
+  condicionIvaId: number | null
+}
+
+function toArray<T>(value: unknown): T[] {
+  if (value === undefined || value === null) return []
+  return (Array.isArray(value) ? value : [value]) as T[]
+}
+
+function buildRazonSocial(datos: { razonSocial?: string; apellido?: string; nombre?: string }): string | null {
+  if (datos.razonSocial) return String(datos.razonSocial).trim()
+  const nombre = [datos.apellido, datos.nombre].filter(Boolean).join(' ').trim()
+  return nombre || null
+}
+
+export class FiscalPadronService {
+  // Los datos del padrón cambian poco: se reconsultan cada 30 días (o a pedido)
+  private static readonly CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+  /**
+   * Buscar un contribuyente por CUIT
+   * Usa el cache si está vigente; si AFIP no responde, devuelve el último dato cacheado aunque esté vencido
+   */
+  static async lookup(cuit: string, options: { refresh?: boolean } = {}): Promise<PadronPersona> {
+    const cleanCuit = cuit.replace(/-/g, '')
+    if (!isValidCuit(cleanCuit)) {
+      throw new FiscalPadronError('CUIT inválido', 400)
+    }
+
+    if (!isFiscalEnabled()) {
+      throw new FiscalPadronError('Facturación electrónica no está configurada', 503)
+    }
+
+    const envKey = ArcaCertificateStore.getActiveEnv()
+    const cached = await prisma.fiscalPadronCache.findUnique({
+      where: { env_cuit: { env: envKey, cuit: cleanCuit } }
+    })
+
+    if (cached && !options.refresh && cached.expiresAt > new Date()) {
+      return this.fromCacheRecord(cached)
+    }
+
+    let fetched: ParsedPersona & { source: PadronSource; data: unknown }
+    try {
+      fetched = await this.fetchFromAfip(cleanCuit)
+    } catch (error) {
+      if (error instanceof ArcaPadronError && error.notFound) {
+        throw new FiscalPadronError(error.message, 404)
+      }
+      if (cached) {
+        console.warn(`⚠️ [Padrón] AFIP no respondió para ${cleanCuit}, usando datos cacheados:`, error instanceof Error ? error.message : 'Error desconocido')
+        return this.fromCacheRecord(cached)
+      }
+      throw new FiscalPadronError(
+        `No se pudo consultar el padrón de AFIP: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+        502
+      )
+    }
+
+    const now = new Date()
+    const saved = await prisma.fiscalPadronCache.upsert({
+      where: { env_cuit: { env: envKey, cuit: cleanCuit } },
+      create: {
+        env: envKey,
+        cuit: cleanCuit,
+        razonSocial: fetched.razonSocial,
+        domicilio: fetched.domicilio,
+        condicionIvaId: fetched.condicionIvaId,
+        source: fetched.source,
+        data: fetched.data as object,
+        cachedAt: now,
+        expiresAt: new Date(now.getTime() + this.CACHE_TTL_MS)
+      },
+      update: {
+        razonSocial: fetched.razonSocial,
+        domicilio: fetched.domicilio,
+        condicionIvaId: fetched.condicionIvaId,
+        source: fetched.source,
+        data: fetched.data as object,
+        cachedAt: now,
+        expiresAt: new Date(now.getTime() + this.CACHE_TTL_MS)
+      }
+    })
+
+    return { ...this.fromCacheRecord(saved), fromCache: false }
+  }
+
+  /**
+   * Consultar la constancia de inscripción (A5) y, si el servicio no está disponible
+   * o no está autorizado para el certificado, el padrón A13 (sin condición IVA)
+   */
+  private static async fetchFromAfip(cuit: string): Promise<ParsedPersona & { source: PadronSource; data: unknown }> {
+    const client = new ArcaPadronClient()
+
+    try {
+      const persona = await client.getPersonaA5(cuit)
+      return { ...this.parseA5(persona), source: 'A5', data: persona }
+    } catch (error) {
+      if (error instanceof ArcaPadronError && error.notFound) {
+        throw error
+      }
+      console.warn('⚠️ [Padrón] Constancia de inscripción (A5) no disponible, consultando A13:', error instanceof Error ? error.message : 'Error desconocido')
+    }
+
+    const persona = await client.getPersonaA13(cuit)
+    return { ...this.parseA13(persona), source: 'A13', data: persona }
+  }
+
+  private static parseA5(persona: Record<string, unknown>): ParsedPersona {
+    const datosGenerales = persona.datosGenerales as
+      | { razonSocial?: string; apellido?: string; nombre?: string; domicilioFiscal?: PadronDomicilio }
+      | undefined
+
+    if (!datosGenerales) {
+      // Sin datos generales AFIP informa el motivo en errorConstancia
+      const errorConstancia = persona.errorConstancia as { error?: unknown } | undefined
+      const messages = toArray<string>(errorConstancia?.error)
+      throw new ArcaPadronError(messages.join(' · ') || 'La CUIT consultada no tiene constancia de inscripción', true)
+    }
+
+    const razonSocial = buildRazonSocial(datosGenerales)
+    if (!razonSocial) {
+      throw new ArcaPadronError('El padrón no informa razón social para la CUIT consultada')
+    }
+
+    const regimenGeneral = persona.datosRegimenGeneral as { impuesto?: unknown } | undefined
+    const impuestos = toArray<{ idImpuesto?: string | number }>(regimenGeneral?.impuesto)
+      .map(impuesto => Number(impuesto.idImpuesto))
+      .filter(id => Number.isFinite(id))
+
+    return {
+      razonSocial,
+      domicilio: formatPadronDomicilio(datosGenerales.domicilioFiscal),
+      condicionIvaId: resolvePadronCondicionIva(impuestos, Boolean(persona.datosMonotributo))
+    }
+  }
+
+  private static parseA13(personaReturn: Record<string, unknown>): ParsedPersona {
+    const persona = personaReturn.persona as
+      | { razonSocial?: string; apellido?: string; nombre?: string; domicilio?: unknown }
+      | undefined
+
+    const razonSocial = persona ? buildRazonSocial(persona) : null
+    if (!persona || !razonSocial) {
+      throw new ArcaPadronError('La CUIT consultada no existe en el padrón', true)
+    }
+
+    const domicilios = toArray<PadronDomicilio & { tipoDomicilio?: string }>(persona.domicilio)
+    const fiscal = domicilios.find(domicilio => domicilio.tipoDomicilio === 'FISCAL') ?? domicilios[0]
+
+    return {
+      razonSocial,
+      domicilio: formatPadronDomicilio(fiscal),
+      condicionIvaId: null
+    }
+  }
+
+  private static fromCacheRecord(record: {
+    cuit: string
+    razonSocial: string
+    domicilio: string | null
+    condicionIvaId: number | null
+    source: string
+    cachedAt: Date
+  }): PadronPersona {
+    return {
+      cuit: record.cuit,
+      formattedCuit: formatCuit(record.cuit),
+      razonSocial: record.razonSocial,
+      domicilio: record.domicilio,
+      condicionIvaId: record.condicionIvaId,
+      condicionIva: record.condicionIvaId !== null ? CONDICIONES_IVA_RECEPTOR[record.condicionIvaId] ?? null : null,
+      source: record.source as PadronSource,
+      cachedAt: record.cachedAt,
+      fromCache: true
+    }
+  }
+}
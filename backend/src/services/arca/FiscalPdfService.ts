@@ -0,0 +1,344 @@
+/**
+ * FiscalPdfService - Comprobante imprimible de un FiscalDocument autorizado
+ *
+ * Este servicio:
+ * - Arma los datos del comprobante (emisor, receptor, items, CAE y QR de RG 4892)
+ *   que usa el cliente para generar el PDF con PDFService
+ * - Genera el mismo PDF en el servidor (para descargar o adjuntar por email)
+ */
+
+import PDFDocument from 'pdfkit'
+import QRCode from 'qrcode'
+import { env } from '../../config/env.js'
+import { FiscalInvoiceService, FISCAL_DOCUMENT_TYPES } from './FiscalInvoiceService.js'
+import {
+  buildAfipQrUrl,
+  CONDICIONES_IVA_RECEPTOR,
+  DOC_TIPO_CUIT,
+  DOC_TIPO_DNI,
+  type AlicIva
+} from '../../utils/fiscal.js'
+
+// Letra de cada tipo de comprobante
+const CBTE_LETRA: Record<number, 'A' | 'B' | 'C'> = {
+  1: 'A', 2: 'A', 3: 'A',
+  6: 'B', 7: 'B', 8: 'B',
+  11: 'C', 12: 'C', 13: 'C'
+}
+
+// Porcentaje de cada Id de alícuota (FEParamGetTiposIva)
+const ALICUOTA_PORCENTAJE: Record<number, number> = { 3: 0, 4: 10.5, 5: 21 }
+
+const DOC_TIPO_LABEL: Record<number, string> = {
+  [DOC_TIPO_CUIT]: 'CUIT',
+  [DOC_TIPO_DNI]: 'DNI'
+}
+
+export interface FiscalPrintItem {
+  description: string
+  quantity: number
+  unitPrice: number
+  subtotal: number
+  ivaRate: number
+}
+
+export interface FiscalPrintData {
+  document: {
+    id: string
+    type: string | null
+    title: string // FACTURA, NOTA DE CRÉDITO o NOTA DE DÉBITO
+    letra: 'A' | 'B' | 'C'
+    cbteTipo: number
+    formattedNumber: string | null
+    fechaEmision: Date
+    cae: string | null
+    caeVto: Date | null
+    emisionTipo: 'CAE' | 'CAEA'
+    impTotal: number
+    impNeto: number
+    impIva: number
+    alicIva: Array<AlicIva & { porcentaje: number }>
+    motivo: string | null
+  }
+  emisor: {
+    razonSocial: string | null
+    cuit: string
+    domicilio: string | null
+    condicionIva: string | null
+    iibb: string | null
+    inicioActividades: string | null
+  }
+  receptor: {
+    nombre: string
+    docTipo: string | null
+    docNro: string | null
+    condicionIva: string
+    domicilio: string | null
+  }
+  associatedDocument: { type: string | null; formattedNumber: string | null; fechaEmision: Date } | null
+  items: FiscalPrintItem[]
+  subtotal: number
+  discount: number
+  total: number
+  qrUrl: string
+}
+
+/**
+ * Error al obtener el comprobante imprimible (404 si no existe, 409 si no está autorizado)
+ */
+export class FiscalPdfError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'FiscalPdfError'
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(value)
+
+const formatDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`
+
+export class FiscalPdfService {
+  /**
+   * Datos del comprobante para imprimir
+   */
+  static async getPrintData(documentId: string): Promise<FiscalPrintData> {
+    const document = await FiscalInvoiceService.getById(documentId)
+
+    if (!document) {
+      throw new FiscalPdfError('Factura no encontrada', 404)
+    }
+
+    if (document.estado !== 'AUTHORIZED' || document.cbteNro === null || !document.cae) {
+      throw new FiscalPdfError('Solo se puede imprimir un comprobante autorizado', 409)
+    }
+
+    const { sale, associatedDocument } = document
+    const customer = sale.customer
+    const describe = (item: typeof sale.items[number]) =>
+      item.variant.product.name + (item.variant.color ? ` - ${item.variant.color}` : '')
+
+    // Nota de crédito/débito: solo los items acreditados (si los hay) y el importe de la nota
+    let items: FiscalPrintItem[]
+    let subtotal: number
+    let discount: number
+    if (associatedDocument) {
+      const creditedItems = (document.items ?? []) as Array<{ saleItemId: string; quantity: number }>
+      items = creditedItems.flatMap(credited => {
+        const item = sale.items.find(i => i.id === credited.saleItemId)
+        if (!item) return []
+        return [{
+          description: describe(item),
+          quantity: credited.quantity,
+          unitPrice: Number(item.unitPrice),
+          subtotal: round2(Number(item.subtotal) * credited.quantity / item.quantity),
+          ivaRate: Number(item.variant.product.ivaRate)
+        }]
+      })
+      subtotal = Number(document.impTotal)
+      discount = 0
+    } else {
+      items = sale.items.map(item => ({
+        description: describe(item),
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        subtotal: Number(item.subtotal),
+        ivaRate: Number(item.variant.product.ivaRate)
+      }))
+      subtotal = Number(sale.subtotal)
+      discount = Number(sale.discount)
+    }
+
+    const type = FISCAL_DOCUMENT_TYPES[document.cbteTipo] ?? null
+    const alicIva = (document.alicIva ?? []) as unknown as AlicIva[]
+    const docNro = Number(document.docNro) > 0 ? document.docNro : null
+
+    return {
+      document: {
+        id: document.id,
+        type,
+        title: type?.startsWith('NOTA_CREDITO') ? 'NOTA DE CRÉDITO' : type?.startsWith('NOTA_DEBITO') ? 'NOTA DE DÉBITO' : 'FACTURA',
+        letra: CBTE_LETRA[document.cbteTipo] ?? 'C',
+        cbteTipo: document.cbteTipo,
+        formattedNumber: FiscalInvoiceService.formatNumber(document.ptoVta, document.cbteNro),
+        fechaEmision: document.fechaEmision,
+        cae: document.cae,
+        caeVto: document.caeVto,
+        emisionTipo: document.caeaId ? 'CAEA' : 'CAE',
+        impTotal: Number(document.impTotal),
+        impNeto: Number(document.impNeto),
+        impIva: Number(document.impIva),
+        alicIva: alicIva.map(a => ({ ...a, porcentaje: ALICUOTA_PORCENTAJE[a.Id] ?? 0 })),
+        motivo: document.motivo
+      },
+      emisor: {
+        razonSocial: env.FISCAL_RAZON_SOCIAL ?? null,
+        cuit: document.cuitEmisor,
+        domicilio: env.FISCAL_DOMICILIO ?? null,
+        condicionIva: env.FISCAL_CONDICION_IVA ?? null,
+        iibb: env.FISCAL_IIBB ?? null,
+        inicioActividades: env.FISCAL_INICIO_ACTIVIDADES ?? null
+      },
+      receptor: {
+        nombre: customer?.name ?? 'Consumidor Final',
+        docTipo: docNro ? DOC_TIPO_LABEL[document.docTipo] ?? String(document.docTipo) : null,
+        docNro,
+        condicionIva: CONDICIONES_IVA_RECEPTOR[document.condicionIvaReceptorId ?? 5] ?? 'Consumidor Final',
+        domicilio: customer?.address ?? null
+      },
+      associatedDocument: associatedDocument
+        ? {
+            type: FISCAL_DOCUMENT_TYPES[associatedDocument.cbteTipo] ?? null,
+            formattedNumber: FiscalInvoiceService.formatNumber(associatedDocument.ptoVta, associatedDocument.cbteNro),
+            fechaEmision: associatedDocument.fechaEmision
+          }
+        : null,
+      items,
+      subtotal,
+      discount,
+      total: Number(document.impTotal),
+      qrUrl: buildAfipQrUrl({
+        fecha: document.fechaEmision,
+        cuit: document.cuitEmisor,
+        ptoVta: document.ptoVta,
+        tipoCmp: document.cbteTipo,
+        nroCmp: document.cbteNro,
+        importe: Number(document.impTotal),
+        tipoDocRec: document.docTipo,
+        nroDocRec: document.docNro,
+        tipoCodAut: document.caeaId ? 'A' : 'E',
+        codAut: document.cae
+      })
+    }
+  }
+
+  /**
+   * PDF A4 del comprobante
+   */
+  static async render(documentId: string): Promise<{ fileName: string; buffer: Buffer }> {
+    const data = await this.getPrintData(documentId)
+    const qrImage = await QRCode.toBuffer(data.qrUrl, { margin: 1, width: 240 })
+
+    const pdf = new PDFDocument({ size: 'A4', margin: 40 })
+    const chunks: Buffer[] = []
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk))
+    const finished = new Promise<void>(resolve => pdf.on('end', () => resolve()))
+
+    this.drawDocument(pdf, data, qrImage)
+    pdf.end()
+    await finished
+
+    return {
+      fileName: `${data.document.type ?? 'Comprobante'}-${data.document.formattedNumber}.pdf`,
+      buffer: Buffer.concat(chunks)
+    }
+  }
+
+  private static drawDocument(pdf: PDFKit.PDFDocument, data: FiscalPrintData, qrImage: Buffer): void {
+    const left = 40
+    const right = 555
+    const middle = (left + right) / 2
+    const { document, emisor, receptor } = data
+
+    // Encabezado: emisor | letra | comprobante
+    pdf.rect(left, 40, right - left, 130).stroke()
+    pdf.moveTo(middle, 80).lineTo(middle, 170).stroke()
+    pdf.rect(middle - 25, 40, 50, 40).stroke()
+    pdf.font('Helvetica-Bold').fontSize(26).text(document.letra, middle - 25, 48, { width: 50, align: 'center' })
+    pdf.fontSize(7).text(`COD. ${String(document.cbteTipo).padStart(2, '0')}`, middle - 25, 72, { width: 50, align: 'center' })
+
+    pdf.fontSize(14).text(emisor.razonSocial ?? `CUIT ${emisor.cuit}`, left + 10, 90, { width: middle - left - 20 })
+    pdf.font('Helvetica').fontSize(9)
+    if (emisor.domicilio) pdf.text(`Domicilio: ${emisor.domicilio}`, { width: middle - left - 20 })
+    if (emisor.condicionIva) pdf.text(`Condición frente al IVA: ${emisor.condicionIva}`, { width: middle - left - 20 })
+
+    pdf.font('Helvetica-Bold').fontSize(14).text(document.title, middle + 10, 90)
+    pdf.font('Helvetica').fontSize(9)
+    pdf.text(`Punto de Venta y Comp. Nro: ${document.formattedNumber}`)
+    pdf.text(`Fecha de Emisión: ${formatDate(document.fechaEmision)}`)
+    pdf.text(`CUIT: ${emisor.cuit}`)
+    if (emisor.iibb) pdf.text(`Ingresos Brutos: ${emisor.iibb}`)
+    if (emisor.inicioActividades) pdf.text(`Inicio de Actividades: ${emisor.inicioActividades}`)
+
+    // Receptor
+    pdf.rect(left, 180, right - left, 60).stroke()
+    pdf.fontSize(9).text(`Apellido y Nombre / Razón Social: ${receptor.nombre}`, left + 10, 188)
+    if (receptor.docNro) pdf.text(`${receptor.docTipo}: ${receptor.docNro}`)
+    pdf.text(`Condición frente al IVA: ${receptor.condicionIva}`)
+    if (receptor.domicilio) pdf.text(`Domicilio: ${receptor.domicilio}`)
+
+    let y = 252
+    if (data.associatedDocument) {
+      pdf.text(
+        `Comprobante asociado: ${data.associatedDocument.type?.replace(/_/g, ' ') ?? ''} ${data.associatedDocument.formattedNumber} ` +
+        `del ${formatDate(data.associatedDocument.fechaEmision)}`,
+        left, y
+      )
+      y += 14
+      if (document.motivo) {
+        pdf.text(`Motivo: ${document.motivo}`, left, y, { width: right - left })
+        y = pdf.y + 4
+      }
+    }
+
+    // Items
+    pdf.rect(left, y, right - left, 18).fillAndStroke('#eeeeee', '#000000')
+    pdf.fillColor('#000000').font('Helvetica-Bold').fontSize(9)
+    pdf.text('Producto', left + 5, y + 5)
+    pdf.text('Cant.', 330, y + 5, { width: 40, align: 'right' })
+    pdf.text('Precio Unit.', 375, y + 5, { width: 80, align: 'right' })
+    pdf.text('Subtotal', 460, y + 5, { width: 90, align: 'right' })
+    y += 24
+
+    pdf.font('Helvetica')
+    for (const item of data.items) {
+      if (y > 600) {
+        pdf.addPage()
+        y = 40
+      }
+      pdf.text(item.description, left + 5, y, { width: 280 })
+      const rowBottom = pdf.y
+      pdf.text(String(item.quantity), 330, y, { width: 40, align: 'right' })
+      pdf.text(formatMoney(item.unitPrice), 375, y, { width: 80, align: 'right' })
+      pdf.text(formatMoney(item.subtotal), 460, y, { width: 90, align: 'right' })
+      y = Math.max(rowBottom, y + 12) + 4
+    }
+
+    // Totales (Factura A discrimina IVA por alícuota)
+    y += 6
+    pdf.moveTo(left, y).lineTo(right, y).stroke()
+    y += 8
+    const totalRow = (label: string, value: number, bold = false) => {
+      pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 12 : 9)
+      pdf.text(label, 330, y, { width: 125, align: 'right' })
+      pdf.text(formatMoney(value), 460, y, { width: 90, align: 'right' })
+      y += bold ? 18 : 13
+    }
+
+    if (data.discount > 0) {
+      totalRow('Subtotal:', data.subtotal)
+      totalRow('Descuento:', -data.discount)
+    }
+    if (document.letra === 'A') {
+      totalRow('Importe Neto Gravado:', document.impNeto)
+      for (const alicuota of document.alicIva) {
+        totalRow(`IVA ${alicuota.porcentaje}%:`, alicuota.Importe)
+      }
+    }
+    totalRow('Importe Total:', data.total, true)
+
+    // Pie: QR y datos de autorización
+    const footerY = 720
+    pdf.image(qrImage, left, footerY, { width: 80 })
+    pdf.font('Helvetica-Bold').fontSize(10).text('Comprobante Autorizado', left + 95, footerY + 10)
+    pdf.font('Helvetica').fontSize(9)
+    pdf.text(`${document.emisionTipo} N°: ${document.cae}`, 380, footerY + 10, { width: 175, align: 'right' })
+    if (document.caeVto) {
+      pdf.text(`Fecha de Vto. de ${document.emisionTipo}: ${formatDate(document.caeVto)}`, 380, footerY + 24, { width: 175, align: 'right' })
+    }
+    pdf.fontSize(7).text('Esta Agencia no se responsabiliza por los datos ingresados en el detalle de la operación', left + 95, footerY + 28, { width: 250 })
+  }
+}
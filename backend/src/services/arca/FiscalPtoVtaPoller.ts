@@ -4,14 +4,16 @@
  * Este servicio:
  * - Usa FECompUltimoAutorizado como verificación operativa del PV configurado
  * - Llama cada 5 minutos mientras pvStatus=PENDING
- * - Se detiene automáticamente cuando detecta READY
+ * - Verifica el PV de cada CUIT emisor (un certificado por CUIT)
+ * - Se detiene automáticamente cuando todos están READY
  * - FEParamGetPtosVenta se ejecuta opcionalmente pero NO bloquea READY si falla con 602
  */
 
 import { ArcaWsfeClient } from './ArcaWsfeClient.js'
-import { FiscalConfigService } from './FiscalConfigService.js'
+import { FiscalConfigService, type FiscalEmisor } from './FiscalConfigService.js'
 import { prisma } from '../../config/database.js'
-import { env, isFiscalEnabled } from '../../config/env.js'
+import { isFiscalEnabled } from '../../config/env.js'
+import { ArcaCertificateStore } from './ArcaCertificateStore.js'
 
 export class FiscalPtoVtaPoller {
   private static instance: FiscalPtoVtaPoller | null = null
@@ -43,32 +45,28 @@ export class FiscalPtoVtaPoller {
         return
       }
 
-      const envKey = env.AFIP_ENV || 'homo'
-      // Usar CUIT representado si está configurado, sino el del certificado
-      const cuitRepresentado = await FiscalConfigService.getCuitRepresentado(envKey)
-      const cuitNormalized = cuitRepresentado || env.AFIP_CUIT!
+      const envKey = ArcaCertificateStore.getActiveEnv()
+      const emisores = await FiscalConfigService.listEmisores()
 
-      if (!cuitNormalized) {
-        console.log('⚠️ [PV Poller] CUIT no configurado, no se inicia polling')
-        return
-      }
-
-      if (cuitRepresentado) {
-        console.log(`🔑 [PV Poller] Usando CUIT representado: ${cuitRepresentado} (certificado: ${env.AFIP_CUIT})`)
+      for (const emisor of emisores) {
+        if (emisor.cuitEmisor !== emisor.cuit) {
+          console.log(`🔑 [PV Poller] Usando CUIT representado: ${emisor.cuitEmisor} (certificado: ${emisor.cuit})`)
+        }
       }
 
-      // Verificar estado actual (usando el CUIT que se usa en Auth)
-      const statusRecord = await prisma.fiscalPtoVtaStatus.findUnique({
+      // Verificar estado actual de cada CUIT (usando el CUIT que se usa en Auth)
+      const statusRecords = await prisma.fiscalPtoVtaStatus.findMany({
         where: {
-          env_cuit: {
-            env: envKey,
-            cuit: cuitNormalized
-          }
+          env: envKey,
+          cuit: { in: emisores.map(emisor => emisor.cuitEmisor) }
         }
       })
 
-      // Si ya está READY, no iniciar polling
-      if (statusRecord?.status === 'READY') {
+      // Si todos están READY, no iniciar polling
+      const pending = emisores.filter(emisor =>
+        statusRecords.find(record => record.cuit === emisor.cuitEmisor)?.status !== 'READY'
+      )
+      if (pending.length === 0) {
         console.log('✅ [PV Poller] PV ya está READY, no se inicia polling')
         return
       }
@@ -110,19 +108,43 @@ export class FiscalPtoVtaPoller {
   }
 
   /**
-   * Verificar puntos de venta
+   * Verificar puntos de venta de todos los CUIT emisores
    */
   private async checkPtosVenta(): Promise<void> {
+    if (!isFiscalEnabled()) {
+      this.stop()
+      return
+    }
+
+    let emisores: FiscalEmisor[]
     try {
-      if (!isFiscalEnabled()) {
-        this.stop()
-        return
-      }
+      emisores = await FiscalConfigService.listEmisores()
+    } catch (error) {
+      console.error('❌ [PV Poller] Error al obtener los CUIT emisores:', error instanceof Error ? error.message : 'Error desconocido')
+      return
+    }
+
+    const statuses: Array<'PENDING' | 'READY' | 'ERROR'> = []
+    for (const emisor of emisores) {
+      statuses.push(await this.checkEmisor(emisor))
+    }
 
-      const envKey = env.AFIP_ENV || 'homo'
-      // Usar CUIT representado si está configurado, sino el del certificado
-      const cuitRepresentado = await FiscalConfigService.getCuitRepresentado(envKey)
-      const cuitNormalized = cuitRepresentado || env.AFIP_CUIT!
+    // Si todos están READY, detener polling
+    if (statuses.every(status => status === 'READY')) {
+      console.log('✅ [PV Poller] PV detectado como READY, deteniendo polling')
+      this.stop()
+    }
+  }
+
+  /**
+   * Verificar el punto de venta de un CUIT emisor
+   */
+  private async checkEmisor(emisor: FiscalEmisor): Promise<'PENDING' | 'READY' | 'ERROR'> {
+    const envKey = ArcaCertificateStore.getActiveEnv()
+    // CUIT que se usa en Auth: el representado si está configurado, sino el del certificado
+    const cuitNormalized = emisor.cuitEmisor
+
+    try {
 
       // Obtener estado actual (usando el CUIT que se usa en Auth)
       const statusRecord = await prisma.fiscalPtoVtaStatus.findUnique({
@@ -134,24 +156,22 @@ export class FiscalPtoVtaPoller {
         }
       })
 
-      // Si ya está READY, detener polling
+      // Si ya está READY, no hace falta volver a verificar
       if (statusRecord?.status === 'READY') {
-        console.log('✅ [PV Poller] PV detectado como READY, deteniendo polling')
-        this.stop()
-        return
+        return 'READY'
       }
 
       const attemptCount = (statusRecord?.attemptCount || 0) + 1
-      console.log(`🔍 [PV Poller] Verificando PV (intento ${attemptCount})...`)
+      console.log(`🔍 [PV Poller] Verificando PV de ${cuitNormalized} (intento ${attemptCount})...`)
 
-      // Obtener ptoVta configurado
-      const configPtoVta = await FiscalConfigService.getPtoVta(envKey, cuitNormalized)
+      // Obtener ptoVta configurado para el CUIT
+      const configPtoVta = emisor.ptoVta
       if (!configPtoVta) {
-        console.warn('⚠️ [PV Poller] No hay ptoVta configurado, no se puede verificar')
-        return
+        console.warn(`⚠️ [PV Poller] No hay ptoVta configurado para ${cuitNormalized}, no se puede verificar`)
+        return 'PENDING'
       }
 
-      const wsfeClient = new ArcaWsfeClient()
+      const wsfeClient = new ArcaWsfeClient(undefined, emisor.cuit)
       
       // NUEVO CRITERIO: Usar FECompUltimoAutorizado como verificación operativa
       // Este método prueba que WSFE conoce el PV y el cbteTipo
@@ -329,13 +349,10 @@ export class FiscalPtoVtaPoller {
         console.warn(`   💡 [PV Poller] Si persiste, abrir ticket ARCA con evidencia técnica`)
       }
 
-      // Si ahora está READY, detener polling
-      if (newStatus === 'READY') {
-        console.log('✅ [PV Poller] PV detectado como READY, deteniendo polling')
-        this.stop()
-      } else {
-        console.log(`⏳ [PV Poller] Estado: ${newStatus} (intento ${attemptCount})`)
+      if (newStatus !== 'READY') {
+        console.log(`⏳ [PV Poller] Estado de ${cuitNormalized}: ${newStatus} (intento ${attemptCount})`)
       }
+      return newStatus
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Error desconocido'
       const errorStack = error instanceof Error ? error.stack : undefined
@@ -346,7 +363,7 @@ export class FiscalPtoVtaPoller {
         console.warn(`⚠️ [PV Poller] Error de TA desincronizado:`, errorMsg)
         console.warn('   💡 [PV Poller] Esto puede pasar si WSAA tiene TA pero local no. Esperando próxima verificación...')
         // No actualizar estado a ERROR, dejar como PENDING para reintentar
-        return
+        return 'PENDING'
       }
       
       console.error(`❌ [PV Poller] Error al verificar PV:`, errorMsg)
@@ -355,8 +372,6 @@ export class FiscalPtoVtaPoller {
       }
       
       // Actualizar estado a ERROR solo si es un error real (no desincronización de TA)
-      const envKey = env.AFIP_ENV || 'homo'
-      const cuitNormalized = env.AFIP_CUIT!
       const statusRecord = await prisma.fiscalPtoVtaStatus.findUnique({
         where: {
           env_cuit: {
@@ -384,6 +399,7 @@ export class FiscalPtoVtaPoller {
           lastCheckedAt: new Date()
         }
       })
+      return 'ERROR'
     }
   }
 
@@ -1,7 +1,24 @@
 export { ArcaTokenManager } from './ArcaTokenManager.js'
+export type { ArcaService } from './ArcaTokenManager.js'
 export { ArcaWsfeClient } from './ArcaWsfeClient.js'
 export { FiscalPtoVtaPoller } from './FiscalPtoVtaPoller.js'
+export { FiscalIssuanceWorker } from './FiscalIssuanceWorker.js'
 export { FiscalIssueValidator } from './FiscalIssueValidator.js'
 export { FiscalConfigService } from './FiscalConfigService.js'
-export type { CanIssueResult, UltimoAutorizadoResult, FECAESolicitarDTO } from './FiscalIssueValidator.js'
-
+export type { FiscalEmisor } from './FiscalConfigService.js'
+export { ArcaCertificateStore } from './ArcaCertificateStore.js'
+export type { ArcaCertificate, FiscalEnv } from './ArcaCertificateStore.js'
+export { FiscalCertificateService, FiscalCertificateError } from './FiscalCertificateService.js'
+export type { CertificateSummary, GenerateCsrParams } from './FiscalCertificateService.js'
+export type { CanIssueResult, UltimoAutorizadoResult, FECAESolicitarDTO, FECAESolicitarBatchDTO, CbteAsoc } from './FiscalIssueValidator.js'
+export { FiscalInvoiceService, FiscalInvoiceError, INVOICE_TYPE_CODES, FISCAL_DOCUMENT_TYPES } from './FiscalInvoiceService.js'
+export type { InvoiceType, InvoiceListFilter, FiscalMessage, FiscalNoteKind, IssueNoteParams, IssueInvoiceOptions, IssueMode, BatchIssueResult, UninvoicedSalesFilter } from './FiscalInvoiceService.js'
+export { FiscalCaeaService } from './FiscalCaeaService.js'
+export type { CaeaInformSummary } from './FiscalCaeaService.js'
+export { FiscalPdfService, FiscalPdfError } from './FiscalPdfService.js'
+export type { FiscalPrintData, FiscalPrintItem } from './FiscalPdfService.js'
+export { FiscalAlertService } from './FiscalAlertService.js'
+export type { FiscalAlertCode } from './FiscalAlertService.js'
+export { ArcaPadronClient, ArcaPadronError } from './ArcaPadronClient.js'
+export { FiscalPadronService, FiscalPadronError } from './FiscalPadronService.js'
+export type { PadronPersona } from './FiscalPadronService.js'
@@ -0,0 +1,251 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../../config/database.js'
+import { sumCashCount, computeExpectedCash, type CashCount } from '../../utils/cash.js'
+
+/**
+ * Sesiones de caja (turnos) por usuario y dispositivo
+ *
+ * Las sesiones se abren, mueven y cierran en el dispositivo (también sin conexión) y llegan
+ * por sincronización. El servidor guarda el arqueo informado y, para auditoría, recalcula
+ * el efectivo esperado con las ventas y devoluciones sincronizadas de la sesión.
+ */
+
+export class CashSessionError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'CashSessionError'
+  }
+}
+
+export interface CashSessionSyncData {
+  deviceId: string
+  userId?: string
+  status: 'open' | 'closed'
+  openingAmount: number
+  openedAt?: Date
+  closedAt?: Date
+  closedById?: string
+  movements: Array<{
+    id: string
+    type: 'deposit' | 'withdrawal'
+    amount: number
+    reason: string
+    userId?: string
+    createdAt?: Date
+  }>
+  expectedCash?: number
+  countedCash?: number
+  difference?: number
+  cashCount?: CashCount
+  notes?: string
+}
+
+export interface CashSessionListFilter {
+  from?: Date
+  to?: Date
+  userId?: string
+  deviceId?: string
+  status?: 'OPEN' | 'CLOSED'
+  // Solo sesiones cerradas con diferencia entre lo contado y lo esperado
+  withDifference?: boolean
+  limit: number
+}
+
+// Diferencia tolerada al comparar importes (redondeo a centavos)
+const AMOUNT_TOLERANCE = 0.01
+
+// Estados de venta que ingresaron dinero a la caja
+const CASH_IN_SALE_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'] as const
+
+const SESSION_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  closedBy: { select: { id: true, name: true } }
+} satisfies Prisma.CashSessionInclude
+
+export class CashSessionService {
+  /**
+   * Registrar el estado de una sesión informado por el dispositivo (apertura, movimientos o cierre).
+   * Es idempotente: los movimientos ya registrados no se duplican y una sesión cerrada no se reabre.
+   */
+  static async syncFromDevice(id: string, data: CashSessionSyncData, fallbackUserId: string) {
+    if (data.status === 'closed') {
+      if (data.countedCash === undefined || data.expectedCash === undefined) {
+        throw new CashSessionError('El cierre de caja requiere el efectivo esperado y el contado', 400)
+      }
+      if (data.cashCount) {
+        let counted: number
+        try {
+          counted = sumCashCount(data.cashCount)
+        } catch (error) {
+          throw new CashSessionError(error instanceof Error ? error.message : 'Conteo de efectivo inválido', 400)
+        }
+        if (Math.abs(counted - data.countedCash) > AMOUNT_TOLERANCE) {
+          throw new CashSessionError(`El conteo por denominación (${counted.toFixed(2)}) no coincide con el efectivo contado (${data.countedCash.toFixed(2)})`, 400)
+        }
+      }
+    }
+
+    const existing = await prisma.cashSession.findUnique({ where: { id }, select: { status: true, deviceId: true } })
+    if (existing && existing.deviceId !== data.deviceId) {
+      throw new CashSessionError(`La sesión de caja ${id} pertenece a otro dispositivo`, 409)
+    }
+    // Un reintento de la apertura llega después del cierre: no se reabre
+    const reopening = existing?.status === 'CLOSED' && data.status === 'open'
+
+    // Los usuarios locales pueden no existir en el servidor; se usa el autenticado
+    const userIds = [data.userId, data.closedById, ...data.movements.map(m => m.userId)]
+      .filter((userId): userId is string => Boolean(userId))
+    const knownUsers = new Set(
+      (await prisma.user.findMany({ where: { id: { in: [...new Set(userIds)] } }, select: { id: true } }))
+        .map(user => user.id)
+    )
+    const resolveUser = (userId?: string) => (userId && knownUsers.has(userId) ? userId : fallbackUserId)
+
+    const closing = data.status === 'closed' && !reopening
+      ? {
+          status: 'CLOSED' as const,
+          closedAt: data.closedAt ?? new Date(),
+          closedById: resolveUser(data.closedById),
+          expectedCash: data.expectedCash,
+          countedCash: data.countedCash,
+          difference: data.difference ?? (data.countedCash ?? 0) - (data.expectedCash ?? 0),
+          cashCount: data.cashCount,
+          notes: data.notes
+        }
+      : {}
+
+    return prisma.$transaction(async (tx) => {
+      await tx.cashSession.upsert({
+        where: { id },
+        create: {
+          id,
+          deviceId: data.deviceId,
+          userId: resolveUser(data.userId),
+          openingAmount: data.openingAmount,
+          openedAt: data.openedAt,
+          ...closing
+        },
+        update: closing
+      })
+
+      if (data.movements.length > 0) {
+        await tx.cashMovement.createMany({
+          data: data.movements.map(movement => ({
+            id: movement.id,
+            sessionId: id,
+            userId: resolveUser(movement.userId),
+            type: movement.type === 'deposit' ? 'DEPOSIT' as const : 'WITHDRAWAL' as const,
+            amount: movement.amount,
+            reason: movement.reason,
+            createdAt: movement.createdAt
+          })),
+          skipDuplicates: true
+        })
+      }
+
+      return tx.cashSession.findUniqueOrThrow({ where: { id }, include: SESSION_INCLUDE })
+    })
+  }
+
+  /**
+   * Sesiones para auditoría (más recientes primero)
+   */
+  static async list(filter: CashSessionListFilter) {
+    return prisma.cashSession.findMany({
+      where: {
+        userId: filter.userId,
+        deviceId: filter.deviceId,
+        status: filter.status,
+        openedAt: { gte: filter.from, lte: filter.to },
+        ...(filter.withDifference && { status: 'CLOSED', difference: { not: 0 } })
+      },
+      include: { ...SESSION_INCLUDE, _count: { select: { movements: true, sales: true } } },
+      orderBy: { openedAt: 'desc' },
+      take: filter.limit
+    })
+  }
+
+  /**
+   * Detalle de una sesión con el arqueo recalculado en el servidor.
+   * Las ventas o devoluciones todavía no sincronizadas no están incluidas en el recálculo.
+   */
+  static async getAudit(id: string) {
+    const session = await prisma.cashSession.findUnique({
+      where: { id },
+      include: {
+        ...SESSION_INCLUDE,
+        movements: { orderBy: { createdAt: 'asc' }, include: { user: { select: { id: true, name: true } } } }
+      }
+    })
+
+    if (!session) {
+      throw new CashSessionError('Sesión de caja no encontrada', 404)
+    }
+
+    const [sales, refunds] = await Promise.all([
+      prisma.sale.findMany({
+        where: { cashSessionId: id, status: { in: [...CASH_IN_SALE_STATUSES] } },
+        select: {
+          total: true,
+          paymentMethod: { select: { id: true, name: true, type: true } },
+          payments: { select: { amount: true, paymentMethod: { select: { id: true, name: true, type: true } } } }
+        }
+      }),
+      prisma.saleRefund.findMany({
+        where: { saleReturn: { cashSessionId: id } },
+        select: { amount: true, paymentMethod: { select: { type: true } } }
+      })
+    ])
+
+    // Cobrado por método de pago (una venta con pagos divididos reparte su total)
+    const byMethod = new Map<string, { paymentMethodId: string; name: string; type: string; amount: number }>()
+    for (const sale of sales) {
+      const payments = sale.payments.length > 0
+        ? sale.payments
+        : [{ amount: sale.total, paymentMethod: sale.paymentMethod }]
+      for (const payment of payments) {
+        const entry = byMethod.get(payment.paymentMethod.id) ?? {
+          paymentMethodId: payment.paymentMethod.id,
+          name: payment.paymentMethod.name,
+          type: payment.paymentMethod.type,
+          amount: 0
+        }
+        entry.amount += Number(payment.amount)
+        byMethod.set(payment.paymentMethod.id, entry)
+      }
+    }
+
+    const sumMovements = (type: 'DEPOSIT' | 'WITHDRAWAL') =>
+      session.movements.filter(m => m.type === type).reduce((sum, m) => sum + Number(m.amount), 0)
+
+    const flow = {
+      openingAmount: Number(session.openingAmount),
+      cashSales: Array.from(byMethod.values())
+        .filter(entry => entry.type === 'CASH')
+        .reduce((sum, entry) => sum + entry.amount, 0),
+      cashRefunds: refunds
+        .filter(refund => refund.paymentMethod.type === 'CASH')
+        .reduce((sum, refund) => sum + Number(refund.amount), 0),
+      deposits: sumMovements('DEPOSIT'),
+      withdrawals: sumMovements('WITHDRAWAL')
+    }
+    const expectedCash = computeExpectedCash(flow)
+    const countedCash = session.countedCash === null ? null : Number(session.countedCash)
+
+    return {
+      session,
+      audit: {
+        ...flow,
+        salesCount: sales.length,
+        salesTotal: sales.reduce((sum, sale) => sum + Number(sale.total), 0),
+        byPaymentMethod: Array.from(byMethod.values()),
+        expectedCash,
+        difference: countedCash === null ? null : Math.round((countedCash - expectedCash) * 100) / 100,
+        // El esperado informado por el dispositivo coincide con el recalculado
+        matchesDevice: session.expectedCash === null
+          ? null
+          : Math.abs(Number(session.expectedCash) - expectedCash) <= AMOUNT_TOLERANCE
+      }
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { CashSessionService, CashSessionError } from './CashSessionService.js'
+export type { CashSessionSyncData, CashSessionListFilter } from './CashSessionService.js'
@@ -0,0 +1,304 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../../config/database.js'
+import { FiscalInvoiceService, FiscalInvoiceError } from '../arca/index.js'
+import {
+  planSaleReturn,
+  assertRefundsMatchBalance,
+  createMovementIdPool,
+  type ReturnLine,
+  type ExchangeLine,
+  type SaleReturnPlan
+} from '../../utils/sales.js'
+
+/**
+ * Devoluciones parciales y cambios de artículos de una venta
+ *
+ * Cada devolución registra las unidades devueltas (movimientos RETURN), los artículos
+ * entregados a cambio (movimientos SALE) y el dinero reintegrado o cobrado por método
+ * de pago. La venta original queda PARTIALLY_REFUNDED, o REFUNDED si se devolvió todo.
+ */
+
+export class SaleReturnError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'SaleReturnError'
+  }
+}
+
+export interface RegisterReturnParams {
+  // Id generado en el dispositivo: hace idempotente el registro desde la sincronización
+  id?: string
+  items: ReturnLine[]
+  exchangeItems?: Array<ExchangeLine & { id?: string }>
+  // amount positivo = reintegro al cliente; negativo = cobro de la diferencia
+  refunds: Array<{ id?: string; paymentMethodId: string; amount: number }>
+  reason?: string
+  // Sesión de caja en la que se reintegró o cobró el dinero
+  cashSessionId?: string
+  // Ids locales de los movimientos de stock, para no duplicarlos al sincronizar
+  stockMovements?: Array<{ id: string; variantId: string; type: 'return' | 'sale' }>
+  createdAt?: Date
+}
+
+export interface RegisterReturnOptions {
+  // Una devolución hecha offline ya ocurrió: se registra aunque falte stock para el cambio
+  allowStockShortage?: boolean
+}
+
+export interface StockShortage {
+  variantId: string
+  requested: number
+  available: number
+}
+
+const RETURNABLE_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED']
+
+const RETURN_INCLUDE = {
+  items: true,
+  exchangeItems: true,
+  refunds: { include: { paymentMethod: { select: { id: true, name: true, type: true } } } },
+  user: { select: { id: true, name: true } }
+} satisfies Prisma.SaleReturnInclude
+
+export class SaleReturnService {
+  /**
+   * Registrar una devolución (con cambio opcional) sobre una venta
+   */
+  static async register(
+    saleId: string,
+    params: RegisterReturnParams,
+    userId: string,
+    options: RegisterReturnOptions = {}
+  ) {
+    // Idempotencia: la devolución ya fue registrada en un push anterior
+    if (params.id) {
+      const existing = await prisma.saleReturn.findUnique({ where: { id: params.id }, include: RETURN_INCLUDE })
+      if (existing) {
+        if (existing.saleId !== saleId) {
+          throw new SaleReturnError(`La devolución ${params.id} pertenece a otra venta`, 409)
+        }
+        return {
+          saleReturn: existing,
+          duplicate: true,
+          stockLevels: await this.getStockLevels([
+            ...existing.items.map(item => item.variantId),
+            ...existing.exchangeItems.map(item => item.variantId)
+          ]),
+          stockShortages: [] as StockShortage[]
+        }
+      }
+    }
+
+    const sale = await prisma.sale.findUnique({
+      where: { id: saleId },
+      include: { items: true }
+    })
+
+    if (!sale) {
+      throw new SaleReturnError('Venta no encontrada', 404)
+    }
+
+    if (!RETURNABLE_STATUSES.includes(sale.status)) {
+      throw new SaleReturnError('Solo se pueden devolver artículos de ventas completadas', 400)
+    }
+
+    let plan: SaleReturnPlan<ExchangeLine & { id?: string }>
+    try {
+      plan = planSaleReturn(
+        sale.items.map(item => ({
+          id: item.id,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          returnedQuantity: item.returnedQuantity,
+          unitPrice: Number(item.unitPrice),
+          discount: Number(item.discount)
+        })),
+        params.items,
+        params.exchangeItems
+      )
+      assertRefundsMatchBalance(plan.balance, params.refunds)
+    } catch (error) {
+      throw new SaleReturnError(error instanceof Error ? error.message : 'Devolución inválida', 400)
+    }
+
+    // Una venta facturada solo reintegra dinero ya cubierto por notas de crédito
+    const newRefunds = params.refunds.reduce((sum, refund) => sum + Math.max(refund.amount, 0), 0)
+    if (newRefunds > 0) {
+      const previous = await prisma.saleRefund.aggregate({
+        where: { saleReturn: { saleId }, amount: { gt: 0 } },
+        _sum: { amount: true }
+      })
+      try {
+        await FiscalInvoiceService.assertCanRefund(saleId, Number(previous._sum.amount ?? 0) + newRefunds)
+      } catch (error) {
+        if (error instanceof FiscalInvoiceError) {
+          throw new SaleReturnError(error.message, error.statusCode)
+        }
+        throw error
+      }
+    }
+
+    // Un movimiento por línea: varias líneas (devueltas o de cambio) pueden ser de la misma variante
+    const takeMovementId = createMovementIdPool(
+      params.stockMovements?.map(m => ({ key: `${m.type}:${m.variantId}`, id: m.id })) ?? []
+    )
+    const createdAt = params.createdAt ?? new Date()
+
+    return prisma.$transaction(async (tx) => {
+      // Delta con signo atómico (increment): el stock anterior y el nuevo salen del servidor
+      const applyStockDelta = async (variantId: string, delta: number) => {
+        const updated = await tx.productVariant.update({
+          where: { id: variantId },
+          data: { currentStock: { increment: delta } },
+          select: { currentStock: true }
+        })
+        return { previousStock: updated.currentStock - delta, newStock: updated.currentStock }
+      }
+
+      // Descontar unidades pendientes de devolución de forma condicional (evita devoluciones concurrentes dobles)
+      for (const item of plan.items) {
+        const saleItem = sale.items.find(i => i.id === item.saleItemId)
+        const updated = await tx.saleItem.updateMany({
+          where: { id: item.saleItemId, returnedQuantity: { lte: (saleItem?.quantity ?? 0) - item.quantity } },
+          data: { returnedQuantity: { increment: item.quantity } }
+        })
+        if (updated.count !== 1) {
+          throw new SaleReturnError('La venta cambió mientras se registraba la devolución. Vuelva a intentarlo', 409)
+        }
+      }
+
+      const saleReturn = await tx.saleReturn.create({
+        data: {
+          id: params.id,
+          saleId,
+          userId,
+          cashSessionId: params.cashSessionId,
+          reason: params.reason,
+          returnedTotal: plan.returnedTotal,
+          exchangeTotal: plan.exchangeTotal,
+          balance: plan.balance,
+          createdAt,
+          items: {
+            create: plan.items.map(item => ({
+              saleItemId: item.saleItemId,
+              variantId: item.variantId,
+              quantity: item.quantity,
+              amount: item.amount
+            }))
+          },
+          exchangeItems: {
+            create: plan.exchangeItems.map(item => ({
+              id: item.id,
+              variantId: item.variantId,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              discount: item.discount,
+              subtotal: item.subtotal
+            }))
+          },
+          refunds: {
+            create: params.refunds.map(refund => ({
+              id: refund.id,
+              paymentMethodId: refund.paymentMethodId,
+              amount: refund.amount,
+              createdAt
+            }))
+          }
+        },
+        include: RETURN_INCLUDE
+      })
+
+      const stockLevels = new Map<string, number>()
+      const stockShortages: StockShortage[] = []
+
+      // Reingresar solo las unidades devueltas
+      for (const item of plan.items) {
+        const { previousStock, newStock } = await applyStockDelta(item.variantId, item.quantity)
+
+        await tx.stockMovement.create({
+          data: {
+            id: takeMovementId(`return:${item.variantId}`),
+            variantId: item.variantId,
+            userId,
+            type: 'RETURN',
+            quantity: item.quantity,
+            previousStock,
+            newStock,
+            reason: `Devolución parcial de venta ${sale.receiptNumber}`,
+            referenceId: saleId,
+            createdAt
+          }
+        })
+
+        stockLevels.set(item.variantId, newStock)
+      }
+
+      // Entregar los artículos del cambio
+      for (const item of plan.exchangeItems) {
+        const variant = await tx.productVariant.findUnique({
+          where: { id: item.variantId },
+          select: { sku: true, currentStock: true }
+        })
+        if (!variant) {
+          throw new SaleReturnError(`Variante ${item.variantId} no encontrada`, 400)
+        }
+        if (variant.currentStock < item.quantity) {
+          if (!options.allowStockShortage) {
+            throw new SaleReturnError(`Stock insuficiente para ${variant.sku}. Disponible: ${variant.currentStock}`, 400)
+          }
+          stockShortages.push({ variantId: item.variantId, requested: item.quantity, available: variant.currentStock })
+        }
+
+        const { previousStock, newStock } = await applyStockDelta(item.variantId, -item.quantity)
+
+        await tx.stockMovement.create({
+          data: {
+            id: takeMovementId(`sale:${item.variantId}`),
+            variantId: item.variantId,
+            userId,
+            type: 'SALE',
+            quantity: item.quantity,
+            previousStock,
+            newStock,
+            reason: `Cambio en venta ${sale.receiptNumber}`,
+            referenceId: saleId,
+            createdAt
+          }
+        })
+
+        stockLevels.set(item.variantId, newStock)
+      }
+
+      await tx.sale.update({
+        where: { id: saleId },
+        data: { status: plan.fullyReturned ? 'REFUNDED' : 'PARTIALLY_REFUNDED' }
+      })
+
+      return {
+        saleReturn,
+        duplicate: false,
+        stockLevels: Array.from(stockLevels, ([variantId, currentStock]) => ({ variantId, currentStock })),
+        stockShortages
+      }
+    })
+  }
+
+  /**
+   * Devoluciones de una venta (más recientes primero)
+   */
+  static async listBySale(saleId: string) {
+    return prisma.saleReturn.findMany({
+      where: { saleId },
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  private static async getStockLevels(variantIds: string[]) {
+    const variants = await prisma.productVariant.findMany({
+      where: { id: { in: [...new Set(variantIds)] } },
+      select: { id: true, currentStock: true }
+    })
+    return variants.map(v => ({ variantId: v.id, currentStock: v.currentStock }))
+  }
+}
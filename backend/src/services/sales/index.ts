@@ -0,0 +1,2 @@
+export { SaleReturnService, SaleReturnError } from './SaleReturnService.js'
+export type { RegisterReturnParams, RegisterReturnOptions, StockShortage } from './SaleReturnService.js'
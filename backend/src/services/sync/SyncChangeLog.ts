@@ -0,0 +1,119 @@
+import { prisma, SYNC_TRACKED_MODELS } from '../../config/database.js'
+
+export interface SyncChangeEntry {
+  seq: number
+  tableName: string
+  recordId: string
+  operation: string
+}
+
+export interface SyncChangePage {
+  entries: SyncChangeEntry[]
+  nextCursor: number
+  hasMore: boolean
+}
+
+// Tablas físicas de los modelos sincronizados, para el backfill inicial del change log
+const PHYSICAL_TABLES: Record<string, { table: string; timestampColumn: string }> = {
+  categories: { table: 'categories', timestampColumn: 'updated_at' },
+  products: { table: 'products', timestampColumn: 'updated_at' },
+  productVariants: { table: 'product_variants', timestampColumn: 'updated_at' },
+  paymentMethods: { table: 'payment_methods', timestampColumn: 'updated_at' },
+  customers: { table: 'customers', timestampColumn: 'updated_at' },
+  suppliers: { table: 'suppliers', timestampColumn: 'updated_at' },
+  users: { table: 'users', timestampColumn: 'updated_at' },
+  sales: { table: 'sales', timestampColumn: 'updated_at' },
+  saleReturns: { table: 'sale_returns', timestampColumn: 'updated_at' },
+  stockMovements: { table: 'stock_movements', timestampColumn: 'created_at' }
+}
+
+/**
+ * Change log de sincronización
+ * Provee un cursor monotónico (seq) para que los dispositivos hagan pull paginado y reanudable
+ */
+export class SyncChangeLog {
+  // Las entradas se escriben en la transacción que modifica el registro, pero el seq
+  // se asigna antes del commit: una transacción lenta puede confirmar un seq menor
+  // después de que se leyó uno mayor. Se espera el timeout por defecto de las
+  // transacciones interactivas de Prisma (5s) para no saltear esas entradas.
+  static readonly SETTLE_MS = 5000
+
+  static readonly DEFAULT_PAGE_SIZE = 200
+  static readonly MAX_PAGE_SIZE = 1000
+
+  /**
+   * Carga en el change log todos los registros existentes si está vacío
+   * (primer arranque luego de introducir el cursor)
+   */
+  static async seedIfEmpty(): Promise<void> {
+    const count = await prisma.syncChange.count()
+    if (count > 0) return
+
+    for (const tableName of Object.values(SYNC_TRACKED_MODELS)) {
+      const physical = PHYSICAL_TABLES[tableName]
+      if (!physical) continue
+
+      // Nombres de tabla/columna constantes: no hay entrada de usuario en el SQL
+      await prisma.$executeRawUnsafe(
+        `INSERT INTO sync_changes (table_name, record_id, operation, created_at)
+         SELECT $1, id, 'upsert', ${physical.timestampColumn}
+         FROM ${physical.table}
+         ORDER BY ${physical.timestampColumn}, id`,
+        tableName
+      )
+    }
+
+    console.log('✅ [SyncChangeLog] Change log inicializado con los registros existentes')
+  }
+
+  /**
+   * Lee una página de cambios posteriores al cursor, en orden de seq
+   * Se detiene en la primera entrada que todavía no cumplió SETTLE_MS
+   */
+  static async readPage(cursor: number, limit: number): Promise<SyncChangePage> {
+    const pageSize = Math.min(Math.max(limit, 1), this.MAX_PAGE_SIZE)
+    const settledBefore = new Date(Date.now() - this.SETTLE_MS)
+
+    const rows = await prisma.syncChange.findMany({
+      where: { seq: { gt: cursor } },
+      orderBy: { seq: 'asc' },
+      take: pageSize + 1
+    })
+
+    const entries: SyncChangeEntry[] = []
+    let reachedUnsettled = false
+    for (const row of rows.slice(0, pageSize)) {
+      if (row.createdAt > settledBefore) {
+        reachedUnsettled = true
+        break
+      }
+      entries.push({
+        seq: row.seq,
+        tableName: row.tableName,
+        recordId: row.recordId,
+        operation: row.operation
+      })
+    }
+
+    const lastEntry = entries[entries.length - 1]
+
+    return {
+      entries,
+      nextCursor: lastEntry ? lastEntry.seq : cursor,
+      hasMore: !reachedUnsettled && rows.length > pageSize
+    }
+  }
+
+  /**
+   * Agrupa los ids de una página por tabla (sin duplicados)
+   */
+  static groupByTable(entries: SyncChangeEntry[]): Map<string, string[]> {
+    const grouped = new Map<string, Set<string>>()
+    for (const entry of entries) {
+      const ids = grouped.get(entry.tableName) ?? new Set<string>()
+      ids.add(entry.recordId)
+      grouped.set(entry.tableName, ids)
+    }
+    return new Map(Array.from(grouped.entries()).map(([table, ids]) => [table, Array.from(ids)]))
+  }
+}
@@ -0,0 +1,77 @@
+import { syncChangeEvents, type SyncChangeEvent } from '../../config/database.js'
+import { SyncChangeLog } from './SyncChangeLog.js'
+
+export interface SyncChangeNotification {
+  tables: string[]
+  notifiedAt: string
+}
+
+type SyncChangeListener = (notification: SyncChangeNotification) => void
+
+/**
+ * Notificador de cambios para los dispositivos conectados en tiempo real
+ * Agrupa las escrituras del change log y avisa qué tablas cambiaron para que el cliente haga pull
+ */
+export class SyncChangeNotifier {
+  // Se avisa recién cuando las entradas ya son visibles en /sync/pull (ver SyncChangeLog.SETTLE_MS)
+  private static readonly NOTIFY_DELAY_MS = SyncChangeLog.SETTLE_MS + 500
+  // Con escrituras continuas, se avisa igual cada este intervalo
+  private static readonly MAX_WAIT_MS = 15000
+
+  private static listeners = new Set<SyncChangeListener>()
+  private static pendingTables = new Set<string>()
+  private static timer: NodeJS.Timeout | null = null
+  private static firstPendingAt: number | null = null
+  private static started = false
+
+  static start(): void {
+    if (this.started) return
+    this.started = true
+
+    syncChangeEvents.on('change', (event: SyncChangeEvent) => this.enqueue(event.tableName))
+  }
+
+  static subscribe(listener: SyncChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  static get connectionCount(): number {
+    return this.listeners.size
+  }
+
+  private static enqueue(tableName: string): void {
+    this.pendingTables.add(tableName)
+    this.firstPendingAt ??= Date.now()
+
+    // Debounce con espera máxima
+    const elapsed = Date.now() - this.firstPendingAt
+    const delay = Math.max(0, Math.min(this.NOTIFY_DELAY_MS, this.MAX_WAIT_MS - elapsed))
+
+    if (this.timer) {
+      clearTimeout(this.timer)
+    }
+    this.timer = setTimeout(() => this.flush(), delay)
+  }
+
+  private static flush(): void {
+    const notification: SyncChangeNotification = {
+      tables: Array.from(this.pendingTables),
+      notifiedAt: new Date().toISOString()
+    }
+
+    this.pendingTables.clear()
+    this.timer = null
+    this.firstPendingAt = null
+
+    for (const listener of this.listeners) {
+      try {
+        listener(notification)
+      } catch (error) {
+        console.warn('⚠️ [SyncChangeNotifier] Error notificando cambios:', error instanceof Error ? error.message : error)
+      }
+    }
+  }
+}
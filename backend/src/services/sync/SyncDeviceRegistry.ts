@@ -0,0 +1,164 @@
+import { prisma } from '../../config/database.js'
+
+export interface SyncDeviceHealth {
+  deviceId: string
+  name: string | null
+  revokedAt: Date | null
+  lastPullAt: Date | null
+  lastPushAt: Date | null
+  operations: number
+  errors: number
+  conflicts: number
+  errorRate: number
+  stuckOperations: number
+}
+
+export interface SyncLogFilter {
+  deviceId?: string
+  statuses: Array<'PENDING' | 'SYNCED' | 'ERROR' | 'CONFLICT'>
+  limit: number
+}
+
+export class SyncDeviceError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'SyncDeviceError'
+  }
+}
+
+/**
+ * Registro de dispositivos de sincronización y métricas de salud a partir de SyncLog
+ */
+export class SyncDeviceRegistry {
+  // Ventana para calcular la tasa de errores
+  static readonly HEALTH_WINDOW_DAYS = 7
+
+  /**
+   * Registra actividad de un dispositivo (se crea la primera vez que sincroniza)
+   */
+  static async touch(deviceId: string, kind: 'pull' | 'push'): Promise<void> {
+    const now = new Date()
+    const data = kind === 'pull' ? { lastPullAt: now } : { lastPushAt: now }
+
+    await prisma.syncDevice.upsert({
+      where: { id: deviceId },
+      create: { id: deviceId, ...data },
+      update: data
+    })
+  }
+
+  /**
+   * Dispositivo de la sesión: se fija en el token al iniciar sesión, no se toma de la solicitud.
+   * Si la solicitud indica un dispositivo, tiene que ser el mismo.
+   *
+   * @throws SyncDeviceError si el token no tiene dispositivo, no coincide o está revocado
+   */
+  static async resolveSessionDevice(tokenDeviceId: string | undefined, requestedDeviceId?: string): Promise<string> {
+    if (!tokenDeviceId) {
+      throw new SyncDeviceError('La sesión no tiene un dispositivo asociado. Inicie sesión nuevamente', 401)
+    }
+    if (requestedDeviceId && requestedDeviceId !== tokenDeviceId) {
+      throw new SyncDeviceError('El dispositivo no coincide con el de la sesión', 403)
+    }
+    if (await this.isRevoked(tokenDeviceId)) {
+      throw new SyncDeviceError('Dispositivo revocado: no puede sincronizar', 403)
+    }
+    return tokenDeviceId
+  }
+
+  static async isRevoked(deviceId: string): Promise<boolean> {
+    const device = await prisma.syncDevice.findUnique({
+      where: { id: deviceId },
+      select: { revokedAt: true }
+    })
+    return !!device?.revokedAt
+  }
+
+  /**
+   * Estado de salud de todos los dispositivos conocidos (incluye los que solo figuran en SyncLog)
+   */
+  static async getHealth(): Promise<SyncDeviceHealth[]> {
+    const since = new Date()
+    since.setDate(since.getDate() - this.HEALTH_WINDOW_DAYS)
+
+    const [devices, counts, stuck] = await Promise.all([
+      prisma.syncDevice.findMany(),
+      prisma.syncLog.groupBy({
+        by: ['deviceId', 'status'],
+        where: { createdAt: { gte: since }, operation: { not: 'pull' } },
+        _count: { _all: true }
+      }),
+      // Operaciones trabadas: registros cuyo último intento del dispositivo terminó en error/conflicto
+      prisma.$queryRaw<Array<{ device_id: string; stuck: bigint }>>`
+        SELECT device_id, COUNT(*) AS stuck
+        FROM (
+          SELECT DISTINCT ON (device_id, table_name, record_id) device_id, status
+          FROM sync_logs
+          WHERE operation <> 'pull'
+          ORDER BY device_id, table_name, record_id, created_at DESC
+        ) latest
+        WHERE status IN ('ERROR', 'CONFLICT')
+        GROUP BY device_id
+      `
+    ])
+
+    const deviceIds = new Set([...devices.map(d => d.id), ...counts.map(c => c.deviceId)])
+    const stuckByDevice = new Map<string, number>(stuck.map(row => [row.device_id, Number(row.stuck)]))
+
+    return Array.from(deviceIds).map(deviceId => {
+      const device = devices.find(d => d.id === deviceId)
+      const countFor = (status: string) =>
+        counts.find(c => c.deviceId === deviceId && c.status === status)?._count._all ?? 0
+
+      const operations = counts
+        .filter(c => c.deviceId === deviceId)
+        .reduce((sum, c) => sum + c._count._all, 0)
+      const errors = countFor('ERROR')
+      const conflicts = countFor('CONFLICT')
+
+      return {
+        deviceId,
+        name: device?.name ?? null,
+        revokedAt: device?.revokedAt ?? null,
+        lastPullAt: device?.lastPullAt ?? null,
+        lastPushAt: device?.lastPushAt ?? null,
+        operations,
+        errors,
+        conflicts,
+        errorRate: operations > 0 ? (errors + conflicts) / operations : 0,
+        stuckOperations: stuckByDevice.get(deviceId) ?? 0
+      }
+    }).sort((a, b) => (b.lastPushAt?.getTime() ?? 0) - (a.lastPushAt?.getTime() ?? 0))
+  }
+
+  /**
+   * Entradas recientes del log (con payload) filtradas por dispositivo y estado
+   */
+  static async getLogs(filter: SyncLogFilter) {
+    return prisma.syncLog.findMany({
+      where: {
+        ...(filter.deviceId && { deviceId: filter.deviceId }),
+        status: { in: filter.statuses }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit
+    })
+  }
+
+  static async rename(deviceId: string, name: string | null) {
+    return prisma.syncDevice.upsert({
+      where: { id: deviceId },
+      create: { id: deviceId, name },
+      update: { name }
+    })
+  }
+
+  static async setRevoked(deviceId: string, revoked: boolean) {
+    const revokedAt = revoked ? new Date() : null
+    return prisma.syncDevice.upsert({
+      where: { id: deviceId },
+      create: { id: deviceId, revokedAt },
+      update: { revokedAt }
+    })
+  }
+}
@@ -0,0 +1,6 @@
+export { SyncChangeLog } from './SyncChangeLog.js'
+export { SyncChangeNotifier } from './SyncChangeNotifier.js'
+export { SyncDeviceRegistry, SyncDeviceError } from './SyncDeviceRegistry.js'
+export type { SyncChangeEntry, SyncChangePage } from './SyncChangeLog.js'
+export type { SyncChangeNotification } from './SyncChangeNotifier.js'
+export type { SyncDeviceHealth, SyncLogFilter } from './SyncDeviceRegistry.js'
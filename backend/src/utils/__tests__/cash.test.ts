@@ -0,0 +1,44 @@
+/**
+ * Tests para utilidades de caja y arqueo
+ */
+
+import { describe, it, expect } from 'vitest'
+import { sumCashCount, computeExpectedCash } from '../cash.js'
+
+describe('sumCashCount', () => {
+  it('suma billetes por denominación y monedas', () => {
+    expect(sumCashCount({ '10000': 2, '1000': 5, '100': 3, coins: 45.5 })).toBe(25345.5)
+  })
+
+  it('acepta un conteo vacío', () => {
+    expect(sumCashCount({})).toBe(0)
+  })
+
+  it('rechaza denominaciones desconocidas y cantidades inválidas', () => {
+    expect(() => sumCashCount({ '300': 1 })).toThrow('Denominación desconocida')
+    expect(() => sumCashCount({ '1000': -1 })).toThrow('Cantidad inválida')
+    expect(() => sumCashCount({ '1000': 1.5 })).toThrow('entero')
+  })
+})
+
+describe('computeExpectedCash', () => {
+  it('suma fondo, ventas e ingresos y resta devoluciones y retiros', () => {
+    expect(computeExpectedCash({
+      openingAmount: 10000,
+      cashSales: 25300.5,
+      cashRefunds: 900,
+      deposits: 2000,
+      withdrawals: 15000
+    })).toBe(21400.5)
+  })
+
+  it('un cobro de diferencia en un cambio suma efectivo', () => {
+    expect(computeExpectedCash({
+      openingAmount: 5000,
+      cashSales: 0,
+      cashRefunds: -300,
+      deposits: 0,
+      withdrawals: 0
+    })).toBe(5300)
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * Tests para utilidades de facturación electrónica
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildIvaBreakdown,
+  calculateCreditedAmount,
+  resolveReceiverDocument,
+  getCaeaPeriod,
+  getNextCaeaPeriod,
+  getCaeaPeriodStart,
+  formatAfipDate,
+  parseAfipDate,
+  splitInBatches,
+  buildAfipQrUrl,
+  isValidCuit,
+  formatCuit,
+  formatPadronDomicilio,
+  resolvePadronCondicionIva,
+  getCertificateExpiry,
+  AFIP_QR_URL,
+  PADRON_IMPUESTO_IVA,
+  PADRON_IMPUESTO_IVA_EXENTO,
+  DOC_TIPO_CUIT,
+  DOC_TIPO_DNI,
+  DOC_TIPO_CONSUMIDOR_FINAL
+} from '../fiscal.js'
+
+describe('resolveReceiverDocument', () => {
+  it('resuelve CUIT, DNI y Consumidor Final', () => {
+    expect(resolveReceiverDocument('20-12345678-6')).toEqual({ docTipo: DOC_TIPO_CUIT, docNro: 20123456786 })
+    expect(resolveReceiverDocument('12.345.678')).toEqual({ docTipo: DOC_TIPO_DNI, docNro: 12345678 })
+    expect(resolveReceiverDocument(null)).toEqual({ docTipo: DOC_TIPO_CONSUMIDOR_FINAL, docNro: 0 })
+  })
+
+  it('rechaza documentos con formato desconocido', () => {
+    expect(() => resolveReceiverDocument('ABC123')).toThrow()
+    expect(() => resolveReceiverDocument('123456789')).toThrow()
+  })
+})
+
+describe('buildIvaBreakdown', () => {
+  it('agrupa los items por alícuota', () => {
+    const result = buildIvaBreakdown([
+      { ivaRate: 21, subtotal: 1210 },
+      { ivaRate: 21, subtotal: 121 },
+      { ivaRate: 10.5, subtotal: 221 },
+      { ivaRate: 0, subtotal: 50 }
+    ], 1602)
+
+    expect(result.alicIva).toEqual([
+      { Id: 5, BaseImp: 1100, Importe: 231 },
+      { Id: 4, BaseImp: 200, Importe: 21 },
+      { Id: 3, BaseImp: 50, Importe: 0 }
+    ])
+    expect(result.impNeto).toBe(1350)
+    expect(result.impIva).toBe(252)
+    expect(result.impTotal).toBe(1602)
+  })
+
+  it('prorratea el descuento y cuadra exactamente con el total', () => {
+    const result = buildIvaBreakdown([
+      { ivaRate: 21, subtotal: 100 },
+      { ivaRate: 10.5, subtotal: 33.33 }
+    ], 120)
+
+    const sum = result.alicIva.reduce((acc, a) => acc + a.BaseImp + a.Importe, 0)
+    expect(Math.round(sum * 100) / 100).toBe(120)
+    expect(Math.round((result.impNeto + result.impIva) * 100) / 100).toBe(result.impTotal)
+  })
+
+  it('rechaza alícuotas no soportadas', () => {
+    expect(() => buildIvaBreakdown([{ ivaRate: 27, subtotal: 100 }], 100)).toThrow()
+  })
+})
+
+describe('CAEA por quincena', () => {
+  it('resuelve periodo y orden de una fecha', () => {
+    expect(getCaeaPeriod(new Date(2026, 9, 15))).toEqual({ periodo: 202610, orden: 1 })
+    expect(getCaeaPeriod(new Date(2026, 9, 16))).toEqual({ periodo: 202610, orden: 2 })
+  })
+
+  it('avanza a la quincena siguiente, incluido el cambio de año', () => {
+    expect(getNextCaeaPeriod({ periodo: 202610, orden: 1 })).toEqual({ periodo: 202610, orden: 2 })
+    expect(getNextCaeaPeriod({ periodo: 202610, orden: 2 })).toEqual({ periodo: 202611, orden: 1 })
+    expect(getNextCaeaPeriod({ periodo: 202612, orden: 2 })).toEqual({ periodo: 202701, orden: 1 })
+  })
+
+  it('calcula el inicio de la quincena', () => {
+    expect(getCaeaPeriodStart({ periodo: 202602, orden: 2 })).toEqual(new Date(2026, 1, 16))
+  })
+})
+
+describe('fechas AFIP', () => {
+  it('formatea y parsea YYYYMMDD', () => {
+    expect(formatAfipDate(new Date(2026, 0, 5))).toBe('20260105')
+    expect(parseAfipDate('20260105')).toEqual(new Date(2026, 0, 5))
+    expect(parseAfipDate('20260105143000')).toEqual(new Date(2026, 0, 5, 14, 30, 0))
+    expect(parseAfipDate(undefined)).toBeNull()
+  })
+})
+
+describe('splitInBatches', () => {
+  it('divide respetando el máximo por solicitud', () => {
+    expect(splitInBatches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+    expect(splitInBatches([1, 2], 250)).toEqual([[1, 2]])
+    expect(splitInBatches([], 250)).toEqual([])
+  })
+
+  it('rechaza tamaños de lote inválidos', () => {
+    expect(() => splitInBatches([1], 0)).toThrow()
+  })
+})
+
+describe('buildAfipQrUrl', () => {
+  const decode = (url: string) => JSON.parse(Buffer.from(url.split('?p=')[1]!, 'base64').toString())
+
+  it('codifica el comprobante en Base64 según RG 4892', () => {
+    const url = buildAfipQrUrl({
+      fecha: new Date(2026, 9, 19),
+      cuit: '20-12345678-9',
+      ptoVta: 3,
+      tipoCmp: 6,
+      nroCmp: 125,
+      importe: 1210.5,
+      tipoDocRec: DOC_TIPO_DNI,
+      nroDocRec: '30123456',
+      tipoCodAut: 'E',
+      codAut: '76123456789012'
+    })
+
+    expect(url.startsWith(`${AFIP_QR_URL}?p=`)).toBe(true)
+    expect(decode(url)).toEqual({
+      ver: 1,
+      fecha: '2026-10-19',
+      cuit: 20123456789,
+      ptoVta: 3,
+      tipoCmp: 6,
+      nroCmp: 125,
+      importe: 1210.5,
+      moneda: 'PES',
+      ctz: 1,
+      tipoDocRec: DOC_TIPO_DNI,
+      nroDocRec: 30123456,
+      tipoCodAut: 'E',
+      codAut: 76123456789012
+    })
+  })
+
+  it('omite el receptor de Consumidor Final', () => {
+    const payload = decode(buildAfipQrUrl({
+      fecha: new Date(2026, 9, 19),
+      cuit: '20123456789',
+      ptoVta: 1,
+      tipoCmp: 11,
+      nroCmp: 1,
+      importe: 100,
+      tipoDocRec: DOC_TIPO_CONSUMIDOR_FINAL,
+      nroDocRec: '0',
+      tipoCodAut: 'A',
+      codAut: '36123456789012'
+    }))
+
+    expect(payload).not.toHaveProperty('tipoDocRec')
+    expect(payload).not.toHaveProperty('nroDocRec')
+    expect(payload.tipoCodAut).toBe('A')
+  })
+})
+
+describe('CUIT', () => {
+  it('valida el dígito verificador', () => {
+    expect(isValidCuit('20-12345678-6')).toBe(true)
+    expect(isValidCuit('20123456786')).toBe(true)
+    expect(isValidCuit('20123456789')).toBe(false)
+    expect(isValidCuit('2012345678')).toBe(false)
+  })
+
+  it('formatea con guiones', () => {
+    expect(formatCuit('20123456786')).toBe('20-12345678-6')
+  })
+})
+
+describe('padrón de AFIP', () => {
+  it('arma el domicilio fiscal en una línea', () => {
+    expect(formatPadronDomicilio({
+      direccion: 'AV CORRIENTES 1234',
+      localidad: 'CAPITAL FEDERAL',
+      codPostal: '1043',
+      descripcionProvincia: 'CIUDAD AUTONOMA BUENOS AIRES'
+    })).toBe('AV CORRIENTES 1234, CAPITAL FEDERAL (1043), CIUDAD AUTONOMA BUENOS AIRES')
+    expect(formatPadronDomicilio({ direccion: 'SAN MARTIN 50', codigoPostal: 5000 })).toBe('SAN MARTIN 50, (5000)')
+    expect(formatPadronDomicilio(null)).toBeNull()
+  })
+
+  it('deriva la condición IVA de los impuestos inscriptos', () => {
+    expect(resolvePadronCondicionIva([PADRON_IMPUESTO_IVA, 11], false)).toBe(1)
+    expect(resolvePadronCondicionIva([PADRON_IMPUESTO_IVA_EXENTO], false)).toBe(4)
+    expect(resolvePadronCondicionIva([20], true)).toBe(6)
+    expect(resolvePadronCondicionIva([], false)).toBe(5)
+  })
+})
+
+describe('getCertificateExpiry', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+
+  it('avisa desde 30 días antes del vencimiento', () => {
+    expect(getCertificateExpiry(new Date('2025-08-01T12:00:00Z'), now)).toEqual({ daysLeft: 61, expired: false, expiringSoon: false })
+    expect(getCertificateExpiry(new Date('2025-07-02T12:00:00Z'), now)).toEqual({ daysLeft: 31, expired: false, expiringSoon: false })
+    expect(getCertificateExpiry(new Date('2025-07-01T12:00:00Z'), now)).toEqual({ daysLeft: 30, expired: false, expiringSoon: true })
+  })
+
+  it('marca los vencidos', () => {
+    expect(getCertificateExpiry(new Date('2025-05-31T12:00:00Z'), now)).toEqual({ daysLeft: -1, expired: true, expiringSoon: false })
+  })
+})
+
+describe('calculateCreditedAmount', () => {
+  it('no vuelve a aplicar el descuento de un item ya descontado', () => {
+    // Item de 1000 con 10% de descuento: subtotal 900, total de la venta 900
+    const items = [{ subtotal: 900 }]
+
+    expect(calculateCreditedAmount(items, [{ subtotal: 900 }], 900)).toBe(900)
+  })
+
+  it('prorratea el recargo de la venta entre los items acreditados', () => {
+    const items = [{ subtotal: 900 }, { subtotal: 100 }]
+
+    expect(calculateCreditedAmount(items, [{ subtotal: 450 }], 1100)).toBe(495)
+  })
+})
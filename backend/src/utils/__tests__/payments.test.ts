@@ -0,0 +1,85 @@
+/**
+ * Tests para utilidades de pagos divididos
+ */
+
+import { describe, it, expect } from 'vitest'
+import { settlePayments, pricePayment, parsePaymentConfig } from '../payments.js'
+
+describe('settlePayments', () => {
+  it('acepta pagos divididos que suman el total', () => {
+    const result = settlePayments(7500, [
+      { paymentMethodId: 'pm-cash', type: 'CASH', amount: 2500 },
+      { paymentMethodId: 'pm-debit', type: 'DEBIT', amount: 5000 }
+    ])
+
+    expect(result.payments).toEqual([
+      { paymentMethodId: 'pm-cash', amount: 2500, tendered: null, change: 0, installments: 1, surcharge: 0, fee: 0 },
+      { paymentMethodId: 'pm-debit', amount: 5000, tendered: null, change: 0, installments: 1, surcharge: 0, fee: 0 }
+    ])
+    expect(result.change).toBe(0)
+  })
+
+  it('calcula el vuelto del efectivo entregado', () => {
+    const result = settlePayments(7450.5, [
+      { paymentMethodId: 'pm-cash', type: 'CASH', amount: 2450.5, tendered: 3000 },
+      { paymentMethodId: 'pm-qr', type: 'QR', amount: 5000 }
+    ])
+
+    expect(result.payments[0]).toMatchObject({ paymentMethodId: 'pm-cash', amount: 2450.5, tendered: 3000, change: 549.5 })
+    expect(result.change).toBe(549.5)
+  })
+
+  it('rechaza pagos que no suman el total', () => {
+    expect(() => settlePayments(1000, [{ paymentMethodId: 'pm-cash', type: 'CASH', amount: 900 }]))
+      .toThrow('no coinciden con el total')
+    expect(() => settlePayments(1000, [])).toThrow('al menos un pago')
+  })
+
+  it('rechaza vuelto en métodos que no son efectivo y efectivo insuficiente', () => {
+    expect(() => settlePayments(1000, [{ paymentMethodId: 'pm-debit', type: 'DEBIT', amount: 1000, tendered: 2000 }]))
+      .toThrow('Solo los pagos en efectivo')
+    expect(() => settlePayments(1000, [{ paymentMethodId: 'pm-cash', type: 'CASH', amount: 1000, tendered: 500 }]))
+      .toThrow('no cubre el pago')
+  })
+})
+
+describe('pricePayment', () => {
+  const credit = parsePaymentConfig({
+    installmentPlans: [
+      { installments: 1, surchargePercentage: 0 },
+      { installments: 3, surchargePercentage: 10 },
+      { installments: 6, surchargePercentage: 20 }
+    ],
+    commissionPercentage: 3
+  })
+
+  it('aplica el recargo del plan de cuotas y la comisión sobre lo cobrado', () => {
+    expect(pricePayment(10000, 'CREDIT', credit, 3)).toEqual({ installments: 3, surcharge: 1000, fee: 330 })
+    expect(pricePayment(10000, 'CREDIT', credit)).toEqual({ installments: 1, surcharge: 0, fee: 300 })
+    expect(() => pricePayment(10000, 'CREDIT', credit, 12)).toThrow('no ofrece 12 cuotas')
+  })
+
+  it('aplica el descuento del efectivo y rechaza cuotas en otros métodos', () => {
+    const cash = parsePaymentConfig({ discountPercentage: 10 })
+    expect(pricePayment(1000, 'CASH', cash)).toEqual({ installments: 1, surcharge: -100, fee: 0 })
+    expect(() => pricePayment(1000, 'CASH', cash, 3)).toThrow('no ofrece 3 cuotas')
+  })
+
+  it('ignora valores de configuración inválidos', () => {
+    expect(parsePaymentConfig({ discountPercentage: 150, fixedFee: -5, installmentPlans: [{ installments: 0 }] }))
+      .toEqual({ installmentPlans: [], surchargePercentage: undefined, discountPercentage: undefined, commissionPercentage: undefined, fixedFee: undefined })
+    expect(parsePaymentConfig(null)).toEqual({})
+  })
+
+  it('suma los recargos al total cobrado y el vuelto se calcula sobre el monto con descuento', () => {
+    const result = settlePayments(10000, [
+      { paymentMethodId: 'pm-credit', type: 'CREDIT', amount: 6000, pricing: pricePayment(6000, 'CREDIT', credit, 3) },
+      { paymentMethodId: 'pm-cash', type: 'CASH', amount: 4000, tendered: 4000, pricing: { installments: 1, surcharge: -400, fee: 0 } }
+    ])
+
+    expect(result.payments.map(payment => payment.amount)).toEqual([6600, 3600])
+    expect(result.payments[1]).toMatchObject({ tendered: 4000, change: 400 })
+    expect(result.surcharge).toBe(200)
+    expect(result.fees).toBe(198)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Tests para utilidades de devoluciones, cambios y movimientos de stock
+ */
+
+import { describe, it, expect } from 'vitest'
+import { planSaleReturn, assertRefundsMatchBalance, createMovementIdPool, type ReturnableSaleItem } from '../sales.js'
+
+const saleItems: ReturnableSaleItem[] = [
+  { id: 'item-pinata', variantId: 'var-pinata-azul', quantity: 5, returnedQuantity: 0, unitPrice: 1000, discount: 10 },
+  { id: 'item-globos', variantId: 'var-globos', quantity: 2, returnedQuantity: 1, unitPrice: 250, discount: 0 }
+]
+
+describe('planSaleReturn', () => {
+  it('valoriza las unidades devueltas al precio cobrado, con descuento', () => {
+    const plan = planSaleReturn(saleItems, [{ saleItemId: 'item-pinata', quantity: 1 }])
+
+    expect(plan.items).toEqual([{ saleItemId: 'item-pinata', variantId: 'var-pinata-azul', quantity: 1, amount: 900 }])
+    expect(plan.returnedTotal).toBe(900)
+    expect(plan.balance).toBe(900)
+    expect(plan.fullyReturned).toBe(false)
+  })
+
+  it('calcula la diferencia de un cambio por otro artículo', () => {
+    const plan = planSaleReturn(
+      saleItems,
+      [{ saleItemId: 'item-pinata', quantity: 1 }],
+      [{ variantId: 'var-pinata-roja', quantity: 1, unitPrice: 1200, discount: 0 }]
+    )
+
+    expect(plan.exchangeTotal).toBe(1200)
+    expect(plan.balance).toBe(-300)
+  })
+
+  it('agrupa líneas repetidas y detecta la devolución total', () => {
+    const plan = planSaleReturn(saleItems, [
+      { saleItemId: 'item-pinata', quantity: 3 },
+      { saleItemId: 'item-pinata', quantity: 2 },
+      { saleItemId: 'item-globos', quantity: 1 }
+    ])
+
+    expect(plan.items).toHaveLength(2)
+    expect(plan.items[0]?.quantity).toBe(5)
+    expect(plan.returnedTotal).toBe(4750)
+    expect(plan.fullyReturned).toBe(true)
+  })
+
+  it('rechaza devolver más unidades de las que quedan', () => {
+    expect(() => planSaleReturn(saleItems, [{ saleItemId: 'item-globos', quantity: 2 }])).toThrow('Solo quedan 1')
+  })
+
+  it('rechaza items ajenos a la venta y cantidades inválidas', () => {
+    expect(() => planSaleReturn(saleItems, [{ saleItemId: 'otro', quantity: 1 }])).toThrow()
+    expect(() => planSaleReturn(saleItems, [{ saleItemId: 'item-pinata', quantity: 0 }])).toThrow()
+    expect(() => planSaleReturn(saleItems, [])).toThrow()
+  })
+})
+
+describe('assertRefundsMatchBalance', () => {
+  it('acepta reintegros repartidos entre métodos de pago', () => {
+    expect(() => assertRefundsMatchBalance(900, [{ amount: 500 }, { amount: 400 }])).not.toThrow()
+  })
+
+  it('acepta el cobro de la diferencia con montos negativos', () => {
+    expect(() => assertRefundsMatchBalance(-300, [{ amount: -300 }])).not.toThrow()
+  })
+
+  it('acepta un cambio sin diferencia y sin montos', () => {
+    expect(() => assertRefundsMatchBalance(0, [])).not.toThrow()
+    expect(() => assertRefundsMatchBalance(0, [{ amount: 10 }])).toThrow()
+  })
+
+  it('rechaza sumas que no coinciden o signos invertidos', () => {
+    expect(() => assertRefundsMatchBalance(900, [{ amount: 800 }])).toThrow('no coinciden')
+    expect(() => assertRefundsMatchBalance(900, [{ amount: 1000 }, { amount: -100 }])).toThrow()
+    expect(() => assertRefundsMatchBalance(-300, [{ amount: 300 }])).toThrow()
+  })
+})
+
+describe('createMovementIdPool', () => {
+  it('asigna un id distinto a cada línea de una venta con la variante repetida', () => {
+    const takeMovementId = createMovementIdPool([
+      { key: 'var-globos', id: 'mov-1' },
+      { key: 'var-pinata-azul', id: 'mov-2' },
+      { key: 'var-globos', id: 'mov-3' }
+    ])
+
+    const ids = ['var-globos', 'var-pinata-azul', 'var-globos'].map(takeMovementId)
+
+    expect(ids).toEqual(['mov-1', 'mov-2', 'mov-3'])
+  })
+
+  it('asigna un id distinto a cada línea devuelta o de cambio de la misma variante', () => {
+    const takeMovementId = createMovementIdPool([
+      { key: 'return:var-globos', id: 'mov-return-1' },
+      { key: 'return:var-globos', id: 'mov-return-2' },
+      { key: 'sale:var-globos', id: 'mov-sale-1' },
+      { key: 'sale:var-globos', id: 'mov-sale-2' }
+    ])
+
+    const ids = ['return:var-globos', 'return:var-globos', 'sale:var-globos', 'sale:var-globos'].map(takeMovementId)
+
+    expect(ids).toEqual(['mov-return-1', 'mov-return-2', 'mov-sale-1', 'mov-sale-2'])
+  })
+
+  it('devuelve undefined cuando la línea no trae movimiento del dispositivo', () => {
+    const takeMovementId = createMovementIdPool([{ key: 'var-globos', id: 'mov-1' }])
+
+    expect(takeMovementId('var-globos')).toBe('mov-1')
+    expect(takeMovementId('var-globos')).toBeUndefined()
+    expect(takeMovementId('var-pinata-azul')).toBeUndefined()
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Utilidades para sesiones de caja y arqueo
+ */
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Billetes en circulación (ARS). Las monedas se cuentan como un monto total en `coins`
+export const CASH_DENOMINATIONS = [20000, 10000, 2000, 1000, 500, 200, 100, 50, 20, 10] as const
+
+// Conteo de efectivo: cantidad de billetes por denominación y monto total en monedas
+export type CashCount = Record<string, number>
+
+/**
+ * Total contado a partir del conteo billete por billete
+ *
+ * @throws Error si hay una denominación desconocida o cantidades inválidas
+ */
+export function sumCashCount(count: CashCount): number {
+  let total = 0
+  for (const [key, value] of Object.entries(count)) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Cantidad inválida para ${key}`)
+    }
+
+    if (key === 'coins') {
+      total += value
+      continue
+    }
+
+    const denomination = Number(key)
+    if (!CASH_DENOMINATIONS.includes(denomination as typeof CASH_DENOMINATIONS[number])) {
+      throw new Error(`Denominación desconocida: ${key}`)
+    }
+    if (!Number.isInteger(value)) {
+      throw new Error(`La cantidad de billetes de ${key} debe ser un entero`)
+    }
+    total += denomination * value
+  }
+  return round2(total)
+}
+
+export interface CashFlow {
+  openingAmount: number
+  cashSales: number
+  // Neto de devoluciones en efectivo: reintegros menos cobros de diferencia
+  cashRefunds: number
+  deposits: number
+  withdrawals: number
+}
+
+/**
+ * Efectivo que debería haber en la caja
+ */
+export function computeExpectedCash(flow: CashFlow): number {
+  return round2(flow.openingAmount + flow.cashSales - flow.cashRefunds + flow.deposits - flow.withdrawals)
+}
@@ -0,0 +1,45 @@
+/**
+ * Cifrado de secretos guardados en DB (claves privadas de certificados)
+ * AES-256-GCM con una clave derivada del secreto de configuración
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const PAYLOAD_VERSION = 'v1'
+
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret, 'utf8').digest()
+}
+
+/**
+ * Cifra un texto. El resultado incluye versión, IV y tag de autenticación:
+ * "v1:<iv>:<tag>:<datos>" (base64)
+ */
+export function encryptSecret(plainText: string, secret: string): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv)
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return [PAYLOAD_VERSION, iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':')
+}
+
+/**
+ * Descifra un texto generado por encryptSecret
+ * @throws Error si el formato es inválido o la clave no corresponde
+ */
+export function decryptSecret(payload: string, secret: string): string {
+  const [version, iv, tag, data] = payload.split(':')
+  if (version !== PAYLOAD_VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Formato de secreto cifrado inválido')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new Error('No se pudo descifrar el secreto: la clave de cifrado no corresponde')
+  }
+}
@@ -42,3 +42,353 @@ export function normalizePtoVta(input: string | number | undefined | null): numb
 export function formatPtoVta(ptoVta: number, padding: number = 5): string {
   return String(ptoVta).padStart(padding, '0')
 }
+
+// Alícuotas de IVA soportadas (porcentaje → Id de AFIP en FEParamGetTiposIva)
+export const IVA_ALICUOTA_IDS: Record<number, number> = {
+  0: 3,
+  10.5: 4,
+  21: 5
+}
+
+export const IVA_RATES = [0, 10.5, 21] as const
+
+// Tipos de documento del receptor (FEParamGetTiposDoc)
+export const DOC_TIPO_CUIT = 80
+export const DOC_TIPO_DNI = 96
+export const DOC_TIPO_CONSUMIDOR_FINAL = 99
+
+export interface ReceiverDocument {
+  docTipo: number
+  docNro: number
+}
+
+export interface AlicIva {
+  Id: number
+  BaseImp: number
+  Importe: number
+}
+
+export interface IvaBreakdown {
+  impTotal: number
+  impNeto: number
+  impIva: number
+  alicIva: AlicIva[]
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Resuelve DocTipo/DocNro a partir del documento del cliente
+ * 11 dígitos = CUIT, 7 u 8 dígitos = DNI, vacío = Consumidor Final
+ *
+ * @throws Error si el documento no tiene un formato reconocible
+ */
+export function resolveReceiverDocument(documentNumber: string | null | undefined): ReceiverDocument {
+  const digits = (documentNumber ?? '').replace(/[-.\s]/g, '')
+
+  if (digits === '') {
+    return { docTipo: DOC_TIPO_CONSUMIDOR_FINAL, docNro: 0 }
+  }
+
+  if (!/^\d+$/.test(digits)) {
+    throw new Error(`Documento del receptor inválido: "${documentNumber}"`)
+  }
+
+  if (digits.length === 11) {
+    return { docTipo: DOC_TIPO_CUIT, docNro: Number(digits) }
+  }
+
+  if (digits.length === 7 || digits.length === 8) {
+    return { docTipo: DOC_TIPO_DNI, docNro: Number(digits) }
+  }
+
+  throw new Error(`Documento del receptor inválido: "${documentNumber}" (se espera CUIT de 11 dígitos o DNI)`)
+}
+
+/**
+ * Desglosa el IVA de una venta por alícuota (bloque AlicIva de FECAESolicitar)
+ *
+ * Los importes de los items son precios finales (IVA incluido). El descuento de la venta
+ * se prorratea entre las alícuotas para que la suma coincida exactamente con el total.
+ */
+export function buildIvaBreakdown(
+  items: Array<{ ivaRate: number; subtotal: number }>,
+  saleTotal: number
+): IvaBreakdown {
+  const subtotalByRate = new Map<number, number>()
+  for (const item of items) {
+    if (IVA_ALICUOTA_IDS[item.ivaRate] === undefined) {
+      throw new Error(`Alícuota de IVA no soportada: ${item.ivaRate}%`)
+    }
+    subtotalByRate.set(item.ivaRate, (subtotalByRate.get(item.ivaRate) ?? 0) + item.subtotal)
+  }
+
+  const itemsTotal = Array.from(subtotalByRate.values()).reduce((sum, value) => sum + value, 0)
+  const factor = itemsTotal > 0 ? saleTotal / itemsTotal : 0
+  const rates = Array.from(subtotalByRate.keys()).sort((a, b) => b - a)
+
+  let remaining = round2(saleTotal)
+  const alicIva = rates.map((rate, index) => {
+    // La última alícuota absorbe la diferencia de redondeo del prorrateo
+    const total = index === rates.length - 1
+      ? remaining
+      : round2(subtotalByRate.get(rate)! * factor)
+    remaining = round2(remaining - total)
+
+    const baseImp = round2(total / (1 + rate / 100))
+    return { Id: IVA_ALICUOTA_IDS[rate]!, BaseImp: baseImp, Importe: round2(total - baseImp) }
+  })
+
+  return {
+    impTotal: round2(saleTotal),
+    impNeto: round2(alicIva.reduce((sum, a) => sum + a.BaseImp, 0)),
+    impIva: round2(alicIva.reduce((sum, a) => sum + a.Importe, 0)),
+    alicIva
+  }
+}
+
+/**
+ * Importe de una nota de crédito parcial por items
+ *
+ * Los subtotales de los items ya tienen su descuento aplicado: solo se prorratea la
+ * diferencia entre el total de la venta y la suma de sus items (recargos o descuentos
+ * de la venta), igual que en buildIvaBreakdown.
+ */
+export function calculateCreditedAmount(
+  saleItems: Array<{ subtotal: number }>,
+  creditedLines: Array<{ subtotal: number }>,
+  saleTotal: number
+): number {
+  const itemsTotal = saleItems.reduce((sum, item) => sum + item.subtotal, 0)
+  const factor = itemsTotal > 0 ? saleTotal / itemsTotal : 1
+  return round2(creditedLines.reduce((sum, line) => sum + line.subtotal, 0) * factor)
+}
+
+/**
+ * Formatea una fecha para AFIP (YYYYMMDD)
+ */
+export function formatAfipDate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}${month}${day}`
+}
+
+/**
+ * Parsea una fecha de AFIP (YYYYMMDD o YYYYMMDDhhmmss)
+ */
+export function parseAfipDate(value: unknown): Date | null {
+  const raw = value !== undefined && value !== null ? String(value) : ''
+  if (raw.length < 8) return null
+
+  return new Date(
+    parseInt(raw.substring(0, 4)),
+    parseInt(raw.substring(4, 6)) - 1,
+    parseInt(raw.substring(6, 8)),
+    raw.length >= 14 ? parseInt(raw.substring(8, 10)) : 0,
+    raw.length >= 14 ? parseInt(raw.substring(10, 12)) : 0,
+    raw.length >= 14 ? parseInt(raw.substring(12, 14)) : 0
+  )
+}
+
+// Condición IVA "Consumidor Final" (FEParamGetCondicionIvaReceptor), usada sin conexión a WSFE
+export const CONDICION_IVA_CONSUMIDOR_FINAL = 5
+
+// Quincena de un CAEA: Periodo YYYYMM y Orden (1 = días 1 a 15, 2 = del 16 a fin de mes)
+export interface CaeaPeriod {
+  periodo: number
+  orden: 1 | 2
+}
+
+/**
+ * Quincena (Periodo/Orden de FECAEASolicitar) que contiene una fecha
+ */
+export function getCaeaPeriod(date: Date): CaeaPeriod {
+  return {
+    periodo: date.getFullYear() * 100 + date.getMonth() + 1,
+    orden: date.getDate() <= 15 ? 1 : 2
+  }
+}
+
+/**
+ * Quincena siguiente
+ */
+export function getNextCaeaPeriod(period: CaeaPeriod): CaeaPeriod {
+  if (period.orden === 1) {
+    return { periodo: period.periodo, orden: 2 }
+  }
+
+  const year = Math.floor(period.periodo / 100)
+  const month = period.periodo % 100
+  return month === 12
+    ? { periodo: (year + 1) * 100 + 1, orden: 1 }
+    : { periodo: year * 100 + month + 1, orden: 1 }
+}
+
+/**
+ * Primer día de la quincena (00:00 hora local)
+ */
+export function getCaeaPeriodStart(period: CaeaPeriod): Date {
+  const year = Math.floor(period.periodo / 100)
+  const month = period.periodo % 100
+  return new Date(year, month - 1, period.orden === 1 ? 1 : 16)
+}
+
+/**
+ * Dividir comprobantes en lotes de FECAESolicitar (máximo según FECompTotXRequest)
+ */
+export function splitInBatches<T>(items: T[], maxPerRequest: number): T[][] {
+  if (!Number.isInteger(maxPerRequest) || maxPerRequest < 1) {
+    throw new Error(`Tamaño de lote inválido: ${maxPerRequest}`)
+  }
+
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += maxPerRequest) {
+    batches.push(items.slice(i, i + maxPerRequest))
+  }
+  return batches
+}
+
+// Condiciones frente al IVA del receptor (FEParamGetCondicionIvaReceptor)
+export const CONDICIONES_IVA_RECEPTOR: Record<number, string> = {
+  1: 'IVA Responsable Inscripto',
+  4: 'IVA Sujeto Exento',
+  5: 'Consumidor Final',
+  6: 'Responsable Monotributo',
+  7: 'Sujeto No Categorizado',
+  8: 'Proveedor del Exterior',
+  9: 'Cliente del Exterior',
+  10: 'IVA Liberado - Ley N° 19.640',
+  13: 'Monotributista Social',
+  15: 'IVA No Alcanzado',
+  16: 'Monotributo Trabajador Independiente Promovido'
+}
+
+// Código QR de comprobantes electrónicos (RG 4892)
+export const AFIP_QR_URL = 'https://www.afip.gob.ar/fe/qr/'
+
+export interface AfipQrData {
+  fecha: Date
+  cuit: string
+  ptoVta: number
+  tipoCmp: number
+  nroCmp: number
+  importe: number
+  tipoDocRec: number
+  nroDocRec: string | number
+  tipoCodAut: 'E' | 'A' // E = CAE, A = CAEA
+  codAut: string
+}
+
+/**
+ * URL del QR de un comprobante: JSON en Base64 en el parámetro p (versión 1 del diseño de registro)
+ */
+export function buildAfipQrUrl(data: AfipQrData): string {
+  const year = data.fecha.getFullYear()
+  const month = String(data.fecha.getMonth() + 1).padStart(2, '0')
+  const day = String(data.fecha.getDate()).padStart(2, '0')
+  const nroDocRec = Number(data.nroDocRec)
+
+  const payload = {
+    ver: 1,
+    fecha: `${year}-${month}-${day}`,
+    cuit: Number(data.cuit.replace(/\D/g, '')),
+    ptoVta: data.ptoVta,
+    tipoCmp: data.tipoCmp,
+    nroCmp: data.nroCmp,
+    importe: data.importe,
+    moneda: 'PES',
+    ctz: 1,
+    // Consumidor Final sin identificar no informa receptor
+    ...(nroDocRec > 0 && { tipoDocRec: data.tipoDocRec, nroDocRec }),
+    tipoCodAut: data.tipoCodAut,
+    codAut: Number(data.codAut)
+  }
+
+  return `${AFIP_QR_URL}?p=${Buffer.from(JSON.stringify(payload)).toString('base64')}`
+}
+
+/**
+ * Valida un CUIT/CUIL (11 dígitos y dígito verificador)
+ * Acepta el número con o sin guiones
+ */
+export function isValidCuit(cuit: string): boolean {
+  const clean = cuit.replace(/-/g, '')
+  if (!/^\d{11}$/.test(clean)) {
+    return false
+  }
+
+  const multipliers = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
+  const sum = multipliers.reduce((acc, multiplier, i) => acc + parseInt(clean[i]!) * multiplier, 0)
+  const remainder = sum % 11
+  const verifier = remainder === 0 ? 0 : remainder === 1 ? 9 : 11 - remainder
+  return parseInt(clean[10]!) === verifier
+}
+
+/**
+ * Formatea un CUIT como XX-XXXXXXXX-X
+ */
+export function formatCuit(cuit: string): string {
+  const clean = cuit.replace(/-/g, '')
+  return `${clean.slice(0, 2)}-${clean.slice(2, 10)}-${clean.slice(10)}`
+}
+
+// Impuestos del padrón de AFIP relevantes para la condición IVA (datosRegimenGeneral.impuesto)
+export const PADRON_IMPUESTO_IVA = 30
+export const PADRON_IMPUESTO_IVA_EXENTO = 32
+
+export interface PadronDomicilio {
+  direccion?: string
+  localidad?: string
+  codPostal?: string | number
+  codigoPostal?: string | number // A13 usa codigoPostal
+  descripcionProvincia?: string
+}
+
+/**
+ * Domicilio fiscal del padrón en una línea: "Dirección, Localidad (CP), Provincia"
+ */
+export function formatPadronDomicilio(domicilio: PadronDomicilio | null | undefined): string | null {
+  if (!domicilio) return null
+
+  const codPostal = domicilio.codPostal ?? domicilio.codigoPostal
+  const localidad = [domicilio.localidad, codPostal ? `(${codPostal})` : null].filter(Boolean).join(' ')
+  const parts = [domicilio.direccion, localidad, domicilio.descripcionProvincia]
+    .map(part => (typeof part === 'string' ? part.trim() : part))
+    .filter(Boolean)
+
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Condición IVA del receptor (FEParamGetCondicionIvaReceptor) según la constancia de inscripción
+ * Monotributo → 6, inscripto en IVA → 1, IVA exento → 4; sin impuestos de IVA → Consumidor Final
+ */
+export function resolvePadronCondicionIva(impuestos: number[], monotributo: boolean): number {
+  if (monotributo) return 6
+  if (impuestos.includes(PADRON_IMPUESTO_IVA)) return 1
+  if (impuestos.includes(PADRON_IMPUESTO_IVA_EXENTO)) return 4
+  return CONDICION_IVA_CONSUMIDOR_FINAL
+}
+
+// Días de anticipación con que se avisa el vencimiento de un certificado
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 30
+
+export interface CertificateExpiry {
+  daysLeft: number
+  expired: boolean
+  expiringSoon: boolean
+}
+
+/**
+ * Estado de vencimiento de un certificado (días restantes, redondeados hacia abajo)
+ */
+export function getCertificateExpiry(validTo: Date, now: Date = new Date()): CertificateExpiry {
+  const daysLeft = Math.floor((validTo.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+  const expired = validTo.getTime() <= now.getTime()
+  return {
+    daysLeft,
+    expired,
+    expiringSoon: !expired && daysLeft <= CERTIFICATE_EXPIRY_WARNING_DAYS
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Utilidades para ventas con pagos divididos, recargos por medio de pago y cuotas
+ */
+
+import { AMOUNT_TOLERANCE } from './sales.js'
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Plan de cuotas de tarjeta de crédito
+export interface InstallmentPlan {
+  installments: number
+  surchargePercentage: number
+}
+
+// Configuración de precios de un método de pago (PaymentMethod.config)
+export interface PaymentPricingConfig {
+  // Crédito: planes de cuotas, cada uno con su recargo
+  installmentPlans?: InstallmentPlan[]
+  // Recargo por usar el método (ej: débito o QR)
+  surchargePercentage?: number
+  // Descuento por usar el método (ej: efectivo)
+  discountPercentage?: number
+  // Comisión que retiene el procesador (no se cobra al cliente)
+  commissionPercentage?: number
+  fixedFee?: number
+}
+
+export interface PaymentPricing {
+  installments: number
+  // Recargo (+) o descuento (-) sobre el monto del pago
+  surcharge: number
+  fee: number
+}
+
+export interface PaymentInput {
+  paymentMethodId: string
+  // Tipo del método de pago (enum de Prisma)
+  type: string
+  // Parte del total de los artículos cubierta por este pago (sin recargo)
+  amount: number
+  // Efectivo entregado por el cliente (solo efectivo; puede superar el monto)
+  tendered?: number
+  // Resultado de pricePayment; sin él el pago no tiene recargo ni comisión
+  pricing?: PaymentPricing
+}
+
+export interface SettledPayment {
+  paymentMethodId: string
+  // Monto cobrado: parte del total más el recargo
+  amount: number
+  tendered: number | null
+  change: number
+  installments: number
+  surcharge: number
+  fee: number
+}
+
+const asPercentage = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100 ? value : undefined
+
+/**
+ * Interpreta PaymentMethod.config ignorando valores inválidos
+ */
+export function parsePaymentConfig(config: unknown): PaymentPricingConfig {
+  if (!config || typeof config !== 'object') return {}
+  const raw = config as Record<string, unknown>
+
+  const installmentPlans = Array.isArray(raw.installmentPlans)
+    ? raw.installmentPlans.filter((plan): plan is InstallmentPlan =>
+        Number.isInteger(plan?.installments) && plan.installments > 0 && asPercentage(plan.surchargePercentage) !== undefined)
+    : undefined
+
+  return {
+    installmentPlans,
+    surchargePercentage: asPercentage(raw.surchargePercentage),
+    discountPercentage: asPercentage(raw.discountPercentage),
+    commissionPercentage: asPercentage(raw.commissionPercentage),
+    fixedFee: typeof raw.fixedFee === 'number' && raw.fixedFee >= 0 ? raw.fixedFee : undefined
+  }
+}
+
+/**
+ * Calcula el recargo (o descuento) y la comisión de un pago según la configuración del método
+ *
+ * @throws Error si se piden cuotas que el método no ofrece
+ */
+export function pricePayment(amount: number, type: string, config: PaymentPricingConfig, installments: number = 1): PaymentPricing {
+  let percentage: number
+  if (type === 'CREDIT' && config.installmentPlans?.length) {
+    const plan = config.installmentPlans.find(p => p.installments === installments)
+    if (!plan) {
+      throw new Error(`El método de pago no ofrece ${installments} cuotas`)
+    }
+    percentage = plan.surchargePercentage
+  } else {
+    if (installments !== 1) {
+      throw new Error(`El método de pago no ofrece ${installments} cuotas`)
+    }
+    percentage = (config.surchargePercentage ?? 0) - (config.discountPercentage ?? 0)
+  }
+
+  const surcharge = round2(amount * percentage / 100)
+  const charged = amount + surcharge
+  const fee = charged > 0
+    ? round2(charged * (config.commissionPercentage ?? 0) / 100 + (config.fixedFee ?? 0))
+    : 0
+
+  return { installments, surcharge, fee }
+}
+
+/**
+ * Valida los pagos de una venta y calcula el vuelto de los pagos en efectivo.
+ * Los montos de entrada cubren el total de los artículos; los recargos se suman aparte.
+ *
+ * @throws Error si los montos no suman el total o se informa efectivo entregado insuficiente
+ */
+export function settlePayments(total: number, payments: PaymentInput[]): {
+  payments: SettledPayment[]
+  change: number
+  surcharge: number
+  fees: number
+} {
+  if (payments.length === 0) {
+    throw new Error('La venta requiere al menos un pago')
+  }
+
+  const settled = payments.map(payment => {
+    if (!(payment.amount > 0)) {
+      throw new Error('Cada pago debe tener un monto mayor a cero')
+    }
+    const pricing = payment.pricing ?? { installments: 1, surcharge: 0, fee: 0 }
+    const charged = round2(payment.amount + pricing.surcharge)
+    const base = { paymentMethodId: payment.paymentMethodId, amount: charged, ...pricing }
+
+    if (payment.tendered === undefined) {
+      return { ...base, tendered: null, change: 0 }
+    }
+    if (payment.type !== 'CASH') {
+      throw new Error('Solo los pagos en efectivo admiten monto entregado y vuelto')
+    }
+    if (payment.tendered < charged - AMOUNT_TOLERANCE) {
+      throw new Error(`El efectivo entregado (${payment.tendered.toFixed(2)}) no cubre el pago (${charged.toFixed(2)})`)
+    }
+    return {
+      ...base,
+      tendered: round2(payment.tendered),
+      change: round2(Math.max(0, payment.tendered - charged))
+    }
+  })
+
+  const paid = round2(payments.reduce((sum, payment) => sum + payment.amount, 0))
+  if (Math.abs(paid - total) > AMOUNT_TOLERANCE) {
+    throw new Error(`Los pagos (${paid.toFixed(2)}) no coinciden con el total de la venta (${total.toFixed(2)})`)
+  }
+
+  return {
+    payments: settled,
+    change: round2(settled.reduce((sum, payment) => sum + payment.change, 0)),
+    surcharge: round2(settled.reduce((sum, payment) => sum + payment.surcharge, 0)),
+    fees: round2(settled.reduce((sum, payment) => sum + payment.fee, 0))
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Utilidades para devoluciones parciales, cambios y movimientos de stock de ventas
+ */
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Diferencia tolerada al comparar importes (redondeo a centavos)
+export const AMOUNT_TOLERANCE = 0.01
+
+export interface ReturnableSaleItem {
+  id: string
+  variantId: string
+  quantity: number
+  returnedQuantity: number
+  unitPrice: number
+  discount: number // Porcentaje
+}
+
+export interface ReturnLine {
+  saleItemId: string
+  quantity: number
+}
+
+export interface ExchangeLine {
+  variantId: string
+  quantity: number
+  unitPrice: number
+  discount: number // Porcentaje
+}
+
+export interface SaleReturnPlan<E extends ExchangeLine = ExchangeLine> {
+  items: Array<{ saleItemId: string; variantId: string; quantity: number; amount: number }>
+  exchangeItems: Array<E & { subtotal: number }>
+  returnedTotal: number
+  exchangeTotal: number
+  // Positivo: se reintegra al cliente. Negativo: el cliente paga la diferencia
+  balance: number
+  // Todas las unidades de la venta quedan devueltas
+  fullyReturned: boolean
+}
+
+/**
+ * Calcula una devolución parcial (con cambio opcional) sobre los items de una venta.
+ * Cada unidad devuelta se valoriza al precio cobrado, con el descuento del item.
+ *
+ * @throws Error si un item no pertenece a la venta o se devuelven más unidades de las vendidas
+ */
+export function planSaleReturn<E extends ExchangeLine>(
+  saleItems: ReturnableSaleItem[],
+  lines: ReturnLine[],
+  exchange: E[] = []
+): SaleReturnPlan<E> {
+  if (lines.length === 0) {
+    throw new Error('Seleccione al menos un artículo a devolver')
+  }
+
+  // Agrupar por item: la misma línea puede venir repetida
+  const requested = new Map<string, number>()
+  for (const line of lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error('La cantidad a devolver debe ser un entero positivo')
+    }
+    requested.set(line.saleItemId, (requested.get(line.saleItemId) ?? 0) + line.quantity)
+  }
+
+  const items: SaleReturnPlan['items'] = []
+  for (const [saleItemId, quantity] of requested) {
+    const item = saleItems.find(i => i.id === saleItemId)
+    if (!item) {
+      throw new Error(`El artículo ${saleItemId} no pertenece a la venta`)
+    }
+
+    const available = item.quantity - item.returnedQuantity
+    if (quantity > available) {
+      throw new Error(`Solo quedan ${available} unidades por devolver del artículo ${saleItemId}`)
+    }
+
+    items.push({
+      saleItemId,
+      variantId: item.variantId,
+      quantity,
+      amount: round2(item.unitPrice * quantity * (1 - item.discount / 100))
+    })
+  }
+
+  const exchangeItems = exchange.map(line => {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error('La cantidad a entregar en el cambio debe ser un entero positivo')
+    }
+    return { ...line, subtotal: round2(line.unitPrice * line.quantity * (1 - line.discount / 100)) }
+  })
+
+  const returnedTotal = round2(items.reduce((sum, item) => sum + item.amount, 0))
+  const exchangeTotal = round2(exchangeItems.reduce((sum, item) => sum + item.subtotal, 0))
+
+  const fullyReturned = saleItems.every(item =>
+    item.returnedQuantity + (requested.get(item.id) ?? 0) >= item.quantity
+  )
+
+  return {
+    items,
+    exchangeItems,
+    returnedTotal,
+    exchangeTotal,
+    balance: round2(returnedTotal - exchangeTotal),
+    fullyReturned
+  }
+}
+
+/**
+ * Verifica que los movimientos de dinero por método de pago cubran el saldo de la devolución.
+ * Los reintegros van con signo positivo y el cobro de la diferencia con signo negativo.
+ *
+ * @throws Error si la suma no coincide con el saldo o hay montos en el sentido contrario
+ */
+export function assertRefundsMatchBalance(balance: number, refunds: Array<{ amount: number }>): void {
+  if (Math.abs(balance) <= AMOUNT_TOLERANCE && refunds.length > 0) {
+    throw new Error('El cambio no tiene diferencia de precio: no corresponde registrar montos')
+  }
+
+  if (refunds.some(refund => refund.amount === 0 || Math.sign(refund.amount) !== Math.sign(balance))) {
+    throw new Error(balance >= 0
+      ? 'Los reintegros deben ser montos positivos'
+      : 'El cobro de la diferencia debe registrarse con montos negativos')
+  }
+
+  const total = round2(refunds.reduce((sum, refund) => sum + refund.amount, 0))
+  if (Math.abs(total - balance) > AMOUNT_TOLERANCE) {
+    throw new Error(`Los montos por método de pago (${total.toFixed(2)}) no coinciden con el saldo de la devolución (${balance.toFixed(2)})`)
+  }
+}
+
+/**
+ * Reparte los ids de movimientos de stock generados en el dispositivo entre las líneas
+ * que los originan. Cada línea toma el siguiente id sin usar de su clave (ej: la variante),
+ * en el orden en que el dispositivo los creó: dos líneas de la misma variante no comparten id.
+ *
+ * @returns Función que entrega el id para la próxima línea de esa clave, o undefined si no quedan
+ */
+export function createMovementIdPool(movements: Array<{ key: string; id: string }>): (key: string) => string | undefined {
+  const pool = new Map<string, string[]>()
+  for (const movement of movements) {
+    const ids = pool.get(movement.key) ?? []
+    ids.push(movement.id)
+    pool.set(movement.key, ids)
+  }
+
+  return (key: string) => pool.get(key)?.shift()
+}
@@ -18,6 +18,7 @@ const SalesHistory = lazy(() => import('@presentation/pages/SalesHistory').then(
 const StockEntry = lazy(() => import('@presentation/pages/StockEntry').then(m => ({ default: m.StockEntry })))
 const Settings = lazy(() => import('@presentation/pages/Settings').then(m => ({ default: m.Settings })))
 const Reports = lazy(() => import('@presentation/pages/Reports').then(m => ({ default: m.Reports })))
+const CashRegister = lazy(() => import('@presentation/pages/CashRegister').then(m => ({ default: m.CashRegister })))
 
 // Componente de carga para Suspense
 function PageLoader() {
@@ -65,6 +66,7 @@ function App() {
                     >
                       <Route index element={<Dashboard />} />
                       <Route path="pos" element={<POS />} />
+                      <Route path="caja" element={<CashRegister />} />
                       <Route path="inventario" element={<Inventory />} />
                       <Route path="historial" element={<SalesHistory />} />
                       <Route path="reportes" element={<Reports />} />
@@ -9,6 +9,7 @@ export interface CustomerProps {
   id: string
   name: string
   documentNumber?: string
+  ivaConditionId?: number // Condición IVA del receptor (FEParamGetCondicionIvaReceptor)
   phone?: string
   email?: Email | null
   address?: string
@@ -29,6 +30,7 @@ export interface CustomerProps {
 export class Customer extends Entity {
   private _name: string
   private _documentNumber?: string
+  private _ivaConditionId?: number
   private _phone?: string
   private _email?: Email | null
   private _address?: string
@@ -45,6 +47,7 @@ export class Customer extends Entity {
     )
     this._name = props.name
     this._documentNumber = props.documentNumber
+    this._ivaConditionId = props.ivaConditionId
     this._phone = props.phone
     this._email = props.email
     this._address = props.address
@@ -86,6 +89,10 @@ export class Customer extends Entity {
     return this._documentNumber
   }
 
+  get ivaConditionId(): number | undefined {
+    return this._ivaConditionId
+  }
+
   get phone(): string | undefined {
     return this._phone
   }
@@ -124,6 +131,7 @@ export class Customer extends Entity {
   updateInfo(data: {
     name?: string
     documentNumber?: string
+    ivaConditionId?: number | null
     phone?: string
     email?: Email | null
     address?: string
@@ -143,6 +151,10 @@ export class Customer extends Entity {
       this._documentNumber = data.documentNumber.trim() || undefined
     }
 
+    if (data.ivaConditionId !== undefined) {
+      this._ivaConditionId = data.ivaConditionId ?? undefined
+    }
+
     if (data.phone !== undefined) {
       this._phone = data.phone.trim() || undefined
     }
@@ -187,6 +199,7 @@ export class Customer extends Entity {
     id: string
     name: string
     documentNumber?: string
+    ivaConditionId?: number
     phone?: string
     email?: string
     address?: string
@@ -201,6 +214,7 @@ export class Customer extends Entity {
       id: this._id,
       name: this._name,
       documentNumber: this._documentNumber,
+      ivaConditionId: this._ivaConditionId,
       phone: this._phone,
       email: this._email?.value,
       address: this._address,
@@ -1,6 +1,14 @@
 import { Entity } from './Entity'
 import type { SyncStatus, PaymentMethodType } from '@shared/types'
 
+/**
+ * Plan de cuotas de tarjeta de crédito
+ */
+export interface InstallmentPlan {
+  installments: number
+  surchargePercentage: number
+}
+
 /**
  * Configuración específica para cada tipo de método de pago
  */
@@ -13,7 +21,12 @@ export interface PaymentMethodConfig {
   merchantId?: string
   accessToken?: string
   
-  // Comisiones
+  // Precio al cliente: planes de cuotas (crédito), recargo (ej: débito/QR) o descuento (ej: efectivo)
+  installmentPlans?: InstallmentPlan[]
+  surchargePercentage?: number
+  discountPercentage?: number
+
+  // Comisiones que retiene el procesador (no se cobran al cliente)
   commissionPercentage?: number
   fixedFee?: number
 }
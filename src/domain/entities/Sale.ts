@@ -14,6 +14,15 @@ export interface SaleItemProps {
   quantity: number
   unitPrice: Money
   discount: Percentage
+  returnedQuantity?: number
+}
+
+/**
+ * Línea de una devolución parcial: unidades devueltas de un item
+ */
+export interface SaleReturnLine {
+  itemId: string
+  quantity: number
 }
 
 /**
@@ -27,6 +36,7 @@ export class SaleItem {
   readonly quantity: number
   readonly unitPrice: Money
   readonly discount: Percentage
+  readonly returnedQuantity: number
 
   constructor(props: SaleItemProps) {
     this.id = props.id
@@ -36,6 +46,37 @@ export class SaleItem {
     this.quantity = props.quantity
     this.unitPrice = props.unitPrice
     this.discount = props.discount
+    this.returnedQuantity = props.returnedQuantity ?? 0
+  }
+
+  /**
+   * Unidades que todavía se pueden devolver
+   */
+  get returnableQuantity(): number {
+    return this.quantity - this.returnedQuantity
+  }
+
+  /**
+   * Valor de una cantidad de unidades al precio cobrado (con descuento)
+   */
+  amountFor(quantity: number): Money {
+    return this.unitPrice.multiply(quantity).applyDiscount(this.discount.value)
+  }
+
+  /**
+   * Copia del item con unidades devueltas adicionales
+   */
+  withReturned(quantity: number): SaleItem {
+    return new SaleItem({
+      id: this.id,
+      variantId: this.variantId,
+      productName: this.productName,
+      variantName: this.variantName,
+      quantity: this.quantity,
+      unitPrice: this.unitPrice,
+      discount: this.discount,
+      returnedQuantity: this.returnedQuantity + quantity
+    })
   }
 
   /**
@@ -68,9 +109,15 @@ export interface SaleProps {
   receiptNumber: string
   userId: string
   customerId?: string
+  // Sesión de caja en la que se cobró
+  cashSessionId?: string
   items: SaleItem[]
   paymentMethodId: string
   paymentMethodType: PaymentMethodType
+  // Recargo (+) o descuento (-) por medio de pago y cuotas, incluido en el total
+  surcharge?: Money
+  // Comisiones de tarjeta/QR que retiene el procesador
+  paymentFees?: Money
   status: SaleStatus
   notes?: string
   createdAt?: Date
@@ -89,9 +136,12 @@ export class Sale extends Entity {
   private _receiptNumber: string
   private _userId: string
   private _customerId?: string
+  private _cashSessionId?: string
   private _items: SaleItem[]
   private _paymentMethodId: string
   private _paymentMethodType: PaymentMethodType
+  private _surcharge: Money
+  private _paymentFees: Money
   private _status: SaleStatus
   private _notes: string
 
@@ -106,9 +156,12 @@ export class Sale extends Entity {
     this._receiptNumber = props.receiptNumber
     this._userId = props.userId
     this._customerId = props.customerId
+    this._cashSessionId = props.cashSessionId
     this._items = props.items
     this._paymentMethodId = props.paymentMethodId
     this._paymentMethodType = props.paymentMethodType
+    this._surcharge = props.surcharge ?? Money.zero()
+    this._paymentFees = props.paymentFees ?? Money.zero()
     this._status = props.status
     this._notes = props.notes ?? ''
   }
@@ -159,6 +212,10 @@ export class Sale extends Entity {
     return this._customerId
   }
 
+  get cashSessionId(): string | undefined {
+    return this._cashSessionId
+  }
+
   get items(): readonly SaleItem[] {
     return this._items
   }
@@ -171,6 +228,14 @@ export class Sale extends Entity {
     return this._paymentMethodType
   }
 
+  get surcharge(): Money {
+    return this._surcharge
+  }
+
+  get paymentFees(): Money {
+    return this._paymentFees
+  }
+
   get status(): SaleStatus {
     return this._status
   }
@@ -207,15 +272,29 @@ export class Sale extends Entity {
   }
 
   /**
-   * Total final de la venta
+   * Total de los artículos (con descuentos, sin recargo por medio de pago)
    */
-  get total(): Money {
+  get itemsTotal(): Money {
     return this._items.reduce(
       (sum, item) => sum.add(item.subtotal),
       Money.zero()
     )
   }
 
+  /**
+   * Total final de la venta (bruto: incluye el recargo o descuento por medio de pago)
+   */
+  get total(): Money {
+    return this.itemsTotal.add(this._surcharge)
+  }
+
+  /**
+   * Neto de la venta: total menos las comisiones de tarjeta/QR
+   */
+  get netTotal(): Money {
+    return this.total.subtract(this._paymentFees)
+  }
+
   // Métodos de negocio
 
   /**
@@ -262,6 +341,57 @@ export class Sale extends Entity {
     this.markAsModified()
   }
 
+  /**
+   * Registra la devolución de algunas unidades de la venta.
+   * Queda 'partially_refunded', o 'refunded' si ya no quedan unidades por devolver
+   */
+  registerReturn(lines: SaleReturnLine[]): void {
+    if (this._status !== 'completed' && this._status !== 'partially_refunded') {
+      throw new Error('Only completed sales accept returns')
+    }
+
+    if (lines.length === 0) {
+      throw new Error('A return must include at least one item')
+    }
+
+    const returned = new Map<string, number>()
+    for (const line of lines) {
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new Error('Returned quantity must be a positive integer')
+      }
+      returned.set(line.itemId, (returned.get(line.itemId) ?? 0) + line.quantity)
+    }
+
+    for (const [itemId, quantity] of returned) {
+      const item = this._items.find((i) => i.id === itemId)
+      if (!item) {
+        throw new Error(`Item ${itemId} does not belong to this sale`)
+      }
+      if (quantity > item.returnableQuantity) {
+        throw new Error(`Only ${item.returnableQuantity} units of ${item.productName} can be returned`)
+      }
+    }
+
+    this._items = this._items.map((item) => {
+      const quantity = returned.get(item.id)
+      return quantity ? item.withReturned(quantity) : item
+    })
+    this._status = this._items.every((item) => item.returnableQuantity === 0)
+      ? 'refunded'
+      : 'partially_refunded'
+    this.markAsModified()
+  }
+
+  /**
+   * Valor de las unidades devueltas hasta el momento
+   */
+  get returnedTotal(): Money {
+    return this._items.reduce(
+      (sum, item) => sum.add(item.amountFor(item.returnedQuantity)),
+      Money.zero()
+    )
+  }
+
   /**
    * Verifica si la venta puede ser modificada
    */
@@ -273,7 +403,7 @@ export class Sale extends Entity {
    * Verifica si la venta está finalizada
    */
   get isFinalized(): boolean {
-    return ['completed', 'cancelled', 'refunded'].includes(this._status)
+    return ['completed', 'cancelled', 'refunded', 'partially_refunded'].includes(this._status)
   }
 
   /**
@@ -284,6 +414,7 @@ export class Sale extends Entity {
     receiptNumber: string
     userId: string
     customerId?: string
+    cashSessionId?: string
     items: Array<{
       id: string
       variantId: string
@@ -293,6 +424,7 @@ export class Sale extends Entity {
       unitPriceCents: number
       unitPriceCurrency: string
       discountPercentage: number
+      returnedQuantity: number
     }>
     paymentMethodId: string
     paymentMethodType: PaymentMethodType
@@ -300,7 +432,9 @@ export class Sale extends Entity {
     notes: string
     subtotalCents: number
     discountCents: number
+    surchargeCents: number
     totalCents: number
+    paymentFeesCents: number
     currency: string
     createdAt: Date
     updatedAt: Date
@@ -312,6 +446,7 @@ export class Sale extends Entity {
       receiptNumber: this._receiptNumber,
       userId: this._userId,
       customerId: this._customerId,
+      cashSessionId: this._cashSessionId,
       items: this._items.map((item) => ({
         id: item.id,
         variantId: item.variantId,
@@ -320,7 +455,8 @@ export class Sale extends Entity {
         quantity: item.quantity,
         unitPriceCents: item.unitPrice.cents,
         unitPriceCurrency: item.unitPrice.currency,
-        discountPercentage: item.discount.value
+        discountPercentage: item.discount.value,
+        returnedQuantity: item.returnedQuantity
       })),
       paymentMethodId: this._paymentMethodId,
       paymentMethodType: this._paymentMethodType,
@@ -328,7 +464,9 @@ export class Sale extends Entity {
       notes: this._notes,
       subtotalCents: this.subtotal.cents,
       discountCents: this.totalDiscount.cents,
+      surchargeCents: this._surcharge.cents,
       totalCents: this.total.cents,
+      paymentFeesCents: this._paymentFees.cents,
       currency: this.total.currency,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
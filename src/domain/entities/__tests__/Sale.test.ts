@@ -0,0 +1,98 @@
+/**
+ * Tests para la entidad Sale (devoluciones parciales)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Sale, SaleItem, type SaleProps } from '../Sale'
+import { Money } from '../../value-objects/Money'
+import { Percentage } from '../../value-objects/Percentage'
+
+function createSale(overrides: Partial<SaleProps> = {}): Sale {
+  return Sale.fromPersistence({
+    id: 'sale-1',
+    receiptNumber: 'V-20261019-0001',
+    userId: 'user-1',
+    paymentMethodId: 'pm-1',
+    paymentMethodType: 'cash',
+    status: 'completed',
+    items: [
+      new SaleItem({
+        id: 'item-pinata',
+        variantId: 'var-pinata',
+        productName: 'Piñata',
+        variantName: 'Azul',
+        quantity: 5,
+        unitPrice: Money.create(1000),
+        discount: Percentage.create(10)
+      }),
+      new SaleItem({
+        id: 'item-globos',
+        variantId: 'var-globos',
+        productName: 'Globos',
+        variantName: 'Estándar',
+        quantity: 2,
+        unitPrice: Money.create(250),
+        discount: Percentage.create(0)
+      })
+    ],
+    ...overrides
+  })
+}
+
+describe('Sale', () => {
+  describe('registerReturn', () => {
+    it('debe devolver unidades de un item y quedar en devolución parcial', () => {
+      const sale = createSale()
+
+      sale.registerReturn([{ itemId: 'item-pinata', quantity: 1 }])
+
+      expect(sale.status).toBe('partially_refunded')
+      expect(sale.items[0].returnedQuantity).toBe(1)
+      expect(sale.items[0].returnableQuantity).toBe(4)
+      expect(sale.returnedTotal.amount).toBe(900)
+      // El total original de la venta no cambia
+      expect(sale.total.amount).toBe(5000)
+    })
+
+    it('debe quedar reembolsada al devolver todas las unidades', () => {
+      const sale = createSale()
+
+      sale.registerReturn([{ itemId: 'item-pinata', quantity: 2 }])
+      sale.registerReturn([
+        { itemId: 'item-pinata', quantity: 3 },
+        { itemId: 'item-globos', quantity: 2 }
+      ])
+
+      expect(sale.status).toBe('refunded')
+      expect(sale.returnedTotal.amount).toBe(5000)
+    })
+
+    it('debe rechazar devolver más unidades de las que quedan', () => {
+      const sale = createSale()
+      sale.registerReturn([{ itemId: 'item-globos', quantity: 1 }])
+
+      expect(() => sale.registerReturn([{ itemId: 'item-globos', quantity: 2 }])).toThrow()
+      expect(sale.items[1].returnedQuantity).toBe(1)
+    })
+
+    it('debe rechazar items ajenos o ventas no completadas', () => {
+      const sale = createSale()
+      expect(() => sale.registerReturn([{ itemId: 'otro', quantity: 1 }])).toThrow()
+      expect(() => sale.registerReturn([])).toThrow()
+
+      sale.refund()
+      expect(() => sale.registerReturn([{ itemId: 'item-pinata', quantity: 1 }])).toThrow()
+    })
+  })
+
+  describe('total', () => {
+    it('debe incluir el recargo por medio de pago y descontar las comisiones en el neto', () => {
+      const sale = createSale({ surcharge: Money.create(500), paymentFees: Money.create(165) })
+
+      expect(sale.itemsTotal.amount).toBe(5000)
+      expect(sale.total.amount).toBe(5500)
+      expect(sale.netTotal.amount).toBe(5335)
+      expect(sale.toPersistence()).toMatchObject({ surchargeCents: 50000, totalCents: 550000, paymentFeesCents: 16500 })
+    })
+  })
+})
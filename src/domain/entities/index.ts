@@ -12,7 +12,7 @@ export { Product, type ProductProps } from './Product'
 export { ProductVariant, type ProductVariantProps } from './ProductVariant'
 export { Sale, SaleItem, type SaleProps, type SaleItemProps } from './Sale'
 export { StockMovement, type StockMovementProps } from './StockMovement'
-export { PaymentMethod, type PaymentMethodProps, type PaymentMethodConfig } from './PaymentMethod'
+export { PaymentMethod, type PaymentMethodProps, type PaymentMethodConfig, type InstallmentPlan } from './PaymentMethod'
 export { User, type UserProps } from './User'
 export { Customer, type CustomerProps } from './Customer'
 export { Supplier, type SupplierProps } from './Supplier'
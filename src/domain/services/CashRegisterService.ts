@@ -0,0 +1,148 @@
+import { Money } from '../value-objects/Money'
+import type { PaymentMethodType } from '@shared/types'
+
+// Billetes en circulación (ARS). Las monedas se cuentan como un monto total en `coins`
+export const CASH_DENOMINATIONS = [20000, 10000, 2000, 1000, 500, 200, 100, 50, 20, 10] as const
+
+/**
+ * Conteo de efectivo: cantidad de billetes por denominación y monto total en monedas
+ */
+export type CashCount = Record<string, number>
+
+/**
+ * Pago de una venta cobrada en la sesión
+ */
+export interface CashSessionPayment {
+  paymentMethodId: string
+  paymentMethodName: string
+  paymentMethodType: PaymentMethodType
+  amount: number
+}
+
+/**
+ * Datos de la sesión necesarios para el arqueo
+ */
+export interface CashSessionActivity {
+  openingAmount: number
+  // Una venta con pagos divididos aporta un pago por método
+  sales: Array<{ total: number; payments: CashSessionPayment[] }>
+  // amount positivo = reintegro al cliente; negativo = cobro de diferencia
+  refunds: Array<{ paymentMethodType: PaymentMethodType; amount: number }>
+  movements: Array<{ type: 'deposit' | 'withdrawal'; amount: number }>
+}
+
+/**
+ * Resumen de una sesión de caja (base del cierre Z)
+ */
+export interface CashSessionSummary {
+  openingAmount: number
+  cashSales: number
+  cashRefunds: number
+  deposits: number
+  withdrawals: number
+  expectedCash: number
+  salesCount: number
+  salesTotal: number
+  byMethod: Array<{ paymentMethodId: string; name: string; type: PaymentMethodType; amount: number }>
+}
+
+/**
+ * Servicio de Dominio: CashRegisterService
+ *
+ * Calcula el efectivo esperado de una sesión de caja y el arqueo al cierre.
+ * Los importes se acumulan en centavos para evitar errores de redondeo.
+ */
+export class CashRegisterService {
+  /**
+   * Total contado a partir del conteo billete por billete
+   */
+  sumCount(count: CashCount): Money {
+    let total = Money.zero()
+    for (const [key, value] of Object.entries(count)) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid count for ${key}`)
+      }
+
+      if (key === 'coins') {
+        total = total.add(Money.create(value))
+        continue
+      }
+
+      const denomination = Number(key)
+      if (!CASH_DENOMINATIONS.includes(denomination as typeof CASH_DENOMINATIONS[number])) {
+        throw new Error(`Unknown denomination: ${key}`)
+      }
+      if (!Number.isInteger(value)) {
+        throw new Error(`Bill count for ${key} must be an integer`)
+      }
+      total = total.add(Money.create(denomination).multiply(value))
+    }
+    return total
+  }
+
+  /**
+   * Resume ventas, devoluciones y movimientos de la sesión
+   */
+  summarize(activity: CashSessionActivity): CashSessionSummary {
+    const byMethod = new Map<string, { paymentMethodId: string; name: string; type: PaymentMethodType; cents: number }>()
+    let salesTotalCents = 0
+
+    for (const sale of activity.sales) {
+      salesTotalCents += Money.create(sale.total).cents
+      for (const payment of sale.payments) {
+        const entry = byMethod.get(payment.paymentMethodId) ?? {
+          paymentMethodId: payment.paymentMethodId,
+          name: payment.paymentMethodName,
+          type: payment.paymentMethodType,
+          cents: 0
+        }
+        entry.cents += Money.create(payment.amount).cents
+        byMethod.set(payment.paymentMethodId, entry)
+      }
+    }
+
+    const sumCents = (amounts: number[]) => amounts.reduce((sum, amount) => sum + Math.round(amount * 100), 0)
+
+    const cashSalesCents = Array.from(byMethod.values())
+      .filter(entry => entry.type === 'cash')
+      .reduce((sum, entry) => sum + entry.cents, 0)
+    const cashRefundsCents = sumCents(
+      activity.refunds.filter(refund => refund.paymentMethodType === 'cash').map(refund => refund.amount)
+    )
+    const depositsCents = sumCents(
+      activity.movements.filter(movement => movement.type === 'deposit').map(movement => movement.amount)
+    )
+    const withdrawalsCents = sumCents(
+      activity.movements.filter(movement => movement.type === 'withdrawal').map(movement => movement.amount)
+    )
+    const openingCents = Money.create(activity.openingAmount).cents
+
+    return {
+      openingAmount: activity.openingAmount,
+      cashSales: cashSalesCents / 100,
+      cashRefunds: cashRefundsCents / 100,
+      deposits: depositsCents / 100,
+      withdrawals: withdrawalsCents / 100,
+      expectedCash: (openingCents + cashSalesCents - cashRefundsCents + depositsCents - withdrawalsCents) / 100,
+      salesCount: activity.sales.length,
+      salesTotal: salesTotalCents / 100,
+      byMethod: Array.from(byMethod.values()).map(({ cents, ...entry }) => ({ ...entry, amount: cents / 100 }))
+    }
+  }
+
+  /**
+   * Verifica que un retiro no supere el efectivo disponible en la caja
+   */
+  validateWithdrawal(amount: number, expectedCash: number): void {
+    if (Money.create(amount).isGreaterThan(Money.create(expectedCash))) {
+      throw new Error(`Withdrawal exceeds cash in drawer. Available: ${expectedCash}`)
+    }
+  }
+
+  /**
+   * Diferencia del arqueo: positiva = sobrante, negativa = faltante
+   */
+  calculateDifference(countedCash: number, expectedCash: number): number {
+    return Money.create(countedCash).subtract(Money.create(expectedCash)).amount
+  }
+}
@@ -0,0 +1,116 @@
+import { Money } from '../value-objects/Money'
+import { PricingService } from './PricingService'
+import type { PaymentMethodConfig } from '../entities/PaymentMethod'
+import type { PaymentMethodType } from '@shared/types'
+
+/**
+ * Pago de una venta
+ */
+export interface PaymentInput {
+  paymentMethodId: string
+  paymentMethodType: PaymentMethodType
+  // Recargos, descuentos y cuotas del método (sin configuración no se ajusta el monto)
+  paymentMethodConfig?: PaymentMethodConfig
+  installments?: number
+  // Parte del total de los artículos cubierta por este pago (sin recargo)
+  amount: number
+  // Efectivo entregado por el cliente (solo efectivo; puede superar el monto)
+  tendered?: number
+}
+
+/**
+ * Pago validado con su vuelto
+ */
+export interface SettledPayment {
+  paymentMethodId: string
+  // Monto cobrado: parte del total más el recargo (o menos el descuento)
+  amount: number
+  tendered?: number
+  change: number
+  installments: number
+  surcharge: number
+  fee: number
+}
+
+/**
+ * Servicio de Dominio: PaymentService
+ *
+ * Valida los pagos (únicos o divididos) de una venta y calcula el vuelto del efectivo.
+ * Los recargos y descuentos por método de pago los calcula PricingService.
+ * Aplica las mismas reglas que el servidor al registrar la venta.
+ */
+export class PaymentService {
+  private pricingService = new PricingService()
+
+  /**
+   * Valida que los pagos cubran exactamente el total de los artículos,
+   * aplica el recargo de cada método y calcula el vuelto
+   */
+  settle(total: Money, payments: PaymentInput[]): {
+    payments: SettledPayment[]
+    change: Money
+    surcharge: Money
+    fees: Money
+  } {
+    if (payments.length === 0) {
+      throw new Error('At least one payment is required')
+    }
+
+    let paid = Money.zero()
+    let change = Money.zero()
+    let surcharge = Money.zero()
+    let fees = Money.zero()
+
+    const settled = payments.map(payment => {
+      const base = Money.create(payment.amount)
+      if (base.isNegative() || base.isZero()) {
+        throw new Error('Payment amount must be greater than zero')
+      }
+      paid = paid.add(base)
+
+      const option = this.pricingService.calculatePaymentOption(
+        base,
+        { type: payment.paymentMethodType, config: payment.paymentMethodConfig ?? {} },
+        payment.installments
+      )
+      surcharge = surcharge.add(option.surcharge)
+      fees = fees.add(option.fee)
+
+      const amount = option.total
+      const pricing = {
+        installments: option.installments,
+        surcharge: option.surcharge.amount,
+        fee: option.fee.amount
+      }
+
+      if (payment.tendered === undefined) {
+        return { paymentMethodId: payment.paymentMethodId, amount: amount.amount, change: 0, ...pricing }
+      }
+      if (payment.paymentMethodType !== 'cash') {
+        throw new Error('Only cash payments can receive change')
+      }
+
+      const tendered = Money.create(payment.tendered)
+      if (tendered.isLessThan(amount)) {
+        throw new Error(`Tendered cash (${tendered.amount}) does not cover the payment (${amount.amount})`)
+      }
+      const paymentChange = tendered.subtract(amount)
+      change = change.add(paymentChange)
+
+      return {
+        paymentMethodId: payment.paymentMethodId,
+        amount: amount.amount,
+        tendered: tendered.amount,
+        change: paymentChange.amount,
+        ...pricing
+      }
+    })
+
+    // Se tolera un centavo por el redondeo de los descuentos por item
+    if (Math.abs(paid.cents - total.cents) > 1) {
+      throw new Error(`Payments (${paid.amount}) do not match the sale total (${total.amount})`)
+    }
+
+    return { payments: settled, change, surcharge, fees }
+  }
+}
@@ -2,6 +2,8 @@ import { Money } from '../value-objects/Money'
 import { Percentage } from '../value-objects/Percentage'
 import type { Product } from '../entities/Product'
 import type { ProductVariant } from '../entities/ProductVariant'
+import type { PaymentMethodConfig } from '../entities/PaymentMethod'
+import type { PaymentMethodType } from '@shared/types'
 
 /**
  * Item para cálculo de precio
@@ -35,6 +37,29 @@ export interface CartSummary {
   itemCount: number
 }
 
+/**
+ * Método de pago para calcular recargos, descuentos y cuotas
+ */
+export interface PaymentPricingMethod {
+  type: PaymentMethodType
+  config: PaymentMethodConfig
+}
+
+/**
+ * Opción de pago (cantidad de cuotas) con su precio final
+ */
+export interface PaymentOption {
+  installments: number
+  // Recargo (+) o descuento (-) porcentual sobre el monto
+  adjustmentPercentage: number
+  // Recargo (+) o descuento (-) en pesos
+  surcharge: Money
+  total: Money
+  installmentAmount: Money
+  // Comisión que retiene el procesador sobre el total cobrado
+  fee: Money
+}
+
 /**
  * Servicio de Dominio: PricingService
  * 
@@ -132,5 +157,62 @@ export class PricingService {
   applyGlobalDiscount(total: Money, discountPercentage: Percentage): Money {
     return total.applyDiscount(discountPercentage.value)
   }
-}
 
+  /**
+   * Opciones de pago de un método para un monto: una por plan de cuotas en crédito,
+   * o una sola con el recargo/descuento del método
+   */
+  getPaymentOptions(amount: Money, method: PaymentPricingMethod): PaymentOption[] {
+    const plans = method.type === 'credit' ? method.config.installmentPlans ?? [] : []
+    if (plans.length === 0) {
+      return [this.calculatePaymentOption(amount, method)]
+    }
+
+    return [...plans]
+      .sort((a, b) => a.installments - b.installments)
+      .map((plan) => this.buildPaymentOption(amount, plan.installments, plan.surchargePercentage, method.config))
+  }
+
+  /**
+   * Precio final de un pago con el método y la cantidad de cuotas elegidos
+   */
+  calculatePaymentOption(amount: Money, method: PaymentPricingMethod, installments: number = 1): PaymentOption {
+    const plans = method.type === 'credit' ? method.config.installmentPlans ?? [] : []
+
+    if (plans.length > 0) {
+      const plan = plans.find((p) => p.installments === installments)
+      if (!plan) {
+        throw new Error(`Payment method does not offer ${installments} installments`)
+      }
+      return this.buildPaymentOption(amount, installments, plan.surchargePercentage, method.config)
+    }
+
+    if (installments !== 1) {
+      throw new Error(`Payment method does not offer ${installments} installments`)
+    }
+    const percentage = (method.config.surchargePercentage ?? 0) - (method.config.discountPercentage ?? 0)
+    return this.buildPaymentOption(amount, 1, percentage, method.config)
+  }
+
+  private buildPaymentOption(
+    amount: Money,
+    installments: number,
+    adjustmentPercentage: number,
+    config: PaymentMethodConfig
+  ): PaymentOption {
+    const surcharge = amount.multiply(adjustmentPercentage / 100)
+    const total = amount.add(surcharge)
+    const fee = total.isZero() || total.isNegative()
+      ? Money.zero(amount.currency)
+      : total.multiply((config.commissionPercentage ?? 0) / 100).add(Money.create(config.fixedFee ?? 0, amount.currency))
+
+    return {
+      installments,
+      adjustmentPercentage,
+      surcharge,
+      total,
+      installmentAmount: total.multiply(1 / installments),
+      fee
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests para CashRegisterService (arqueo de caja)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CashRegisterService, type CashSessionPayment } from '../CashRegisterService'
+
+const cash = (amount: number): CashSessionPayment => ({
+  paymentMethodId: 'pm-cash',
+  paymentMethodName: 'Efectivo',
+  paymentMethodType: 'cash',
+  amount
+})
+
+const debit = (amount: number): CashSessionPayment => ({
+  paymentMethodId: 'pm-debit',
+  paymentMethodName: 'Débito',
+  paymentMethodType: 'debit',
+  amount
+})
+
+describe('CashRegisterService', () => {
+  const service = new CashRegisterService()
+
+  describe('sumCount', () => {
+    it('debe sumar billetes por denominación y monedas', () => {
+      expect(service.sumCount({ '10000': 2, '1000': 5, '100': 3, coins: 45.5 }).amount).toBe(25345.5)
+    })
+
+    it('debe rechazar denominaciones desconocidas y cantidades inválidas', () => {
+      expect(() => service.sumCount({ '300': 1 })).toThrow('Unknown denomination')
+      expect(() => service.sumCount({ '1000': -1 })).toThrow('Invalid count')
+      expect(() => service.sumCount({ '1000': 1.5 })).toThrow('integer')
+    })
+  })
+
+  describe('summarize', () => {
+    it('debe calcular el efectivo esperado con ventas, devoluciones y movimientos', () => {
+      const summary = service.summarize({
+        openingAmount: 10000,
+        sales: [
+          { total: 3000, payments: [cash(3000)] },
+          // Pago dividido: solo la parte en efectivo entra a la caja
+          { total: 5000, payments: [cash(1500.5), debit(3499.5)] }
+        ],
+        refunds: [
+          { paymentMethodType: 'cash', amount: 800 },
+          { paymentMethodType: 'debit', amount: 1000 },
+          // Cobro de diferencia en un cambio
+          { paymentMethodType: 'cash', amount: -300 }
+        ],
+        movements: [
+          { type: 'deposit', amount: 2000 },
+          { type: 'withdrawal', amount: 5000 }
+        ]
+      })
+
+      expect(summary.cashSales).toBe(4500.5)
+      expect(summary.cashRefunds).toBe(500)
+      expect(summary.deposits).toBe(2000)
+      expect(summary.withdrawals).toBe(5000)
+      expect(summary.expectedCash).toBe(11000.5)
+      expect(summary.salesCount).toBe(2)
+      expect(summary.salesTotal).toBe(8000)
+      expect(summary.byMethod).toEqual([
+        { paymentMethodId: 'pm-cash', name: 'Efectivo', type: 'cash', amount: 4500.5 },
+        { paymentMethodId: 'pm-debit', name: 'Débito', type: 'debit', amount: 3499.5 }
+      ])
+    })
+
+    it('debe devolver el fondo inicial si no hubo actividad', () => {
+      const summary = service.summarize({ openingAmount: 5000, sales: [], refunds: [], movements: [] })
+      expect(summary.expectedCash).toBe(5000)
+      expect(summary.byMethod).toEqual([])
+    })
+  })
+
+  describe('validateWithdrawal', () => {
+    it('debe rechazar retiros mayores al efectivo disponible', () => {
+      expect(() => service.validateWithdrawal(6000, 5000)).toThrow('Withdrawal exceeds cash in drawer')
+      expect(() => service.validateWithdrawal(5000, 5000)).not.toThrow()
+    })
+  })
+
+  describe('calculateDifference', () => {
+    it('debe informar sobrante y faltante', () => {
+      expect(service.calculateDifference(10100, 10000)).toBe(100)
+      expect(service.calculateDifference(9999.9, 10000)).toBe(-0.1)
+    })
+  })
+})
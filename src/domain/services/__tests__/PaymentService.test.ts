@@ -0,0 +1,75 @@
+/**
+ * Tests para PaymentService (pagos divididos y vuelto)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PaymentService } from '../PaymentService'
+import { Money } from '../../value-objects/Money'
+
+describe('PaymentService', () => {
+  const paymentService = new PaymentService()
+
+  it('debe aceptar pagos divididos que suman el total', () => {
+    const result = paymentService.settle(Money.create(7500), [
+      { paymentMethodId: 'pm-cash', paymentMethodType: 'cash', amount: 2500 },
+      { paymentMethodId: 'pm-debit', paymentMethodType: 'debit', amount: 5000 }
+    ])
+
+    expect(result.payments).toEqual([
+      { paymentMethodId: 'pm-cash', amount: 2500, change: 0, installments: 1, surcharge: 0, fee: 0 },
+      { paymentMethodId: 'pm-debit', amount: 5000, change: 0, installments: 1, surcharge: 0, fee: 0 }
+    ])
+    expect(result.change.amount).toBe(0)
+  })
+
+  it('debe calcular el vuelto del efectivo entregado', () => {
+    const result = paymentService.settle(Money.create(7450.5), [
+      { paymentMethodId: 'pm-cash', paymentMethodType: 'cash', amount: 2450.5, tendered: 3000 },
+      { paymentMethodId: 'pm-qr', paymentMethodType: 'qr', amount: 5000 }
+    ])
+
+    expect(result.payments[0]).toMatchObject({ paymentMethodId: 'pm-cash', amount: 2450.5, tendered: 3000, change: 549.5 })
+    expect(result.change.amount).toBe(549.5)
+  })
+
+  it('debe rechazar pagos que no suman el total', () => {
+    expect(() => paymentService.settle(Money.create(1000), [
+      { paymentMethodId: 'pm-cash', paymentMethodType: 'cash', amount: 900 }
+    ])).toThrow('do not match the sale total')
+    expect(() => paymentService.settle(Money.create(1000), [])).toThrow('At least one payment')
+  })
+
+  it('debe rechazar vuelto fuera del efectivo y efectivo insuficiente', () => {
+    expect(() => paymentService.settle(Money.create(1000), [
+      { paymentMethodId: 'pm-debit', paymentMethodType: 'debit', amount: 1000, tendered: 2000 }
+    ])).toThrow('Only cash payments')
+    expect(() => paymentService.settle(Money.create(1000), [
+      { paymentMethodId: 'pm-cash', paymentMethodType: 'cash', amount: 1000, tendered: 500 }
+    ])).toThrow('does not cover the payment')
+  })
+
+  it('debe sumar el recargo de las cuotas y descontar el efectivo', () => {
+    const result = paymentService.settle(Money.create(10000), [
+      {
+        paymentMethodId: 'pm-credit',
+        paymentMethodType: 'credit',
+        paymentMethodConfig: { installmentPlans: [{ installments: 3, surchargePercentage: 10 }], commissionPercentage: 3 },
+        installments: 3,
+        amount: 6000
+      },
+      {
+        paymentMethodId: 'pm-cash',
+        paymentMethodType: 'cash',
+        paymentMethodConfig: { discountPercentage: 10 },
+        amount: 4000,
+        tendered: 4000
+      }
+    ])
+
+    expect(result.payments.map(p => p.amount)).toEqual([6600, 3600])
+    expect(result.payments[0]).toMatchObject({ installments: 3, surcharge: 600, fee: 198 })
+    expect(result.payments[1]).toMatchObject({ surcharge: -400, change: 400 })
+    expect(result.surcharge.amount).toBe(200)
+    expect(result.fees.amount).toBe(198)
+  })
+})
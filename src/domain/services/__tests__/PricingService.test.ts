@@ -0,0 +1,50 @@
+/**
+ * Tests para PricingService (recargos por método de pago y cuotas)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PricingService } from '../PricingService'
+import { Money } from '../../value-objects/Money'
+
+describe('PricingService', () => {
+  const pricingService = new PricingService()
+  const credit = {
+    type: 'credit' as const,
+    config: {
+      installmentPlans: [
+        { installments: 6, surchargePercentage: 20 },
+        { installments: 1, surchargePercentage: 0 },
+        { installments: 3, surchargePercentage: 10 }
+      ],
+      commissionPercentage: 2
+    }
+  }
+
+  it('debe ofrecer una opción por plan de cuotas con su precio final', () => {
+    const options = pricingService.getPaymentOptions(Money.create(9000), credit)
+
+    expect(options.map(o => o.installments)).toEqual([1, 3, 6])
+    expect(options[1]!.total.amount).toBe(9900)
+    expect(options[1]!.installmentAmount.amount).toBe(3300)
+    expect(options[2]!.surcharge.amount).toBe(1800)
+    expect(options[2]!.fee.amount).toBe(216)
+  })
+
+  it('debe aplicar el descuento del efectivo y el recargo fijo de débito', () => {
+    const cash = pricingService.calculatePaymentOption(Money.create(1000), { type: 'cash', config: { discountPercentage: 10 } })
+    const debit = pricingService.calculatePaymentOption(Money.create(1000), {
+      type: 'debit',
+      config: { surchargePercentage: 5, commissionPercentage: 1, fixedFee: 10 }
+    })
+
+    expect(cash.total.amount).toBe(900)
+    expect(cash.surcharge.amount).toBe(-100)
+    expect(debit.total.amount).toBe(1050)
+    expect(debit.fee.amount).toBe(20.5)
+  })
+
+  it('debe rechazar cuotas que el método no ofrece', () => {
+    expect(() => pricingService.calculatePaymentOption(Money.create(1000), credit, 12)).toThrow('does not offer 12 installments')
+    expect(() => pricingService.calculatePaymentOption(Money.create(1000), { type: 'debit', config: {} }, 3)).toThrow('does not offer 3')
+  })
+})
@@ -6,5 +6,21 @@
  */
 
 export { StockService, type StockAvailability, type StockCheckItem } from './StockService'
-export { PricingService, type PriceCalculationItem, type PriceCalculationResult, type CartSummary } from './PricingService'
+export {
+  PricingService,
+  type PriceCalculationItem,
+  type PriceCalculationResult,
+  type CartSummary,
+  type PaymentPricingMethod,
+  type PaymentOption
+} from './PricingService'
 export { ReceiptNumberGenerator } from './ReceiptNumberGenerator'
+export { PaymentService, type PaymentInput, type SettledPayment } from './PaymentService'
+export {
+  CashRegisterService,
+  CASH_DENOMINATIONS,
+  type CashCount,
+  type CashSessionPayment,
+  type CashSessionActivity,
+  type CashSessionSummary
+} from './CashRegisterService'
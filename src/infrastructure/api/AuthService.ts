@@ -3,6 +3,7 @@
  */
 
 import { apiClient } from './client'
+import { getOrCreateDeviceId } from '../sync/deviceId'
 
 interface LoginResponse {
   token: string
@@ -63,9 +64,11 @@ class AuthService {
   }
 
   async login(email: string, password: string): Promise<AuthUser> {
+    // El servidor fija el dispositivo en el token: la sincronización solo vale para él
     const response = await apiClient.post<LoginResponse>('/auth/login', {
       email,
-      password
+      password,
+      deviceId: getOrCreateDeviceId()
     })
 
     apiClient.setToken(response.token)
@@ -78,7 +81,8 @@ class AuthService {
     const response = await apiClient.post<LoginResponse>('/auth/register', {
       email,
       password,
-      name
+      name,
+      deviceId: getOrCreateDeviceId()
     })
 
     apiClient.setToken(response.token)
@@ -0,0 +1,83 @@
+/**
+ * Servicio de auditoría de sesiones de caja (todas las cajas y dispositivos)
+ */
+
+import { apiClient } from './client'
+
+type CashSessionStatus = 'OPEN' | 'CLOSED'
+
+// Los importes llegan como Decimal serializado (string)
+interface CashSessionAuditEntry {
+  id: string
+  deviceId: string
+  status: CashSessionStatus
+  openingAmount: string
+  openedAt: string
+  closedAt: string | null
+  expectedCash: string | null
+  countedCash: string | null
+  difference: string | null
+  notes: string | null
+  user: { id: string; name: string }
+  closedBy: { id: string; name: string } | null
+  _count: { movements: number; sales: number }
+}
+
+interface CashSessionAudit {
+  session: Omit<CashSessionAuditEntry, '_count'> & {
+    cashCount: Record<string, number> | null
+    movements: Array<{
+      id: string
+      type: 'DEPOSIT' | 'WITHDRAWAL'
+      amount: string
+      reason: string
+      createdAt: string
+      user: { id: string; name: string }
+    }>
+  }
+  audit: {
+    openingAmount: number
+    cashSales: number
+    cashRefunds: number
+    deposits: number
+    withdrawals: number
+    salesCount: number
+    salesTotal: number
+    byPaymentMethod: Array<{ paymentMethodId: string; name: string; type: string; amount: number }>
+    expectedCash: number
+    difference: number | null
+    // El esperado informado por el dispositivo coincide con el recalculado en el servidor
+    matchesDevice: boolean | null
+  }
+}
+
+interface CashSessionFilter {
+  from?: string
+  to?: string
+  userId?: string
+  deviceId?: string
+  status?: CashSessionStatus
+  withDifference?: boolean
+  limit?: number
+}
+
+class CashSessionService {
+  async list(filter: CashSessionFilter = {}): Promise<CashSessionAuditEntry[]> {
+    const params: Record<string, string> = { limit: String(filter.limit ?? 100) }
+    if (filter.from) params.from = filter.from
+    if (filter.to) params.to = filter.to
+    if (filter.userId) params.userId = filter.userId
+    if (filter.deviceId) params.deviceId = filter.deviceId
+    if (filter.status) params.status = filter.status
+    if (filter.withDifference) params.withDifference = 'true'
+
+    return apiClient.get('/cash-sessions', params)
+  }
+
+  async getAudit(id: string): Promise<CashSessionAudit> {
+    return apiClient.get(`/cash-sessions/${encodeURIComponent(id)}`)
+  }
+}
+
+export const cashSessionService = new CashSessionService()
+export type { CashSessionAuditEntry, CashSessionAudit, CashSessionFilter, CashSessionStatus }
@@ -0,0 +1,83 @@
+/**
+ * Servicio de certificados de AFIP (solo administradores)
+ * Genera clave y CSR, carga el certificado firmado y cambia el entorno activo
+ */
+
+import { apiClient } from './client'
+
+type FiscalEnv = 'homo' | 'prod'
+
+type FiscalCertificateStatus = 'PENDING' | 'ACTIVE' | 'REPLACED'
+
+interface FiscalCertificate {
+  id: string | null // null para los certificados configurados en .env
+  source: 'db' | 'env'
+  env: FiscalEnv
+  cuit: string
+  alias: string | null
+  status: FiscalCertificateStatus
+  inUse: boolean
+  serialNumber: string | null
+  issuer: string | null
+  validFrom: string | null
+  validTo: string | null
+  expiry: { daysLeft: number; expired: boolean; expiringSoon: boolean } | null
+  createdAt: string | null
+  activatedAt: string | null
+}
+
+interface GenerateCsrData {
+  env: FiscalEnv
+  cuit: string
+  alias: string
+  organization: string
+}
+
+class FiscalCertificateService {
+  async list(): Promise<{ activeEnv: FiscalEnv; certificates: FiscalCertificate[] }> {
+    return apiClient.get('/fiscal/certificates')
+  }
+
+  async generateCsr(data: GenerateCsrData): Promise<{ certificate: FiscalCertificate; csrPem: string }> {
+    return apiClient.post('/fiscal/certificates', data)
+  }
+
+  async getCsr(id: string): Promise<{ alias: string; csrPem: string }> {
+    return apiClient.get(`/fiscal/certificates/${encodeURIComponent(id)}/csr`)
+  }
+
+  async uploadCertificate(id: string, certificatePem: string): Promise<FiscalCertificate> {
+    const response = await apiClient.post<{ certificate: FiscalCertificate }>(
+      `/fiscal/certificates/${encodeURIComponent(id)}/certificate`,
+      { certificatePem }
+    )
+    return response.certificate
+  }
+
+  async deletePending(id: string): Promise<void> {
+    await apiClient.delete(`/fiscal/certificates/${encodeURIComponent(id)}`)
+  }
+
+  async switchEnvironment(env: FiscalEnv): Promise<FiscalEnv> {
+    const response = await apiClient.put<{ activeEnv: FiscalEnv }>('/fiscal/certificates/environment', { env })
+    return response.activeEnv
+  }
+
+  /**
+   * Descargar el CSR como archivo .csr (para subirlo en AFIP)
+   */
+  downloadCsr(alias: string, csrPem: string): void {
+    const blob = new Blob([csrPem], { type: 'application/pkcs10' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${alias}.csr`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+}
+
+export const fiscalCertificateService = new FiscalCertificateService()
+export type { FiscalEnv, FiscalCertificate, FiscalCertificateStatus, GenerateCsrData }
@@ -0,0 +1,177 @@
+/**
+ * Servicio de facturación electrónica (comprobantes emitidos por el backend vía ARCA)
+ */
+
+import { apiClient } from './client'
+
+type InvoiceType = 'FACTURA_A' | 'FACTURA_B' | 'FACTURA_C'
+
+type InvoiceStatus = 'PENDING' | 'SENT' | 'AUTHORIZED' | 'REJECTED' | 'NEEDS_REVIEW'
+
+interface FiscalMessage {
+  code: number | string
+  msg: string
+}
+
+interface FiscalInvoice {
+  id: string
+  saleId: string
+  type: string | null
+  cbteTipo: number
+  ptoVta: number
+  cbteNro: number | null
+  formattedNumber: string | null
+  impTotal: number
+  cae: string | null
+  caeVto: string | null
+  estado: InvoiceStatus
+  errores: FiscalMessage[] | null
+  observaciones: FiscalMessage[] | null
+  fechaEmision: string
+}
+
+// Venta completada sin factura emitida ni en curso
+interface UninvoicedSale {
+  id: string
+  receiptNumber: string
+  total: number
+  createdAt: string
+  customerName: string | null
+  customerDocument: string | null
+  ivaConditionId: number | null
+  // Último rechazo de AFIP, si la venta ya se intentó facturar
+  lastRejection: { errores: FiscalMessage[] | null; observaciones: FiscalMessage[] | null; updatedAt: string } | null
+}
+
+// SKIPPED: la venta no se envió a AFIP (ver message)
+type BatchInvoiceStatus = InvoiceStatus | 'SKIPPED'
+
+interface BatchInvoiceResult {
+  saleId: string
+  receiptNumber: string | null
+  status: BatchInvoiceStatus
+  message: string | null
+  invoice: FiscalInvoice | null
+}
+
+interface BatchInvoiceResponse {
+  results: BatchInvoiceResult[]
+  summary: { authorized: number; rejected: number; pending: number; skipped: number }
+}
+
+// Comprobante imprimible (GET /invoices/:id/print-data)
+interface FiscalPrintData {
+  document: {
+    id: string
+    type: string | null
+    title: string
+    letra: 'A' | 'B' | 'C'
+    cbteTipo: number
+    formattedNumber: string | null
+    fechaEmision: string
+    cae: string | null
+    caeVto: string | null
+    emisionTipo: 'CAE' | 'CAEA'
+    impTotal: number
+    impNeto: number
+    impIva: number
+    alicIva: Array<{ Id: number; BaseImp: number; Importe: number; porcentaje: number }>
+    motivo: string | null
+  }
+  emisor: {
+    razonSocial: string | null
+    cuit: string
+    domicilio: string | null
+    condicionIva: string | null
+    iibb: string | null
+    inicioActividades: string | null
+  }
+  receptor: {
+    nombre: string
+    docTipo: string | null
+    docNro: string | null
+    condicionIva: string
+    domicilio: string | null
+  }
+  associatedDocument: { type: string | null; formattedNumber: string | null; fechaEmision: string } | null
+  items: Array<{ description: string; quantity: number; unitPrice: number; subtotal: number; ivaRate: number }>
+  subtotal: number
+  discount: number
+  total: number
+  // URL del QR de AFIP (RG 4892)
+  qrUrl: string
+}
+
+// Contribuyente según el padrón de AFIP (GET /invoices/padron/:cuit)
+interface PadronPersona {
+  cuit: string
+  formattedCuit: string
+  razonSocial: string
+  domicilio: string | null
+  // null si el padrón consultado no informa la condición IVA
+  condicionIvaId: number | null
+  condicionIva: string | null
+  source: 'A5' | 'A13'
+  cachedAt: string
+  fromCache: boolean
+}
+
+// Condiciones frente al IVA del receptor (FEParamGetCondicionIvaReceptor)
+const CONDICIONES_IVA_RECEPTOR: Array<{ id: number; label: string }> = [
+  { id: 1, label: 'IVA Responsable Inscripto' },
+  { id: 4, label: 'IVA Sujeto Exento' },
+  { id: 5, label: 'Consumidor Final' },
+  { id: 6, label: 'Responsable Monotributo' },
+  { id: 7, label: 'Sujeto No Categorizado' },
+  { id: 8, label: 'Proveedor del Exterior' },
+  { id: 9, label: 'Cliente del Exterior' },
+  { id: 10, label: 'IVA Liberado - Ley N° 19.640' },
+  { id: 13, label: 'Monotributista Social' },
+  { id: 15, label: 'IVA No Alcanzado' },
+  { id: 16, label: 'Monotributo Trabajador Independiente Promovido' }
+]
+
+class InvoiceService {
+  async lookupPadron(cuit: string, refresh = false): Promise<PadronPersona> {
+    const params: Record<string, string> = {}
+    if (refresh) params.refresh = 'true'
+    return apiClient.get(`/invoices/padron/${encodeURIComponent(cuit.replace(/-/g, ''))}`, params)
+  }
+
+  async getSaleInvoices(saleId: string): Promise<FiscalInvoice[]> {
+    const response = await apiClient.get<{ invoices: FiscalInvoice[] }>('/invoices', { saleId, limit: '100' })
+    return response.invoices
+  }
+
+  async getPrintData(invoiceId: string): Promise<FiscalPrintData> {
+    return apiClient.get(`/invoices/${encodeURIComponent(invoiceId)}/print-data`)
+  }
+
+  async getUninvoicedSales(filter: { from?: Date; to?: Date } = {}): Promise<UninvoicedSale[]> {
+    const params: Record<string, string> = {}
+    if (filter.from) params.from = filter.from.toISOString()
+    if (filter.to) params.to = filter.to.toISOString()
+
+    const response = await apiClient.get<{ sales: UninvoicedSale[] }>('/invoices/pending-sales', params)
+    return response.sales
+  }
+
+  async issueBatch(saleIds: string[], type: InvoiceType): Promise<BatchInvoiceResponse> {
+    return apiClient.post('/invoices/batch', { saleIds, type })
+  }
+}
+
+export const invoiceService = new InvoiceService()
+export { CONDICIONES_IVA_RECEPTOR }
+export type {
+  PadronPersona,
+  InvoiceType,
+  InvoiceStatus,
+  FiscalMessage,
+  FiscalInvoice,
+  UninvoicedSale,
+  BatchInvoiceStatus,
+  BatchInvoiceResult,
+  BatchInvoiceResponse,
+  FiscalPrintData
+}
@@ -0,0 +1,30 @@
+/**
+ * Servicio de métodos de pago del servidor
+ * La configuración de recargos, cuotas y comisiones se guarda en el servidor y llega a los dispositivos por sync
+ */
+
+import { apiClient } from './client'
+import type { PaymentMethodConfig } from '@domain/entities/PaymentMethod'
+
+interface ServerPaymentMethod {
+  id: string
+  name: string
+  type: 'CASH' | 'DEBIT' | 'CREDIT' | 'TRANSFER' | 'QR' | 'OTHER'
+  isActive: boolean
+  config: PaymentMethodConfig | null
+  createdAt: string
+  updatedAt: string
+}
+
+class PaymentMethodService {
+  async updateConfig(id: string, config: PaymentMethodConfig): Promise<ServerPaymentMethod> {
+    const response = await apiClient.put<{ paymentMethod: ServerPaymentMethod }>(
+      `/payment-methods/${encodeURIComponent(id)}`,
+      { config }
+    )
+    return response.paymentMethod
+  }
+}
+
+export const paymentMethodService = new PaymentMethodService()
+export type { ServerPaymentMethod }
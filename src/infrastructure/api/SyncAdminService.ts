@@ -0,0 +1,67 @@
+/**
+ * Servicio de administración de la sincronización (salud por dispositivo)
+ */
+
+import { apiClient } from './client'
+
+interface SyncDeviceHealth {
+  deviceId: string
+  name: string | null
+  revokedAt: string | null
+  lastPullAt: string | null
+  lastPushAt: string | null
+  operations: number
+  errors: number
+  conflicts: number
+  errorRate: number
+  stuckOperations: number
+}
+
+type SyncLogStatus = 'PENDING' | 'SYNCED' | 'ERROR' | 'CONFLICT'
+
+interface SyncLogEntry {
+  id: string
+  deviceId: string
+  operation: string
+  tableName: string
+  recordId: string
+  data: unknown
+  status: SyncLogStatus
+  error: string | null
+  createdAt: string
+  syncedAt: string | null
+}
+
+class SyncAdminService {
+  async getDevices(): Promise<{ devices: SyncDeviceHealth[]; windowDays: number }> {
+    return apiClient.get('/sync/devices')
+  }
+
+  async getLogs(filter: { deviceId?: string; statuses?: SyncLogStatus[]; limit?: number } = {}): Promise<SyncLogEntry[]> {
+    const params: Record<string, string> = {
+      status: (filter.statuses ?? ['ERROR', 'CONFLICT']).join(','),
+      limit: String(filter.limit ?? 50)
+    }
+    if (filter.deviceId) {
+      params.deviceId = filter.deviceId
+    }
+
+    const response = await apiClient.get<{ logs: SyncLogEntry[] }>('/sync/logs', params)
+    return response.logs
+  }
+
+  async renameDevice(deviceId: string, name: string | null): Promise<void> {
+    await apiClient.patch(`/sync/devices/${encodeURIComponent(deviceId)}`, { name })
+  }
+
+  async revokeDevice(deviceId: string): Promise<void> {
+    await apiClient.post(`/sync/devices/${encodeURIComponent(deviceId)}/revoke`)
+  }
+
+  async restoreDevice(deviceId: string): Promise<void> {
+    await apiClient.post(`/sync/devices/${encodeURIComponent(deviceId)}/restore`)
+  }
+}
+
+export const syncAdminService = new SyncAdminService()
+export type { SyncDeviceHealth, SyncLogEntry, SyncLogStatus }
@@ -58,6 +58,14 @@ class ApiClient {
     return !!this.token
   }
 
+  /**
+   * URL para conexiones de streaming (EventSource no permite headers: el token va por query string)
+   */
+  getStreamUrl(endpoint: string): string {
+    this.loadToken()
+    return this.buildUrl(endpoint, this.token ? { token: this.token } : undefined)
+  }
+
   private buildUrl(endpoint: string, params?: Record<string, string>): string {
     const url = new URL(`${this.baseUrl}${endpoint}`)
     if (params) {
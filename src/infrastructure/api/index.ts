@@ -2,4 +2,24 @@ export { apiClient } from './client'
 export { authService } from './AuthService'
 export type { AuthUser } from './AuthService'
 export type { ApiError } from './client'
-
+export { syncAdminService } from './SyncAdminService'
+export type { SyncDeviceHealth, SyncLogEntry, SyncLogStatus } from './SyncAdminService'
+export { invoiceService, CONDICIONES_IVA_RECEPTOR } from './InvoiceService'
+export type {
+  InvoiceType,
+  InvoiceStatus,
+  FiscalMessage,
+  FiscalInvoice,
+  UninvoicedSale,
+  BatchInvoiceStatus,
+  BatchInvoiceResult,
+  BatchInvoiceResponse,
+  FiscalPrintData,
+  PadronPersona
+} from './InvoiceService'
+export { fiscalCertificateService } from './FiscalCertificateService'
+export type { FiscalEnv, FiscalCertificate, FiscalCertificateStatus, GenerateCsrData } from './FiscalCertificateService'
+export { cashSessionService } from './CashSessionService'
+export type { CashSessionAuditEntry, CashSessionAudit, CashSessionFilter, CashSessionStatus } from './CashSessionService'
+export { paymentMethodService } from './PaymentMethodService'
+export type { ServerPaymentMethod } from './PaymentMethodService'
@@ -15,6 +15,14 @@ export {
   useProductMutations 
 } from './useProducts'
 export { useStockAlerts, useStockAlertMutations } from './useStockAlerts'
+export { usePosTickets, usePosTicketMutations, getReservedStock, nextTicketLabel } from './usePosTickets'
+export {
+  useCurrentCashSession,
+  useCashSessionSummary,
+  useClosedCashSessions,
+  useCashSessionMutations,
+  getOpenCashSession
+} from './useCashSession'
 export { useUsers, useActiveUsers, useUser, useUserMutations, syncUsersFromServer } from './useUsers'
 export { useCustomers, useActiveCustomers, useCustomer, useCustomerMutations } from './useCustomers'
 export { useSuppliers, useActiveSuppliers, useSupplier, useSupplierMutations } from './useSuppliers'
@@ -35,7 +43,9 @@ export {
   useRecentSales, 
   useSale, 
   useDailySalesSummary,
-  useSaleMutations 
+  useSaleReturns,
+  useSaleMutations,
+  type SaleReturnInput
 } from './useSales'
 export { 
   usePaymentMethods, 
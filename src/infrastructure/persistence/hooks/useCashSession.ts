@@ -0,0 +1,228 @@
+/**
+ * Hooks para las sesiones de caja del dispositivo
+ * La sesión se abre, mueve y cierra localmente (también sin conexión) y se sincroniza completa
+ */
+
+import { useCallback } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { db, type CashSessionRecord } from '../indexeddb/database'
+import { syncService } from '@infrastructure/sync'
+import {
+  CashRegisterService,
+  type CashCount,
+  type CashSessionPayment,
+  type CashSessionSummary
+} from '@domain/services/CashRegisterService'
+
+const cashRegisterService = new CashRegisterService()
+
+/**
+ * Sesión abierta en este dispositivo (si hay)
+ */
+export async function getOpenCashSession(): Promise<CashSessionRecord | undefined> {
+  return db.cashSessions
+    .where('deviceId')
+    .equals(syncService.getStatus().deviceId)
+    .filter(session => session.status === 'open')
+    .first()
+}
+
+/**
+ * Calcula el resumen de una sesión con las ventas y devoluciones locales asociadas
+ */
+async function computeSummary(session: CashSessionRecord): Promise<CashSessionSummary> {
+  const [sales, returns, methods] = await Promise.all([
+    db.sales.where('cashSessionId').equals(session.id).toArray(),
+    db.saleReturns.where('cashSessionId').equals(session.id).toArray(),
+    db.paymentMethods.toArray()
+  ])
+  const methodById = new Map(methods.map(method => [method.id, method]))
+
+  // Las canceladas y pendientes no ingresaron dinero
+  const chargedSales = sales.filter(sale => sale.status !== 'cancelled' && sale.status !== 'pending')
+  const splitPayments = await db.salePayments
+    .where('saleId')
+    .anyOf(chargedSales.map(sale => sale.id))
+    .toArray()
+
+  const toPayment = (paymentMethodId: string, amount: number): CashSessionPayment => {
+    const method = methodById.get(paymentMethodId)
+    return {
+      paymentMethodId,
+      paymentMethodName: method?.name ?? 'Desconocido',
+      paymentMethodType: method?.type ?? 'other',
+      amount
+    }
+  }
+
+  return cashRegisterService.summarize({
+    openingAmount: session.openingAmount,
+    sales: chargedSales.map(sale => {
+      const payments = splitPayments.filter(payment => payment.saleId === sale.id)
+      return {
+        total: sale.totalCents / 100,
+        payments: payments.length > 0
+          ? payments.map(payment => toPayment(payment.paymentMethodId, payment.amount))
+          : [toPayment(sale.paymentMethodId, sale.totalCents / 100)]
+      }
+    }),
+    refunds: returns.flatMap(saleReturn => saleReturn.refunds.map(refund => ({
+      paymentMethodType: methodById.get(refund.paymentMethodId)?.type ?? 'other',
+      amount: refund.amount
+    }))),
+    movements: session.movements
+  })
+}
+
+// Se envía la sesión completa: el servidor la registra de forma idempotente
+async function queueSession(operation: 'create' | 'update', session: CashSessionRecord): Promise<void> {
+  await syncService.queueOperation(operation, 'cashSessions', session.id, { ...session })
+}
+
+/**
+ * Hook para obtener la sesión de caja abierta en este dispositivo (reactivo)
+ */
+export function useCurrentCashSession() {
+  // null = sin sesión abierta; undefined = cargando
+  const session = useLiveQuery(async () => (await getOpenCashSession()) ?? null)
+
+  return {
+    session: session ?? null,
+    isLoading: session === undefined
+  }
+}
+
+/**
+ * Hook para obtener el resumen en curso de una sesión (reactivo)
+ */
+export function useCashSessionSummary(session: CashSessionRecord | null) {
+  const summary = useLiveQuery(
+    () => (session ? computeSummary(session) : undefined),
+    [session]
+  )
+
+  return {
+    summary: summary ?? null,
+    isLoading: summary === undefined && session !== null
+  }
+}
+
+/**
+ * Hook para obtener las sesiones cerradas de este dispositivo (más recientes primero)
+ */
+export function useClosedCashSessions(limit: number = 20) {
+  const records = useLiveQuery(
+    () => db.cashSessions
+      .where('deviceId')
+      .equals(syncService.getStatus().deviceId)
+      .filter(session => session.status === 'closed')
+      .reverse()
+      .sortBy('openedAt')
+      .then(sessions => sessions.slice(0, limit)),
+    [limit]
+  )
+
+  return {
+    sessions: records ?? [],
+    isLoading: records === undefined
+  }
+}
+
+/**
+ * Hook para abrir la caja, registrar ingresos/retiros y cerrar con arqueo
+ */
+export function useCashSessionMutations() {
+  const openSession = useCallback(async (openingAmount: number, userId: string): Promise<CashSessionRecord> => {
+    if (await getOpenCashSession()) {
+      throw new Error('Ya hay una caja abierta en este dispositivo')
+    }
+    if (!Number.isFinite(openingAmount) || openingAmount < 0) {
+      throw new Error('El fondo inicial no puede ser negativo')
+    }
+
+    const now = new Date()
+    const session: CashSessionRecord = {
+      id: crypto.randomUUID(),
+      deviceId: syncService.getStatus().deviceId,
+      userId,
+      status: 'open',
+      openingAmount,
+      openedAt: now,
+      movements: [],
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+    await db.cashSessions.add(session)
+    await queueSession('create', session)
+    return session
+  }, [])
+
+  const addMovement = useCallback(async (
+    sessionId: string,
+    movement: { type: 'deposit' | 'withdrawal'; amount: number; reason: string },
+    userId: string
+  ): Promise<void> => {
+    const session = await db.cashSessions.get(sessionId)
+    if (!session || session.status !== 'open') {
+      throw new Error('La caja no está abierta')
+    }
+    if (!(movement.amount > 0)) {
+      throw new Error('El monto debe ser mayor a cero')
+    }
+    if (!movement.reason.trim()) {
+      throw new Error('Indicá el motivo del movimiento')
+    }
+    if (movement.type === 'withdrawal') {
+      const summary = await computeSummary(session)
+      cashRegisterService.validateWithdrawal(movement.amount, summary.expectedCash)
+    }
+
+    const now = new Date()
+    const updated: CashSessionRecord = {
+      ...session,
+      movements: [
+        ...session.movements,
+        { id: crypto.randomUUID(), type: movement.type, amount: movement.amount, reason: movement.reason.trim(), userId, createdAt: now }
+      ],
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+    await db.cashSessions.put(updated)
+    await queueSession('update', updated)
+  }, [])
+
+  const closeSession = useCallback(async (
+    sessionId: string,
+    close: { cashCount: CashCount; notes?: string },
+    userId: string
+  ): Promise<CashSessionRecord> => {
+    const session = await db.cashSessions.get(sessionId)
+    if (!session || session.status !== 'open') {
+      throw new Error('La caja no está abierta')
+    }
+
+    const summary = await computeSummary(session)
+    const countedCash = cashRegisterService.sumCount(close.cashCount).amount
+    const now = new Date()
+    const closed: CashSessionRecord = {
+      ...session,
+      status: 'closed',
+      closedAt: now,
+      closedById: userId,
+      expectedCash: summary.expectedCash,
+      countedCash,
+      difference: cashRegisterService.calculateDifference(countedCash, summary.expectedCash),
+      cashCount: close.cashCount,
+      notes: close.notes?.trim() || undefined,
+      summary,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+    await db.cashSessions.put(closed)
+    await queueSession('update', closed)
+    return closed
+  }, [])
+
+  return { openSession, addMovement, closeSession }
+}
@@ -62,6 +62,7 @@ export function useCustomerMutations() {
     mutationFn: async (data: {
       name: string
       documentNumber?: string
+      ivaConditionId?: number | null
       phone?: string
       email?: string
       address?: string
@@ -74,6 +75,7 @@ export function useCustomerMutations() {
           id: string
           name: string
           documentNumber?: string | null
+          ivaConditionId?: number | null
           phone?: string | null
           email?: string | null
           address?: string | null
@@ -89,6 +91,7 @@ export function useCustomerMutations() {
         id: response.customer.id,
         name: response.customer.name,
         documentNumber: response.customer.documentNumber || undefined,
+        ivaConditionId: response.customer.ivaConditionId ?? undefined,
         phone: response.customer.phone || undefined,
         email: response.customer.email ? Email.create(response.customer.email) : null,
         address: response.customer.address || undefined,
@@ -123,6 +126,7 @@ export function useCustomerMutations() {
       data: Partial<{
         name: string
         documentNumber: string
+        ivaConditionId: number | null
         phone: string
         email: string
         address: string
@@ -136,6 +140,7 @@ export function useCustomerMutations() {
           id: string
           name: string
           documentNumber?: string | null
+          ivaConditionId?: number | null
           phone?: string | null
           email?: string | null
           address?: string | null
@@ -151,6 +156,7 @@ export function useCustomerMutations() {
         id: response.customer.id,
         name: response.customer.name,
         documentNumber: response.customer.documentNumber || undefined,
+        ivaConditionId: response.customer.ivaConditionId ?? undefined,
         phone: response.customer.phone || undefined,
         email: response.customer.email ? Email.create(response.customer.email) : null,
         address: response.customer.address || undefined,
@@ -161,10 +167,12 @@ export function useCustomerMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await customerRepository.findById(customer.id)
       await customerRepository.save(customer)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'customers', customer.id, customer.toPersistence())
+      await syncService.queueOperation('update', 'customers', customer.id, customer.toPersistence(), previous?.toPersistence())
       
       return customer
     },
@@ -181,6 +189,7 @@ export function useCustomerMutations() {
           id: string
           name: string
           documentNumber?: string | null
+          ivaConditionId?: number | null
           phone?: string | null
           email?: string | null
           address?: string | null
@@ -196,6 +205,7 @@ export function useCustomerMutations() {
         id: response.customer.id,
         name: response.customer.name,
         documentNumber: response.customer.documentNumber || undefined,
+        ivaConditionId: response.customer.ivaConditionId ?? undefined,
         phone: response.customer.phone || undefined,
         email: response.customer.email ? Email.create(response.customer.email) : null,
         address: response.customer.address || undefined,
@@ -206,10 +216,12 @@ export function useCustomerMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await customerRepository.findById(customer.id)
       await customerRepository.save(customer)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'customers', customer.id, customer.toPersistence())
+      await syncService.queueOperation('update', 'customers', customer.id, customer.toPersistence(), previous?.toPersistence())
       
       return customer
     },
@@ -2,7 +2,8 @@ import { useLiveQuery } from 'dexie-react-hooks'
 import { db } from '../indexeddb/database'
 import { PaymentMethodMapper } from '../indexeddb/mappers/PaymentMethodMapper'
 import { PaymentMethodRepository } from '../indexeddb/repositories/PaymentMethodRepository'
-import type { PaymentMethod } from '@domain/entities/PaymentMethod'
+import { paymentMethodService } from '@infrastructure/api'
+import type { PaymentMethod, PaymentMethodConfig } from '@domain/entities/PaymentMethod'
 
 const paymentMethodRepository = new PaymentMethodRepository()
 
@@ -67,6 +68,17 @@ export function usePaymentMethodMutations() {
     await paymentMethodRepository.initializeDefaults()
   }
 
-  return { create, update, remove, initializeDefaults }
+  // Recargos, cuotas y comisiones: se guardan en el servidor (requiere conexión) y se reflejan localmente
+  const updateConfig = async (id: string, config: PaymentMethodConfig): Promise<void> => {
+    const serverMethod = await paymentMethodService.updateConfig(id, config)
+    await db.paymentMethods.update(id, {
+      config: JSON.stringify(serverMethod.config ?? {}),
+      updatedAt: new Date(serverMethod.updatedAt),
+      syncStatus: 'synced',
+      syncedAt: new Date()
+    })
+  }
+
+  return { create, update, remove, initializeDefaults, updateConfig }
 }
 
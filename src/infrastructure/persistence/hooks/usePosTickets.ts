@@ -0,0 +1,73 @@
+/**
+ * Hooks para los tickets del punto de venta
+ * Los tickets viven solo en este dispositivo: sobreviven a recargas pero no se sincronizan
+ */
+
+import { useCallback } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { db, type PosTicketRecord } from '../indexeddb/database'
+
+/**
+ * Unidades reservadas por variante en los tickets abiertos y en espera
+ * @param excludeTicketId Ticket a ignorar (el que se está editando)
+ */
+export function getReservedStock(tickets: PosTicketRecord[], excludeTicketId?: string | null): Map<string, number> {
+  const reserved = new Map<string, number>()
+  for (const ticket of tickets) {
+    if (ticket.id === excludeTicketId) continue
+    for (const item of ticket.items) {
+      reserved.set(item.variantId, (reserved.get(item.variantId) ?? 0) + item.quantity)
+    }
+  }
+  return reserved
+}
+
+/**
+ * Primera etiqueta "Ticket N" que no esté en uso
+ */
+export function nextTicketLabel(tickets: Array<Pick<PosTicketRecord, 'label'>>): string {
+  const used = new Set(tickets.map(ticket => ticket.label))
+  let n = 1
+  while (used.has(`Ticket ${n}`)) n++
+  return `Ticket ${n}`
+}
+
+/**
+ * Hook para obtener los tickets del punto de venta (reactivo)
+ */
+export function usePosTickets() {
+  const records = useLiveQuery(() => db.posTickets.orderBy('createdAt').toArray())
+
+  return {
+    tickets: records ?? [],
+    openTickets: records?.filter(ticket => ticket.status === 'open') ?? [],
+    parkedTickets: records?.filter(ticket => ticket.status === 'parked') ?? [],
+    isLoading: records === undefined
+  }
+}
+
+/**
+ * Hook para crear, poner en espera, retomar y descartar tickets
+ */
+export function usePosTicketMutations() {
+  // Guarda el ticket completo: cada escritura lleva el último estado del carrito
+  const saveTicket = useCallback(async (ticket: PosTicketRecord): Promise<void> => {
+    await db.posTickets.put(ticket)
+  }, [])
+
+  const parkTicket = useCallback(async (id: string, label: string): Promise<void> => {
+    const now = new Date()
+    await db.posTickets.update(id, { status: 'parked', label: label.trim() || 'Sin etiqueta', parkedAt: now, updatedAt: now })
+  }, [])
+
+  const resumeTicket = useCallback(async (id: string): Promise<PosTicketRecord | undefined> => {
+    await db.posTickets.update(id, { status: 'open', parkedAt: undefined, updatedAt: new Date() })
+    return db.posTickets.get(id)
+  }, [])
+
+  const discardTicket = useCallback(async (id: string): Promise<void> => {
+    await db.posTickets.delete(id)
+  }, [])
+
+  return { saveTicket, parkTicket, resumeTicket, discardTicket }
+}
@@ -11,7 +11,11 @@ export interface SalesByPeriodParams {
 
 export interface SalesByPeriodResult {
   totalSales: number
+  // Bruto: incluye recargos por medio de pago
   totalAmount: number
+  // Comisiones de tarjeta/QR y neto (bruto - comisiones)
+  totalFees: number
+  netAmount: number
   totalItems: number
   averageSale: number
   sales: Sale[]
@@ -39,6 +43,8 @@ export interface SalesByPaymentMethod {
   paymentMethodType: string
   totalSales: number
   totalAmount: number
+  totalFees: number
+  netAmount: number
 }
 
 /**
@@ -66,6 +72,8 @@ export function useSalesByPeriod({ from, to }: SalesByPeriodParams) {
       return {
         totalSales: 0,
         totalAmount: 0,
+        totalFees: 0,
+        netAmount: 0,
         totalItems: 0,
         averageSale: 0,
         sales: []
@@ -75,12 +83,15 @@ export function useSalesByPeriod({ from, to }: SalesByPeriodParams) {
     const sales = SaleMapper.toDomainList(records)
     const totalSales = sales.length
     const totalAmount = sales.reduce((sum, s) => sum + s.total.amount, 0)
+    const totalFees = sales.reduce((sum, s) => sum + s.paymentFees.amount, 0)
     const totalItems = sales.reduce((sum, s) => sum + s.items.length, 0)
     const averageSale = totalSales > 0 ? totalAmount / totalSales : 0
 
     return {
       totalSales,
       totalAmount,
+      totalFees,
+      netAmount: totalAmount - totalFees,
       totalItems,
       averageSale,
       sales
@@ -201,35 +212,77 @@ export function useSalesByCategory({ from, to }: SalesByPeriodParams) {
 export function useSalesByPaymentMethod({ from, to }: SalesByPeriodParams) {
   const salesData = useSalesByPeriod({ from, to })
 
+  // Pagos divididos de las ventas del período (una venta puede cobrarse con varios métodos)
+  const paymentData = useLiveQuery(
+    async () => {
+      const saleIds = salesData.sales.map(sale => sale.id)
+      const [payments, methods] = await Promise.all([
+        db.salePayments.where('saleId').anyOf(saleIds).toArray(),
+        db.paymentMethods.toArray()
+      ])
+      return { payments, methods }
+    },
+    [salesData.sales]
+  )
+
   const salesByPaymentMethod = useMemo<SalesByPaymentMethod[]>(() => {
-    if (!salesData.sales.length) return []
+    if (!salesData.sales.length || !paymentData) return []
+
+    const methodTypes = new Map(paymentData.methods.map(method => [method.id, method.type as string]))
+    const paymentsBySale = new Map<string, typeof paymentData.payments>()
+    paymentData.payments.forEach(payment => {
+      paymentsBySale.set(payment.saleId, [...(paymentsBySale.get(payment.saleId) ?? []), payment])
+    })
 
     const methodMap = new Map<string, SalesByPaymentMethod>()
 
-    salesData.sales.forEach(sale => {
-      const key = sale.paymentMethodId
-      const existing = methodMap.get(key)
+    const addAmount = (paymentMethodId: string, paymentMethodType: string, amount: number, fees: number) => {
+      const existing = methodMap.get(paymentMethodId)
 
       if (existing) {
         existing.totalSales += 1
-        existing.totalAmount += sale.total.amount
+        existing.totalAmount += amount
+        existing.totalFees += fees
+        existing.netAmount += amount - fees
       } else {
-        methodMap.set(key, {
-          paymentMethodId: sale.paymentMethodId,
-          paymentMethodType: sale.paymentMethodType,
+        methodMap.set(paymentMethodId, {
+          paymentMethodId,
+          paymentMethodType,
           totalSales: 1,
-          totalAmount: sale.total.amount
+          totalAmount: amount,
+          totalFees: fees,
+          netAmount: amount - fees
         })
       }
+    }
+
+    salesData.sales.forEach(sale => {
+      const payments = paymentsBySale.get(sale.id)
+
+      // Sin pagos registrados: el total corresponde al método principal
+      if (!payments?.length) {
+        addAmount(sale.paymentMethodId, sale.paymentMethodType, sale.total.amount, sale.paymentFees.amount)
+        return
+      }
+
+      // El vuelto no se suma: el monto de cada pago ya es lo cobrado, con su recargo
+      payments.forEach(payment => {
+        addAmount(
+          payment.paymentMethodId,
+          methodTypes.get(payment.paymentMethodId) ?? 'other',
+          payment.amount,
+          payment.fee ?? 0
+        )
+      })
     })
 
     return Array.from(methodMap.values())
       .sort((a, b) => b.totalAmount - a.totalAmount)
-  }, [salesData.sales])
+  }, [salesData.sales, paymentData])
 
   return {
     salesByPaymentMethod,
-    isLoading: salesData.isLoading
+    isLoading: salesData.isLoading || paymentData === undefined
   }
 }
 
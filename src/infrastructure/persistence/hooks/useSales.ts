@@ -1,11 +1,16 @@
 import { useLiveQuery } from 'dexie-react-hooks'
-import { db } from '../indexeddb/database'
+import { db, type SaleReturnRecord } from '../indexeddb/database'
 import { SaleMapper } from '../indexeddb/mappers/SaleMapper'
 import { SaleRepository } from '../indexeddb/repositories/SaleRepository'
 import { StockMovementRepository } from '../indexeddb/repositories/StockMovementRepository'
 import { ProductVariantRepository } from '../indexeddb/repositories/ProductVariantRepository'
-import type { Sale } from '@domain/entities/Sale'
-import type { StockMovement } from '@domain/entities/StockMovement'
+import { syncService } from '@infrastructure/sync'
+import { getOpenCashSession } from './useCashSession'
+import type { Sale, SaleReturnLine } from '@domain/entities/Sale'
+import type { SettledPayment } from '@domain/services/PaymentService'
+import { StockMovement } from '@domain/entities/StockMovement'
+import { Money } from '@domain/value-objects/Money'
+import { Quantity } from '@domain/value-objects/Quantity'
 
 const saleRepository = new SaleRepository()
 const stockMovementRepository = new StockMovementRepository()
@@ -70,6 +75,39 @@ export function useSale(id: string | undefined) {
   }
 }
 
+/**
+ * Hook para obtener las devoluciones y cambios de una venta (reactivo)
+ */
+export function useSaleReturns(saleId: string | undefined) {
+  const records = useLiveQuery(
+    () => (saleId ? db.saleReturns.where('saleId').equals(saleId).reverse().sortBy('createdAt') : []),
+    [saleId]
+  )
+
+  return {
+    returns: records ?? [],
+    isLoading: records === undefined
+  }
+}
+
+/**
+ * Datos de una devolución parcial (con cambio opcional)
+ */
+export interface SaleReturnInput {
+  items: SaleReturnLine[]
+  exchangeItems: Array<{
+    variantId: string
+    productName: string
+    variantName: string
+    quantity: number
+    unitPrice: number
+    discount: number
+  }>
+  // amount positivo = reintegro al cliente; negativo = cobro de la diferencia
+  refunds: Array<{ paymentMethodId: string; amount: number }>
+  reason?: string
+}
+
 /**
  * Hook para obtener el resumen de ventas del día
  */
@@ -95,11 +133,12 @@ export function useDailySalesSummary() {
 export function useSaleMutations() {
   /**
    * Crea una nueva venta y actualiza el stock
+   * @param payments Pagos validados por PaymentService (divididos o con vuelto)
    */
   const createSale = async (
     sale: Sale,
     stockMovements: StockMovement[],
-    splitPayments?: Array<{ methodId: string; amount: number }>
+    payments?: SettledPayment[]
   ): Promise<void> => {
     // Transacción para asegurar consistencia
     await db.transaction('rw', [db.sales, db.stockMovements, db.productVariants, db.salePayments], async () => {
@@ -117,14 +156,19 @@ export function useSaleMutations() {
         )
       }
 
-      // Guardar pagos divididos si existen
-      if (splitPayments && splitPayments.length > 0) {
+      // Guardar los pagos si existen
+      if (payments && payments.length > 0) {
         const now = new Date()
-        const paymentRecords = splitPayments.map(payment => ({
+        const paymentRecords = payments.map(payment => ({
           id: crypto.randomUUID(),
           saleId: sale.id,
-          paymentMethodId: payment.methodId,
+          paymentMethodId: payment.paymentMethodId,
           amount: payment.amount,
+          tendered: payment.tendered,
+          change: payment.change,
+          installments: payment.installments,
+          surcharge: payment.surcharge,
+          fee: payment.fee,
           createdAt: now,
           updatedAt: now,
           syncStatus: 'pending' as const
@@ -132,6 +176,25 @@ export function useSaleMutations() {
         await db.salePayments.bulkPut(paymentRecords)
       }
     })
+
+    // Encolar para sincronización: el servidor crea items, pagos y movimientos
+    // SALE reutilizando los ids locales de los movimientos. El monto de cada pago
+    // se envía sin recargo, con el recargo y la comisión aplicados al cobrar
+    await syncService.queueOperation('create', 'sales', sale.id, {
+      ...sale.toPersistence(),
+      payments: payments?.map(payment => ({
+        paymentMethodId: payment.paymentMethodId,
+        amount: Math.round((payment.amount - payment.surcharge) * 100) / 100,
+        tendered: payment.tendered,
+        installments: payment.installments,
+        surcharge: payment.surcharge,
+        fee: payment.fee
+      })),
+      stockMovements: stockMovements.map(movement => ({
+        id: movement.id,
+        variantId: movement.variantId
+      }))
+    })
   }
 
   /**
@@ -187,6 +250,135 @@ export function useSaleMutations() {
     })
   }
 
+  /**
+   * Registra una devolución parcial o un cambio: reingresa solo las unidades devueltas,
+   * descuenta las entregadas a cambio y guarda el reintegro por método de pago
+   */
+  const registerReturn = async (
+    saleId: string,
+    input: SaleReturnInput,
+    userId: string
+  ): Promise<SaleReturnRecord> => {
+    const sale = await saleRepository.findById(saleId)
+    if (!sale) throw new Error('Venta no encontrada')
+
+    // Valida cantidades y deja la venta en devolución parcial (o reembolsada si se devolvió todo)
+    sale.registerReturn(input.items)
+
+    const returnedItems = input.items.map(line => {
+      const item = sale.items.find(i => i.id === line.itemId)!
+      return {
+        saleItemId: item.id,
+        variantId: item.variantId,
+        productName: item.productName,
+        variantName: item.variantName,
+        quantity: line.quantity,
+        amountCents: item.amountFor(line.quantity).cents
+      }
+    })
+    const exchangeItems = input.exchangeItems.map(item => ({
+      id: crypto.randomUUID(),
+      variantId: item.variantId,
+      productName: item.productName,
+      variantName: item.variantName,
+      quantity: item.quantity,
+      unitPriceCents: Money.create(item.unitPrice).cents,
+      discountPercentage: item.discount
+    }))
+
+    const returnedTotalCents = returnedItems.reduce((sum, item) => sum + item.amountCents, 0)
+    const exchangeTotalCents = input.exchangeItems.reduce(
+      (sum, item) => sum + Money.create(item.unitPrice).multiply(item.quantity).applyDiscount(item.discount).cents,
+      0
+    )
+    const balanceCents = returnedTotalCents - exchangeTotalCents
+
+    const refundedCents = input.refunds.reduce((sum, refund) => sum + Math.round(refund.amount * 100), 0)
+    if (Math.abs(refundedCents - balanceCents) > 1) {
+      throw new Error('Los montos por método de pago no coinciden con la diferencia de la devolución')
+    }
+
+    // El reintegro sale de la caja abierta en este dispositivo
+    const cashSession = await getOpenCashSession()
+
+    const now = new Date()
+    const record: SaleReturnRecord = {
+      id: crypto.randomUUID(),
+      saleId,
+      userId,
+      cashSessionId: cashSession?.id,
+      reason: input.reason ?? '',
+      items: returnedItems,
+      exchangeItems,
+      refunds: input.refunds.map(refund => ({ id: crypto.randomUUID(), ...refund })),
+      returnedTotalCents,
+      exchangeTotalCents,
+      balanceCents,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending'
+    }
+
+    const stockMovements: StockMovement[] = []
+
+    await db.transaction('rw', [db.sales, db.saleReturns, db.stockMovements, db.productVariants], async () => {
+      await saleRepository.save(sale)
+
+      for (const item of returnedItems) {
+        const variant = await variantRepository.findById(item.variantId)
+        if (!variant) continue
+
+        const movement = StockMovement.createReturn({
+          id: crypto.randomUUID(),
+          variantId: item.variantId,
+          userId,
+          quantity: Quantity.create(item.quantity),
+          previousStock: variant.currentStock,
+          saleId,
+          reason: `Devolución parcial de venta ${sale.receiptNumber}`
+        })
+        await stockMovementRepository.save(movement)
+        await variantRepository.updateStock(item.variantId, movement.newStock.value)
+        stockMovements.push(movement)
+      }
+
+      for (const item of exchangeItems) {
+        const variant = await variantRepository.findById(item.variantId)
+        if (!variant) throw new Error(`Variante ${item.variantName} no encontrada`)
+        if (variant.currentStock.value < item.quantity) {
+          throw new Error(`Stock insuficiente para ${item.productName} (${item.variantName}). Disponible: ${variant.currentStock.value}`)
+        }
+
+        const movement = StockMovement.createSale({
+          id: crypto.randomUUID(),
+          variantId: item.variantId,
+          userId,
+          quantity: Quantity.create(item.quantity),
+          previousStock: variant.currentStock,
+          saleId
+        })
+        await stockMovementRepository.save(movement)
+        await variantRepository.updateStock(item.variantId, movement.newStock.value)
+        stockMovements.push(movement)
+      }
+
+      await db.saleReturns.add(record)
+    })
+
+    // Encolar para sincronización: el servidor crea la devolución, sus movimientos
+    // (reutilizando los ids locales) y actualiza el estado de la venta
+    await syncService.queueOperation('create', 'saleReturns', record.id, {
+      ...record,
+      stockMovements: stockMovements.map(movement => ({
+        id: movement.id,
+        variantId: movement.variantId,
+        type: movement.type
+      }))
+    })
+
+    return record
+  }
+
   /**
    * Genera el siguiente número de comprobante
    */
@@ -198,6 +390,7 @@ export function useSaleMutations() {
     createSale,
     completeSale,
     cancelSale,
+    registerReturn,
     getNextReceiptNumber
   }
 }
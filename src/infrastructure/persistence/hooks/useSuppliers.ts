@@ -155,10 +155,12 @@ export function useSupplierMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await supplierRepository.findById(supplier.id)
       await supplierRepository.save(supplier)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'suppliers', supplier.id, supplier.toPersistence())
+      await syncService.queueOperation('update', 'suppliers', supplier.id, supplier.toPersistence(), previous?.toPersistence())
       
       return supplier
     },
@@ -200,10 +202,12 @@ export function useSupplierMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await supplierRepository.findById(supplier.id)
       await supplierRepository.save(supplier)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'suppliers', supplier.id, supplier.toPersistence())
+      await syncService.queueOperation('update', 'suppliers', supplier.id, supplier.toPersistence(), previous?.toPersistence())
       
       return supplier
     },
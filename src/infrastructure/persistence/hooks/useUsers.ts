@@ -252,10 +252,12 @@ export function useUserMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await userRepository.findById(user.id)
       await userRepository.save(user)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'users', user.id, user.toPersistence())
+      await syncService.queueOperation('update', 'users', user.id, user.toPersistence(), previous?.toPersistence())
       
       return user
     },
@@ -282,10 +284,12 @@ export function useUserMutations() {
         syncStatus: 'synced'
       })
       
+      // Versión local previa: base para el merge a tres vías si hay conflicto
+      const previous = await userRepository.findById(user.id)
       await userRepository.save(user)
       
       // Encolar para sincronización
-      await syncService.queueOperation('update', 'users', user.id, user.toPersistence())
+      await syncService.queueOperation('update', 'users', user.id, user.toPersistence(), previous?.toPersistence())
       
       return user
     },
@@ -1,5 +1,6 @@
 import Dexie, { type EntityTable } from 'dexie'
 import type { SyncStatus, SaleStatus, PaymentMethodType, StockMovementType, UserRole } from '@shared/types'
+import type { CashSessionSummary } from '@domain/services/CashRegisterService'
 
 /**
  * Esquemas de las tablas para IndexedDB
@@ -61,6 +62,8 @@ export interface SaleItemRecord {
   unitPriceCents: number
   unitPriceCurrency: string
   discountPercentage: number
+  // Unidades devueltas (ausente en ventas anteriores a las devoluciones parciales)
+  returnedQuantity?: number
 }
 
 export interface SaleRecord {
@@ -68,6 +71,7 @@ export interface SaleRecord {
   receiptNumber: string
   userId: string
   customerId?: string
+  cashSessionId?: string
   items: SaleItemRecord[]
   paymentMethodId: string
   paymentMethodType: PaymentMethodType
@@ -75,7 +79,11 @@ export interface SaleRecord {
   notes: string
   subtotalCents: number
   discountCents: number
+  // Recargo (+) o descuento (-) por medio de pago, incluido en totalCents
+  surchargeCents?: number
   totalCents: number
+  // Comisiones de tarjeta/QR (neto = totalCents - paymentFeesCents)
+  paymentFeesCents?: number
   currency: string
   createdAt: Date
   updatedAt: Date
@@ -129,6 +137,7 @@ export interface CustomerRecord {
   id: string
   name: string
   documentNumber?: string
+  ivaConditionId?: number
   phone?: string
   email?: string
   address?: string
@@ -156,7 +165,7 @@ export interface SupplierRecord {
 }
 
 type SyncOperation = 'create' | 'update' | 'delete'
-type SyncQueueStatus = 'pending' | 'syncing' | 'synced' | 'error'
+type SyncQueueStatus = 'pending' | 'syncing' | 'synced' | 'error' | 'dead_letter'
 
 /**
  * Tabla para almacenar operaciones pendientes de sincronización
@@ -171,6 +180,10 @@ export interface SyncQueueRecord {
   status: SyncQueueStatus
   retries: number
   error?: string
+  // Próximo intento permitido tras un error (backoff exponencial)
+  nextRetryAt?: string
+  // Versión del registro sobre la que se hizo el cambio (para el merge a tres vías)
+  baseData?: Record<string, unknown> | null
 }
 
 export type ConflictResolutionStrategy = 'local' | 'server' | 'merge' | 'manual'
@@ -181,6 +194,10 @@ export interface SyncConflictRecord {
   recordId: string
   localData: Record<string, unknown>
   serverData: Record<string, unknown>
+  baseData?: Record<string, unknown> | null
+  // Resultado del merge a tres vías: campos combinados y campos que requieren decisión
+  mergedData?: Record<string, unknown>
+  conflictingFields?: string[]
   localUpdatedAt: string
   serverUpdatedAt: string
   conflictDetectedAt: string
@@ -208,6 +225,116 @@ export interface SalePaymentRecord {
   saleId: string
   paymentMethodId: string
   amount: number
+  // Efectivo entregado y vuelto (solo pagos en efectivo)
+  tendered?: number
+  change?: number
+  // Cuotas, recargo (+) o descuento (-) incluido en amount y comisión del procesador
+  installments?: number
+  surcharge?: number
+  fee?: number
+  createdAt: Date
+  updatedAt: Date
+  syncStatus: SyncStatus
+  syncedAt?: Date
+}
+
+/**
+ * Devolución parcial de una venta, con cambio opcional por otros artículos.
+ * balanceCents = devuelto - cambio: positivo se reintegra, negativo lo paga el cliente
+ */
+export interface SaleReturnRecord {
+  id: string
+  saleId: string
+  userId: string
+  cashSessionId?: string
+  reason: string
+  items: Array<{
+    saleItemId: string
+    variantId: string
+    productName: string
+    variantName: string
+    quantity: number
+    amountCents: number
+  }>
+  exchangeItems: Array<{
+    id: string
+    variantId: string
+    productName: string
+    variantName: string
+    quantity: number
+    unitPriceCents: number
+    discountPercentage: number
+  }>
+  // amount positivo = reintegro al cliente; negativo = cobro de la diferencia
+  refunds: Array<{
+    id: string
+    paymentMethodId: string
+    amount: number
+  }>
+  returnedTotalCents: number
+  exchangeTotalCents: number
+  balanceCents: number
+  createdAt: Date
+  updatedAt: Date
+  syncStatus: SyncStatus
+  syncedAt?: Date
+}
+
+/**
+ * Ticket abierto del punto de venta (solo local, no se sincroniza)
+ * Varios tickets pueden estar abiertos en pestañas o en espera con una etiqueta;
+ * sus unidades cuentan como stock reservado hasta cobrarlos o descartarlos
+ */
+export interface PosTicketRecord {
+  id: string
+  label: string
+  userId: string
+  status: 'open' | 'parked'
+  items: Array<{
+    variantId: string
+    productId: string
+    productName: string
+    variantName: string
+    sku: string
+    unitPrice: number
+    quantity: number
+    discount: number // porcentaje
+    maxStock: number
+  }>
+  createdAt: Date
+  updatedAt: Date
+  parkedAt?: Date
+}
+
+/**
+ * Sesión de caja (turno) de un usuario en este dispositivo
+ * Los movimientos manuales van embebidos; el arqueo se completa al cerrar
+ */
+export interface CashSessionRecord {
+  id: string
+  deviceId: string
+  userId: string
+  status: 'open' | 'closed'
+  openingAmount: number
+  openedAt: Date
+  movements: Array<{
+    id: string
+    type: 'deposit' | 'withdrawal'
+    amount: number
+    reason: string
+    userId: string
+    createdAt: Date
+  }>
+  closedAt?: Date
+  closedById?: string
+  expectedCash?: number
+  countedCash?: number
+  difference?: number
+  // Conteo por denominación: { "1000": 3, ..., "coins": 150 }
+  cashCount?: Record<string, number>
+  notes?: string
+  // Resumen al momento del cierre, para reimprimir el cierre Z
+  summary?: CashSessionSummary
   createdAt: Date
   updatedAt: Date
   syncStatus: SyncStatus
@@ -228,9 +355,12 @@ class CotillonDatabase extends Dexie {
   customers!: EntityTable<CustomerRecord, 'id'>
   suppliers!: EntityTable<SupplierRecord, 'id'>
   salePayments!: EntityTable<SalePaymentRecord, 'id'>
+  saleReturns!: EntityTable<SaleReturnRecord, 'id'>
   syncQueue!: EntityTable<SyncQueueRecord, 'id'>
   syncConflicts!: EntityTable<SyncConflictRecord, 'id'>
   stockAlerts!: EntityTable<StockAlertRecord, 'id'>
+  posTickets!: EntityTable<PosTicketRecord, 'id'>
+  cashSessions!: EntityTable<CashSessionRecord, 'id'>
 
   constructor() {
     super('CotillonDB')
@@ -309,6 +439,33 @@ class CotillonDatabase extends Dexie {
         // Migración: crear tabla de alertas de stock vacía
         console.log('Creando tabla de alertas de stock...')
       })
+
+    // Índices compuestos usados por la detección de conflictos de sincronización
+    this.version(6)
+      .stores({
+        syncQueue: 'id, status, tableName, operation, timestamp, [tableName+recordId]',
+        syncConflicts: 'id, tableName, recordId, resolution, conflictDetectedAt, [tableName+recordId]'
+      })
+
+    // Devoluciones parciales y cambios
+    this.version(7)
+      .stores({
+        saleReturns: 'id, saleId, userId, createdAt, syncStatus'
+      })
+
+    // Tickets abiertos y en espera del punto de venta
+    this.version(8)
+      .stores({
+        posTickets: 'id, status, userId, createdAt'
+      })
+
+    // Sesiones de caja; ventas y devoluciones indexadas por sesión para el arqueo
+    this.version(9)
+      .stores({
+        cashSessions: 'id, deviceId, status, userId, openedAt, syncStatus',
+        sales: 'id, receiptNumber, userId, customerId, cashSessionId, status, createdAt, syncStatus',
+        saleReturns: 'id, saleId, userId, cashSessionId, createdAt, syncStatus'
+      })
   }
 }
 
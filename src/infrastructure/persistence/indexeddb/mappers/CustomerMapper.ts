@@ -14,6 +14,7 @@ export class CustomerMapper {
       id: record.id,
       name: record.name,
       documentNumber: record.documentNumber,
+      ivaConditionId: record.ivaConditionId,
       phone: record.phone,
       email: record.email ? Email.create(record.email) : null,
       address: record.address,
@@ -35,6 +36,7 @@ export class CustomerMapper {
       id: data.id,
       name: data.name,
       documentNumber: data.documentNumber,
+      ivaConditionId: data.ivaConditionId,
       phone: data.phone,
       email: data.email,
       address: data.address,
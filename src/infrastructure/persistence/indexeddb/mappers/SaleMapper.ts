@@ -18,7 +18,8 @@ export class SaleMapper {
       variantName: record.variantName,
       quantity: record.quantity,
       unitPrice: Money.fromCents(record.unitPriceCents, record.unitPriceCurrency),
-      discount: Percentage.create(record.discountPercentage)
+      discount: Percentage.create(record.discountPercentage),
+      returnedQuantity: record.returnedQuantity ?? 0
     })
   }
 
@@ -34,7 +35,8 @@ export class SaleMapper {
       quantity: item.quantity,
       unitPriceCents: item.unitPrice.cents,
       unitPriceCurrency: item.unitPrice.currency,
-      discountPercentage: item.discount.value
+      discountPercentage: item.discount.value,
+      returnedQuantity: item.returnedQuantity
     }
   }
 
@@ -49,9 +51,12 @@ export class SaleMapper {
       receiptNumber: record.receiptNumber,
       userId: record.userId,
       customerId: record.customerId,
+      cashSessionId: record.cashSessionId,
       items,
       paymentMethodId: record.paymentMethodId,
       paymentMethodType: record.paymentMethodType,
+      surcharge: Money.fromCents(record.surchargeCents ?? 0, record.currency),
+      paymentFees: Money.fromCents(record.paymentFeesCents ?? 0, record.currency),
       status: record.status,
       notes: record.notes,
       createdAt: record.createdAt,
@@ -71,6 +76,7 @@ export class SaleMapper {
       receiptNumber: data.receiptNumber,
       userId: data.userId,
       customerId: data.customerId,
+      cashSessionId: data.cashSessionId,
       items: data.items.map((item) => ({
         id: item.id,
         variantId: item.variantId,
@@ -79,7 +85,8 @@ export class SaleMapper {
         quantity: item.quantity,
         unitPriceCents: item.unitPriceCents,
         unitPriceCurrency: item.unitPriceCurrency,
-        discountPercentage: item.discountPercentage
+        discountPercentage: item.discountPercentage,
+        returnedQuantity: item.returnedQuantity
       })),
       paymentMethodId: data.paymentMethodId,
       paymentMethodType: data.paymentMethodType,
@@ -87,7 +94,9 @@ export class SaleMapper {
       notes: data.notes,
       subtotalCents: data.subtotalCents,
       discountCents: data.discountCents,
+      surchargeCents: data.surchargeCents,
       totalCents: data.totalCents,
+      paymentFeesCents: data.paymentFeesCents,
       currency: data.currency,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
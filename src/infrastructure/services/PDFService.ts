@@ -3,7 +3,10 @@
  */
 
 import { jsPDF } from 'jspdf'
+import QRCode from 'qrcode'
 import type { Sale } from '@domain/entities/Sale'
+import type { FiscalPrintData } from '@infrastructure/api'
+import type { CashSessionRecord } from '@infrastructure/persistence/indexeddb/database'
 import type { PaymentMethodType, SaleStatus } from '@shared/types'
 import { formatCurrency, formatDateTime, formatDate } from '@shared/lib/utils'
 
@@ -37,7 +40,8 @@ export class PDFService {
       completed: 'COMPLETADA',
       pending: 'PENDIENTE',
       cancelled: 'CANCELADA',
-      refunded: 'REEMBOLSADA'
+      refunded: 'REEMBOLSADA',
+      partially_refunded: 'DEVOLUCIÓN PARCIAL'
     }
     return translations[status] || status.toUpperCase()
   }
@@ -182,6 +186,15 @@ export class PDFService {
       yPosition += 5
     }
 
+    // Recargo o descuento por medio de pago
+    if (!sale.surcharge.isZero()) {
+      doc.setFont('helvetica', 'normal')
+      doc.text(sale.surcharge.isNegative() ? 'Desc. medio de pago:' : 'Recargo:', 5, yPosition)
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${sale.surcharge.isNegative() ? '-' : '+'}${formatCurrency(Math.abs(sale.surcharge.amount))}`, 70, yPosition, { align: 'right' })
+      yPosition += 5
+    }
+
     // Total
     doc.setLineWidth(0.3)
     doc.line(5, yPosition, 75, yPosition)
@@ -420,6 +433,15 @@ export class PDFService {
       yPosition += 8
     }
 
+    // Recargo o descuento por medio de pago
+    if (!sale.surcharge.isZero()) {
+      doc.setFont('helvetica', 'normal')
+      doc.text(sale.surcharge.isNegative() ? 'Desc. medio de pago:' : 'Recargo:', colTotalesLabel, yPosition)
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${sale.surcharge.isNegative() ? '-' : '+'}${formatCurrency(Math.abs(sale.surcharge.amount))}`, colTotalesValor, yPosition, { align: 'right' })
+      yPosition += 8
+    }
+
     // Total
     doc.setLineWidth(0.3)
     doc.line(colTotalesLabel, yPosition, colTotalesValor, yPosition)
@@ -474,6 +496,151 @@ export class PDFService {
     doc.save(fileName)
   }
 
+  /**
+   * Genera el comprobante fiscal autorizado (A4): emisor, receptor, CAE/CAEA y QR de AFIP (RG 4892)
+   */
+  static async generateFiscalInvoice(data: FiscalPrintData): Promise<void> {
+    const { document, emisor, receptor } = data
+    const qrImage = await QRCode.toDataURL(data.qrUrl, { margin: 1, width: 240 })
+
+    const doc = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: 'a4'
+    })
+
+    const left = 15
+    const right = 195
+    const middle = 105
+
+    // Encabezado: emisor | letra | comprobante
+    doc.setLineWidth(0.3)
+    doc.rect(left, 15, right - left, 46)
+    doc.line(middle, 29, middle, 61)
+    doc.rect(middle - 9, 15, 18, 14)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(22)
+    doc.text(document.letra, middle, 24, { align: 'center' })
+    doc.setFontSize(6)
+    doc.text(`COD. ${String(document.cbteTipo).padStart(2, '0')}`, middle, 28, { align: 'center' })
+
+    doc.setFontSize(13)
+    doc.text(doc.splitTextToSize(emisor.razonSocial ?? `CUIT ${emisor.cuit}`, middle - left - 8), left + 4, 37)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    let yLeft = 45
+    if (emisor.domicilio) {
+      doc.text(`Domicilio: ${emisor.domicilio}`, left + 4, yLeft)
+      yLeft += 4
+    }
+    if (emisor.condicionIva) {
+      doc.text(`Condición frente al IVA: ${emisor.condicionIva}`, left + 4, yLeft)
+    }
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(13)
+    doc.text(document.title, middle + 4, 37)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    const comprobanteLines = [
+      `Punto de Venta y Comp. Nro: ${document.formattedNumber}`,
+      `Fecha de Emisión: ${formatDate(new Date(document.fechaEmision))}`,
+      `CUIT: ${emisor.cuit}`,
+      ...(emisor.iibb ? [`Ingresos Brutos: ${emisor.iibb}`] : []),
+      ...(emisor.inicioActividades ? [`Inicio de Actividades: ${emisor.inicioActividades}`] : [])
+    ]
+    doc.text(comprobanteLines, middle + 4, 42)
+
+    // Receptor
+    doc.rect(left, 64, right - left, 22)
+    doc.text([
+      `Apellido y Nombre / Razón Social: ${receptor.nombre}`,
+      ...(receptor.docNro ? [`${receptor.docTipo}: ${receptor.docNro}`] : []),
+      `Condición frente al IVA: ${receptor.condicionIva}`,
+      ...(receptor.domicilio ? [`Domicilio: ${receptor.domicilio}`] : [])
+    ], left + 4, 69)
+
+    let yPosition = 92
+    if (data.associatedDocument) {
+      const asociado = data.associatedDocument
+      doc.text(
+        `Comprobante asociado: ${asociado.type?.replace(/_/g, ' ') ?? ''} ${asociado.formattedNumber} del ${formatDate(new Date(asociado.fechaEmision))}`,
+        left,
+        yPosition
+      )
+      yPosition += 5
+      if (document.motivo) {
+        const motivoLines = doc.splitTextToSize(`Motivo: ${document.motivo}`, right - left)
+        doc.text(motivoLines, left, yPosition)
+        yPosition += motivoLines.length * 4 + 1
+      }
+    }
+
+    // Items
+    doc.setFillColor(238, 238, 238)
+    doc.rect(left, yPosition, right - left, 7, 'FD')
+    doc.setFont('helvetica', 'bold')
+    doc.text('Producto', left + 2, yPosition + 5)
+    doc.text('Cant.', 125, yPosition + 5, { align: 'right' })
+    doc.text('Precio Unit.', 158, yPosition + 5, { align: 'right' })
+    doc.text('Subtotal', right - 2, yPosition + 5, { align: 'right' })
+    yPosition += 12
+
+    doc.setFont('helvetica', 'normal')
+    data.items.forEach((item) => {
+      if (yPosition > 215) {
+        doc.addPage()
+        yPosition = 20
+      }
+      const nameLines = doc.splitTextToSize(item.description, 95)
+      doc.text(nameLines, left + 2, yPosition)
+      doc.text(String(item.quantity), 125, yPosition, { align: 'right' })
+      doc.text(formatCurrency(item.unitPrice), 158, yPosition, { align: 'right' })
+      doc.text(formatCurrency(item.subtotal), right - 2, yPosition, { align: 'right' })
+      yPosition += Math.max(nameLines.length * 4, 5) + 1
+    })
+
+    // Totales (Factura A discrimina IVA por alícuota)
+    yPosition += 2
+    doc.line(left, yPosition, right, yPosition)
+    yPosition += 6
+
+    const totalRow = (label: string, value: number, bold = false) => {
+      doc.setFont('helvetica', bold ? 'bold' : 'normal')
+      doc.setFontSize(bold ? 12 : 9)
+      doc.text(label, 158, yPosition, { align: 'right' })
+      doc.text(formatCurrency(value), right - 2, yPosition, { align: 'right' })
+      yPosition += bold ? 7 : 5
+    }
+
+    if (data.discount > 0) {
+      totalRow('Subtotal:', data.subtotal)
+      totalRow('Descuento:', -data.discount)
+    }
+    if (document.letra === 'A') {
+      totalRow('Importe Neto Gravado:', document.impNeto)
+      document.alicIva.forEach(alicuota => totalRow(`IVA ${alicuota.porcentaje}%:`, alicuota.Importe))
+    }
+    totalRow('Importe Total:', data.total, true)
+
+    // Pie: QR y datos de autorización
+    const footerY = 250
+    doc.addImage(qrImage, 'PNG', left, footerY, 30, 30)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.text('Comprobante Autorizado', left + 35, footerY + 6)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.text(`${document.emisionTipo} N°: ${document.cae}`, right, footerY + 6, { align: 'right' })
+    if (document.caeVto) {
+      doc.text(`Fecha de Vto. de ${document.emisionTipo}: ${formatDate(new Date(document.caeVto))}`, right, footerY + 11, { align: 'right' })
+    }
+    doc.setFontSize(6)
+    doc.text('Esta Agencia no se responsabiliza por los datos ingresados en el detalle de la operación', left + 35, footerY + 12)
+
+    doc.save(`${document.type ?? 'Comprobante'}-${document.formattedNumber}.pdf`)
+  }
+
   /**
    * Imprime un recibo de venta directamente usando la impresora del sistema
    * Genera HTML optimizado para impresoras térmicas (80mm)
@@ -655,6 +822,11 @@ export class PDFService {
       html += `<div class="total-row"><span>Descuentos:</span><span>-${formatCurrency(sale.totalDiscount.amount)}</span></div>`
     }
 
+    if (!sale.surcharge.isZero()) {
+      const label = sale.surcharge.isNegative() ? 'Desc. medio de pago:' : 'Recargo:'
+      html += `<div class="total-row"><span>${label}</span><span>${sale.surcharge.isNegative() ? '-' : '+'}${formatCurrency(Math.abs(sale.surcharge.amount))}</span></div>`
+    }
+
     html += `
       <div class="total-row total-final">
         <span>TOTAL:</span>
@@ -730,5 +902,116 @@ export class PDFService {
       }, 250)
     }
   }
-}
 
+  /**
+   * Genera el cierre Z (arqueo) de una sesión de caja cerrada
+   */
+  static generateZReport(session: CashSessionRecord, cashierName?: string): void {
+    const summary = session.summary
+    if (session.status !== 'closed' || !summary) {
+      throw new Error('La sesión de caja no está cerrada')
+    }
+
+    const doc = new jsPDF({
+      orientation: 'portrait',
+      unit: 'mm',
+      format: [80, 200]
+    })
+
+    let yPosition = 10
+
+    const row = (label: string, value: string, bold = false) => {
+      doc.setFont('helvetica', 'normal')
+      doc.text(label, 5, yPosition)
+      doc.setFont('helvetica', bold ? 'bold' : 'normal')
+      doc.text(value, 75, yPosition, { align: 'right' })
+      yPosition += 5
+    }
+
+    const separator = (width = 0.3) => {
+      doc.setLineWidth(width)
+      doc.line(5, yPosition, 75, yPosition)
+      yPosition += 5
+    }
+
+    doc.setFontSize(16)
+    doc.setFont('helvetica', 'bold')
+    doc.text('COTILLÓN MANAGER', 40, yPosition, { align: 'center' })
+    yPosition += 7
+
+    doc.setFontSize(12)
+    doc.text('CIERRE Z', 40, yPosition, { align: 'center' })
+    yPosition += 5
+    separator(0.5)
+
+    doc.setFontSize(9)
+    if (cashierName) {
+      row('Cajero:', cashierName)
+    }
+    row('Apertura:', formatDateTime(session.openedAt))
+    row('Cierre:', session.closedAt ? formatDateTime(session.closedAt) : '-')
+    separator()
+
+    // Ventas por método de pago
+    doc.setFont('helvetica', 'bold')
+    doc.text(`Ventas (${summary.salesCount})`, 5, yPosition)
+    yPosition += 5
+    doc.setFontSize(8)
+    summary.byMethod.forEach(method => {
+      row(`  ${method.name}`, formatCurrency(method.amount))
+    })
+    doc.setFontSize(9)
+    row('Total vendido:', formatCurrency(summary.salesTotal), true)
+    separator()
+
+    // Flujo de efectivo
+    doc.setFont('helvetica', 'bold')
+    doc.text('Efectivo', 5, yPosition)
+    yPosition += 5
+    row('Fondo inicial:', formatCurrency(summary.openingAmount))
+    row('Ventas en efectivo:', formatCurrency(summary.cashSales))
+    if (summary.cashRefunds !== 0) {
+      row('Devoluciones:', formatCurrency(-summary.cashRefunds))
+    }
+    row('Ingresos:', formatCurrency(summary.deposits))
+    row('Retiros:', formatCurrency(-summary.withdrawals))
+    row('Esperado:', formatCurrency(session.expectedCash ?? summary.expectedCash), true)
+    row('Contado:', formatCurrency(session.countedCash ?? 0), true)
+    const difference = session.difference ?? 0
+    row(
+      difference > 0 ? 'Sobrante:' : difference < 0 ? 'Faltante:' : 'Diferencia:',
+      formatCurrency(Math.abs(difference)),
+      true
+    )
+
+    // Movimientos manuales
+    if (session.movements.length > 0) {
+      separator()
+      doc.setFont('helvetica', 'bold')
+      doc.text('Movimientos', 5, yPosition)
+      yPosition += 5
+      doc.setFontSize(8)
+      session.movements.forEach(movement => {
+        if (yPosition > 185) {
+          doc.addPage()
+          yPosition = 10
+        }
+        const reason = movement.reason.length > 28 ? movement.reason.substring(0, 25) + '...' : movement.reason
+        const sign = movement.type === 'withdrawal' ? -1 : 1
+        row(`  ${reason}`, formatCurrency(sign * movement.amount))
+      })
+      doc.setFontSize(9)
+    }
+
+    if (session.notes) {
+      separator()
+      doc.setFontSize(8)
+      doc.setFont('helvetica', 'italic')
+      const notesLines = doc.splitTextToSize(`Notas: ${session.notes}`, 70)
+      doc.text(notesLines, 5, yPosition)
+    }
+
+    const fileName = `Cierre-Z-${formatDate(session.closedAt ?? session.openedAt).replace(/\//g, '-')}-${session.id.slice(0, 8)}.pdf`
+    doc.save(fileName)
+  }
+}
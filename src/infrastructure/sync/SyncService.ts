@@ -8,11 +8,26 @@
  * 4. Se hace pull de cambios del servidor
  */
 
-import { db, type SyncConflictRecord, type ConflictResolutionStrategy } from '../persistence/indexeddb/database'
+import {
+  db,
+  type SyncConflictRecord,
+  type ConflictResolutionStrategy,
+  type CustomerRecord,
+  type SaleRecord,
+  type SaleReturnRecord,
+  type StockMovementRecord,
+  type SupplierRecord,
+  type UserRecord
+} from '../persistence/indexeddb/database'
+import type { StockMovementType } from '@shared/types'
 import { apiClient } from '../api/client'
+import { threeWayMerge } from './threeWayMerge'
+import { getRetryDelay, isDeadLetter } from './retryPolicy'
+import { getOrCreateDeviceId } from './deviceId'
+import { coalesceOperation, groupByDependencyLevel, recordKey, selectReadyOperations } from './queuePlanner'
 
 export type SyncOperation = 'create' | 'update' | 'delete'
-export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error'
+export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error' | 'dead_letter'
 
 export interface SyncQueueItem {
   id: string
@@ -24,22 +39,78 @@ export interface SyncQueueItem {
   status: SyncStatus
   retries: number
   error?: string
+  nextRetryAt?: string
+  baseData?: Record<string, unknown> | null
+}
+
+interface SyncTombstone {
+  tableName: string
+  recordId: string
+  deletedAt: string
 }
 
 interface SyncPullResponse {
   syncedAt: string
+  cursor: number
+  hasMore: boolean
+  tombstones: SyncTombstone[]
   changes: {
     categories: unknown[]
     products: unknown[]
     variants: unknown[]
     paymentMethods: unknown[]
+    customers: unknown[]
+    suppliers: unknown[]
+    users: unknown[]
+    sales: unknown[]
+    saleReturns: unknown[]
+    stockMovements: unknown[]
   }
 }
 
+// Cursor del change log del servidor (ver /sync/pull)
+const SYNC_CURSOR_KEY = 'sync_cursor'
+const PULL_PAGE_SIZE = 200
+// Operaciones por request de push (cada chunk se confirma por separado)
+const PUSH_CHUNK_SIZE = 50
+
+// Tablas locales que pueden recibir tombstones del servidor
+const TOMBSTONE_TABLES = new Set([
+  'categories',
+  'products',
+  'productVariants',
+  'paymentMethods',
+  'customers',
+  'suppliers',
+  'users',
+  'sales',
+  'stockMovements'
+])
+
+// Tipos de movimiento del servidor (Prisma) a tipos locales
+const STOCK_MOVEMENT_TYPE_FROM_SERVER: Record<string, StockMovementType> = {
+  ENTRY: 'purchase',
+  SALE: 'sale',
+  RETURN: 'return',
+  ADJUSTMENT: 'adjustment',
+  LOSS: 'damage'
+}
+
+export interface StockShortage {
+  variantId: string
+  requested: number
+  available: number
+}
+
 interface SyncPushResult {
   id: string
   status: 'success' | 'error'
   error?: string
+  duplicate?: boolean
+  tombstoned?: boolean
+  stockShortages?: StockShortage[]
+  // Stock autoritativo de las variantes afectadas por la operación
+  stockLevels?: Array<{ variantId: string; currentStock: number }>
 }
 
 interface SyncPushResponse {
@@ -52,32 +123,27 @@ class SyncService {
   private isSyncing: boolean = false
   private deviceId: string
   private listeners: Set<(status: SyncServiceStatus) => void> = new Set()
+  private eventSource: EventSource | null = null
+  private isRealtimeConnected: boolean = false
+  private syncRequested: boolean = false
 
   constructor() {
-    this.deviceId = this.getOrCreateDeviceId()
+    this.deviceId = getOrCreateDeviceId()
     this.setupNetworkListeners()
   }
 
-  private getOrCreateDeviceId(): string {
-    let deviceId = localStorage.getItem('device_id')
-    if (!deviceId) {
-      deviceId = crypto.randomUUID()
-      localStorage.setItem('device_id', deviceId)
-    }
-    return deviceId
-  }
-
   private setupNetworkListeners() {
     window.addEventListener('online', () => {
       this.isOnline = true
       this.notifyListeners()
       // No sincronizar automáticamente aquí para evitar loops
       // El SyncProvider manejará la sincronización automática
+      this.connectRealtime()
     })
 
     window.addEventListener('offline', () => {
       this.isOnline = false
-      this.notifyListeners()
+      this.disconnectRealtime()
     })
   }
 
@@ -96,17 +162,79 @@ class SyncService {
     return {
       isOnline: this.isOnline,
       isSyncing: this.isSyncing,
+      isRealtimeConnected: this.isRealtimeConnected,
       deviceId: this.deviceId
     }
   }
 
+  // Conectar al canal de eventos del servidor: ante cada aviso de cambios se hace pull inmediato.
+  // Mientras no esté conectado, el SyncProvider sigue sincronizando por intervalo.
+  connectRealtime(): void {
+    if (this.eventSource || !this.isOnline || !apiClient.isAuthenticated() || typeof EventSource === 'undefined') {
+      return
+    }
+
+    const source = new EventSource(apiClient.getStreamUrl('/sync/events'))
+
+    source.addEventListener('ready', () => {
+      this.isRealtimeConnected = true
+      this.notifyListeners()
+      // Ponerse al día con lo ocurrido mientras no había conexión
+      this.requestSync()
+    })
+
+    source.addEventListener('changes', () => {
+      this.requestSync()
+    })
+
+    source.onerror = () => {
+      this.isRealtimeConnected = false
+      this.notifyListeners()
+
+      // EventSource reintenta solo; si la conexión quedó cerrada (ej: token inválido) se descarta
+      if (source.readyState === EventSource.CLOSED) {
+        source.close()
+        this.eventSource = null
+      }
+    }
+
+    this.eventSource = source
+  }
+
+  disconnectRealtime(): void {
+    this.eventSource?.close()
+    this.eventSource = null
+    this.isRealtimeConnected = false
+    this.notifyListeners()
+  }
+
+  // Sincronizar ahora o, si hay una sincronización en curso, apenas termine
+  private requestSync(): void {
+    if (this.isSyncing) {
+      this.syncRequested = true
+      return
+    }
+    this.sync()
+  }
+
+  private runRequestedSync(): void {
+    if (!this.syncRequested) return
+    this.syncRequested = false
+    setTimeout(() => this.sync(), 0)
+  }
+
   // Encolar operación para sincronización
+  // baseData: versión del registro antes del cambio (se usa para el merge a tres vías)
   async queueOperation(
     operation: SyncOperation,
     tableName: string,
     recordId: string,
-    data: Record<string, unknown> | null
+    data: Record<string, unknown> | null,
+    baseData?: Record<string, unknown> | null
   ): Promise<void> {
+    // Con cambios previos sin sincronizar, la base sigue siendo la del primer cambio
+    const earlierBase = await this.getPendingBase(tableName, recordId)
+
     const queueItem: SyncQueueItem = {
       id: crypto.randomUUID(),
       operation,
@@ -115,10 +243,29 @@ class SyncService {
       data,
       timestamp: new Date().toISOString(),
       status: 'pending',
-      retries: 0
+      retries: 0,
+      baseData: earlierBase ?? baseData ?? null
     }
 
-    await db.syncQueue.add(queueItem)
+    // Combinar con la última operación pendiente del mismo registro
+    const previousOps = await db.syncQueue
+      .where('[tableName+recordId]')
+      .equals([tableName, recordId])
+      .filter(op => op.status !== 'synced')
+      .sortBy('timestamp')
+    const coalesced = coalesceOperation(previousOps[previousOps.length - 1], queueItem)
+
+    switch (coalesced.action) {
+      case 'append':
+        await db.syncQueue.add(queueItem)
+        break
+      case 'replace':
+        await db.syncQueue.put(coalesced.item)
+        break
+      case 'drop':
+        await db.syncQueue.bulkDelete(previousOps.filter(op => op.status === 'pending').map(op => op.id))
+        break
+    }
     this.notifyListeners()
 
     // Intentar sincronizar inmediatamente si hay conexión
@@ -127,12 +274,33 @@ class SyncService {
     }
   }
 
-  // Obtener operaciones pendientes
+  // Versión base de la operación pendiente más antigua de un registro
+  private async getPendingBase(tableName: string, recordId: string): Promise<Record<string, unknown> | null> {
+    const pendingOps = await db.syncQueue
+      .where('[tableName+recordId]')
+      .equals([tableName, recordId])
+      .filter(op => op.status !== 'synced' && !!op.baseData)
+      .sortBy('timestamp')
+
+    return pendingOps[0]?.baseData ?? null
+  }
+
+  // Obtener operaciones pendientes (las fallidas solo cuando venció su backoff)
   async getPendingOperations(): Promise<SyncQueueItem[]> {
-    return db.syncQueue
+    const now = new Date().toISOString()
+    const ops = await db.syncQueue
       .where('status')
       .anyOf(['pending', 'error'])
+      .filter(op => op.status === 'pending' || !op.nextRetryAt || op.nextRetryAt <= now)
       .toArray()
+
+    return ops.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+
+  // Operaciones que agotaron sus reintentos automáticos
+  async getDeadLetterOperations(): Promise<SyncQueueItem[]> {
+    const ops = await db.syncQueue.where('status').equals('dead_letter').toArray()
+    return ops.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
   }
 
   // Contar operaciones pendientes
@@ -144,7 +312,8 @@ class SyncService {
   }
 
   // Sincronizar con el servidor
-  async sync(): Promise<SyncResult> {
+  // skipPull: solo enviar la cola (con el canal en tiempo real conectado el pull llega por aviso)
+  async sync(options: { skipPull?: boolean } = {}): Promise<SyncResult> {
     if (!this.isOnline) {
       return { success: false, message: 'Sin conexión' }
     }
@@ -165,20 +334,23 @@ class SyncService {
       const pushResult = await this.pushChanges()
 
       // 2. Pull: obtener cambios del servidor
-      const pullResult = await this.pullChanges()
+      const pullResult = options.skipPull ? { pulled: 0 } : await this.pullChanges()
 
       this.isSyncing = false
       this.notifyListeners()
+      this.runRequestedSync()
 
       return {
         success: true,
         message: `Push: ${pushResult.pushed} operaciones. Pull: ${pullResult.pulled} cambios.`,
         pushed: pushResult.pushed,
-        pulled: pullResult.pulled
+        pulled: pullResult.pulled,
+        stockShortages: pushResult.stockShortages
       }
     } catch (error) {
       this.isSyncing = false
       this.notifyListeners()
+      this.runRequestedSync()
       
       const { getErrorMessage } = await import('@shared/errors')
       const message = getErrorMessage(error)
@@ -189,109 +361,246 @@ class SyncService {
     }
   }
 
-  // Push: enviar cambios locales al servidor
-  private async pushChanges(): Promise<{ pushed: number }> {
+  // Push: enviar la cola por nivel de dependencia y en chunks; cada chunk se confirma
+  // antes de enviar el siguiente. Las operaciones cuyo padre falló quedan en espera.
+  private async pushChanges(): Promise<{ pushed: number; stockShortages: StockShortage[] }> {
     const pendingOps = await this.getPendingOperations()
     
     if (pendingOps.length === 0) {
-      return { pushed: 0 }
+      return { pushed: 0, stockShortages: [] }
     }
 
-    // Marcar como syncing
-    await Promise.all(
-      pendingOps.map(op => 
-        db.syncQueue.update(op.id, { status: 'syncing' })
-      )
-    )
-
-    try {
-      const response = await apiClient.post<SyncPushResponse>('/sync/push', {
-        deviceId: this.deviceId,
-        operations: pendingOps.map(op => ({
-          id: op.id,
-          operation: op.operation,
-          tableName: op.tableName,
-          recordId: op.recordId,
-          data: op.data,
-          timestamp: op.timestamp
-        }))
-      })
+    let successCount = 0
+    const stockShortages: StockShortage[] = []
+    const stockLevels = new Map<string, number>()
 
-      // Procesar resultados
-      let successCount = 0
-      for (const result of response.results) {
-        const op = pendingOps.find(o => o.id === result.id)
-        if (!op) continue
-
-        if (result.status === 'success') {
-          // Eliminar de la cola
-          await db.syncQueue.delete(op.id)
-          successCount++
-        } else {
-          // Marcar como error
-          await db.syncQueue.update(op.id, {
-            status: 'error',
-            retries: op.retries + 1,
-            error: result.error
+    // Registros que no llegarán al servidor en este push (en backoff, dead-letter o fallidos ahora)
+    const dueIds = new Set(pendingOps.map(op => op.id))
+    const waitingOps = await db.syncQueue
+      .filter(op => op.status !== 'synced' && !dueIds.has(op.id))
+      .toArray()
+    const blocked = new Set(waitingOps.map(op => recordKey(op.tableName, op.recordId)))
+
+    for (const group of groupByDependencyLevel(pendingOps)) {
+      // En espera: se envían cuando el registro o su padre se sincronicen
+      const ready = selectReadyOperations(group, blocked)
+
+      for (let i = 0; i < ready.length; i += PUSH_CHUNK_SIZE) {
+        const chunk = ready.slice(i, i + PUSH_CHUNK_SIZE)
+
+        // Marcar como syncing
+        await db.syncQueue.bulkUpdate(chunk.map(op => ({ key: op.id, changes: { status: 'syncing' as const } })))
+
+        let response: SyncPushResponse
+        try {
+          response = await apiClient.post<SyncPushResponse>('/sync/push', {
+            deviceId: this.deviceId,
+            operations: chunk.map(op => ({
+              id: op.id,
+              operation: op.operation,
+              tableName: op.tableName,
+              recordId: op.recordId,
+              data: op.data,
+              timestamp: op.timestamp
+            }))
           })
+        } catch (error) {
+          // Falla de red: solo el chunk en curso cuenta un intento; los siguientes siguen pendientes
+          const message = error instanceof Error ? error.message : 'Error de red'
+          for (const op of chunk) {
+            await this.markOperationFailed(op, message)
+          }
+          throw error
+        }
+
+        // Procesar resultados
+        for (const op of chunk) {
+          const result = response.results.find(r => r.id === op.id)
+
+          if (!result) {
+            await this.markOperationFailed(op, 'Sin respuesta del servidor para la operación')
+            blocked.add(recordKey(op.tableName, op.recordId))
+          } else if (result.status === 'success') {
+            // Eliminar de la cola
+            await db.syncQueue.delete(op.id)
+            successCount++
+
+            // Las sesiones de caja no vuelven por pull: se marcan sincronizadas al confirmarse
+            if (op.tableName === 'cashSessions') {
+              await db.cashSessions.update(op.recordId, { syncStatus: 'synced', syncedAt: new Date() })
+            }
+
+            // Ventas offline registradas en el servidor con stock insuficiente
+            if (result.stockShortages) {
+              stockShortages.push(...result.stockShortages)
+            }
+
+            // Los resultados vienen en orden: el último valor de cada variante es el vigente
+            for (const level of result.stockLevels ?? []) {
+              stockLevels.set(level.variantId, level.currentStock)
+            }
+          } else if (result.tombstoned) {
+            // El registro fue eliminado en el servidor: descartar la operación y la copia local
+            await this.applyTombstone({
+              tableName: op.tableName,
+              recordId: op.recordId,
+              deletedAt: new Date().toISOString()
+            })
+            blocked.add(recordKey(op.tableName, op.recordId))
+          } else {
+            await this.markOperationFailed(op, result.error)
+            blocked.add(recordKey(op.tableName, op.recordId))
+          }
         }
       }
+    }
 
-      return { pushed: successCount }
-    } catch (error) {
-      // Revertir a pending
-      await Promise.all(
-        pendingOps.map(op => 
-          db.syncQueue.update(op.id, { 
-            status: 'error',
-            retries: op.retries + 1,
-            error: error instanceof Error ? error.message : 'Error de red'
-          })
-        )
-      )
-      throw error
+    // Reconciliar el stock local con el valor autoritativo del servidor
+    for (const [variantId, currentStock] of stockLevels) {
+      await this.reconcileVariantStock(variantId, currentStock)
     }
+
+    return { pushed: successCount, stockShortages }
   }
 
-  // Pull: obtener cambios del servidor
-  private async pullChanges(): Promise<{ pulled: number }> {
-    const lastSyncAt = localStorage.getItem('last_sync_at')
+  // Registrar un intento fallido: backoff exponencial o dead-letter si se agotaron los reintentos
+  private async markOperationFailed(op: SyncQueueItem, error?: string): Promise<void> {
+    const retries = op.retries + 1
 
-    const response = await apiClient.post<SyncPullResponse>('/sync/pull', {
-      deviceId: this.deviceId,
-      lastSyncAt: lastSyncAt || undefined // Enviar undefined en lugar de null
+    if (isDeadLetter(retries)) {
+      await db.syncQueue.update(op.id, {
+        status: 'dead_letter',
+        retries,
+        error,
+        nextRetryAt: undefined
+      })
+      return
+    }
+
+    await db.syncQueue.update(op.id, {
+      status: 'error',
+      retries,
+      error,
+      nextRetryAt: new Date(Date.now() + getRetryDelay(retries)).toISOString()
     })
+  }
 
+  // Pull: obtener cambios del servidor, página por página, hasta alcanzar al servidor
+  private async pullChanges(): Promise<{ pulled: number }> {
+    let pulledCount = 0
+    let hasMore = true
+
+    while (hasMore) {
+      const cursor = Number(localStorage.getItem(SYNC_CURSOR_KEY) ?? 0)
+
+      const response = await apiClient.post<SyncPullResponse>('/sync/pull', {
+        deviceId: this.deviceId,
+        cursor,
+        limit: PULL_PAGE_SIZE
+      })
+
+      pulledCount += await this.applyPulledChanges(response.changes)
+
+      // Los tombstones se aplican después de los cambios de la misma página
+      for (const tombstone of response.tombstones ?? []) {
+        await this.applyTombstone(tombstone)
+        pulledCount++
+      }
+
+      // Avanzar el cursor solo después de aplicar la página: si falla, se reanuda desde aquí
+      localStorage.setItem(SYNC_CURSOR_KEY, String(response.cursor))
+      localStorage.setItem('last_sync_at', response.syncedAt)
+      hasMore = response.hasMore
+    }
+
+    return { pulled: pulledCount }
+  }
+
+  // Aplicar una página de cambios del servidor a IndexedDB
+  private async applyPulledChanges(changes: SyncPullResponse['changes']): Promise<number> {
     let pulledCount = 0
 
     // Procesar categorías
-    for (const cat of response.changes.categories) {
+    for (const cat of changes.categories) {
       await this.mergeCategory(cat as ServerCategory)
       pulledCount++
     }
 
     // Procesar productos
-    for (const prod of response.changes.products) {
+    for (const prod of changes.products) {
       await this.mergeProduct(prod as ServerProduct)
       pulledCount++
     }
 
     // Procesar variantes
-    for (const variant of response.changes.variants) {
+    for (const variant of changes.variants) {
       await this.mergeVariant(variant as ServerVariant)
       pulledCount++
     }
 
     // Procesar métodos de pago
-    for (const pm of response.changes.paymentMethods) {
+    for (const pm of changes.paymentMethods) {
       await this.mergePaymentMethod(pm as ServerPaymentMethod)
       pulledCount++
     }
 
-    // Guardar timestamp de última sincronización
-    localStorage.setItem('last_sync_at', response.syncedAt)
+    // Procesar clientes
+    for (const customer of changes.customers) {
+      await this.mergeCustomer(customer as ServerCustomer)
+      pulledCount++
+    }
 
-    return { pulled: pulledCount }
+    // Procesar proveedores
+    for (const supplier of changes.suppliers) {
+      await this.mergeSupplier(supplier as ServerSupplier)
+      pulledCount++
+    }
+
+    // Procesar usuarios (el servidor no envía el hash de contraseña)
+    for (const user of changes.users) {
+      await this.mergeUser(user as ServerUser)
+      pulledCount++
+    }
+
+    // Procesar ventas de otros dispositivos
+    for (const sale of changes.sales) {
+      await this.mergeSale(sale as ServerSale)
+      pulledCount++
+    }
+
+    // Procesar devoluciones y cambios (inmutables, sin conflictos)
+    for (const saleReturn of changes.saleReturns) {
+      await this.mergeSaleReturn(saleReturn as ServerSaleReturn)
+      pulledCount++
+    }
+
+    // Procesar movimientos de stock (inmutables, sin conflictos)
+    for (const movement of changes.stockMovements) {
+      await this.mergeStockMovement(movement as ServerStockMovement)
+      pulledCount++
+    }
+
+    return pulledCount
+  }
+
+  // Eliminar localmente un registro borrado en el servidor, junto con sus operaciones y conflictos pendientes
+  private async applyTombstone(tombstone: SyncTombstone): Promise<void> {
+    if (!TOMBSTONE_TABLES.has(tombstone.tableName)) return
+
+    await db.transaction('rw', [db.table(tombstone.tableName), db.syncQueue, db.syncConflicts], async () => {
+      await db.table(tombstone.tableName).delete(tombstone.recordId)
+
+      await db.syncQueue
+        .where('[tableName+recordId]')
+        .equals([tombstone.tableName, tombstone.recordId])
+        .delete()
+
+      await db.syncConflicts
+        .where('[tableName+recordId]')
+        .equals([tombstone.tableName, tombstone.recordId])
+        .filter(conflict => !conflict.resolution)
+        .delete()
+    })
   }
 
   // Detectar si hay un conflicto
@@ -317,6 +626,8 @@ class SyncService {
   }
 
   // Guardar conflicto
+  // Calcula el merge a tres vías contra la base de la cola: si ningún campo quedó en
+  // conflicto se resuelve automáticamente; si no, se guarda para resolución campo por campo
   private async saveConflict(
     tableName: string,
     recordId: string,
@@ -325,6 +636,9 @@ class SyncService {
     localUpdatedAt: string,
     serverUpdatedAt: string
   ): Promise<void> {
+    const baseData = await this.getPendingBase(tableName, recordId)
+    const { merged, conflictingFields } = threeWayMerge(baseData, localData, serverData)
+
     // Verificar si ya existe un conflicto sin resolver
     // Nota: No podemos usar .and() con funciones en Dexie, así que obtenemos todos y filtramos
     const allConflicts = await db.syncConflicts
@@ -333,27 +647,36 @@ class SyncService {
       .toArray()
     const existing = allConflicts.find(c => !c.resolution)
 
+    const conflictData = {
+      localData,
+      serverData,
+      baseData,
+      mergedData: merged,
+      conflictingFields,
+      localUpdatedAt,
+      serverUpdatedAt
+    }
+
+    let conflictId: string
     if (existing) {
       // Actualizar conflicto existente
-      await db.syncConflicts.update(existing.id, {
-        localData,
-        serverData,
-        localUpdatedAt,
-        serverUpdatedAt
-      })
+      conflictId = existing.id
+      await db.syncConflicts.update(existing.id, conflictData)
     } else {
       // Crear nuevo conflicto
+      conflictId = crypto.randomUUID()
       await db.syncConflicts.add({
-        id: crypto.randomUUID(),
+        id: conflictId,
         tableName,
         recordId,
-        localData,
-        serverData,
-        localUpdatedAt,
-        serverUpdatedAt,
+        ...conflictData,
         conflictDetectedAt: new Date().toISOString()
       })
     }
+
+    if (conflictingFields.length === 0) {
+      await this.resolveConflict(conflictId, 'merge')
+    }
   }
 
   // Merge helpers con detección de conflictos
@@ -470,7 +793,7 @@ class SyncService {
           name: serverProd.name,
           description: serverProd.description ?? '',
           categoryId: serverProd.categoryId,
-          basePrice: serverProd.basePrice,
+          basePriceCents: Math.round(Number(serverProd.basePrice) * 100),
           minStock: serverProd.minStock,
           isActive: serverProd.isActive,
           updatedAt: serverProd.updatedAt
@@ -538,7 +861,6 @@ class SyncService {
           color: local.color,
           size: local.size,
           priceCents: local.priceCents,
-          currentStock: local.currentStock,
           barcode: local.barcode,
           isActive: local.isActive,
           updatedAt: local.updatedAt.toISOString()
@@ -549,8 +871,7 @@ class SyncService {
           sku: serverVar.sku,
           color: serverVar.color,
           size: serverVar.size,
-          price: serverVar.price,
-          currentStock: serverVar.currentStock,
+          priceCents: serverVar.price ? Math.round(Number(serverVar.price) * 100) : undefined,
           barcode: serverVar.barcode,
           isActive: serverVar.isActive,
           updatedAt: serverVar.updatedAt
@@ -558,10 +879,7 @@ class SyncService {
         local.updatedAt.toISOString(),
         serverVar.updatedAt
       )
-      return
-    }
-
-    if (serverUpdatedAt > localUpdatedAt) {
+    } else if (serverUpdatedAt > localUpdatedAt) {
       await db.productVariants.put({
         ...local,
         productId: serverVar.productId,
@@ -569,7 +887,6 @@ class SyncService {
         color: serverVar.color ?? undefined,
         size: serverVar.size ?? undefined,
         priceCents: serverVar.price ? Math.round(Number(serverVar.price) * 100) : undefined,
-        currentStock: serverVar.currentStock,
         barcode: serverVar.barcode ?? undefined,
         isActive: serverVar.isActive,
         updatedAt: serverUpdatedAt,
@@ -577,6 +894,48 @@ class SyncService {
         syncedAt: new Date()
       })
     }
+
+    // El stock no se mergea: siempre se toma el del servidor más lo pendiente de este dispositivo
+    await this.reconcileVariantStock(serverVar.id, serverVar.currentStock)
+  }
+
+  // Stock local = stock autoritativo del servidor + movimientos de este dispositivo aún no sincronizados
+  private async reconcileVariantStock(variantId: string, serverStock: number): Promise<void> {
+    const pendingDelta = await this.getPendingStockDelta(variantId)
+    await db.productVariants.update(variantId, { currentStock: serverStock + pendingDelta })
+  }
+
+  // Suma con signo de los movimientos de una variante que siguen en la cola
+  private async getPendingStockDelta(variantId: string): Promise<number> {
+    const pendingOps = await db.syncQueue
+      .filter(op => op.status !== 'synced' && op.operation === 'create' && !!op.data)
+      .toArray()
+
+    let delta = 0
+    for (const op of pendingOps) {
+      const data = op.data as Record<string, unknown>
+
+      if (op.tableName === 'stockMovements' && data.variantId === variantId) {
+        delta += Number(data.newStock) - Number(data.previousStock)
+      } else if (op.tableName === 'sales' && data.status === 'completed') {
+        const items = (data.items ?? []) as Array<{ variantId: string; quantity: number }>
+        for (const item of items) {
+          if (item.variantId === variantId) delta -= item.quantity
+        }
+      } else if (op.tableName === 'saleReturns') {
+        // Las unidades devueltas reingresan; las entregadas a cambio salen
+        const returned = (data.items ?? []) as Array<{ variantId: string; quantity: number }>
+        const exchanged = (data.exchangeItems ?? []) as Array<{ variantId: string; quantity: number }>
+        for (const item of returned) {
+          if (item.variantId === variantId) delta += item.quantity
+        }
+        for (const item of exchanged) {
+          if (item.variantId === variantId) delta -= item.quantity
+        }
+      }
+    }
+
+    return delta
   }
 
   private async mergePaymentMethod(serverPm: ServerPaymentMethod) {
@@ -587,7 +946,7 @@ class SyncService {
         id: serverPm.id,
         name: serverPm.name,
         type: serverPm.type.toLowerCase() as 'cash' | 'debit' | 'credit' | 'transfer' | 'qr' | 'other',
-        config: '{}',
+        config: JSON.stringify(serverPm.config ?? {}),
         isActive: serverPm.isActive,
         createdAt: serverPm.createdAt,
         updatedAt: serverPm.updatedAt,
@@ -631,6 +990,7 @@ class SyncService {
         ...local,
         name: serverPm.name,
         type: serverPm.type.toLowerCase() as 'cash' | 'debit' | 'credit' | 'transfer' | 'qr' | 'other',
+        config: JSON.stringify(serverPm.config ?? {}),
         isActive: serverPm.isActive,
         updatedAt: serverUpdatedAt,
         syncStatus: 'synced',
@@ -639,21 +999,449 @@ class SyncService {
     }
   }
 
+  private async mergeCustomer(serverCustomer: ServerCustomer) {
+    const local = await db.customers.get(serverCustomer.id)
+
+    if (!local) {
+      await db.customers.put({
+        id: serverCustomer.id,
+        name: serverCustomer.name,
+        documentNumber: serverCustomer.documentNumber ?? undefined,
+        ivaConditionId: serverCustomer.ivaConditionId ?? undefined,
+        phone: serverCustomer.phone ?? undefined,
+        email: serverCustomer.email ?? undefined,
+        address: serverCustomer.address ?? undefined,
+        notes: serverCustomer.notes ?? '',
+        isActive: serverCustomer.isActive,
+        createdAt: new Date(serverCustomer.createdAt),
+        updatedAt: new Date(serverCustomer.updatedAt),
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+      return
+    }
+
+    const localUpdatedAt = new Date(local.updatedAt)
+    const serverUpdatedAt = new Date(serverCustomer.updatedAt)
+
+    const hasConflict = await this.detectConflict('customers', serverCustomer.id, localUpdatedAt, serverUpdatedAt)
+
+    if (hasConflict) {
+      await this.saveConflict(
+        'customers',
+        serverCustomer.id,
+        {
+          id: local.id,
+          name: local.name,
+          documentNumber: local.documentNumber,
+          ivaConditionId: local.ivaConditionId,
+          phone: local.phone,
+          email: local.email,
+          address: local.address,
+          notes: local.notes,
+          isActive: local.isActive,
+          updatedAt: localUpdatedAt.toISOString()
+        },
+        {
+          id: serverCustomer.id,
+          name: serverCustomer.name,
+          documentNumber: serverCustomer.documentNumber ?? undefined,
+          ivaConditionId: serverCustomer.ivaConditionId ?? undefined,
+          phone: serverCustomer.phone ?? undefined,
+          email: serverCustomer.email ?? undefined,
+          address: serverCustomer.address ?? undefined,
+          notes: serverCustomer.notes ?? '',
+          isActive: serverCustomer.isActive,
+          updatedAt: serverCustomer.updatedAt
+        },
+        localUpdatedAt.toISOString(),
+        serverCustomer.updatedAt
+      )
+      return
+    }
+
+    if (serverUpdatedAt > localUpdatedAt) {
+      await db.customers.put({
+        ...local,
+        name: serverCustomer.name,
+        documentNumber: serverCustomer.documentNumber ?? undefined,
+        ivaConditionId: serverCustomer.ivaConditionId ?? undefined,
+        phone: serverCustomer.phone ?? undefined,
+        email: serverCustomer.email ?? undefined,
+        address: serverCustomer.address ?? undefined,
+        notes: serverCustomer.notes ?? '',
+        isActive: serverCustomer.isActive,
+        updatedAt: serverUpdatedAt,
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+    }
+  }
+
+  private async mergeSupplier(serverSupplier: ServerSupplier) {
+    const local = await db.suppliers.get(serverSupplier.id)
+
+    if (!local) {
+      await db.suppliers.put({
+        id: serverSupplier.id,
+        name: serverSupplier.name,
+        contactName: serverSupplier.contactName ?? undefined,
+        phone: serverSupplier.phone ?? undefined,
+        email: serverSupplier.email ?? undefined,
+        address: serverSupplier.address ?? undefined,
+        notes: serverSupplier.notes ?? '',
+        isActive: serverSupplier.isActive,
+        createdAt: new Date(serverSupplier.createdAt),
+        updatedAt: new Date(serverSupplier.updatedAt),
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+      return
+    }
+
+    const localUpdatedAt = new Date(local.updatedAt)
+    const serverUpdatedAt = new Date(serverSupplier.updatedAt)
+
+    const hasConflict = await this.detectConflict('suppliers', serverSupplier.id, localUpdatedAt, serverUpdatedAt)
+
+    if (hasConflict) {
+      await this.saveConflict(
+        'suppliers',
+        serverSupplier.id,
+        {
+          id: local.id,
+          name: local.name,
+          contactName: local.contactName,
+          phone: local.phone,
+          email: local.email,
+          address: local.address,
+          notes: local.notes,
+          isActive: local.isActive,
+          updatedAt: localUpdatedAt.toISOString()
+        },
+        {
+          id: serverSupplier.id,
+          name: serverSupplier.name,
+          contactName: serverSupplier.contactName ?? undefined,
+          phone: serverSupplier.phone ?? undefined,
+          email: serverSupplier.email ?? undefined,
+          address: serverSupplier.address ?? undefined,
+          notes: serverSupplier.notes ?? '',
+          isActive: serverSupplier.isActive,
+          updatedAt: serverSupplier.updatedAt
+        },
+        localUpdatedAt.toISOString(),
+        serverSupplier.updatedAt
+      )
+      return
+    }
+
+    if (serverUpdatedAt > localUpdatedAt) {
+      await db.suppliers.put({
+        ...local,
+        name: serverSupplier.name,
+        contactName: serverSupplier.contactName ?? undefined,
+        phone: serverSupplier.phone ?? undefined,
+        email: serverSupplier.email ?? undefined,
+        address: serverSupplier.address ?? undefined,
+        notes: serverSupplier.notes ?? '',
+        isActive: serverSupplier.isActive,
+        updatedAt: serverUpdatedAt,
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+    }
+  }
+
+  private async mergeUser(serverUser: ServerUser) {
+    const local = await db.users.get(serverUser.id)
+    const role = serverUser.role.toLowerCase() as UserRecord['role']
+
+    if (!local) {
+      await db.users.put({
+        id: serverUser.id,
+        name: serverUser.name,
+        email: serverUser.email,
+        role,
+        isActive: serverUser.isActive,
+        lastLoginAt: serverUser.lastLoginAt ? new Date(serverUser.lastLoginAt) : undefined,
+        createdAt: new Date(serverUser.createdAt),
+        updatedAt: new Date(serverUser.updatedAt),
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+      return
+    }
+
+    const localUpdatedAt = new Date(local.updatedAt)
+    const serverUpdatedAt = new Date(serverUser.updatedAt)
+
+    const hasConflict = await this.detectConflict('users', serverUser.id, localUpdatedAt, serverUpdatedAt)
+
+    if (hasConflict) {
+      await this.saveConflict(
+        'users',
+        serverUser.id,
+        {
+          id: local.id,
+          name: local.name,
+          email: local.email,
+          role: local.role,
+          isActive: local.isActive,
+          updatedAt: localUpdatedAt.toISOString()
+        },
+        {
+          id: serverUser.id,
+          name: serverUser.name,
+          email: serverUser.email,
+          role,
+          isActive: serverUser.isActive,
+          updatedAt: serverUser.updatedAt
+        },
+        localUpdatedAt.toISOString(),
+        serverUser.updatedAt
+      )
+      return
+    }
+
+    if (serverUpdatedAt > localUpdatedAt) {
+      // Se conserva el passwordHash local (si existe) para el login offline
+      await db.users.put({
+        ...local,
+        name: serverUser.name,
+        email: serverUser.email,
+        role,
+        isActive: serverUser.isActive,
+        lastLoginAt: serverUser.lastLoginAt ? new Date(serverUser.lastLoginAt) : local.lastLoginAt,
+        updatedAt: serverUpdatedAt,
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+    }
+  }
+
+  private async mergeSale(serverSale: ServerSale) {
+    const local = await db.sales.get(serverSale.id)
+    const status = serverSale.status.toLowerCase() as SaleRecord['status']
+
+    if (!local) {
+      await db.transaction('rw', [db.sales, db.salePayments], async () => {
+        await db.sales.put({
+          id: serverSale.id,
+          receiptNumber: serverSale.receiptNumber,
+          userId: serverSale.userId,
+          customerId: serverSale.customerId ?? undefined,
+          items: serverSale.items.map(item => ({
+            id: item.id,
+            variantId: item.variantId,
+            productName: item.variant.product.name,
+            variantName: [item.variant.color, item.variant.size].filter(Boolean).join(' - ') || 'Estándar',
+            quantity: item.quantity,
+            unitPriceCents: Math.round(Number(item.unitPrice) * 100),
+            unitPriceCurrency: 'ARS',
+            discountPercentage: Number(item.discount),
+            returnedQuantity: item.returnedQuantity ?? 0
+          })),
+          paymentMethodId: serverSale.paymentMethodId,
+          paymentMethodType: serverSale.paymentMethod.type.toLowerCase() as 'cash' | 'debit' | 'credit' | 'transfer' | 'qr' | 'other',
+          status,
+          notes: serverSale.notes ?? '',
+          subtotalCents: Math.round(Number(serverSale.subtotal) * 100),
+          discountCents: Math.round(Number(serverSale.discount) * 100),
+          surchargeCents: Math.round(Number(serverSale.surcharge ?? 0) * 100),
+          totalCents: Math.round(Number(serverSale.total) * 100),
+          paymentFeesCents: Math.round(Number(serverSale.paymentFees ?? 0) * 100),
+          currency: 'ARS',
+          createdAt: new Date(serverSale.createdAt),
+          updatedAt: new Date(serverSale.updatedAt),
+          syncStatus: 'synced',
+          syncedAt: new Date()
+        })
+
+        // Una venta con un único pago no necesita registros de pago dividido
+        if (serverSale.payments.length > 1) {
+          await db.salePayments.bulkPut(serverSale.payments.map(payment => ({
+            id: payment.id,
+            saleId: serverSale.id,
+            paymentMethodId: payment.paymentMethodId,
+            amount: Number(payment.amount),
+            tendered: payment.tendered != null ? Number(payment.tendered) : undefined,
+            change: Number(payment.change ?? 0),
+            installments: payment.installments ?? 1,
+            surcharge: Number(payment.surcharge ?? 0),
+            fee: Number(payment.fee ?? 0),
+            createdAt: new Date(payment.createdAt),
+            updatedAt: new Date(payment.createdAt),
+            syncStatus: 'synced' as const,
+            syncedAt: new Date()
+          })))
+        }
+      })
+      return
+    }
+
+    const localUpdatedAt = new Date(local.updatedAt)
+    const serverUpdatedAt = new Date(serverSale.updatedAt)
+
+    const hasConflict = await this.detectConflict('sales', serverSale.id, localUpdatedAt, serverUpdatedAt)
+
+    if (hasConflict) {
+      // Una venta solo cambia de estado luego de creada
+      await this.saveConflict(
+        'sales',
+        serverSale.id,
+        {
+          id: local.id,
+          receiptNumber: local.receiptNumber,
+          status: local.status,
+          notes: local.notes,
+          updatedAt: localUpdatedAt.toISOString()
+        },
+        {
+          id: serverSale.id,
+          receiptNumber: serverSale.receiptNumber,
+          status,
+          notes: serverSale.notes ?? '',
+          updatedAt: serverSale.updatedAt
+        },
+        localUpdatedAt.toISOString(),
+        serverSale.updatedAt
+      )
+      return
+    }
+
+    if (serverUpdatedAt > localUpdatedAt) {
+      // Las devoluciones parciales registradas en el servidor actualizan las unidades devueltas
+      const returnedByItem = new Map(serverSale.items.map(item => [item.id, item.returnedQuantity ?? 0]))
+      await db.sales.put({
+        ...local,
+        items: local.items.map(item => ({
+          ...item,
+          returnedQuantity: returnedByItem.get(item.id) ?? item.returnedQuantity
+        })),
+        status,
+        notes: serverSale.notes ?? '',
+        updatedAt: serverUpdatedAt,
+        syncStatus: 'synced',
+        syncedAt: new Date()
+      })
+    }
+  }
+
+  private async mergeSaleReturn(serverReturn: ServerSaleReturn) {
+    // Las devoluciones locales ya sincronizadas comparten id con el servidor
+    const exists = await db.saleReturns.get(serverReturn.id)
+    if (exists) {
+      if (exists.syncStatus !== 'synced') {
+        await db.saleReturns.update(serverReturn.id, { syncStatus: 'synced', syncedAt: new Date() })
+      }
+      return
+    }
+
+    const variantName = (variant: ServerSaleReturn['items'][number]['variant']) =>
+      [variant.color, variant.size].filter(Boolean).join(' - ') || 'Estándar'
+
+    const saleReturn: SaleReturnRecord = {
+      id: serverReturn.id,
+      saleId: serverReturn.saleId,
+      userId: serverReturn.userId,
+      reason: serverReturn.reason ?? '',
+      items: serverReturn.items.map(item => ({
+        saleItemId: item.saleItemId,
+        variantId: item.variantId,
+        productName: item.variant.product.name,
+        variantName: variantName(item.variant),
+        quantity: item.quantity,
+        amountCents: Math.round(Number(item.amount) * 100)
+      })),
+      exchangeItems: serverReturn.exchangeItems.map(item => ({
+        id: item.id,
+        variantId: item.variantId,
+        productName: item.variant.product.name,
+        variantName: variantName(item.variant),
+        quantity: item.quantity,
+        unitPriceCents: Math.round(Number(item.unitPrice) * 100),
+        discountPercentage: Number(item.discount)
+      })),
+      refunds: serverReturn.refunds.map(refund => ({
+        id: refund.id,
+        paymentMethodId: refund.paymentMethodId,
+        amount: Number(refund.amount)
+      })),
+      returnedTotalCents: Math.round(Number(serverReturn.returnedTotal) * 100),
+      exchangeTotalCents: Math.round(Number(serverReturn.exchangeTotal) * 100),
+      balanceCents: Math.round(Number(serverReturn.balance) * 100),
+      createdAt: new Date(serverReturn.createdAt),
+      updatedAt: new Date(serverReturn.updatedAt),
+      syncStatus: 'synced',
+      syncedAt: new Date()
+    }
+
+    await db.saleReturns.put(saleReturn)
+  }
+
+  private async mergeStockMovement(serverMovement: ServerStockMovement) {
+    // Los movimientos locales ya sincronizados comparten id con el servidor
+    const exists = await db.stockMovements.get(serverMovement.id)
+    if (exists) return
+
+    const movement: StockMovementRecord = {
+      id: serverMovement.id,
+      variantId: serverMovement.variantId,
+      userId: serverMovement.userId,
+      type: STOCK_MOVEMENT_TYPE_FROM_SERVER[serverMovement.type] ?? 'adjustment',
+      quantity: serverMovement.quantity,
+      previousStock: serverMovement.previousStock,
+      newStock: serverMovement.newStock,
+      reason: serverMovement.reason ?? '',
+      referenceId: serverMovement.referenceId ?? undefined,
+      createdAt: new Date(serverMovement.createdAt),
+      updatedAt: new Date(serverMovement.createdAt),
+      syncStatus: 'synced',
+      syncedAt: new Date()
+    }
+
+    await db.stockMovements.put(movement)
+  }
+
   // Limpiar cola de operaciones exitosas
   async clearSyncedOperations(): Promise<void> {
     await db.syncQueue.where('status').equals('synced').delete()
   }
 
-  // Reintentar operaciones fallidas
+  // Reintentar ahora las operaciones fallidas (sin esperar el backoff; conservan sus reintentos)
   async retryFailedOperations(): Promise<void> {
     await db.syncQueue
       .where('status')
       .equals('error')
-      .modify({ status: 'pending', retries: 0, error: undefined })
+      .modify({ nextRetryAt: undefined })
     
     this.sync()
   }
 
+  // Devolver a la cola operaciones en dead-letter (todas si no se indican ids)
+  async retryDeadLetterOperations(ids?: string[]): Promise<void> {
+    const ops = await this.getDeadLetterOperations()
+    const targets = ids ? ops.filter(op => ids.includes(op.id)) : ops
+
+    await db.syncQueue.bulkUpdate(targets.map(op => ({
+      key: op.id,
+      changes: { status: 'pending' as const, retries: 0, error: undefined, nextRetryAt: undefined }
+    })))
+    this.notifyListeners()
+
+    this.sync()
+  }
+
+  // Descartar operaciones en dead-letter (los cambios locales no se enviarán al servidor)
+  async discardDeadLetterOperations(ids?: string[]): Promise<void> {
+    const ops = await this.getDeadLetterOperations()
+    const targets = ids ? ops.filter(op => ids.includes(op.id)) : ops
+
+    await db.syncQueue.bulkDelete(targets.map(op => op.id))
+    this.notifyListeners()
+  }
+
   // Obtener conflictos pendientes
   async getPendingConflicts(): Promise<SyncConflictRecord[]> {
     const all = await db.syncConflicts.toArray()
@@ -661,6 +1449,7 @@ class SyncService {
   }
 
   // Resolver conflicto
+  // 'merge' usa el merge a tres vías; resolvedData permite elegir campo por campo los que quedaron en conflicto
   async resolveConflict(
     conflictId: string,
     strategy: ConflictResolutionStrategy,
@@ -681,6 +1470,11 @@ class SyncService {
         dataToApply = conflict.serverData
         break
       case 'merge':
+        dataToApply = {
+          ...(conflict.mergedData ?? threeWayMerge(conflict.baseData, conflict.localData, conflict.serverData).merged),
+          ...resolvedData
+        }
+        break
       case 'manual':
         dataToApply = resolvedData || conflict.localData
         break
@@ -688,8 +1482,17 @@ class SyncService {
         throw new Error('Estrategia de resolución no válida')
     }
 
-    // Aplicar datos resueltos a la tabla correspondiente
-    await this.applyResolvedData(conflict.tableName, conflict.recordId, dataToApply)
+    if (strategy === 'server') {
+      // Descartar los cambios locales: aplicar la versión del servidor sin reencolar
+      await db.syncQueue
+        .where('[tableName+recordId]')
+        .equals([conflict.tableName, conflict.recordId])
+        .delete()
+      await this.applyResolvedData(conflict.tableName, conflict.recordId, dataToApply, null)
+    } else {
+      // La versión del servidor pasa a ser la base de la nueva operación
+      await this.applyResolvedData(conflict.tableName, conflict.recordId, dataToApply, conflict.serverData)
+    }
 
     // Marcar conflicto como resuelto
     await db.syncConflicts.update(conflictId, {
@@ -697,21 +1500,15 @@ class SyncService {
       resolvedAt: new Date().toISOString(),
       resolvedData: dataToApply
     })
-
-    // Eliminar operaciones pendientes relacionadas si se resolvió con 'server'
-    if (strategy === 'server') {
-      await db.syncQueue
-        .where('[tableName+recordId]')
-        .equals([conflict.tableName, conflict.recordId])
-        .delete()
-    }
   }
 
   // Aplicar datos resueltos a la tabla correspondiente
+  // serverBase: versión del servidor ya incorporada; null para no reencolar (se aceptó el servidor)
   private async applyResolvedData(
     tableName: string,
     recordId: string,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    serverBase: Record<string, unknown> | null
   ): Promise<void> {
     switch (tableName) {
       case 'categories':
@@ -750,12 +1547,57 @@ class SyncService {
           syncedAt: undefined
         } as any)
         break
+      case 'customers':
+        await db.customers.put({
+          ...(await db.customers.get(recordId)),
+          ...data,
+          updatedAt: new Date(),
+          syncStatus: 'pending',
+          syncedAt: undefined
+        } as CustomerRecord)
+        break
+      case 'suppliers':
+        await db.suppliers.put({
+          ...(await db.suppliers.get(recordId)),
+          ...data,
+          updatedAt: new Date(),
+          syncStatus: 'pending',
+          syncedAt: undefined
+        } as SupplierRecord)
+        break
+      case 'users':
+        await db.users.put({
+          ...(await db.users.get(recordId)),
+          ...data,
+          updatedAt: new Date(),
+          syncStatus: 'pending',
+          syncedAt: undefined
+        } as UserRecord)
+        break
+      case 'sales':
+        await db.sales.put({
+          ...(await db.sales.get(recordId)),
+          ...data,
+          updatedAt: new Date(),
+          syncStatus: 'pending',
+          syncedAt: undefined
+        } as SaleRecord)
+        break
       default:
         throw new Error(`Tabla no soportada: ${tableName}`)
     }
 
+    if (!serverBase) return
+
+    // Reemplazar las actualizaciones pendientes por una sola con el resultado resuelto
+    await db.syncQueue
+      .where('[tableName+recordId]')
+      .equals([tableName, recordId])
+      .filter(op => op.operation === 'update')
+      .delete()
+
     // Reencolar para sincronización
-    await this.queueOperation('update', tableName, recordId, data)
+    await this.queueOperation('update', tableName, recordId, data, serverBase)
   }
 }
 
@@ -802,13 +1644,147 @@ interface ServerPaymentMethod {
   name: string
   type: string
   isActive: boolean
+  config?: Record<string, unknown> | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface ServerCustomer {
+  id: string
+  name: string
+  documentNumber?: string | null
+  ivaConditionId?: number | null
+  phone?: string | null
+  email?: string | null
+  address?: string | null
+  notes?: string | null
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+interface ServerSupplier {
+  id: string
+  name: string
+  contactName?: string | null
+  phone?: string | null
+  email?: string | null
+  address?: string | null
+  notes?: string | null
+  isActive: boolean
   createdAt: string
   updatedAt: string
 }
 
+interface ServerUser {
+  id: string
+  name: string
+  email: string
+  role: 'ADMIN' | 'MANAGER' | 'SELLER'
+  isActive: boolean
+  lastLoginAt?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface ServerSale {
+  id: string
+  receiptNumber: string
+  userId: string
+  customerId?: string | null
+  paymentMethodId: string
+  paymentMethod: { type: string }
+  status: string
+  notes?: string | null
+  subtotal: string | number
+  discount: string | number
+  surcharge?: string | number
+  total: string | number
+  paymentFees?: string | number
+  items: Array<{
+    id: string
+    variantId: string
+    quantity: number
+    returnedQuantity?: number
+    unitPrice: string | number
+    discount: string | number
+    variant: {
+      sku: string
+      color?: string | null
+      size?: string | null
+      product: { name: string }
+    }
+  }>
+  payments: Array<{
+    id: string
+    paymentMethodId: string
+    amount: string | number
+    tendered: string | number | null
+    change?: string | number
+    installments?: number
+    surcharge?: string | number
+    fee?: string | number
+    createdAt: string
+  }>
+  createdAt: string
+  updatedAt: string
+}
+
+interface ServerSaleReturnVariant {
+  color?: string | null
+  size?: string | null
+  product: { name: string }
+}
+
+interface ServerSaleReturn {
+  id: string
+  saleId: string
+  userId: string
+  reason?: string | null
+  returnedTotal: string | number
+  exchangeTotal: string | number
+  balance: string | number
+  items: Array<{
+    saleItemId: string
+    variantId: string
+    quantity: number
+    amount: string | number
+    variant: ServerSaleReturnVariant
+  }>
+  exchangeItems: Array<{
+    id: string
+    variantId: string
+    quantity: number
+    unitPrice: string | number
+    discount: string | number
+    variant: ServerSaleReturnVariant
+  }>
+  refunds: Array<{
+    id: string
+    paymentMethodId: string
+    amount: string | number
+  }>
+  createdAt: string
+  updatedAt: string
+}
+
+interface ServerStockMovement {
+  id: string
+  variantId: string
+  userId: string
+  type: string
+  quantity: number
+  previousStock: number
+  newStock: number
+  reason?: string | null
+  referenceId?: string | null
+  createdAt: string
+}
+
 export interface SyncServiceStatus {
   isOnline: boolean
   isSyncing: boolean
+  isRealtimeConnected: boolean
   deviceId: string
 }
 
@@ -817,6 +1793,7 @@ export interface SyncResult {
   message: string
   pushed?: number
   pulled?: number
+  stockShortages?: StockShortage[]
 }
 
 // Instancia singleton
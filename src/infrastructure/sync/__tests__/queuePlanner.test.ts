@@ -0,0 +1,126 @@
+/**
+ * Tests para la planificación de la cola de sincronización
+ */
+
+import { describe, it, expect } from 'vitest'
+import { coalesceOperation, getDependencies, groupByDependencyLevel, recordKey, selectReadyOperations } from '../queuePlanner'
+import type { SyncQueueRecord } from '@infrastructure/persistence/indexeddb/database'
+
+function op(overrides: Partial<SyncQueueRecord>): SyncQueueRecord {
+  return {
+    id: crypto.randomUUID(),
+    tableName: 'products',
+    recordId: 'p-1',
+    operation: 'update',
+    data: {},
+    timestamp: '2026-01-01T10:00:00.000Z',
+    status: 'pending',
+    retries: 0,
+    ...overrides
+  }
+}
+
+describe('coalesceOperation', () => {
+  it('debe combinar updates consecutivos conservando la primera operación', () => {
+    const last = op({ data: { name: 'Globo', minStock: 5 } })
+    const incoming = op({ data: { name: 'Globo XL' }, timestamp: '2026-01-01T11:00:00.000Z' })
+
+    const result = coalesceOperation(last, incoming)
+
+    expect(result).toEqual({
+      action: 'replace',
+      item: { ...last, data: { name: 'Globo XL', minStock: 5 } }
+    })
+  })
+
+  it('debe descartar un create seguido de delete', () => {
+    const last = op({ operation: 'create', data: { name: 'Globo' } })
+
+    expect(coalesceOperation(last, op({ operation: 'delete', data: null }))).toEqual({ action: 'drop' })
+  })
+
+  it('no debe combinar con operaciones ya enviadas o con error', () => {
+    const last = op({ status: 'error' })
+
+    expect(coalesceOperation(last, op({}))).toEqual({ action: 'append' })
+  })
+})
+
+describe('groupByDependencyLevel', () => {
+  it('debe ordenar padres antes que hijos y las bajas al final', () => {
+    const movement = op({ tableName: 'stockMovements', operation: 'create', timestamp: '2026-01-01T09:00:00.000Z' })
+    const variant = op({ tableName: 'productVariants', operation: 'create' })
+    const deletedCategory = op({ tableName: 'categories', operation: 'delete', data: null })
+    const category = op({ tableName: 'categories', operation: 'create', timestamp: '2026-01-01T12:00:00.000Z' })
+
+    const groups = groupByDependencyLevel([movement, deletedCategory, variant, category])
+
+    expect(groups).toEqual([[category], [variant], [movement], [deletedCategory]])
+  })
+})
+
+describe('getDependencies', () => {
+  it('debe depender de las variantes y el cliente de una venta', () => {
+    const sale = op({
+      tableName: 'sales',
+      operation: 'create',
+      data: { customerId: 'c-1', paymentMethodId: 'pm-1', items: [{ variantId: 'v-1' }] }
+    })
+
+    expect(getDependencies(sale)).toEqual(['customers:c-1', 'paymentMethods:pm-1', 'productVariants:v-1'])
+  })
+
+  it('debe depender de la venta original en una devolución con cambio', () => {
+    const saleReturn = op({
+      tableName: 'saleReturns',
+      operation: 'create',
+      data: {
+        saleId: 's-1',
+        items: [{ saleItemId: 'i-1', variantId: 'v-1' }],
+        exchangeItems: [{ variantId: 'v-2' }],
+        refunds: [{ paymentMethodId: 'pm-1' }]
+      }
+    })
+
+    expect(getDependencies(saleReturn)).toEqual(['sales:s-1', 'productVariants:v-2', 'paymentMethods:pm-1'])
+  })
+
+  it('debe depender de la sesión de caja en la que se cobró la venta', () => {
+    const sale = op({
+      tableName: 'sales',
+      operation: 'create',
+      data: { cashSessionId: 'cs-1', paymentMethodId: 'pm-1', items: [] }
+    })
+
+    expect(getDependencies(sale)).toEqual(['cashSessions:cs-1', 'paymentMethods:pm-1'])
+  })
+})
+
+describe('selectReadyOperations', () => {
+  it('no debe enviar el update de un registro cuyo create está en backoff', () => {
+    const waitingCreate = op({ operation: 'create', status: 'error', nextRetryAt: '2026-01-01T12:00:00.000Z' })
+    const dueUpdate = op({ data: { name: 'Globo XL' }, timestamp: '2026-01-01T11:00:00.000Z' })
+    const blocked = new Set([recordKey(waitingCreate.tableName, waitingCreate.recordId)])
+
+    expect(selectReadyOperations([dueUpdate], blocked)).toEqual([])
+  })
+
+  it('debe retener a los hijos de un registro retenido', () => {
+    const dueUpdate = op({ data: { name: 'Globo XL' } })
+    const variant = op({ tableName: 'productVariants', recordId: 'v-1', operation: 'create', data: { productId: 'p-1' } })
+    const blocked = new Set(['products:p-1'])
+
+    selectReadyOperations([dueUpdate], blocked)
+
+    expect(selectReadyOperations([variant], blocked)).toEqual([])
+    expect(blocked.has('productVariants:v-1')).toBe(true)
+  })
+
+  it('debe enviar una sola operación por registro en cada grupo', () => {
+    const failedCreate = op({ operation: 'create', status: 'error', retries: 1 })
+    const update = op({ timestamp: '2026-01-01T11:00:00.000Z' })
+    const other = op({ recordId: 'p-2', operation: 'create' })
+
+    expect(selectReadyOperations([failedCreate, update, other], new Set())).toEqual([failedCreate, other])
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * Tests para la política de reintentos de sincronización
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getRetryDelay, isDeadLetter, MAX_SYNC_RETRIES } from '../retryPolicy'
+
+describe('retryPolicy', () => {
+  it('debe duplicar la demora en cada reintento', () => {
+    const noJitter = () => 1
+
+    expect(getRetryDelay(1, noJitter)).toBe(2_000)
+    expect(getRetryDelay(2, noJitter)).toBe(4_000)
+    expect(getRetryDelay(3, noJitter)).toBe(8_000)
+  })
+
+  it('debe aplicar jitter sobre la mitad de la demora', () => {
+    expect(getRetryDelay(3, () => 0)).toBe(4_000)
+    expect(getRetryDelay(3, () => 0.5)).toBe(6_000)
+  })
+
+  it('debe limitar la demora máxima', () => {
+    expect(getRetryDelay(50, () => 1)).toBe(5 * 60_000)
+  })
+
+  it('debe pasar a dead-letter al agotar los reintentos', () => {
+    expect(isDeadLetter(MAX_SYNC_RETRIES - 1)).toBe(false)
+    expect(isDeadLetter(MAX_SYNC_RETRIES)).toBe(true)
+  })
+})
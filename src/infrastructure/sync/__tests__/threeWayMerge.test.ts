@@ -0,0 +1,52 @@
+/**
+ * Tests para el merge a tres vías de conflictos de sincronización
+ */
+
+import { describe, it, expect } from 'vitest'
+import { threeWayMerge } from '../threeWayMerge'
+
+describe('threeWayMerge', () => {
+  const base = { id: 'p-1', name: 'Globo', description: 'Látex', basePriceCents: 1000, updatedAt: '2026-01-01' }
+
+  it('debe combinar cambios en campos distintos sin conflicto', () => {
+    const local = { ...base, description: 'Látex perlado', updatedAt: '2026-01-02' }
+    const server = { ...base, basePriceCents: 1200, updatedAt: '2026-01-03' }
+
+    const result = threeWayMerge(base, local, server)
+
+    expect(result.conflictingFields).toEqual([])
+    expect(result.merged.description).toBe('Látex perlado')
+    expect(result.merged.basePriceCents).toBe(1200)
+    expect(result.merged.updatedAt).toBe('2026-01-03')
+  })
+
+  it('debe marcar en conflicto los campos cambiados en ambos lados', () => {
+    const local = { ...base, name: 'Globo grande', basePriceCents: 1100 }
+    const server = { ...base, name: 'Globo XL', basePriceCents: 1100 }
+
+    const result = threeWayMerge(base, local, server)
+
+    expect(result.conflictingFields).toEqual(['name'])
+    expect(result.merged.basePriceCents).toBe(1100)
+    expect(result.merged.name).toBe('Globo grande')
+  })
+
+  it('debe considerar en conflicto toda diferencia cuando no hay versión base', () => {
+    const local = { ...base, description: 'Local' }
+    const server = { ...base, basePriceCents: 1500 }
+
+    const result = threeWayMerge(null, local, server)
+
+    expect(result.conflictingFields).toEqual(['description', 'basePriceCents'])
+  })
+
+  it('debe tratar null y undefined como el mismo valor', () => {
+    const result = threeWayMerge(
+      { color: undefined },
+      { color: null },
+      { color: undefined }
+    )
+
+    expect(result.conflictingFields).toEqual([])
+  })
+})
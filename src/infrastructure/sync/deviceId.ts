@@ -0,0 +1,12 @@
+/**
+ * Identificador del dispositivo para la sincronización
+ * Se genera una sola vez y se envía al iniciar sesión: el servidor lo fija en el token
+ */
+export function getOrCreateDeviceId(): string {
+  let deviceId = localStorage.getItem('device_id')
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem('device_id', deviceId)
+  }
+  return deviceId
+}
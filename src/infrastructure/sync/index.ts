@@ -1,7 +1,11 @@
 export { syncService } from './SyncService'
+export { threeWayMerge } from './threeWayMerge'
+export { MAX_SYNC_RETRIES } from './retryPolicy'
 
 export type { SyncOperation } from './SyncService'
 export type { SyncStatus } from './SyncService'
 export type { SyncQueueItem } from './SyncService'
 export type { SyncServiceStatus } from './SyncService'
 export type { SyncResult } from './SyncService'
+export type { StockShortage } from './SyncService'
+export type { ThreeWayMergeResult } from './threeWayMerge'
@@ -0,0 +1,166 @@
+/**
+ * Planificación de la cola de sincronización
+ *
+ * - Coalescing: al encolar, una operación nueva se combina con la última operación
+ *   pendiente del mismo registro (updates consecutivos, create+delete, update+delete)
+ * - Orden por dependencias: categoría → producto → variante → venta → devolución/movimiento
+ *   (la sesión de caja va antes que las ventas y devoluciones cobradas en ella)
+ * - Retención: una operación cuyo registro (o su padre) no se pudo sincronizar queda en espera
+ */
+
+import type { SyncQueueRecord } from '../persistence/indexeddb/database'
+
+// Nivel de dependencia por tabla: un nivel solo se envía después de los anteriores
+const DEPENDENCY_LEVELS: Record<string, number> = {
+  categories: 0,
+  paymentMethods: 0,
+  customers: 0,
+  suppliers: 0,
+  users: 0,
+  cashSessions: 1,
+  products: 1,
+  productVariants: 2,
+  sales: 3,
+  saleReturns: 4,
+  stockMovements: 4
+}
+
+const MAX_LEVEL = 4
+
+export type CoalesceResult =
+  | { action: 'append' }
+  | { action: 'replace'; item: SyncQueueRecord }
+  | { action: 'drop' }
+
+export function recordKey(tableName: string, recordId: string): string {
+  return `${tableName}:${recordId}`
+}
+
+/**
+ * Decide cómo encolar `incoming` dada la última operación del mismo registro.
+ * Solo se combina con operaciones 'pending' (nunca enviadas): una operación con
+ * error pudo haberse aplicado en el servidor aunque la respuesta no llegara.
+ */
+export function coalesceOperation(
+  last: SyncQueueRecord | undefined,
+  incoming: SyncQueueRecord
+): CoalesceResult {
+  if (!last || last.status !== 'pending') {
+    return { action: 'append' }
+  }
+
+  if (incoming.operation === 'update' && (last.operation === 'create' || last.operation === 'update')) {
+    // Se conserva la posición (timestamp) y la base de la primera operación
+    return {
+      action: 'replace',
+      item: { ...last, data: { ...last.data, ...incoming.data } }
+    }
+  }
+
+  if (incoming.operation === 'delete' && last.operation === 'create') {
+    // El servidor nunca conoció el registro: no hay nada que enviar
+    return { action: 'drop' }
+  }
+
+  if (incoming.operation === 'delete' && last.operation === 'update') {
+    return {
+      action: 'replace',
+      item: { ...last, operation: 'delete', data: null }
+    }
+  }
+
+  return { action: 'append' }
+}
+
+/**
+ * Registros de los que depende una operación (deben existir en el servidor antes)
+ */
+export function getDependencies(op: SyncQueueRecord): string[] {
+  if (op.operation === 'delete' || !op.data) return []
+
+  const data = op.data
+  const refs: string[] = []
+  const add = (tableName: string, id: unknown) => {
+    if (typeof id === 'string' && id) refs.push(recordKey(tableName, id))
+  }
+
+  switch (op.tableName) {
+    case 'products':
+      add('categories', data.categoryId)
+      break
+    case 'productVariants':
+      add('products', data.productId)
+      break
+    case 'sales': {
+      add('customers', data.customerId)
+      add('cashSessions', data.cashSessionId)
+      add('paymentMethods', data.paymentMethodId)
+      const items = (data.items ?? []) as Array<{ variantId?: string }>
+      items.forEach(item => add('productVariants', item.variantId))
+      break
+    }
+    case 'saleReturns': {
+      add('sales', data.saleId)
+      add('cashSessions', data.cashSessionId)
+      const exchangeItems = (data.exchangeItems ?? []) as Array<{ variantId?: string }>
+      exchangeItems.forEach(item => add('productVariants', item.variantId))
+      const refunds = (data.refunds ?? []) as Array<{ paymentMethodId?: string }>
+      refunds.forEach(refund => add('paymentMethods', refund.paymentMethodId))
+      break
+    }
+    case 'stockMovements':
+      add('productVariants', data.variantId)
+      if (data.type === 'sale' || data.type === 'return') {
+        add('sales', data.referenceId)
+      }
+      break
+  }
+
+  return refs
+}
+
+/**
+ * Agrupa las operaciones por nivel de dependencia, en el orden en que deben enviarse.
+ * Altas y modificaciones van de padres a hijos; las bajas al final, de hijos a padres.
+ * Dentro de cada grupo se respeta el orden de encolado.
+ */
+export function groupByDependencyLevel(ops: SyncQueueRecord[]): SyncQueueRecord[][] {
+  const sorted = [...ops].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  const groups = new Map<number, SyncQueueRecord[]>()
+
+  for (const op of sorted) {
+    const level = DEPENDENCY_LEVELS[op.tableName] ?? MAX_LEVEL
+    // Las bajas se ubican después de todas las altas, en orden inverso de dependencia
+    const position = op.operation === 'delete' ? 2 * MAX_LEVEL + 1 - level : level
+    const group = groups.get(position) ?? []
+    group.push(op)
+    groups.set(position, group)
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, group]) => group)
+}
+
+/**
+ * Operaciones de un grupo que pueden enviarse ahora. Queda en espera la que tenga
+ * su propio registro o uno del que depende en `blocked` (que se amplía con ella),
+ * y la que toque un registro que ya tiene otra operación enviándose en este grupo:
+ * el servidor debe recibirlas de a una y en orden.
+ */
+export function selectReadyOperations(group: SyncQueueRecord[], blocked: Set<string>): SyncQueueRecord[] {
+  const ready: SyncQueueRecord[] = []
+  const sending = new Set<string>()
+
+  for (const op of group) {
+    const key = recordKey(op.tableName, op.recordId)
+    if (blocked.has(key) || getDependencies(op).some(dep => blocked.has(dep))) {
+      blocked.add(key)
+    } else if (!sending.has(key)) {
+      sending.add(key)
+      ready.push(op)
+    }
+  }
+
+  return ready
+}
@@ -0,0 +1,30 @@
+/**
+ * Política de reintentos de la cola de sincronización
+ *
+ * Backoff exponencial con jitter según la cantidad de reintentos de la operación.
+ * Luego de MAX_SYNC_RETRIES intentos fallidos la operación pasa a dead-letter
+ * y solo se reintenta manualmente desde Configuración.
+ */
+
+export const MAX_SYNC_RETRIES = 5
+
+const BASE_DELAY_MS = 2_000
+const MAX_DELAY_MS = 5 * 60_000
+
+/**
+ * Demora antes del próximo intento, para una operación que ya falló `retries` veces.
+ * Usa "equal jitter": la mitad fija y la otra mitad aleatoria, para que varios
+ * dispositivos que fallaron a la vez no reintenten todos juntos.
+ */
+export function getRetryDelay(retries: number, random: () => number = Math.random): number {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, retries - 1))
+  const half = exponential / 2
+  return Math.round(half + random() * half)
+}
+
+/**
+ * Indica si la operación agotó sus reintentos automáticos
+ */
+export function isDeadLetter(retries: number): boolean {
+  return retries >= MAX_SYNC_RETRIES
+}
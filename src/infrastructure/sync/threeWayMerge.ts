@@ -0,0 +1,76 @@
+/**
+ * Merge a tres vías a nivel de campo para conflictos de sincronización
+ *
+ * Compara la versión local y la del servidor contra la versión base sobre la que
+ * se hizo el cambio local:
+ * - Si solo cambió un lado, se toma ese valor
+ * - Si ambos cambiaron al mismo valor, no hay conflicto
+ * - Si ambos cambiaron a valores distintos, el campo queda en conflicto
+ */
+
+// Campos de auditoría que no participan del merge
+const IGNORED_FIELDS = new Set(['id', 'updatedAt'])
+
+export interface ThreeWayMergeResult {
+  merged: Record<string, unknown>
+  conflictingFields: string[]
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return 'null'
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  return JSON.stringify(value)
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * Combina local y servidor campo por campo.
+ * Sin versión base, todo campo con valores distintos se considera en conflicto.
+ * En los campos en conflicto, `merged` conserva el valor local de forma provisoria.
+ */
+export function threeWayMerge(
+  base: Record<string, unknown> | null | undefined,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>
+): ThreeWayMergeResult {
+  const merged: Record<string, unknown> = {}
+  const conflictingFields: string[] = []
+  const keys = [...new Set([...Object.keys(local), ...Object.keys(server)])]
+
+  for (const key of keys) {
+    const localValue = local[key]
+    const serverValue = server[key]
+
+    if (IGNORED_FIELDS.has(key)) {
+      merged[key] = serverValue ?? localValue
+      continue
+    }
+
+    if (valuesEqual(localValue, serverValue)) {
+      merged[key] = localValue
+      continue
+    }
+
+    if (base) {
+      const baseValue = base[key]
+      if (valuesEqual(localValue, baseValue)) {
+        // Solo cambió el servidor
+        merged[key] = serverValue
+        continue
+      }
+      if (valuesEqual(serverValue, baseValue)) {
+        // Solo cambió el dispositivo
+        merged[key] = localValue
+        continue
+      }
+    }
+
+    merged[key] = localValue
+    conflictingFields.push(key)
+  }
+
+  return { merged, conflictingFields }
+}
@@ -0,0 +1,200 @@
+/**
+ * Auditoría de sesiones de caja de todos los dispositivos (administradores y encargados)
+ * El detalle recalcula el efectivo esperado en el servidor con las ventas sincronizadas
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { ClipboardList, RefreshCw } from 'lucide-react'
+import { Card, CardHeader, CardTitle, Button, Badge, Modal, Alert, Checkbox } from '@presentation/components/ui'
+import { cashSessionService, type CashSessionAuditEntry, type CashSessionAudit } from '@infrastructure/api'
+import { formatCurrency, formatDateTime, cn } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+const differenceClass = (difference: number) =>
+  difference > 0 ? 'text-success-600' : difference < 0 ? 'text-danger-600' : 'text-surface-600'
+
+export function CashSessionAuditPanel() {
+  const [sessions, setSessions] = useState<CashSessionAuditEntry[]>([])
+  const [onlyWithDifference, setOnlyWithDifference] = useState(false)
+  const [selected, setSelected] = useState<CashSessionAudit | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setSessions(await cashSessionService.list({ withDifference: onlyWithDifference }))
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(getErrorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [onlyWithDifference])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const openAudit = async (id: string) => {
+    try {
+      setSelected(await cashSessionService.getAudit(id))
+    } catch (error) {
+      setLoadError(getErrorMessage(error))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary-600" />
+          Auditoría de cajas
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={load}
+          disabled={isLoading}
+          leftIcon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+        >
+          Actualizar
+        </Button>
+      </CardHeader>
+      <div className="p-4 space-y-3 overflow-x-auto">
+        {loadError && (
+          <Alert variant="danger" title="Error al cargar las sesiones de caja">
+            {loadError}
+          </Alert>
+        )}
+        <Checkbox
+          label="Solo cierres con diferencia"
+          checked={onlyWithDifference}
+          onCheckedChange={setOnlyWithDifference}
+        />
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-surface-500 border-b border-surface-200">
+              <th className="py-2 pr-3">Apertura</th>
+              <th className="py-2 pr-3">Cajero</th>
+              <th className="py-2 pr-3">Estado</th>
+              <th className="py-2 pr-3 text-right">Ventas</th>
+              <th className="py-2 pr-3 text-right">Esperado</th>
+              <th className="py-2 pr-3 text-right">Contado</th>
+              <th className="py-2 text-right">Diferencia</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.map(session => (
+              <tr
+                key={session.id}
+                className="border-b border-surface-100 cursor-pointer hover:bg-surface-50"
+                onClick={() => openAudit(session.id)}
+              >
+                <td className="py-2 pr-3">{formatDateTime(new Date(session.openedAt))}</td>
+                <td className="py-2 pr-3">{session.user.name}</td>
+                <td className="py-2 pr-3">
+                  {session.status === 'OPEN'
+                    ? <Badge variant="info" size="sm">Abierta</Badge>
+                    : <Badge variant="default" size="sm">Cerrada</Badge>}
+                </td>
+                <td className="py-2 pr-3 text-right">{session._count.sales}</td>
+                <td className="py-2 pr-3 text-right">
+                  {session.expectedCash === null ? '-' : formatCurrency(Number(session.expectedCash))}
+                </td>
+                <td className="py-2 pr-3 text-right">
+                  {session.countedCash === null ? '-' : formatCurrency(Number(session.countedCash))}
+                </td>
+                <td className={cn('py-2 text-right font-medium', differenceClass(Number(session.difference ?? 0)))}>
+                  {session.difference === null ? '-' : formatCurrency(Number(session.difference))}
+                </td>
+              </tr>
+            ))}
+            {sessions.length === 0 && !isLoading && (
+              <tr>
+                <td colSpan={7} className="py-6 text-center text-surface-500">
+                  No hay sesiones de caja
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Modal
+        isOpen={selected !== null}
+        onClose={() => setSelected(null)}
+        title="Detalle de la sesión de caja"
+        description={selected ? `${selected.session.user.name} · ${formatDateTime(new Date(selected.session.openedAt))}` : undefined}
+        size="lg"
+      >
+        {selected && (
+          <div className="space-y-4 text-sm">
+            {selected.audit.matchesDevice === false && (
+              <Alert variant="warning" title="El esperado no coincide con el del dispositivo">
+                El dispositivo informó {formatCurrency(Number(selected.session.expectedCash))} y el recálculo con las
+                ventas sincronizadas da {formatCurrency(selected.audit.expectedCash)}. Puede haber ventas o devoluciones
+                todavía sin sincronizar.
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+              <span className="text-surface-500">Fondo inicial</span>
+              <span className="text-right">{formatCurrency(selected.audit.openingAmount)}</span>
+              <span className="text-surface-500">Ventas en efectivo</span>
+              <span className="text-right">{formatCurrency(selected.audit.cashSales)}</span>
+              <span className="text-surface-500">Devoluciones en efectivo</span>
+              <span className="text-right">{formatCurrency(-selected.audit.cashRefunds)}</span>
+              <span className="text-surface-500">Ingresos</span>
+              <span className="text-right">{formatCurrency(selected.audit.deposits)}</span>
+              <span className="text-surface-500">Retiros</span>
+              <span className="text-right">{formatCurrency(-selected.audit.withdrawals)}</span>
+              <span className="font-medium">Esperado (recalculado)</span>
+              <span className="text-right font-medium">{formatCurrency(selected.audit.expectedCash)}</span>
+              {selected.session.countedCash !== null && (
+                <>
+                  <span className="font-medium">Contado</span>
+                  <span className="text-right font-medium">{formatCurrency(Number(selected.session.countedCash))}</span>
+                  <span className="font-medium">Diferencia</span>
+                  <span className={cn('text-right font-medium', differenceClass(selected.audit.difference ?? 0))}>
+                    {formatCurrency(selected.audit.difference ?? 0)}
+                  </span>
+                </>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-1">Ventas por método ({selected.audit.salesCount})</h4>
+              {selected.audit.byPaymentMethod.map(method => (
+                <div key={method.paymentMethodId} className="flex justify-between">
+                  <span className="text-surface-600">{method.name}</span>
+                  <span>{formatCurrency(method.amount)}</span>
+                </div>
+              ))}
+            </div>
+
+            {selected.session.movements.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-1">Movimientos</h4>
+                {selected.session.movements.map(movement => (
+                  <div key={movement.id} className="flex justify-between gap-3">
+                    <span className="text-surface-600">
+                      {formatDateTime(new Date(movement.createdAt))} · {movement.reason} · {movement.user.name}
+                    </span>
+                    <span className={movement.type === 'WITHDRAWAL' ? 'text-danger-600' : 'text-success-600'}>
+                      {formatCurrency((movement.type === 'WITHDRAWAL' ? -1 : 1) * Number(movement.amount))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected.session.notes && (
+              <p className="text-surface-600 italic">Notas: {selected.session.notes}</p>
+            )}
+          </div>
+        )}
+      </Modal>
+    </Card>
+  )
+}
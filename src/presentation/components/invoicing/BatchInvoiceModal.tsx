@@ -0,0 +1,235 @@
+/**
+ * Facturación por lotes de las ventas completadas sin factura
+ * Las ventas seleccionadas se envían a AFIP en lotes de FECAESolicitar; las rechazadas
+ * quedan en la lista con el motivo para corregirlas y volver a emitirlas
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { FileText, RefreshCw } from 'lucide-react'
+import { Modal, Button, Badge, Alert, Checkbox, Select, useToastActions } from '@presentation/components/ui'
+import {
+  invoiceService,
+  type InvoiceType,
+  type UninvoicedSale,
+  type BatchInvoiceResult,
+  type BatchInvoiceStatus
+} from '@infrastructure/api'
+import { formatCurrency, formatDateTime } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+interface BatchInvoiceModalProps {
+  isOpen: boolean
+  onClose: () => void
+  // Rango de fechas de las ventas a facturar (por defecto, todas las pendientes)
+  from?: Date
+  to?: Date
+}
+
+const STATUS_BADGES: Record<BatchInvoiceStatus, { variant: 'success' | 'warning' | 'danger' | 'info' | 'default'; label: string }> = {
+  AUTHORIZED: { variant: 'success', label: 'Autorizada' },
+  REJECTED: { variant: 'danger', label: 'Rechazada' },
+  PENDING: { variant: 'warning', label: 'En cola' },
+  SENT: { variant: 'info', label: 'Enviada' },
+  NEEDS_REVIEW: { variant: 'warning', label: 'En revisión' },
+  SKIPPED: { variant: 'default', label: 'No enviada' }
+}
+
+function resultMessage(result: BatchInvoiceResult): string | null {
+  if (result.message) return result.message
+  const messages = [...(result.invoice?.errores ?? []), ...(result.invoice?.observaciones ?? [])]
+  return messages.length > 0 ? messages.map(m => `${m.code}: ${m.msg}`).join(' · ') : null
+}
+
+export function BatchInvoiceModal({ isOpen, onClose, from, to }: BatchInvoiceModalProps) {
+  const toast = useToastActions()
+  const [sales, setSales] = useState<UninvoicedSale[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [results, setResults] = useState<Map<string, BatchInvoiceResult>>(new Map())
+  const [type, setType] = useState<InvoiceType>('FACTURA_B')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isIssuing, setIsIssuing] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const pending = await invoiceService.getUninvoicedSales({ from, to })
+      setSales(pending)
+      setSelectedIds(new Set(pending.map(sale => sale.id)))
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(getErrorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    if (isOpen) {
+      setResults(new Map())
+      load()
+    }
+  }, [isOpen, load])
+
+  const selectedTotal = useMemo(
+    () => sales.filter(sale => selectedIds.has(sale.id)).reduce((sum, sale) => sum + sale.total, 0),
+    [sales, selectedIds]
+  )
+
+  const toggleSale = (saleId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(saleId)
+      else next.delete(saleId)
+      return next
+    })
+  }
+
+  const handleIssue = async () => {
+    if (selectedIds.size === 0) return
+
+    setIsIssuing(true)
+    try {
+      const response = await invoiceService.issueBatch([...selectedIds], type)
+      const byId = new Map(response.results.map(result => [result.saleId, result]))
+      setResults(prev => new Map([...prev, ...byId]))
+
+      // Las autorizadas salen de la lista; las demás quedan seleccionadas para reintentar
+      const authorized = new Set(response.results.filter(r => r.status === 'AUTHORIZED').map(r => r.saleId))
+      setSales(prev => prev.filter(sale => !authorized.has(sale.id)))
+      setSelectedIds(new Set(
+        response.results.filter(r => r.status === 'REJECTED' || r.status === 'SKIPPED').map(r => r.saleId)
+      ))
+
+      const { summary } = response
+      const detail = `${summary.authorized} autorizadas, ${summary.rejected} rechazadas, ${summary.pending} en cola, ${summary.skipped} sin enviar`
+      if (summary.rejected > 0 || summary.skipped > 0) {
+        toast.warning('Facturación parcial', detail)
+      } else {
+        toast.success('Ventas facturadas', detail)
+      }
+    } catch (error) {
+      toast.error('Error al facturar', getErrorMessage(error))
+    } finally {
+      setIsIssuing(false)
+    }
+  }
+
+  const authorizedResults = [...results.values()].filter(result => result.status === 'AUTHORIZED')
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Facturar ventas pendientes"
+      description="Se emite un comprobante por venta, enviados a AFIP en lotes"
+      size="full"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={isIssuing}>
+            Cerrar
+          </Button>
+          <Button
+            onClick={handleIssue}
+            isLoading={isIssuing}
+            disabled={selectedIds.size === 0}
+            leftIcon={<FileText className="h-4 w-4" />}
+          >
+            Facturar {selectedIds.size} ({formatCurrency(selectedTotal)})
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <Select
+            value={type}
+            onChange={(e) => setType(e.target.value as InvoiceType)}
+            options={[
+              { value: 'FACTURA_B', label: 'Factura B' },
+              { value: 'FACTURA_A', label: 'Factura A' },
+              { value: 'FACTURA_C', label: 'Factura C' }
+            ]}
+            className="w-full sm:w-48"
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              label="Seleccionar todas"
+              checked={sales.length > 0 && selectedIds.size === sales.length}
+              onCheckedChange={(checked) => setSelectedIds(checked ? new Set(sales.map(sale => sale.id)) : new Set())}
+              disabled={sales.length === 0}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={load}
+              disabled={isLoading || isIssuing}
+              leftIcon={<RefreshCw className="h-4 w-4" />}
+            >
+              Actualizar
+            </Button>
+          </div>
+        </div>
+
+        {loadError && (
+          <Alert variant="danger" title="No se pudieron cargar las ventas">
+            {loadError}
+          </Alert>
+        )}
+
+        {authorizedResults.length > 0 && (
+          <Alert variant="success">
+            {authorizedResults.length} venta(s) facturadas:{' '}
+            {authorizedResults.map(r => `${r.receiptNumber} → ${r.invoice?.formattedNumber ?? '-'}`).join(', ')}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-surface-500 text-center py-8">Cargando ventas...</p>
+        ) : sales.length === 0 ? (
+          <p className="text-sm text-surface-500 text-center py-8">No hay ventas completadas sin facturar</p>
+        ) : (
+          <div className="border border-surface-200 rounded-lg divide-y divide-surface-200 max-h-[50vh] overflow-y-auto">
+            {sales.map(sale => {
+              const result = results.get(sale.id)
+              const message = result ? resultMessage(result) : null
+              const lastRejection = !result && sale.lastRejection
+                ? [...(sale.lastRejection.errores ?? []), ...(sale.lastRejection.observaciones ?? [])]
+                    .map(m => `${m.code}: ${m.msg}`).join(' · ')
+                : null
+
+              return (
+                <div key={sale.id} className="p-3 flex items-start gap-3">
+                  <Checkbox
+                    checked={selectedIds.has(sale.id)}
+                    onCheckedChange={(checked) => toggleSale(sale.id, checked)}
+                    aria-label={`Seleccionar venta ${sale.receiptNumber}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-sm font-medium">{sale.receiptNumber}</span>
+                      {result && (
+                        <Badge variant={STATUS_BADGES[result.status].variant} size="sm">
+                          {STATUS_BADGES[result.status].label}
+                        </Badge>
+                      )}
+                      {lastRejection && <Badge variant="danger" size="sm">Rechazada antes</Badge>}
+                    </div>
+                    <p className="text-xs text-surface-500">
+                      {formatDateTime(new Date(sale.createdAt))} · {sale.customerName ?? 'Consumidor Final'}
+                      {sale.customerDocument && ` (${sale.customerDocument})`}
+                    </p>
+                    {(message || lastRejection) && (
+                      <p className="text-xs text-danger-600 mt-1 break-words">{message || lastRejection}</p>
+                    )}
+                  </div>
+                  <span className="font-semibold shrink-0">{formatCurrency(sale.total)}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
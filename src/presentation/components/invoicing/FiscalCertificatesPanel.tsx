@@ -0,0 +1,434 @@
+/**
+ * Panel de certificados de AFIP (solo administradores)
+ * Genera clave privada y CSR, carga el certificado firmado, muestra vencimientos
+ * (aviso 30 días antes) y cambia el entorno activo entre homologación y producción
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { ShieldCheck, RefreshCw, Plus, Download, Upload, Trash2, ArrowLeftRight } from 'lucide-react'
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Modal,
+  Alert,
+  Input,
+  Select,
+  Textarea,
+  ConfirmModal,
+  useToastActions
+} from '@presentation/components/ui'
+import {
+  fiscalCertificateService,
+  type FiscalCertificate,
+  type FiscalEnv,
+  type GenerateCsrData
+} from '@infrastructure/api'
+import { formatDate } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+const ENV_LABELS: Record<FiscalEnv, string> = {
+  homo: 'Homologación',
+  prod: 'Producción'
+}
+
+const STATUS_BADGES: Record<FiscalCertificate['status'], { variant: 'warning' | 'success' | 'default'; label: string }> = {
+  PENDING: { variant: 'warning', label: 'Falta certificado' },
+  ACTIVE: { variant: 'success', label: 'Activo' },
+  REPLACED: { variant: 'default', label: 'Reemplazado' }
+}
+
+const EMPTY_CSR_FORM: GenerateCsrData = { env: 'homo', cuit: '', alias: '', organization: '' }
+
+function ExpiryBadge({ certificate }: { certificate: FiscalCertificate }) {
+  if (!certificate.validTo || !certificate.expiry) {
+    return <span className="text-surface-400">-</span>
+  }
+
+  const { expired, expiringSoon, daysLeft } = certificate.expiry
+  return (
+    <div className="flex items-center gap-2">
+      <span>{formatDate(new Date(certificate.validTo))}</span>
+      {expired ? (
+        <Badge variant="danger" size="sm">Vencido</Badge>
+      ) : (
+        <Badge variant={expiringSoon ? 'warning' : 'success'} size="sm">{daysLeft} días</Badge>
+      )}
+    </div>
+  )
+}
+
+export function FiscalCertificatesPanel() {
+  const toast = useToastActions()
+  const [activeEnv, setActiveEnv] = useState<FiscalEnv | null>(null)
+  const [certificates, setCertificates] = useState<FiscalCertificate[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isCsrModalOpen, setIsCsrModalOpen] = useState(false)
+  const [csrForm, setCsrForm] = useState<GenerateCsrData>(EMPTY_CSR_FORM)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [certificateToUpload, setCertificateToUpload] = useState<FiscalCertificate | null>(null)
+  const [certificatePem, setCertificatePem] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const [certificateToDelete, setCertificateToDelete] = useState<FiscalCertificate | null>(null)
+  const [isSwitchConfirmOpen, setIsSwitchConfirmOpen] = useState(false)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await fiscalCertificateService.list()
+      setActiveEnv(result.activeEnv)
+      setCertificates(result.certificates)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(getErrorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleGenerateCsr = async () => {
+    setIsGenerating(true)
+    try {
+      const { certificate, csrPem } = await fiscalCertificateService.generateCsr(csrForm)
+      fiscalCertificateService.downloadCsr(certificate.alias ?? csrForm.alias, csrPem)
+      toast.success('CSR generado', 'Súbalo en AFIP y cargue acá el certificado que devuelve')
+      setIsCsrModalOpen(false)
+      setCsrForm(EMPTY_CSR_FORM)
+      await load()
+    } catch (error) {
+      toast.error('Error al generar el CSR', getErrorMessage(error))
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleDownloadCsr = async (certificate: FiscalCertificate) => {
+    if (!certificate.id) return
+    try {
+      const { alias, csrPem } = await fiscalCertificateService.getCsr(certificate.id)
+      fiscalCertificateService.downloadCsr(alias, csrPem)
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    }
+  }
+
+  const handleCertificateFile = async (file: File | undefined) => {
+    if (!file) return
+    setCertificatePem(await file.text())
+  }
+
+  const handleUpload = async () => {
+    if (!certificateToUpload?.id) return
+    setIsUploading(true)
+    try {
+      await fiscalCertificateService.uploadCertificate(certificateToUpload.id, certificatePem)
+      toast.success('Certificado activado')
+      setCertificateToUpload(null)
+      setCertificatePem('')
+      await load()
+    } catch (error) {
+      toast.error('Error al cargar el certificado', getErrorMessage(error))
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleDelete = async (certificate: FiscalCertificate) => {
+    if (!certificate.id) return
+    try {
+      await fiscalCertificateService.deletePending(certificate.id)
+      toast.success('CSR eliminado')
+      setCertificateToDelete(null)
+      await load()
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    }
+  }
+
+  const targetEnv: FiscalEnv = activeEnv === 'prod' ? 'homo' : 'prod'
+
+  const handleSwitchEnvironment = async () => {
+    try {
+      const env = await fiscalCertificateService.switchEnvironment(targetEnv)
+      toast.success(`Facturando en ${ENV_LABELS[env]}`)
+      setIsSwitchConfirmOpen(false)
+      await load()
+    } catch (error) {
+      toast.error('No se pudo cambiar de entorno', getErrorMessage(error))
+      setIsSwitchConfirmOpen(false)
+    }
+  }
+
+  const warnings = certificates.filter(c => c.inUse && c.expiry && (c.expiry.expired || c.expiry.expiringSoon))
+
+  return (
+    <div className="space-y-6">
+      {loadError && (
+        <Alert variant="danger" title="Error al cargar los certificados">
+          {loadError}
+        </Alert>
+      )}
+
+      {warnings.map(certificate => (
+        <Alert
+          key={`${certificate.source}-${certificate.id ?? certificate.cuit}`}
+          variant={certificate.expiry!.expired ? 'danger' : 'warning'}
+          title={certificate.expiry!.expired ? 'Certificado vencido' : 'Certificado por vencer'}
+        >
+          El certificado de {certificate.cuit} ({ENV_LABELS[certificate.env]})
+          {certificate.expiry!.expired
+            ? ' está vencido: no se pueden emitir comprobantes.'
+            : ` vence en ${certificate.expiry!.daysLeft} días. Genere un CSR nuevo y cargue el certificado renovado.`}
+        </Alert>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary-600" />
+            Certificados de AFIP
+            {activeEnv && (
+              <Badge variant={activeEnv === 'prod' ? 'success' : 'info'} size="sm">
+                {ENV_LABELS[activeEnv]}
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={load}
+              disabled={isLoading}
+              leftIcon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+            >
+              Actualizar
+            </Button>
+            {activeEnv && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSwitchConfirmOpen(true)}
+                leftIcon={<ArrowLeftRight className="h-4 w-4" />}
+              >
+                Pasar a {ENV_LABELS[targetEnv]}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => setIsCsrModalOpen(true)}
+              leftIcon={<Plus className="h-4 w-4" />}
+            >
+              Generar CSR
+            </Button>
+          </div>
+        </CardHeader>
+        <div className="p-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-surface-500 border-b border-surface-200">
+                <th className="py-2 pr-3">Entorno</th>
+                <th className="py-2 pr-3">CUIT</th>
+                <th className="py-2 pr-3">Certificado</th>
+                <th className="py-2 pr-3">Estado</th>
+                <th className="py-2 pr-3">Vencimiento</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {certificates.map(certificate => (
+                <tr
+                  key={`${certificate.source}-${certificate.id ?? certificate.cuit}`}
+                  className="border-b border-surface-100"
+                >
+                  <td className="py-2 pr-3">{ENV_LABELS[certificate.env]}</td>
+                  <td className="py-2 pr-3 font-mono">{certificate.cuit}</td>
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{certificate.alias ?? 'Configurado en .env'}</span>
+                      {certificate.inUse && <Badge variant="info" size="sm">En uso</Badge>}
+                    </div>
+                    {certificate.serialNumber && (
+                      <span className="font-mono text-xs text-surface-500">
+                        {certificate.issuer} · {certificate.serialNumber}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Badge variant={STATUS_BADGES[certificate.status].variant} size="sm">
+                      {STATUS_BADGES[certificate.status].label}
+                    </Badge>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <ExpiryBadge certificate={certificate} />
+                  </td>
+                  <td className="py-2">
+                    {certificate.source === 'db' && (
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" title="Descargar CSR" onClick={() => handleDownloadCsr(certificate)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {certificate.status === 'PENDING' && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Cargar certificado firmado"
+                              onClick={() => setCertificateToUpload(certificate)}
+                            >
+                              <Upload className="h-4 w-4 text-primary-600" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Eliminar CSR"
+                              onClick={() => setCertificateToDelete(certificate)}
+                            >
+                              <Trash2 className="h-4 w-4 text-danger-500" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {certificates.length === 0 && !isLoading && (
+            <p className="text-center text-surface-500 py-6">No hay certificados configurados</p>
+          )}
+        </div>
+      </Card>
+
+      {/* Generar clave privada y CSR */}
+      <Modal
+        isOpen={isCsrModalOpen}
+        onClose={() => setIsCsrModalOpen(false)}
+        title="Generar CSR"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-surface-600">
+            La clave privada se guarda cifrada en el servidor. Suba el CSR en AFIP
+            (Administración de Certificados Digitales) y cargue acá el certificado que devuelve.
+          </p>
+          <Select
+            label="Entorno"
+            value={csrForm.env}
+            onChange={e => setCsrForm(prev => ({ ...prev, env: e.target.value as FiscalEnv }))}
+            options={[
+              { value: 'homo', label: ENV_LABELS.homo },
+              { value: 'prod', label: ENV_LABELS.prod }
+            ]}
+          />
+          <Input
+            label="CUIT"
+            value={csrForm.cuit}
+            onChange={e => setCsrForm(prev => ({ ...prev, cuit: e.target.value }))}
+            placeholder="20-12345678-6"
+            required
+          />
+          <Input
+            label="Nombre del certificado"
+            value={csrForm.alias}
+            onChange={e => setCsrForm(prev => ({ ...prev, alias: e.target.value }))}
+            placeholder="cotillonprod2025"
+            hint="Solo letras y números; es el alias con el que figura en AFIP"
+            required
+          />
+          <Input
+            label="Razón social"
+            value={csrForm.organization}
+            onChange={e => setCsrForm(prev => ({ ...prev, organization: e.target.value }))}
+            required
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setIsCsrModalOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleGenerateCsr}
+              isLoading={isGenerating}
+              disabled={!csrForm.cuit || !csrForm.alias || !csrForm.organization.trim()}
+            >
+              Generar y descargar
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Cargar el certificado firmado */}
+      {certificateToUpload && (
+        <Modal
+          isOpen={true}
+          onClose={() => setCertificateToUpload(null)}
+          title={`Cargar certificado · ${certificateToUpload.alias}`}
+          size="lg"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-surface-600">
+              Al cargarlo se activa para {certificateToUpload.cuit} en {ENV_LABELS[certificateToUpload.env]} y
+              reemplaza al certificado anterior.
+            </p>
+            <input
+              type="file"
+              accept=".crt,.pem,.cer"
+              onChange={e => handleCertificateFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+            <Textarea
+              label="Certificado (PEM)"
+              value={certificatePem}
+              onChange={e => setCertificatePem(e.target.value)}
+              placeholder="-----BEGIN CERTIFICATE-----"
+              rows={8}
+              className="font-mono text-xs"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setCertificateToUpload(null)}>
+                Cancelar
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleUpload}
+                isLoading={isUploading}
+                disabled={!certificatePem.trim()}
+              >
+                Cargar y activar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      <ConfirmModal
+        isOpen={certificateToDelete !== null}
+        onClose={() => setCertificateToDelete(null)}
+        onConfirm={() => certificateToDelete && handleDelete(certificateToDelete)}
+        title="¿Eliminar CSR?"
+        message="Se elimina también su clave privada. Si ya pidió el certificado en AFIP, no podrá cargarlo."
+        confirmText="Sí, eliminar"
+        variant="danger"
+      />
+
+      <ConfirmModal
+        isOpen={isSwitchConfirmOpen}
+        onClose={() => setIsSwitchConfirmOpen(false)}
+        onConfirm={handleSwitchEnvironment}
+        title={`¿Pasar a ${ENV_LABELS[targetEnv]}?`}
+        message={targetEnv === 'prod'
+          ? 'Los comprobantes que se emitan desde ahora tendrán validez fiscal.'
+          : 'Los comprobantes que se emitan desde ahora serán de prueba, sin validez fiscal.'}
+        confirmText="Sí, cambiar"
+        variant={targetEnv === 'prod' ? 'danger' : 'primary'}
+      />
+    </div>
+  )
+}
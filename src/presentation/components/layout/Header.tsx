@@ -74,6 +74,12 @@ export function Header({ onMenuClick }: HeaderProps) {
       
       if (result.success) {
         toast.success('Sincronizado', result.message)
+        if (result.stockShortages && result.stockShortages.length > 0) {
+          toast.warning(
+            'Stock insuficiente en el servidor',
+            `${result.stockShortages.length} ítems de ventas offline quedaron con stock negativo. Revisa el inventario.`
+          )
+        }
       } else {
         toast.error('Error de sincronización', result.message)
       }
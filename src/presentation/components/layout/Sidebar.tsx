@@ -9,12 +9,14 @@ import {
   LayoutDashboard,
   Settings,
   PartyPopper,
-  BarChart3
+  BarChart3,
+  Wallet
 } from 'lucide-react'
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Punto de Venta', href: '/pos', icon: ShoppingCart },
+  { name: 'Caja', href: '/caja', icon: Wallet },
   { name: 'Inventario', href: '/inventario', icon: Package },
   { name: 'Historial', href: '/historial', icon: History },
   { name: 'Reportes', href: '/reportes', icon: BarChart3 },
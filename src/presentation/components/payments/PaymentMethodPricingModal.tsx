@@ -0,0 +1,185 @@
+/**
+ * Configuración de recargos, cuotas, descuentos y comisiones de un método de pago
+ * Se guarda en el servidor y llega a los demás dispositivos por sincronización
+ */
+
+import { useState, useEffect } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Modal, Button, NumberInput, Alert, useToastActions } from '@presentation/components/ui'
+import { usePaymentMethodMutations } from '@infrastructure/persistence/hooks/usePaymentMethods'
+import { getErrorMessage } from '@shared/errors'
+import type { PaymentMethod, InstallmentPlan } from '@domain/entities/PaymentMethod'
+
+const DEFAULT_PLANS: InstallmentPlan[] = [
+  { installments: 1, surchargePercentage: 0 },
+  { installments: 3, surchargePercentage: 0 },
+  { installments: 6, surchargePercentage: 0 },
+  { installments: 12, surchargePercentage: 0 }
+]
+
+interface PaymentMethodPricingModalProps {
+  method: PaymentMethod | null
+  onClose: () => void
+}
+
+export function PaymentMethodPricingModal({ method, onClose }: PaymentMethodPricingModalProps) {
+  const { updateConfig } = usePaymentMethodMutations()
+  const toast = useToastActions()
+  const [plans, setPlans] = useState<InstallmentPlan[]>([])
+  const [surchargePercentage, setSurchargePercentage] = useState(0)
+  const [discountPercentage, setDiscountPercentage] = useState(0)
+  const [commissionPercentage, setCommissionPercentage] = useState(0)
+  const [fixedFee, setFixedFee] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!method) return
+    const config = method.config
+    setPlans(config.installmentPlans?.length ? config.installmentPlans : method.type === 'credit' ? DEFAULT_PLANS : [])
+    setSurchargePercentage(config.surchargePercentage ?? 0)
+    setDiscountPercentage(config.discountPercentage ?? 0)
+    setCommissionPercentage(config.commissionPercentage ?? 0)
+    setFixedFee(config.fixedFee ?? 0)
+  }, [method])
+
+  if (!method) return null
+
+  const isCredit = method.type === 'credit'
+  const hasDiscount = method.type === 'cash' || method.type === 'transfer'
+  const hasFees = method.type !== 'cash'
+  const repeatedPlans = new Set(plans.map(plan => plan.installments)).size !== plans.length
+
+  const updatePlan = (index: number, plan: Partial<InstallmentPlan>) => {
+    setPlans(plans.map((current, i) => (i === index ? { ...current, ...plan } : current)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      // Se conservan las demás claves del método (ej: credenciales de QR)
+      await updateConfig(method.id, {
+        ...method.config,
+        installmentPlans: isCredit ? [...plans].sort((a, b) => a.installments - b.installments) : undefined,
+        surchargePercentage: !isCredit && !hasDiscount && surchargePercentage > 0 ? surchargePercentage : undefined,
+        discountPercentage: hasDiscount && discountPercentage > 0 ? discountPercentage : undefined,
+        commissionPercentage: hasFees && commissionPercentage > 0 ? commissionPercentage : undefined,
+        fixedFee: hasFees && fixedFee > 0 ? fixedFee : undefined
+      })
+      toast.success('Configuración guardada', method.name)
+      onClose()
+    } catch (error) {
+      toast.error('Error al guardar la configuración', getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={`Recargos y comisiones: ${method.name}`}
+      description="El precio final de cada opción se muestra en el punto de venta"
+      size="md"
+      footer={
+        <>
+          <Button variant="outline" onClick={onClose}>Cancelar</Button>
+          <Button onClick={handleSave} isLoading={isSaving} disabled={repeatedPlans}>Guardar</Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {isCredit && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Planes de cuotas</h4>
+            {plans.map((plan, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <NumberInput
+                  label="Cuotas"
+                  min={1}
+                  max={60}
+                  value={plan.installments}
+                  onChange={(installments) => updatePlan(index, { installments: Math.round(installments) })}
+                />
+                <NumberInput
+                  label="Recargo %"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={plan.surchargePercentage}
+                  onChange={(surcharge) => updatePlan(index, { surchargePercentage: surcharge })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPlans(plans.filter((_, i) => i !== index))}
+                  className="h-10 w-10 p-0 text-danger-500"
+                  title="Quitar plan"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {repeatedPlans && (
+              <Alert variant="warning">Hay planes con la misma cantidad de cuotas</Alert>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Plus className="h-4 w-4" />}
+              onClick={() => setPlans([...plans, { installments: Math.max(0, ...plans.map(p => p.installments)) + 1, surchargePercentage: 0 }])}
+            >
+              Agregar plan
+            </Button>
+          </div>
+        )}
+
+        {!isCredit && !hasDiscount && (
+          <NumberInput
+            label="Recargo al cliente %"
+            hint="Se suma al monto cobrado con este método"
+            min={0}
+            max={100}
+            step={0.5}
+            value={surchargePercentage}
+            onChange={setSurchargePercentage}
+          />
+        )}
+
+        {hasDiscount && (
+          <NumberInput
+            label="Descuento %"
+            hint="Se descuenta del monto cobrado con este método"
+            min={0}
+            max={100}
+            step={0.5}
+            value={discountPercentage}
+            onChange={setDiscountPercentage}
+          />
+        )}
+
+        {hasFees && (
+          <div className="grid grid-cols-2 gap-3">
+            <NumberInput
+              label="Comisión %"
+              hint="La retiene el procesador"
+              min={0}
+              max={100}
+              step={0.1}
+              value={commissionPercentage}
+              onChange={setCommissionPercentage}
+            />
+            <NumberInput
+              label="Cargo fijo"
+              hint="Por operación"
+              min={0}
+              step={1}
+              value={fixedFee}
+              onChange={setFixedFee}
+            />
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
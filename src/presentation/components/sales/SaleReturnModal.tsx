@@ -0,0 +1,392 @@
+/**
+ * Devolución parcial y cambio de artículos de una venta
+ * Se eligen las unidades a devolver de cada item, opcionalmente los artículos que se llevan
+ * a cambio, y cómo se reintegra (o cobra) la diferencia por método de pago
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Plus, Trash2, Undo2 } from 'lucide-react'
+import { Modal, Button, NumberInput, Select, Textarea, Alert, Badge, useToastActions } from '@presentation/components/ui'
+import { useSaleMutations } from '@infrastructure/persistence/hooks/useSales'
+import { useProducts } from '@infrastructure/persistence/hooks/useProducts'
+import { useActivePaymentMethods } from '@infrastructure/persistence/hooks/usePaymentMethods'
+import { db } from '@infrastructure/persistence/indexeddb/database'
+import { useAuth } from '@presentation/hooks/useAuth'
+import type { Sale } from '@domain/entities/Sale'
+import { formatCurrency } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+interface SaleReturnModalProps {
+  sale: Sale
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface ExchangeLine {
+  variantId: string
+  productName: string
+  variantName: string
+  unitPrice: number
+  quantity: number
+  maxStock: number
+}
+
+interface MoneyLine {
+  paymentMethodId: string
+  amount: number
+}
+
+// Artículos sugeridos para el cambio
+const MAX_EXCHANGE_RESULTS = 8
+
+export function SaleReturnModal({ sale, isOpen, onClose }: SaleReturnModalProps) {
+  const toast = useToastActions()
+  const { user } = useAuth()
+  const { registerReturn } = useSaleMutations()
+  const { products } = useProducts()
+  const { paymentMethods } = useActivePaymentMethods()
+  const variants = useLiveQuery(() => db.productVariants.toArray())
+
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({})
+  const [exchangeLines, setExchangeLines] = useState<ExchangeLine[]>([])
+  const [exchangeQuery, setExchangeQuery] = useState('')
+  const [moneyLines, setMoneyLines] = useState<MoneyLine[]>([])
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reiniciar el formulario al abrir
+  useEffect(() => {
+    if (isOpen) {
+      setReturnQuantities({})
+      setExchangeLines([])
+      setExchangeQuery('')
+      setReason('')
+    }
+  }, [isOpen, sale.id])
+
+  const returnableItems = sale.items.filter(item => item.returnableQuantity > 0)
+
+  const totals = useMemo(() => {
+    const returned = sale.items.reduce(
+      (sum, item) => sum + item.amountFor(returnQuantities[item.id] ?? 0).amount,
+      0
+    )
+    const exchange = exchangeLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+    return {
+      returned,
+      exchange,
+      balance: Math.round((returned - exchange) * 100) / 100
+    }
+  }, [sale, returnQuantities, exchangeLines])
+
+  // La diferencia se reintegra (o cobra) por defecto con el método de pago de la venta
+  useEffect(() => {
+    const amount = Math.abs(totals.balance)
+    setMoneyLines(amount > 0 ? [{ paymentMethodId: sale.paymentMethodId, amount }] : [])
+  }, [totals.balance, sale.paymentMethodId])
+
+  const exchangeResults = useMemo(() => {
+    const query = exchangeQuery.trim().toLowerCase()
+    if (!query || !variants) return []
+
+    const productsById = new Map(products.map(product => [product.id, product]))
+    return variants
+      .filter(variant => variant.isActive && variant.currentStock > 0)
+      .map(variant => {
+        const product = productsById.get(variant.productId)
+        return product
+          ? {
+              variantId: variant.id,
+              productName: product.name,
+              variantName: [variant.color, variant.size].filter(Boolean).join(' - ') || 'Estándar',
+              sku: variant.sku,
+              code: product.code,
+              unitPrice: variant.priceCents ? variant.priceCents / 100 : product.basePrice.amount,
+              stock: variant.currentStock
+            }
+          : null
+      })
+      .filter((option): option is NonNullable<typeof option> => option !== null)
+      .filter(option =>
+        option.productName.toLowerCase().includes(query) ||
+        option.sku.toLowerCase().includes(query) ||
+        option.code.toLowerCase().includes(query)
+      )
+      .slice(0, MAX_EXCHANGE_RESULTS)
+  }, [exchangeQuery, products, variants])
+
+  const addExchangeLine = (option: typeof exchangeResults[number]) => {
+    setExchangeLines(lines => {
+      const existing = lines.find(line => line.variantId === option.variantId)
+      if (existing) {
+        return lines.map(line => line.variantId === option.variantId
+          ? { ...line, quantity: Math.min(line.quantity + 1, line.maxStock) }
+          : line)
+      }
+      return [...lines, {
+        variantId: option.variantId,
+        productName: option.productName,
+        variantName: option.variantName,
+        unitPrice: option.unitPrice,
+        quantity: 1,
+        maxStock: option.stock
+      }]
+    })
+    setExchangeQuery('')
+  }
+
+  const selectedLines = Object.entries(returnQuantities).filter(([, quantity]) => quantity > 0)
+  const moneyTotal = moneyLines.reduce((sum, line) => sum + line.amount, 0)
+  const moneyMatches = Math.abs(moneyTotal - Math.abs(totals.balance)) <= 0.01
+  const canSubmit = selectedLines.length > 0 && moneyMatches && moneyLines.every(line => line.paymentMethodId && line.amount > 0)
+
+  const handleSubmit = async () => {
+    if (!user) return
+
+    setIsSaving(true)
+    try {
+      // Reintegros con signo positivo; el cobro de la diferencia con signo negativo
+      const sign = totals.balance < 0 ? -1 : 1
+      await registerReturn(sale.id, {
+        items: selectedLines.map(([itemId, quantity]) => ({ itemId, quantity })),
+        exchangeItems: exchangeLines.map(line => ({
+          variantId: line.variantId,
+          productName: line.productName,
+          variantName: line.variantName,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          discount: 0
+        })),
+        refunds: moneyLines.map(line => ({ paymentMethodId: line.paymentMethodId, amount: sign * line.amount })),
+        reason: reason.trim() || undefined
+      }, user.id)
+
+      toast.success(
+        exchangeLines.length > 0 ? 'Cambio registrado' : 'Devolución registrada',
+        totals.balance > 0
+          ? `Reintegrar ${formatCurrency(totals.balance)} al cliente`
+          : totals.balance < 0
+            ? `Cobrar ${formatCurrency(-totals.balance)} al cliente`
+            : undefined
+      )
+      onClose()
+    } catch (error) {
+      toast.error('No se pudo registrar la devolución', getErrorMessage(error))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Devolución / cambio · ${sale.receiptNumber}`}
+      description="Solo las unidades seleccionadas vuelven al stock"
+      size="lg"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            isLoading={isSaving}
+            disabled={!canSubmit}
+            leftIcon={<Undo2 className="h-4 w-4" />}
+          >
+            Registrar
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-6">
+        {/* Artículos a devolver */}
+        <div>
+          <h4 className="font-medium mb-3">Artículos a devolver</h4>
+          {returnableItems.length === 0 ? (
+            <p className="text-sm text-surface-500">Todas las unidades de esta venta ya fueron devueltas</p>
+          ) : (
+            <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+              {returnableItems.map(item => (
+                <div key={item.id} className="p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{item.productName}</p>
+                    <p className="text-sm text-surface-500">
+                      {item.variantName} · {formatCurrency(item.amountFor(1).amount)} c/u
+                      {item.returnedQuantity > 0 && ` · ${item.returnedQuantity} ya devueltas`}
+                    </p>
+                  </div>
+                  <NumberInput
+                    value={returnQuantities[item.id] ?? 0}
+                    min={0}
+                    max={item.returnableQuantity}
+                    onChange={(value) => setReturnQuantities(current => ({
+                      ...current,
+                      [item.id]: Math.min(Math.max(0, Math.round(value)), item.returnableQuantity)
+                    }))}
+                    className="w-32"
+                    aria-label={`Unidades a devolver de ${item.productName}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Artículos a cambio */}
+        <div>
+          <h4 className="font-medium mb-3">Se lleva a cambio (opcional)</h4>
+          <input
+            type="search"
+            value={exchangeQuery}
+            onChange={(e) => setExchangeQuery(e.target.value)}
+            placeholder="Buscar por nombre, código o SKU..."
+            className="h-10 w-full px-3 rounded-lg border border-surface-300 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+          />
+          {exchangeResults.length > 0 && (
+            <div className="mt-2 border border-surface-200 rounded-lg divide-y divide-surface-200">
+              {exchangeResults.map(option => (
+                <button
+                  key={option.variantId}
+                  type="button"
+                  onClick={() => addExchangeLine(option)}
+                  className="w-full p-2 flex items-center justify-between gap-2 text-left hover:bg-surface-50"
+                >
+                  <span className="text-sm">
+                    {option.productName} · {option.variantName}
+                    <span className="text-surface-500"> ({option.stock} en stock)</span>
+                  </span>
+                  <span className="text-sm font-medium shrink-0">{formatCurrency(option.unitPrice)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {exchangeLines.length > 0 && (
+            <div className="mt-3 border border-surface-200 rounded-lg divide-y divide-surface-200">
+              {exchangeLines.map(line => (
+                <div key={line.variantId} className="p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{line.productName}</p>
+                    <p className="text-sm text-surface-500">{line.variantName} · {formatCurrency(line.unitPrice)} c/u</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <NumberInput
+                      value={line.quantity}
+                      min={1}
+                      max={line.maxStock}
+                      onChange={(value) => setExchangeLines(lines => lines.map(l => l.variantId === line.variantId
+                        ? { ...l, quantity: Math.min(Math.max(1, Math.round(value)), l.maxStock) }
+                        : l))}
+                      className="w-32"
+                      aria-label={`Unidades de ${line.productName} a cambio`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExchangeLines(lines => lines.filter(l => l.variantId !== line.variantId))}
+                      className="h-8 w-8 p-0"
+                      aria-label="Quitar del cambio"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Diferencia */}
+        <div className="space-y-2 p-4 bg-surface-50 rounded-lg">
+          <div className="flex justify-between text-sm">
+            <span className="text-surface-600">Devuelto</span>
+            <span>{formatCurrency(totals.returned)}</span>
+          </div>
+          {exchangeLines.length > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-surface-600">A cambio</span>
+              <span>-{formatCurrency(totals.exchange)}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center pt-2 border-t border-surface-200">
+            <span className="font-semibold">
+              {totals.balance > 0 ? 'A reintegrar' : totals.balance < 0 ? 'A cobrar' : 'Sin diferencia'}
+            </span>
+            <span className="text-xl font-bold">{formatCurrency(Math.abs(totals.balance))}</span>
+          </div>
+        </div>
+
+        {/* Reintegro o cobro por método de pago */}
+        {totals.balance !== 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">
+                {totals.balance > 0 ? 'Reintegro por método de pago' : 'Cobro por método de pago'}
+              </h4>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setMoneyLines(lines => [...lines, { paymentMethodId: paymentMethods[0]?.id ?? '', amount: 0 }])}
+                leftIcon={<Plus className="h-4 w-4" />}
+              >
+                Agregar método
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {moneyLines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={line.paymentMethodId}
+                    onChange={(e) => setMoneyLines(lines => lines.map((l, i) => i === index ? { ...l, paymentMethodId: e.target.value } : l))}
+                    options={paymentMethods.map(pm => ({ value: pm.id, label: pm.name }))}
+                    className="flex-1"
+                  />
+                  <NumberInput
+                    value={line.amount}
+                    min={0}
+                    step={0.01}
+                    showControls={false}
+                    onChange={(value) => setMoneyLines(lines => lines.map((l, i) => i === index ? { ...l, amount: Math.max(0, value) } : l))}
+                    className="w-36"
+                    aria-label="Monto"
+                  />
+                  {moneyLines.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMoneyLines(lines => lines.filter((_, i) => i !== index))}
+                      className="h-8 w-8 p-0"
+                      aria-label="Quitar método"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {!moneyMatches && (
+              <Alert variant="warning" className="mt-3">
+                Los montos suman {formatCurrency(moneyTotal)} y deben sumar {formatCurrency(Math.abs(totals.balance))}
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <Textarea
+          label="Motivo (opcional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          placeholder="Ej: cambio de color"
+        />
+
+        {sale.status === 'partially_refunded' && (
+          <Badge variant="info">La venta ya tiene devoluciones parciales</Badge>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -2,10 +2,10 @@
  * Componente para mostrar y resolver conflictos de sincronización
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { AlertTriangle, Check, X, RefreshCw, Download, Upload } from 'lucide-react'
 import { Card, CardHeader, CardTitle, Button, Badge, Modal, Alert, useToastActions } from '@presentation/components/ui'
-import { syncService } from '@infrastructure/sync'
+import { syncService, threeWayMerge } from '@infrastructure/sync'
 import { db, type SyncConflictRecord, type ConflictResolutionStrategy } from '@infrastructure/persistence/indexeddb/database'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { formatDateTime } from '@shared/lib/utils'
@@ -28,12 +28,12 @@ export function ConflictResolver() {
     []
   ) ?? []
 
-  const handleResolve = async (strategy: ConflictResolutionStrategy) => {
+  const handleResolve = async (strategy: ConflictResolutionStrategy, resolvedData?: Record<string, unknown>) => {
     if (!selectedConflict) return
 
     setIsResolving(true)
     try {
-      await syncService.resolveConflict(selectedConflict.id, strategy)
+      await syncService.resolveConflict(selectedConflict.id, strategy, resolvedData)
       toast.success('Conflicto resuelto', 'Los cambios se aplicarán en la próxima sincronización')
       setSelectedConflict(null)
     } catch (error) {
@@ -48,7 +48,11 @@ export function ConflictResolver() {
       categories: 'Categoría',
       products: 'Producto',
       productVariants: 'Variante',
-      paymentMethods: 'Método de pago'
+      paymentMethods: 'Método de pago',
+      customers: 'Cliente',
+      suppliers: 'Proveedor',
+      users: 'Usuario',
+      sales: 'Venta'
     }
     return labels[tableName] || tableName
   }
@@ -84,7 +88,7 @@ export function ConflictResolver() {
         <div className="p-4 space-y-3">
           <Alert variant="warning" title="Conflictos detectados">
             Se encontraron {conflicts.length} conflicto(s) que requieren resolución manual. 
-            Revisa cada uno y decide qué versión mantener.
+            Los cambios en campos distintos ya se combinaron; revisa solo los campos en conflicto.
           </Alert>
 
           <div className="space-y-2">
@@ -102,6 +106,7 @@ export function ConflictResolver() {
                     </div>
                     <p className="text-sm text-surface-600">
                       Detectado: {formatDateTime(new Date(conflict.conflictDetectedAt))}
+                      {conflict.conflictingFields && ` · ${conflict.conflictingFields.length} campo(s) en conflicto`}
                     </p>
                   </div>
                   <Button
@@ -136,7 +141,7 @@ export function ConflictResolver() {
 
 interface ConflictResolutionModalProps {
   conflict: SyncConflictRecord
-  onResolve: (strategy: ConflictResolutionStrategy) => Promise<void>
+  onResolve: (strategy: ConflictResolutionStrategy, resolvedData?: Record<string, unknown>) => Promise<void>
   onClose: () => void
   isResolving: boolean
 }
@@ -152,7 +157,11 @@ function ConflictResolutionModal({
       categories: 'Categoría',
       products: 'Producto',
       productVariants: 'Variante',
-      paymentMethods: 'Método de pago'
+      paymentMethods: 'Método de pago',
+      customers: 'Cliente',
+      suppliers: 'Proveedor',
+      users: 'Usuario',
+      sales: 'Venta'
     }
     return labels[tableName] || tableName
   }
@@ -174,7 +183,13 @@ function ConflictResolutionModal({
       size: 'Tamaño',
       price: 'Precio',
       priceCents: 'Precio (centavos)',
-      barcode: 'Código de barras'
+      barcode: 'Código de barras',
+      documentNumber: 'Documento',
+      phone: 'Teléfono',
+      email: 'Email',
+      address: 'Dirección',
+      notes: 'Notas',
+      role: 'Rol'
     }
     return labels[key] || key
   }
@@ -187,9 +202,30 @@ function ConflictResolutionModal({
     return String(value)
   }
 
-  const localKeys = Object.keys(conflict.localData)
-  const serverKeys = Object.keys(conflict.serverData)
-  const allKeys = [...new Set([...localKeys, ...serverKeys])]
+  // Conflictos guardados antes del merge a tres vías no traen el resultado: se calcula aquí
+  const merge = useMemo(() => {
+    if (conflict.mergedData && conflict.conflictingFields) {
+      return { merged: conflict.mergedData, conflictingFields: conflict.conflictingFields }
+    }
+    return threeWayMerge(conflict.baseData, conflict.localData, conflict.serverData)
+  }, [conflict])
+
+  // Elección por campo en conflicto (por defecto, la versión local)
+  const [choices, setChoices] = useState<Record<string, 'local' | 'server'>>({})
+
+  const autoMergedKeys = Object.keys(merge.merged).filter(key =>
+    !merge.conflictingFields.includes(key) &&
+    !['id', 'updatedAt', 'createdAt', 'syncedAt', 'syncStatus'].includes(key) &&
+    JSON.stringify(conflict.localData[key] ?? null) !== JSON.stringify(conflict.serverData[key] ?? null)
+  )
+
+  const handleApplySelection = () => {
+    const picks: Record<string, unknown> = {}
+    for (const key of merge.conflictingFields) {
+      picks[key] = choices[key] === 'server' ? conflict.serverData[key] : conflict.localData[key]
+    }
+    onResolve('merge', picks)
+  }
 
   return (
     <Modal
@@ -201,85 +237,86 @@ function ConflictResolutionModal({
       <div className="space-y-4">
         <Alert variant="warning">
           Este registro fue modificado localmente y en el servidor. 
-          Elige qué versión mantener o combina los cambios manualmente.
+          Elige qué valor mantener en cada campo en conflicto.
         </Alert>
 
-        <div className="grid grid-cols-2 gap-4 max-h-96 overflow-auto">
-          {/* Versión Local */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2 mb-2">
+        {autoMergedKeys.length > 0 && (
+          <div className="text-sm text-surface-600">
+            <span className="font-medium text-surface-700">Combinados automáticamente: </span>
+            {autoMergedKeys.map(getFieldLabel).join(', ')}
+          </div>
+        )}
+
+        <div className="space-y-3 max-h-96 overflow-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center gap-2">
               <Upload className="h-4 w-4 text-primary-600" />
               <h3 className="font-semibold">Versión Local</h3>
               <Badge variant="info" size="sm">
                 {formatDateTime(new Date(conflict.localUpdatedAt))}
               </Badge>
             </div>
-            <div className="space-y-1 text-sm">
-              {allKeys.map(key => {
-                const localValue = conflict.localData[key]
-                const serverValue = conflict.serverData[key]
-                const isDifferent = localValue !== serverValue
-
-                return (
-                  <div
-                    key={key}
-                    className={`p-2 rounded ${isDifferent ? 'bg-primary-50 border border-primary-200' : 'bg-surface-50'}`}
-                  >
-                    <div className="font-medium text-surface-700">{getFieldLabel(key)}</div>
-                    <div className="text-surface-600">{formatValue(localValue)}</div>
-                  </div>
-                )
-              })}
-            </div>
-          </div>
-
-          {/* Versión Servidor */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2 mb-2">
+            <div className="flex items-center gap-2">
               <Download className="h-4 w-4 text-success-600" />
               <h3 className="font-semibold">Versión Servidor</h3>
               <Badge variant="success" size="sm">
                 {formatDateTime(new Date(conflict.serverUpdatedAt))}
               </Badge>
             </div>
-            <div className="space-y-1 text-sm">
-              {allKeys.map(key => {
-                const localValue = conflict.localData[key]
-                const serverValue = conflict.serverData[key]
-                const isDifferent = localValue !== serverValue
+          </div>
+
+          {merge.conflictingFields.map(key => {
+            const choice = choices[key] ?? 'local'
 
-                return (
-                  <div
-                    key={key}
-                    className={`p-2 rounded ${isDifferent ? 'bg-success-50 border border-success-200' : 'bg-surface-50'}`}
+            return (
+              <div key={key} className="space-y-1 text-sm">
+                <div className="font-medium text-surface-700">{getFieldLabel(key)}</div>
+                <div className="grid grid-cols-2 gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [key]: 'local' }))}
+                    className={`p-2 rounded text-left ${choice === 'local' ? 'bg-primary-50 border border-primary-400' : 'bg-surface-50 border border-transparent'}`}
                   >
-                    <div className="font-medium text-surface-700">{getFieldLabel(key)}</div>
-                    <div className="text-surface-600">{formatValue(serverValue)}</div>
-                  </div>
-                )
-              })}
-            </div>
-          </div>
+                    <span className="text-surface-600 whitespace-pre-wrap">{formatValue(conflict.localData[key])}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setChoices(prev => ({ ...prev, [key]: 'server' }))}
+                    className={`p-2 rounded text-left ${choice === 'server' ? 'bg-success-50 border border-success-400' : 'bg-surface-50 border border-transparent'}`}
+                  >
+                    <span className="text-surface-600 whitespace-pre-wrap">{formatValue(conflict.serverData[key])}</span>
+                  </button>
+                </div>
+              </div>
+            )
+          })}
         </div>
 
         <div className="flex gap-2 pt-4 border-t border-surface-200">
           <Button
             variant="primary"
-            onClick={() => onResolve('local')}
+            onClick={handleApplySelection}
             disabled={isResolving}
             className="flex-1"
+            leftIcon={<Check className="h-4 w-4" />}
+          >
+            Aplicar selección
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => onResolve('local')}
+            disabled={isResolving}
             leftIcon={<Upload className="h-4 w-4" />}
           >
-            Mantener Local
+            Todo Local
           </Button>
           <Button
             variant="success"
             onClick={() => onResolve('server')}
             disabled={isResolving}
-            className="flex-1"
             leftIcon={<Download className="h-4 w-4" />}
           >
-            Usar Servidor
+            Todo Servidor
           </Button>
           <Button
             variant="secondary"
@@ -293,4 +330,3 @@ function ConflictResolutionModal({
     </Modal>
   )
 }
-
@@ -0,0 +1,224 @@
+/**
+ * Componente para inspeccionar, reintentar o descartar operaciones de sincronización
+ * que agotaron sus reintentos automáticos (dead-letter)
+ */
+
+import { useState } from 'react'
+import { Inbox, Check, RefreshCw, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, Button, Badge, Modal, Alert, ConfirmModal, useToastActions } from '@presentation/components/ui'
+import { syncService, MAX_SYNC_RETRIES } from '@infrastructure/sync'
+import { db, type SyncQueueRecord } from '@infrastructure/persistence/indexeddb/database'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { formatDateTime } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+const TABLE_LABELS: Record<string, string> = {
+  categories: 'Categoría',
+  products: 'Producto',
+  productVariants: 'Variante',
+  paymentMethods: 'Método de pago',
+  customers: 'Cliente',
+  suppliers: 'Proveedor',
+  users: 'Usuario',
+  sales: 'Venta',
+  stockMovements: 'Movimiento de stock'
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  create: 'Alta',
+  update: 'Modificación',
+  delete: 'Baja'
+}
+
+export function DeadLetterQueue() {
+  const toast = useToastActions()
+  const [selectedOp, setSelectedOp] = useState<SyncQueueRecord | null>(null)
+  const [discardTarget, setDiscardTarget] = useState<string[] | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  // Operaciones en dead-letter (reactivo)
+  const operations = useLiveQuery(
+    async () => {
+      const ops = await db.syncQueue.where('status').equals('dead_letter').toArray()
+      return ops.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    },
+    [],
+    []
+  ) ?? []
+
+  const handleRetry = async (ids?: string[]) => {
+    setIsProcessing(true)
+    try {
+      await syncService.retryDeadLetterOperations(ids)
+      toast.success('Operaciones reencoladas', 'Se enviarán en la próxima sincronización')
+      setSelectedOp(null)
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!discardTarget) return
+
+    setIsProcessing(true)
+    try {
+      await syncService.discardDeadLetterOperations(discardTarget.length > 0 ? discardTarget : undefined)
+      toast.success('Operaciones descartadas')
+      setDiscardTarget(null)
+      setSelectedOp(null)
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  if (operations.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5 text-success-600" />
+            Operaciones no sincronizadas
+          </CardTitle>
+        </CardHeader>
+        <div className="p-6 text-center text-surface-500">
+          <Check className="h-12 w-12 mx-auto mb-3 text-success-500 opacity-50" />
+          <p className="font-medium">No hay operaciones bloqueadas</p>
+          <p className="text-sm">Las operaciones fallidas se reintentan automáticamente</p>
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5 text-danger-600" />
+            Operaciones no sincronizadas
+            <Badge variant="danger" size="sm">{operations.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <div className="p-4 space-y-3">
+          <Alert variant="danger" title="Reintentos agotados">
+            Estas operaciones fallaron {MAX_SYNC_RETRIES} veces y ya no se reintentan solas.
+            Revisa el error y decide si reintentarlas o descartarlas.
+          </Alert>
+
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => handleRetry()}
+              disabled={isProcessing}
+              leftIcon={<RefreshCw className="h-4 w-4" />}
+            >
+              Reintentar todas
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => setDiscardTarget([])}
+              disabled={isProcessing}
+              leftIcon={<Trash2 className="h-4 w-4" />}
+            >
+              Descartar todas
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {operations.map(op => (
+              <div
+                key={op.id}
+                className="p-4 border border-danger-200 rounded-lg bg-danger-50/50 hover:bg-danger-50 transition-colors cursor-pointer"
+                onClick={() => setSelectedOp(op)}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="danger">{TABLE_LABELS[op.tableName] || op.tableName}</Badge>
+                  <Badge variant="default" size="sm">{OPERATION_LABELS[op.operation] || op.operation}</Badge>
+                  <span className="text-sm font-mono text-surface-600">{op.recordId}</span>
+                </div>
+                <p className="text-sm text-danger-700">{op.error || 'Error desconocido'}</p>
+                <p className="text-xs text-surface-500">
+                  Encolada: {formatDateTime(new Date(op.timestamp))} · {op.retries} intento(s)
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </Card>
+
+      {/* Detalle de la operación */}
+      {selectedOp && (
+        <Modal
+          isOpen={true}
+          onClose={() => setSelectedOp(null)}
+          title={`${OPERATION_LABELS[selectedOp.operation] || selectedOp.operation} - ${TABLE_LABELS[selectedOp.tableName] || selectedOp.tableName}`}
+          size="lg"
+        >
+          <div className="space-y-4">
+            <Alert variant="danger">{selectedOp.error || 'Error desconocido'}</Alert>
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-surface-500">Registro</p>
+                <p className="font-mono">{selectedOp.recordId}</p>
+              </div>
+              <div>
+                <p className="text-surface-500">Intentos</p>
+                <p className="font-medium">{selectedOp.retries}</p>
+              </div>
+            </div>
+
+            <pre className="p-3 bg-surface-50 rounded text-xs max-h-72 overflow-auto">
+              {JSON.stringify(selectedOp.data, null, 2)}
+            </pre>
+
+            <div className="flex gap-2 pt-4 border-t border-surface-200">
+              <Button
+                variant="primary"
+                onClick={() => handleRetry([selectedOp.id])}
+                disabled={isProcessing}
+                className="flex-1"
+                leftIcon={<RefreshCw className="h-4 w-4" />}
+              >
+                Reintentar
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => setDiscardTarget([selectedOp.id])}
+                disabled={isProcessing}
+                className="flex-1"
+                leftIcon={<Trash2 className="h-4 w-4" />}
+              >
+                Descartar
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setSelectedOp(null)}
+                disabled={isProcessing}
+              >
+                Cerrar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      <ConfirmModal
+        isOpen={discardTarget !== null}
+        onClose={() => setDiscardTarget(null)}
+        onConfirm={handleDiscard}
+        title="¿Descartar operaciones?"
+        message="Los cambios locales de estas operaciones no se enviarán al servidor. Esta acción no se puede deshacer."
+        confirmText="Sí, descartar"
+        variant="danger"
+        isLoading={isProcessing}
+      />
+    </>
+  )
+}
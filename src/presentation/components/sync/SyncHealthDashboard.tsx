@@ -0,0 +1,281 @@
+/**
+ * Panel de salud de sincronización por dispositivo (solo administradores)
+ * Muestra última sincronización, tasa de errores, operaciones trabadas y
+ * entradas recientes con error o conflicto; permite nombrar y revocar dispositivos
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { Activity, RefreshCw, Edit, Ban, Check } from 'lucide-react'
+import { Card, CardHeader, CardTitle, Button, Badge, Modal, Alert, Input, ConfirmModal, useToastActions } from '@presentation/components/ui'
+import { syncAdminService, type SyncDeviceHealth, type SyncLogEntry } from '@infrastructure/api'
+import { syncService } from '@infrastructure/sync'
+import { formatDateTime, formatRelativeTime } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+export function SyncHealthDashboard() {
+  const toast = useToastActions()
+  const [devices, setDevices] = useState<SyncDeviceHealth[]>([])
+  const [windowDays, setWindowDays] = useState(7)
+  const [logs, setLogs] = useState<SyncLogEntry[]>([])
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null)
+  const [selectedLog, setSelectedLog] = useState<SyncLogEntry | null>(null)
+  const [deviceToRename, setDeviceToRename] = useState<SyncDeviceHealth | null>(null)
+  const [deviceName, setDeviceName] = useState('')
+  const [deviceToRevoke, setDeviceToRevoke] = useState<SyncDeviceHealth | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const currentDeviceId = syncService.getStatus().deviceId
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [health, recentLogs] = await Promise.all([
+        syncAdminService.getDevices(),
+        syncAdminService.getLogs({ deviceId: selectedDeviceId ?? undefined })
+      ])
+      setDevices(health.devices)
+      setWindowDays(health.windowDays)
+      setLogs(recentLogs)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(getErrorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [selectedDeviceId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const getDeviceLabel = (deviceId: string) => {
+    const device = devices.find(d => d.deviceId === deviceId)
+    return device?.name || `${deviceId.slice(0, 8)}…`
+  }
+
+  const handleRename = async () => {
+    if (!deviceToRename) return
+    try {
+      await syncAdminService.renameDevice(deviceToRename.deviceId, deviceName.trim() || null)
+      toast.success('Dispositivo actualizado')
+      setDeviceToRename(null)
+      await load()
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    }
+  }
+
+  const handleToggleRevoke = async (device: SyncDeviceHealth) => {
+    try {
+      if (device.revokedAt) {
+        await syncAdminService.restoreDevice(device.deviceId)
+        toast.success('Dispositivo rehabilitado')
+      } else {
+        await syncAdminService.revokeDevice(device.deviceId)
+        toast.success('Dispositivo revocado', 'Sus cambios serán rechazados')
+      }
+      setDeviceToRevoke(null)
+      await load()
+    } catch (error) {
+      toast.error('Error', getErrorMessage(error))
+    }
+  }
+
+  const formatLastSync = (date: string | null) =>
+    date ? formatRelativeTime(new Date(date)) : 'Nunca'
+
+  return (
+    <div className="space-y-6">
+      {loadError && (
+        <Alert variant="danger" title="Error al cargar la salud de sincronización">
+          {loadError}
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-primary-600" />
+            Dispositivos
+            <Badge variant="default" size="sm">{devices.length}</Badge>
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={load}
+            disabled={isLoading}
+            leftIcon={<RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />}
+          >
+            Actualizar
+          </Button>
+        </CardHeader>
+        <div className="p-4 overflow-x-auto">
+          <p className="text-sm text-surface-500 mb-3">
+            Operaciones y errores de los últimos {windowDays} días
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-surface-500 border-b border-surface-200">
+                <th className="py-2 pr-3">Dispositivo</th>
+                <th className="py-2 pr-3">Último pull</th>
+                <th className="py-2 pr-3">Último push</th>
+                <th className="py-2 pr-3 text-right">Operaciones</th>
+                <th className="py-2 pr-3 text-right">Tasa de error</th>
+                <th className="py-2 pr-3 text-right">Trabadas</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {devices.map(device => (
+                <tr
+                  key={device.deviceId}
+                  className={`border-b border-surface-100 cursor-pointer hover:bg-surface-50 ${selectedDeviceId === device.deviceId ? 'bg-primary-50' : ''}`}
+                  onClick={() => setSelectedDeviceId(prev => prev === device.deviceId ? null : device.deviceId)}
+                >
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{device.name || 'Sin nombre'}</span>
+                      {device.deviceId === currentDeviceId && <Badge variant="info" size="sm">Este dispositivo</Badge>}
+                      {device.revokedAt && <Badge variant="danger" size="sm">Revocado</Badge>}
+                    </div>
+                    <span className="font-mono text-xs text-surface-500">{device.deviceId}</span>
+                  </td>
+                  <td className="py-2 pr-3">{formatLastSync(device.lastPullAt)}</td>
+                  <td className="py-2 pr-3">{formatLastSync(device.lastPushAt)}</td>
+                  <td className="py-2 pr-3 text-right">{device.operations}</td>
+                  <td className="py-2 pr-3 text-right">
+                    <Badge variant={device.errorRate > 0.1 ? 'danger' : device.errorRate > 0 ? 'warning' : 'success'} size="sm">
+                      {(device.errorRate * 100).toFixed(1)}%
+                    </Badge>
+                  </td>
+                  <td className="py-2 pr-3 text-right">
+                    {device.stuckOperations > 0
+                      ? <Badge variant="danger" size="sm">{device.stuckOperations}</Badge>
+                      : <span className="text-surface-400">0</span>}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-1" onClick={e => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Nombrar"
+                        onClick={() => {
+                          setDeviceToRename(device)
+                          setDeviceName(device.name ?? '')
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={device.revokedAt ? 'Rehabilitar' : 'Revocar'}
+                        onClick={() => device.revokedAt ? handleToggleRevoke(device) : setDeviceToRevoke(device)}
+                      >
+                        {device.revokedAt
+                          ? <Check className="h-4 w-4 text-success-600" />
+                          : <Ban className="h-4 w-4 text-danger-500" />}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {devices.length === 0 && !isLoading && (
+            <p className="text-center text-surface-500 py-6">Todavía no hay dispositivos sincronizados</p>
+          )}
+        </div>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Errores y conflictos recientes
+            {selectedDeviceId && ` · ${getDeviceLabel(selectedDeviceId)}`}
+          </CardTitle>
+        </CardHeader>
+        <div className="p-4 space-y-2">
+          {logs.length === 0 ? (
+            <p className="text-center text-surface-500 py-6">Sin errores ni conflictos registrados</p>
+          ) : (
+            logs.map(log => (
+              <div
+                key={log.id}
+                className="p-3 border border-surface-200 rounded-lg hover:bg-surface-50 cursor-pointer"
+                onClick={() => setSelectedLog(log)}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant={log.status === 'CONFLICT' ? 'warning' : 'danger'} size="sm">{log.status}</Badge>
+                  <span className="font-medium">{log.operation} · {log.tableName}</span>
+                  <span className="text-xs text-surface-500">{getDeviceLabel(log.deviceId)}</span>
+                </div>
+                <p className="text-sm text-danger-700">{log.error || '-'}</p>
+                <p className="text-xs text-surface-500">{formatDateTime(new Date(log.createdAt))}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
+      {/* Payload de una entrada del log */}
+      {selectedLog && (
+        <Modal
+          isOpen={true}
+          onClose={() => setSelectedLog(null)}
+          title={`${selectedLog.operation} · ${selectedLog.tableName}`}
+          size="lg"
+        >
+          <div className="space-y-4">
+            {selectedLog.error && <Alert variant="danger">{selectedLog.error}</Alert>}
+            <div className="text-sm">
+              <p className="text-surface-500">Registro</p>
+              <p className="font-mono">{selectedLog.recordId}</p>
+            </div>
+            <pre className="p-3 bg-surface-50 rounded text-xs max-h-96 overflow-auto">
+              {JSON.stringify(selectedLog.data, null, 2)}
+            </pre>
+          </div>
+        </Modal>
+      )}
+
+      {/* Nombrar dispositivo */}
+      {deviceToRename && (
+        <Modal
+          isOpen={true}
+          onClose={() => setDeviceToRename(null)}
+          title="Nombrar dispositivo"
+        >
+          <div className="space-y-4">
+            <Input
+              label="Nombre"
+              value={deviceName}
+              onChange={e => setDeviceName(e.target.value)}
+              placeholder="Ej: Caja 1"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setDeviceToRename(null)}>
+                Cancelar
+              </Button>
+              <Button variant="primary" onClick={handleRename}>
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      <ConfirmModal
+        isOpen={deviceToRevoke !== null}
+        onClose={() => setDeviceToRevoke(null)}
+        onConfirm={() => deviceToRevoke && handleToggleRevoke(deviceToRevoke)}
+        title="¿Revocar dispositivo?"
+        message="El servidor rechazará los cambios que envíe este dispositivo hasta que se rehabilite."
+        confirmText="Sí, revocar"
+        variant="danger"
+      />
+    </div>
+  )
+}
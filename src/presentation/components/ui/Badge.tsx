@@ -40,12 +40,13 @@ export function Badge({
 }
 
 // Badges específicos para estados comunes
-export function StatusBadge({ status }: { status: 'pending' | 'completed' | 'cancelled' | 'refunded' }) {
+export function StatusBadge({ status }: { status: 'pending' | 'completed' | 'cancelled' | 'refunded' | 'partially_refunded' }) {
   const config = {
     pending: { variant: 'warning' as const, label: 'Pendiente' },
     completed: { variant: 'success' as const, label: 'Completada' },
     cancelled: { variant: 'danger' as const, label: 'Cancelada' },
-    refunded: { variant: 'info' as const, label: 'Reembolsada' }
+    refunded: { variant: 'info' as const, label: 'Reembolsada' },
+    partially_refunded: { variant: 'info' as const, label: 'Devolución parcial' }
   }
 
   const { variant, label } = config[status]
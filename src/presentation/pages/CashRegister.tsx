@@ -0,0 +1,451 @@
+import { useState, useMemo } from 'react'
+import {
+  Wallet,
+  Banknote,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  Lock,
+  Unlock,
+  Printer,
+  History
+} from 'lucide-react'
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Modal,
+  Input,
+  NumberInput,
+  Textarea,
+  Alert,
+  StatCard,
+  useToastActions
+} from '@presentation/components/ui'
+import { CashSessionAuditPanel } from '@presentation/components/cash/CashSessionAuditPanel'
+import {
+  useCurrentCashSession,
+  useCashSessionSummary,
+  useClosedCashSessions,
+  useCashSessionMutations
+} from '@infrastructure/persistence/hooks/useCashSession'
+import type { CashSessionRecord } from '@infrastructure/persistence/indexeddb/database'
+import { PDFService } from '@infrastructure/services/PDFService'
+import { CashRegisterService, CASH_DENOMINATIONS, type CashCount } from '@domain/services/CashRegisterService'
+import { useAuth } from '@presentation/hooks/useAuth'
+import { formatCurrency, formatDateTime, cn } from '@shared/lib/utils'
+import { getErrorMessage } from '@shared/errors'
+
+const cashRegisterService = new CashRegisterService()
+
+const emptyCount = (): CashCount => ({
+  ...Object.fromEntries(CASH_DENOMINATIONS.map(denomination => [String(denomination), 0])),
+  coins: 0
+})
+
+const differenceLabel = (difference: number) =>
+  difference > 0 ? 'Sobrante' : difference < 0 ? 'Faltante' : 'Sin diferencia'
+
+export function CashRegister() {
+  const { user } = useAuth()
+  const toast = useToastActions()
+  const { session, isLoading } = useCurrentCashSession()
+  const { summary } = useCashSessionSummary(session)
+  const { sessions: closedSessions } = useClosedCashSessions()
+  const { openSession, addMovement, closeSession } = useCashSessionMutations()
+
+  const canAudit = user?.role === 'ADMIN' || user?.role === 'MANAGER'
+
+  // Apertura
+  const [openingAmount, setOpeningAmount] = useState(0)
+
+  // Ingresos y retiros
+  const [movementType, setMovementType] = useState<'deposit' | 'withdrawal' | null>(null)
+  const [movementAmount, setMovementAmount] = useState(0)
+  const [movementReason, setMovementReason] = useState('')
+
+  // Cierre con arqueo
+  const [showClose, setShowClose] = useState(false)
+  const [cashCount, setCashCount] = useState<CashCount>(emptyCount)
+  const [closeNotes, setCloseNotes] = useState('')
+
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const countedCash = useMemo(() => cashRegisterService.sumCount(cashCount).amount, [cashCount])
+  const difference = summary ? cashRegisterService.calculateDifference(countedCash, summary.expectedCash) : 0
+
+  const handleOpen = async () => {
+    if (!user) return
+    setIsProcessing(true)
+    try {
+      await openSession(openingAmount, user.id)
+      toast.success('Caja abierta', `Fondo inicial: ${formatCurrency(openingAmount)}`)
+      setOpeningAmount(0)
+    } catch (error) {
+      toast.error('Error al abrir la caja', getErrorMessage(error))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const openMovementModal = (type: 'deposit' | 'withdrawal') => {
+    setMovementType(type)
+    setMovementAmount(0)
+    setMovementReason('')
+  }
+
+  const handleMovement = async () => {
+    if (!session || !movementType || !user) return
+    setIsProcessing(true)
+    try {
+      await addMovement(session.id, { type: movementType, amount: movementAmount, reason: movementReason }, user.id)
+      toast.success(movementType === 'deposit' ? 'Ingreso registrado' : 'Retiro registrado', formatCurrency(movementAmount))
+      setMovementType(null)
+    } catch (error) {
+      toast.error('Error al registrar el movimiento', getErrorMessage(error))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const openCloseModal = () => {
+    setCashCount(emptyCount())
+    setCloseNotes('')
+    setShowClose(true)
+  }
+
+  const printZReport = (record: CashSessionRecord) => {
+    try {
+      PDFService.generateZReport(record, user?.name)
+    } catch (error) {
+      toast.error('Error al generar el cierre Z', getErrorMessage(error))
+    }
+  }
+
+  const handleClose = async () => {
+    if (!session || !user) return
+    setIsProcessing(true)
+    try {
+      // Solo se guardan las denominaciones contadas
+      const count = Object.fromEntries(Object.entries(cashCount).filter(([, value]) => value > 0))
+      const closed = await closeSession(session.id, { cashCount: count, notes: closeNotes }, user.id)
+      setShowClose(false)
+      toast.success('Caja cerrada', `${differenceLabel(closed.difference ?? 0)}: ${formatCurrency(Math.abs(closed.difference ?? 0))}`)
+      printZReport(closed)
+    } catch (error) {
+      toast.error('Error al cerrar la caja', getErrorMessage(error))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-surface-900">Caja</h1>
+          <p className="text-surface-500">
+            {session
+              ? `Abierta el ${formatDateTime(session.openedAt)}`
+              : 'Apertura, movimientos y arqueo de la caja de este dispositivo'}
+          </p>
+        </div>
+        {session && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="secondary"
+              onClick={() => openMovementModal('deposit')}
+              leftIcon={<ArrowDownCircle className="h-4 w-4" />}
+            >
+              Ingreso
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => openMovementModal('withdrawal')}
+              leftIcon={<ArrowUpCircle className="h-4 w-4" />}
+            >
+              Retiro
+            </Button>
+            <Button
+              variant="danger"
+              onClick={openCloseModal}
+              leftIcon={<Lock className="h-4 w-4" />}
+            >
+              Cerrar caja
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!isLoading && !session && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Unlock className="h-5 w-5 text-primary-600" />
+              Abrir caja
+            </CardTitle>
+          </CardHeader>
+          <div className="p-6 flex flex-col sm:flex-row sm:items-end gap-4">
+            <NumberInput
+              label="Fondo inicial"
+              hint="Efectivo con el que arranca el turno"
+              min={0}
+              step={100}
+              value={openingAmount}
+              onChange={setOpeningAmount}
+              className="sm:w-64"
+            />
+            <Button onClick={handleOpen} isLoading={isProcessing} leftIcon={<Unlock className="h-4 w-4" />}>
+              Abrir caja
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {session && summary && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard title="Fondo inicial" value={formatCurrency(summary.openingAmount)} icon={<Wallet className="h-5 w-5" />} />
+            <StatCard title="Ventas en efectivo" value={formatCurrency(summary.cashSales)} icon={<Banknote className="h-5 w-5" />} />
+            <StatCard
+              title="Ingresos / retiros"
+              value={`${formatCurrency(summary.deposits)} / ${formatCurrency(summary.withdrawals)}`}
+              icon={<ArrowDownCircle className="h-5 w-5" />}
+            />
+            <StatCard title="Efectivo esperado" value={formatCurrency(summary.expectedCash)} icon={<Lock className="h-5 w-5" />} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Ventas por método de pago</CardTitle>
+                <Badge variant="default" size="sm">{summary.salesCount} ventas</Badge>
+              </CardHeader>
+              <div className="p-4 space-y-2 text-sm">
+                {summary.byMethod.length === 0 && (
+                  <p className="text-surface-500">Todavía no hay ventas en esta caja</p>
+                )}
+                {summary.byMethod.map(method => (
+                  <div key={method.paymentMethodId} className="flex justify-between">
+                    <span className="text-surface-600">{method.name}</span>
+                    <span className="font-medium">{formatCurrency(method.amount)}</span>
+                  </div>
+                ))}
+                {summary.cashRefunds !== 0 && (
+                  <div className="flex justify-between text-danger-600">
+                    <span>Devoluciones en efectivo</span>
+                    <span>{formatCurrency(-summary.cashRefunds)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t border-surface-200 pt-2 font-semibold">
+                  <span>Total vendido</span>
+                  <span>{formatCurrency(summary.salesTotal)}</span>
+                </div>
+              </div>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Movimientos de caja</CardTitle>
+              </CardHeader>
+              <div className="p-4 space-y-2 text-sm">
+                {session.movements.length === 0 && (
+                  <p className="text-surface-500">Sin ingresos ni retiros</p>
+                )}
+                {session.movements.map(movement => (
+                  <div key={movement.id} className="flex justify-between gap-3">
+                    <div>
+                      <p className="font-medium">{movement.reason}</p>
+                      <p className="text-xs text-surface-500">{formatDateTime(movement.createdAt)}</p>
+                    </div>
+                    <span className={movement.type === 'withdrawal' ? 'text-danger-600' : 'text-success-600'}>
+                      {formatCurrency((movement.type === 'withdrawal' ? -1 : 1) * movement.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {/* Cierres anteriores de este dispositivo */}
+      {closedSessions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary-600" />
+              Cierres anteriores
+            </CardTitle>
+          </CardHeader>
+          <div className="p-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-surface-500 border-b border-surface-200">
+                  <th className="py-2 pr-3">Apertura</th>
+                  <th className="py-2 pr-3">Cierre</th>
+                  <th className="py-2 pr-3 text-right">Esperado</th>
+                  <th className="py-2 pr-3 text-right">Contado</th>
+                  <th className="py-2 pr-3 text-right">Diferencia</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {closedSessions.map(closed => (
+                  <tr key={closed.id} className="border-b border-surface-100">
+                    <td className="py-2 pr-3">{formatDateTime(closed.openedAt)}</td>
+                    <td className="py-2 pr-3">{closed.closedAt ? formatDateTime(closed.closedAt) : '-'}</td>
+                    <td className="py-2 pr-3 text-right">{formatCurrency(closed.expectedCash ?? 0)}</td>
+                    <td className="py-2 pr-3 text-right">{formatCurrency(closed.countedCash ?? 0)}</td>
+                    <td
+                      className={cn(
+                        'py-2 pr-3 text-right font-medium',
+                        (closed.difference ?? 0) > 0 && 'text-success-600',
+                        (closed.difference ?? 0) < 0 && 'text-danger-600'
+                      )}
+                    >
+                      {formatCurrency(closed.difference ?? 0)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => printZReport(closed)}
+                        leftIcon={<Printer className="h-4 w-4" />}
+                      >
+                        Cierre Z
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {canAudit && <CashSessionAuditPanel />}
+
+      {/* Modal de ingreso / retiro */}
+      <Modal
+        isOpen={movementType !== null}
+        onClose={() => setMovementType(null)}
+        title={movementType === 'deposit' ? 'Ingreso de efectivo' : 'Retiro de efectivo'}
+        size="sm"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setMovementType(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleMovement}
+              isLoading={isProcessing}
+              disabled={movementAmount <= 0 || !movementReason.trim()}
+            >
+              Registrar
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <NumberInput label="Monto" min={0} step={100} value={movementAmount} onChange={setMovementAmount} />
+          <Input
+            label="Motivo"
+            placeholder={movementType === 'deposit' ? 'Ej: cambio para la caja' : 'Ej: pago a proveedor'}
+            value={movementReason}
+            onChange={(e) => setMovementReason(e.target.value)}
+          />
+          {movementType === 'withdrawal' && summary && (
+            <p className="text-sm text-surface-500">
+              Efectivo disponible: {formatCurrency(summary.expectedCash)}
+            </p>
+          )}
+        </div>
+      </Modal>
+
+      {/* Modal de cierre con conteo billete por billete */}
+      <Modal
+        isOpen={showClose}
+        onClose={() => setShowClose(false)}
+        title="Cerrar caja"
+        description="Contá el efectivo por denominación"
+        size="lg"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setShowClose(false)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="danger"
+              onClick={handleClose}
+              isLoading={isProcessing}
+              leftIcon={<Lock className="h-4 w-4" />}
+            >
+              Cerrar e imprimir Z
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {CASH_DENOMINATIONS.map(denomination => (
+              <NumberInput
+                key={denomination}
+                label={`Billetes de ${formatCurrency(denomination)}`}
+                min={0}
+                step={1}
+                value={cashCount[String(denomination)] ?? 0}
+                onChange={(value) => setCashCount(prev => ({ ...prev, [String(denomination)]: Math.max(0, Math.floor(value)) }))}
+              />
+            ))}
+            <NumberInput
+              label="Monedas (monto)"
+              min={0}
+              step={0.01}
+              value={cashCount.coins ?? 0}
+              onChange={(value) => setCashCount(prev => ({ ...prev, coins: Math.max(0, value) }))}
+            />
+          </div>
+
+          {summary && (
+            <div className="rounded-lg bg-surface-50 p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-surface-600">Efectivo esperado</span>
+                <span className="font-medium">{formatCurrency(summary.expectedCash)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-surface-600">Efectivo contado</span>
+                <span className="font-medium">{formatCurrency(countedCash)}</span>
+              </div>
+              <div
+                className={cn(
+                  'flex justify-between font-semibold',
+                  difference > 0 && 'text-success-600',
+                  difference < 0 && 'text-danger-600'
+                )}
+              >
+                <span>{differenceLabel(difference)}</span>
+                <span>{formatCurrency(Math.abs(difference))}</span>
+              </div>
+            </div>
+          )}
+
+          {difference !== 0 && (
+            <Alert variant="warning">
+              El arqueo no coincide. Revisá el conteo o dejá una nota explicando la diferencia.
+            </Alert>
+          )}
+
+          <Textarea
+            label="Notas"
+            rows={2}
+            value={closeNotes}
+            onChange={(e) => setCloseNotes(e.target.value)}
+          />
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
+import { Link } from 'react-router-dom'
 import {
   Search,
   ShoppingCart,
@@ -12,7 +13,8 @@ import {
   X,
   Printer,
   CheckCircle,
-  Download
+  Download,
+  PauseCircle
   // ScanLine // Comentado: escáner de códigos de barras deshabilitado temporalmente
 } from 'lucide-react'
 import {
@@ -23,6 +25,9 @@ import {
   Badge,
   Modal,
   Select,
+  Input,
+  ConfirmModal,
+  Alert,
   useToastActions,
   SkeletonProductGrid
 } from '@presentation/components/ui'
@@ -30,15 +35,25 @@ import { useActiveCategories } from '@infrastructure/persistence/hooks/useCatego
 import { useProducts } from '@infrastructure/persistence/hooks/useProducts'
 import { useActivePaymentMethods } from '@infrastructure/persistence/hooks/usePaymentMethods'
 import { useSaleMutations } from '@infrastructure/persistence/hooks/useSales'
+import {
+  usePosTickets,
+  usePosTicketMutations,
+  getReservedStock,
+  nextTicketLabel
+} from '@infrastructure/persistence/hooks/usePosTickets'
+import { useCurrentCashSession } from '@infrastructure/persistence/hooks/useCashSession'
 import { useAuth } from '@presentation/hooks/useAuth'
-import { db } from '@infrastructure/persistence/indexeddb/database'
+import { db, type PosTicketRecord } from '@infrastructure/persistence/indexeddb/database'
 import { ProductVariantMapper } from '@infrastructure/persistence/indexeddb/mappers/ProductVariantMapper'
 import { Sale, SaleItem } from '@domain/entities/Sale'
 import { StockMovement } from '@domain/entities/StockMovement'
 import { Money } from '@domain/value-objects/Money'
 import { Quantity } from '@domain/value-objects/Quantity'
 import { Percentage } from '@domain/value-objects/Percentage'
-import { formatCurrency, cn } from '@shared/lib/utils'
+import { PaymentService, type PaymentInput } from '@domain/services/PaymentService'
+import { PricingService, type PaymentOption } from '@domain/services/PricingService'
+import type { PaymentMethod } from '@domain/entities/PaymentMethod'
+import { formatCurrency, formatDateTime, cn } from '@shared/lib/utils'
 import { getErrorMessage } from '@shared/errors'
 import type { PaymentMethodType } from '@shared/types'
 import { PDFService } from '@infrastructure/services/PDFService'
@@ -46,17 +61,28 @@ import { getImageUrl } from '@infrastructure/services/ImageService'
 // import { BarcodeScanner } from '@presentation/components/barcode/BarcodeScanner' // Comentado: escáner deshabilitado temporalmente
 import { ProductVariantRepository } from '@infrastructure/persistence/indexeddb/repositories/ProductVariantRepository'
 
-// Item del carrito
-interface CartItem {
-  variantId: string
-  productId: string
-  productName: string
-  variantName: string
-  sku: string
-  unitPrice: number
-  quantity: number
-  discount: number // porcentaje
-  maxStock: number
+// Item del carrito (se guarda tal cual en el ticket)
+type CartItem = PosTicketRecord['items'][number]
+
+// Ticket en edición: sus items son el carrito
+type ActiveTicket = Pick<PosTicketRecord, 'id' | 'label' | 'createdAt'>
+
+const paymentService = new PaymentService()
+const pricingService = new PricingService()
+
+/**
+ * Opción de pago elegida (cuotas) con el recargo o descuento del método.
+ * Si las cuotas pedidas no se ofrecen, se usa la primera opción del método
+ */
+function getPaymentOption(amount: number, method: PaymentMethod | undefined, installments?: number): PaymentOption | null {
+  if (!method || !(amount > 0)) return null
+  const options = pricingService.getPaymentOptions(Money.create(amount), method)
+  return options.find(option => option.installments === installments) ?? options[0] ?? null
+}
+
+// Total de un ticket con los descuentos por item
+function getTicketTotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.unitPrice * item.quantity * (1 - item.discount / 100), 0)
 }
 
 // Producto con variantes cargadas para mostrar
@@ -83,6 +109,17 @@ export function POS() {
   const { createSale, getNextReceiptNumber } = useSaleMutations()
   const { user } = useAuth()
   const toast = useToastActions()
+  const { session: cashSession, isLoading: isLoadingCashSession } = useCurrentCashSession()
+
+  // Tickets: el activo se edita en el carrito; el resto queda en pestañas o en espera
+  const { tickets, openTickets, parkedTickets, isLoading: isLoadingTickets } = usePosTickets()
+  const { saveTicket, parkTicket, resumeTicket, discardTicket } = usePosTicketMutations()
+  const [activeTicket, setActiveTicket] = useState<ActiveTicket | null>(null)
+  const [showParkModal, setShowParkModal] = useState(false)
+  const [parkLabel, setParkLabel] = useState('')
+  const [showParkedTickets, setShowParkedTickets] = useState(false)
+  const [ticketToDiscard, setTicketToDiscard] = useState<{ id: string; label: string } | null>(null)
+  const ticketsRestoredRef = useRef(false)
 
   // Estado del carrito
   const [cart, setCart] = useState<CartItem[]>([])
@@ -95,7 +132,11 @@ export function POS() {
   // Estado de checkout
   const [showCheckout, setShowCheckout] = useState(false)
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string | null>(null)
-  const [splitPayments, setSplitPayments] = useState<Array<{ methodId: string; amount: number }>>([])
+  // tendered: efectivo entregado por el cliente (solo efectivo), para calcular el vuelto
+  const [selectedInstallments, setSelectedInstallments] = useState<number | undefined>(undefined)
+  const [splitPayments, setSplitPayments] = useState<Array<{ methodId: string; amount: number; tendered?: number; installments?: number }>>([])
+  const [cashTendered, setCashTendered] = useState(0)
+  const [lastChange, setLastChange] = useState(0)
   const [isProcessing, setIsProcessing] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
   const [lastReceiptNumber, setLastReceiptNumber] = useState('')
@@ -160,17 +201,47 @@ export function POS() {
     loadProducts()
   }, [productsIds, products])
 
-  // Filtrar productos
+  // Unidades comprometidas en los demás tickets (abiertos o en espera)
+  const reservedStock = useMemo(
+    () => getReservedStock(tickets, activeTicket?.id),
+    [tickets, activeTicket]
+  )
+
+  // Filtrar productos (el stock disponible descuenta lo reservado en otros tickets)
   const filteredProducts = useMemo(() => {
     return productsWithStock.filter(product => {
       const matchesSearch = !searchQuery ||
         product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         product.code.toLowerCase().includes(searchQuery.toLowerCase())
       const matchesCategory = !selectedCategory || product.categoryId === selectedCategory
-      const hasStock = product.variants.some(v => v.stock > 0)
+      const hasStock = product.variants.some(v => v.stock - (reservedStock.get(v.id) ?? 0) > 0)
       return matchesSearch && matchesCategory && hasStock
     })
-  }, [productsWithStock, searchQuery, selectedCategory])
+  }, [productsWithStock, searchQuery, selectedCategory, reservedStock])
+
+  // Retomar el último ticket abierto al recargar la página
+  useEffect(() => {
+    if (isLoadingTickets || ticketsRestoredRef.current) return
+    ticketsRestoredRef.current = true
+
+    const lastOpen = openTickets[openTickets.length - 1]
+    if (lastOpen && !activeTicket) {
+      setActiveTicket({ id: lastOpen.id, label: lastOpen.label, createdAt: lastOpen.createdAt })
+      setCart(lastOpen.items)
+    }
+  }, [isLoadingTickets, openTickets, activeTicket])
+
+  // Guardar el ticket activo en cada cambio del carrito
+  useEffect(() => {
+    if (!activeTicket) return
+    saveTicket({
+      ...activeTicket,
+      userId: user?.id ?? 'system',
+      status: 'open',
+      items: cart,
+      updatedAt: new Date()
+    }).catch(error => console.error('Error al guardar el ticket:', error))
+  }, [activeTicket, cart, saveTicket, user?.id])
 
   // Calcular totales
   const cartTotals = useMemo(() => {
@@ -191,12 +262,23 @@ export function POS() {
 
   // Agregar al carrito (memoizado)
   const addToCart = useCallback((product: ProductWithStock, variant: ProductWithStock['variants'][0]) => {
-    // Validar stock antes de agregar
-    if (variant.stock === 0) {
-      toast.warning('Sin stock', 'Este producto no tiene stock disponible')
+    // Validar stock antes de agregar, descontando lo reservado en otros tickets
+    const available = variant.stock - (reservedStock.get(variant.id) ?? 0)
+    if (available <= 0) {
+      toast.warning(
+        'Sin stock',
+        variant.stock > 0
+          ? 'Las unidades disponibles están reservadas en otros tickets'
+          : 'Este producto no tiene stock disponible'
+      )
       return
     }
 
+    // El primer artículo abre un ticket nuevo
+    if (!activeTicket) {
+      setActiveTicket({ id: crypto.randomUUID(), label: nextTicketLabel(tickets), createdAt: new Date() })
+    }
+
     setCart(prevCart => {
       const existingIndex = prevCart.findIndex(item => item.variantId === variant.id)
 
@@ -204,17 +286,17 @@ export function POS() {
         // Ya existe, incrementar cantidad
         const existing = prevCart[existingIndex]
         const newQuantity = existing.quantity + 1
-        if (newQuantity <= variant.stock) {
+        if (newQuantity <= available) {
           const newCart = [...prevCart]
-          newCart[existingIndex] = { ...existing, quantity: newQuantity }
+          newCart[existingIndex] = { ...existing, quantity: newQuantity, maxStock: available }
           return newCart
         } else {
-          toast.warning('Stock insuficiente', `Solo hay ${variant.stock} unidades disponibles`)
+          toast.warning('Stock insuficiente', `Solo hay ${available} unidades disponibles`)
           return prevCart
         }
       } else {
         // Nuevo item - validar que hay stock
-        if (variant.stock === 0) {
+        if (available <= 0) {
           toast.warning('Sin stock', 'Este producto no tiene stock disponible')
           return prevCart
         }
@@ -227,11 +309,11 @@ export function POS() {
           unitPrice: variant.price,
           quantity: 1,
           discount: 0,
-          maxStock: variant.stock
+          maxStock: available
         }]
       }
     })
-  }, [toast])
+  }, [toast, reservedStock, activeTicket, tickets])
 
   // Actualizar cantidad (memoizado)
   const updateQuantity = useCallback((variantId: string, quantity: number) => {
@@ -264,6 +346,101 @@ export function POS() {
     setCart([])
   }
 
+  // Pasar a otro ticket (o a ninguno)
+  const switchToTicket = (ticket?: PosTicketRecord) => {
+    setActiveTicket(ticket ? { id: ticket.id, label: ticket.label, createdAt: ticket.createdAt } : null)
+    setCart(ticket?.items ?? [])
+  }
+
+  // Ticket nuevo en otra pestaña; el actual queda abierto
+  const openNewTicket = () => {
+    setActiveTicket({ id: crypto.randomUUID(), label: nextTicketLabel(tickets), createdAt: new Date() })
+    setCart([])
+  }
+
+  // Eliminar un ticket (cobrado o descartado); si era el activo se pasa al último abierto
+  const closeTicket = async (ticketId: string) => {
+    if (activeTicket?.id === ticketId) {
+      const others = openTickets.filter(ticket => ticket.id !== ticketId)
+      switchToTicket(others[others.length - 1])
+    }
+    await discardTicket(ticketId)
+  }
+
+  // Poner en espera el ticket activo con una etiqueta (ej: nombre del cliente)
+  const handleParkTicket = async () => {
+    if (!activeTicket) return
+    const ticketId = activeTicket.id
+    const label = parkLabel.trim() || activeTicket.label
+
+    const others = openTickets.filter(ticket => ticket.id !== ticketId)
+    switchToTicket(others[others.length - 1])
+    try {
+      await parkTicket(ticketId, label)
+      toast.success('Ticket en espera', label)
+    } catch (error) {
+      toast.error('Error al poner en espera', getErrorMessage(error))
+    }
+    setShowParkModal(false)
+  }
+
+  // Retomar un ticket en espera como pestaña activa
+  const handleResumeTicket = async (ticketId: string) => {
+    try {
+      const ticket = await resumeTicket(ticketId)
+      if (ticket) switchToTicket(ticket)
+      setShowParkedTickets(false)
+    } catch (error) {
+      toast.error('Error al retomar el ticket', getErrorMessage(error))
+    }
+  }
+
+  // Cerrar una pestaña: si tiene artículos se pide confirmación
+  const requestCloseTicket = (ticket: { id: string; label: string; itemCount: number }) => {
+    if (ticket.itemCount === 0) {
+      closeTicket(ticket.id)
+    } else {
+      setTicketToDiscard({ id: ticket.id, label: ticket.label })
+    }
+  }
+
+  const confirmDiscardTicket = async () => {
+    if (!ticketToDiscard) return
+    await closeTicket(ticketToDiscard.id)
+    setTicketToDiscard(null)
+  }
+
+  // Pestañas: tickets abiertos más el activo aunque todavía no se haya guardado
+  const ticketTabs = useMemo(() => {
+    const tabs = openTickets.map(ticket => ({
+      id: ticket.id,
+      label: ticket.label,
+      itemCount: ticket.id === activeTicket?.id
+        ? cartTotals.itemCount
+        : ticket.items.reduce((sum, item) => sum + item.quantity, 0)
+    }))
+    if (activeTicket && !tabs.some(tab => tab.id === activeTicket.id)) {
+      tabs.push({ id: activeTicket.id, label: activeTicket.label, itemCount: cartTotals.itemCount })
+    }
+    return tabs
+  }, [openTickets, activeTicket, cartTotals.itemCount])
+
+  // Opciones del método elegido (una por plan de cuotas) y monto final a cobrar con recargos o descuentos
+  const selectedMethod = paymentMethods.find(pm => pm.id === selectedPaymentMethod)
+  const selectedOptions = useMemo(
+    () => (selectedMethod && cartTotals.total > 0
+      ? pricingService.getPaymentOptions(Money.create(cartTotals.total), selectedMethod)
+      : []),
+    [selectedMethod, cartTotals.total]
+  )
+  const selectedOption = selectedOptions.find(option => option.installments === selectedInstallments) ?? selectedOptions[0]
+  const amountToCharge = splitPayments.length > 0
+    ? splitPayments.reduce((sum, payment) => {
+        const option = getPaymentOption(payment.amount, paymentMethods.find(pm => pm.id === payment.methodId), payment.installments)
+        return sum + (option?.total.amount ?? payment.amount)
+      }, 0)
+    : selectedOption?.total.amount ?? cartTotals.total
+
   // Procesar venta
   const processCheckout = async () => {
     // Validar pagos
@@ -294,6 +471,34 @@ export function POS() {
       return
     }
 
+    // Pagos de la venta con las cuotas elegidas: el efectivo entregado (si se informó)
+    // debe cubrir el monto con el recargo o descuento del método
+    let tenderedShort = false
+    const paymentInputs: PaymentInput[] = (splitPayments.length > 0
+      ? splitPayments
+      : [{ methodId: primaryPayment.id, amount: cartTotals.total, tendered: cashTendered, installments: selectedInstallments }]
+    ).map(payment => {
+      const method = paymentMethods.find(pm => pm.id === payment.methodId)
+      const type = method?.type ?? 'other'
+      const option = getPaymentOption(payment.amount, method, payment.installments)
+      const tendered = type === 'cash' && payment.tendered ? payment.tendered : undefined
+      if (tendered !== undefined && tendered < (option?.total.amount ?? payment.amount)) {
+        tenderedShort = true
+      }
+      return {
+        paymentMethodId: payment.methodId,
+        paymentMethodType: type,
+        paymentMethodConfig: method?.config,
+        installments: option?.installments,
+        amount: payment.amount,
+        tendered
+      }
+    })
+    if (tenderedShort) {
+      toast.warning('El efectivo recibido no cubre el monto a pagar')
+      return
+    }
+
     setIsProcessing(true)
     try {
       // Obtener número de recibo
@@ -313,18 +518,26 @@ export function POS() {
         discount: Percentage.create(item.discount)
       }))
 
-      // Crear venta (usar método de pago principal)
+      // Validar pagos, aplicar recargos por método y cuotas y calcular el vuelto
+      // (mismas reglas que el servidor). El pago único cubre el total exacto de los artículos
+      const itemsTotal = saleItems.reduce((sum, item) => sum.add(item.subtotal), Money.zero())
+      const settlement = paymentService.settle(
+        itemsTotal,
+        splitPayments.length > 0 ? paymentInputs : paymentInputs.map(payment => ({ ...payment, amount: itemsTotal.amount }))
+      )
+
+      // Crear venta (usar método de pago principal); el total incluye el recargo
       const sale = Sale.create({
         id: crypto.randomUUID(),
         receiptNumber,
         userId,
         items: saleItems,
         paymentMethodId: primaryPayment.id,
-        paymentMethodType: primaryPayment.type
+        paymentMethodType: primaryPayment.type,
+        surcharge: settlement.surcharge,
+        paymentFees: settlement.fees,
+        cashSessionId: cashSession?.id
       })
-      
-      // Nota: Los pagos divididos se guardarían en una tabla separada en el futuro
-      // Por ahora solo se guarda el método principal
 
       // Completar la venta
       sale.complete()
@@ -353,14 +566,20 @@ export function POS() {
       }
 
       // Guardar venta y actualizar stock
-      await createSale(sale, stockMovements, splitPayments.length > 0 ? splitPayments : undefined)
+      await createSale(sale, stockMovements, settlement.payments)
 
       // Éxito
+      setLastChange(settlement.change.amount)
       setLastReceiptNumber(receiptNumber)
       setLastSale(sale)
       setShowCheckout(false)
       setShowSuccess(true)
-      clearCart()
+      // El ticket cobrado se elimina y libera su stock reservado
+      if (activeTicket) {
+        await closeTicket(activeTicket.id)
+      } else {
+        clearCart()
+      }
     } catch (error) {
       toast.error('Error al procesar', getErrorMessage(error))
     } finally {
@@ -372,7 +591,10 @@ export function POS() {
   const closeSuccess = () => {
     setShowSuccess(false)
     setSelectedPaymentMethod(null)
+    setSelectedInstallments(undefined)
     setSplitPayments([])
+    setCashTendered(0)
+    setLastChange(0)
     setLastSale(null)
   }
 
@@ -453,6 +675,13 @@ export function POS() {
       <div className="flex-1 flex flex-col min-w-0">
         {/* Búsqueda y filtros */}
         <div className="mb-4 space-y-3">
+          {/* Se puede vender sin caja abierta, pero esas ventas no entran en ningún arqueo */}
+          {!isLoadingCashSession && !cashSession && (
+            <Alert variant="warning">
+              La caja está cerrada: las ventas no se incluirán en el arqueo.{' '}
+              <Link to="/caja" className="font-medium underline">Abrir caja</Link>
+            </Alert>
+          )}
           <div className="flex gap-2">
             <SearchInput
               placeholder="Buscar producto..."
@@ -540,29 +769,40 @@ export function POS() {
 
                   {/* Variantes como botones */}
                   <div className="space-y-2">
-                    {product.variants.map(variant => (
-                      <button
-                        key={variant.id}
-                        onClick={() => addToCart(product, variant)}
-                        disabled={variant.stock === 0}
-                        className={cn(
-                          'w-full flex items-center justify-between p-2 rounded-lg text-sm transition-colors',
-                          variant.stock > 0
-                            ? 'bg-surface-50 hover:bg-primary-50 hover:border-primary-200 border border-surface-200'
-                            : 'bg-surface-100 text-surface-400 cursor-not-allowed'
-                        )}
-                      >
-                        <div className="text-left">
-                          <p className="font-medium">{formatCurrency(variant.price)}</p>
-                          <p className="text-xs text-surface-500">{variant.name}</p>
-                        </div>
-                        {variant.stock > 0 ? (
-                          <Badge variant="success" size="sm">{variant.stock}</Badge>
-                        ) : (
-                          <Badge variant="danger" size="sm">Sin stock</Badge>
-                        )}
-                      </button>
-                    ))}
+                    {product.variants.map(variant => {
+                      // Lo reservado en otros tickets no se puede vender en este
+                      const reserved = reservedStock.get(variant.id) ?? 0
+                      const available = variant.stock - reserved
+
+                      return (
+                        <button
+                          key={variant.id}
+                          onClick={() => addToCart(product, variant)}
+                          disabled={available <= 0}
+                          className={cn(
+                            'w-full flex items-center justify-between p-2 rounded-lg text-sm transition-colors',
+                            available > 0
+                              ? 'bg-surface-50 hover:bg-primary-50 hover:border-primary-200 border border-surface-200'
+                              : 'bg-surface-100 text-surface-400 cursor-not-allowed'
+                          )}
+                        >
+                          <div className="text-left">
+                            <p className="font-medium">{formatCurrency(variant.price)}</p>
+                            <p className="text-xs text-surface-500">
+                              {variant.name}
+                              {reserved > 0 && ` · ${reserved} reservadas`}
+                            </p>
+                          </div>
+                          {available > 0 ? (
+                            <Badge variant="success" size="sm">{available}</Badge>
+                          ) : variant.stock > 0 ? (
+                            <Badge variant="warning" size="sm">Reservado</Badge>
+                          ) : (
+                            <Badge variant="danger" size="sm">Sin stock</Badge>
+                          )}
+                        </button>
+                      )
+                    })}
                   </div>
                 </div>
               ))}
@@ -573,6 +813,51 @@ export function POS() {
 
       {/* Panel derecho: Carrito */}
       <Card className="w-full lg:w-96 flex flex-col flex-shrink-0" padding="none">
+        {/* Pestañas de tickets */}
+        <div className="flex items-center gap-1 px-2 pt-2 border-b border-surface-200 overflow-x-auto">
+          {ticketTabs.map(tab => (
+            <div
+              key={tab.id}
+              className={cn(
+                'flex items-center gap-1 pl-3 pr-1 py-1.5 rounded-t-lg text-sm whitespace-nowrap border border-b-0',
+                tab.id === activeTicket?.id
+                  ? 'bg-white border-surface-200 font-medium text-primary-600'
+                  : 'bg-surface-50 border-transparent text-surface-600 hover:bg-surface-100'
+              )}
+            >
+              <button
+                onClick={() => tab.id !== activeTicket?.id && switchToTicket(openTickets.find(t => t.id === tab.id))}
+              >
+                {tab.label}
+                {tab.itemCount > 0 && <span className="ml-1 text-xs text-surface-500">({tab.itemCount})</span>}
+              </button>
+              <button
+                onClick={() => requestCloseTicket(tab)}
+                className="p-0.5 text-surface-400 hover:text-danger-500"
+                title="Cerrar ticket"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={openNewTicket}
+            disabled={cart.length === 0}
+            className="p-1.5 text-surface-500 hover:text-primary-600 disabled:opacity-50"
+            title="Nuevo ticket"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          {parkedTickets.length > 0 && (
+            <button
+              onClick={() => setShowParkedTickets(true)}
+              className="ml-auto px-2 py-1 text-xs font-medium text-primary-600 hover:text-primary-700 whitespace-nowrap"
+            >
+              En espera ({parkedTickets.length})
+            </button>
+          )}
+        </div>
+
         {/* Header del carrito */}
         <div className="p-4 border-b border-surface-200">
           <div className="flex items-center justify-between">
@@ -581,9 +866,22 @@ export function POS() {
               Carrito
             </h2>
             {cart.length > 0 && (
-              <Button variant="ghost" size="sm" onClick={clearCart}>
-                Limpiar
-              </Button>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setParkLabel('')
+                    setShowParkModal(true)
+                  }}
+                  leftIcon={<PauseCircle className="h-4 w-4" />}
+                >
+                  En espera
+                </Button>
+                <Button variant="ghost" size="sm" onClick={clearCart}>
+                  Limpiar
+                </Button>
+              </div>
             )}
           </div>
           {cart.length > 0 && (
@@ -711,6 +1009,8 @@ export function POS() {
         onClose={() => {
           setShowCheckout(false)
           setSplitPayments([])
+          setCashTendered(0)
+          setSelectedInstallments(undefined)
         }}
         title="Finalizar venta"
         size="md"
@@ -721,9 +1021,17 @@ export function POS() {
             <div className="flex justify-between items-center">
               <span className="text-surface-600">Total a cobrar</span>
               <span className="text-3xl font-bold text-primary-600">
-                {formatCurrency(cartTotals.total)}
+                {formatCurrency(amountToCharge)}
               </span>
             </div>
+            {Math.abs(amountToCharge - cartTotals.total) >= 0.01 && (
+              <div className="flex justify-between text-sm text-surface-500 mt-1">
+                <span>Artículos {formatCurrency(cartTotals.total)}</span>
+                <span>
+                  {amountToCharge > cartTotals.total ? 'Recargo' : 'Descuento'} {formatCurrency(Math.abs(amountToCharge - cartTotals.total))}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Métodos de pago */}
@@ -750,29 +1058,90 @@ export function POS() {
 
             {splitPayments.length === 0 ? (
               // Modo pago único
-              <div className="grid grid-cols-2 gap-3">
-                {paymentMethods.map(method => (
-                  <button
-                    key={method.id}
-                    onClick={() => setSelectedPaymentMethod(method.id)}
-                    className={cn(
-                      'flex items-center gap-3 p-4 rounded-lg border-2 transition-colors',
-                      selectedPaymentMethod === method.id
-                        ? 'border-primary-500 bg-primary-50'
-                        : 'border-surface-200 hover:border-surface-300'
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  {paymentMethods.map(method => {
+                    // Precio final con el método (en crédito, la primera opción de cuotas)
+                    const option = getPaymentOption(cartTotals.total, method)
+                    return (
+                      <button
+                        key={method.id}
+                        onClick={() => {
+                          setSelectedPaymentMethod(method.id)
+                          setSelectedInstallments(undefined)
+                        }}
+                        className={cn(
+                          'flex items-center gap-3 p-4 rounded-lg border-2 transition-colors',
+                          selectedPaymentMethod === method.id
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-surface-200 hover:border-surface-300'
+                        )}
+                      >
+                        <div className={cn(
+                          'h-10 w-10 rounded-full flex items-center justify-center',
+                          selectedPaymentMethod === method.id
+                            ? 'bg-primary-500 text-white'
+                            : 'bg-surface-100 text-surface-600'
+                        )}>
+                          {getPaymentIcon(method.type)}
+                        </div>
+                        <div className="text-left">
+                          <span className="font-medium block">{method.name}</span>
+                          {option && !option.surcharge.isZero() && (
+                            <span className="text-xs text-surface-500">
+                              {option.adjustmentPercentage > 0 ? '+' : ''}{option.adjustmentPercentage}% · {formatCurrency(option.total.amount)}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    )
+                  })}
+                </div>
+                {selectedOptions.length > 1 && (
+                  // Planes de cuotas con el precio final de cada uno
+                  <div className="grid grid-cols-2 gap-2">
+                    {selectedOptions.map(option => (
+                      <button
+                        key={option.installments}
+                        onClick={() => setSelectedInstallments(option.installments)}
+                        className={cn(
+                          'p-3 rounded-lg border-2 text-left transition-colors',
+                          selectedOption?.installments === option.installments
+                            ? 'border-primary-500 bg-primary-50'
+                            : 'border-surface-200 hover:border-surface-300'
+                        )}
+                      >
+                        <p className="font-medium">
+                          {option.installments === 1 ? '1 pago' : `${option.installments} cuotas de ${formatCurrency(option.installmentAmount.amount)}`}
+                        </p>
+                        <p className="text-xs text-surface-500">
+                          Total {formatCurrency(option.total.amount)}
+                          {option.adjustmentPercentage !== 0 && ` (+${option.adjustmentPercentage}%)`}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {selectedMethod?.type === 'cash' && (
+                  // Vuelto: opcional, solo si se informa con cuánto paga el cliente
+                  <div className="flex items-end gap-3">
+                    <NumberInput
+                      label="Paga con"
+                      min={0}
+                      step={100}
+                      value={cashTendered}
+                      onChange={setCashTendered}
+                      className="w-40"
+                    />
+                    {cashTendered > 0 && (
+                      <p className={cn('pb-2 text-sm font-medium', cashTendered < amountToCharge ? 'text-danger-500' : 'text-success-600')}>
+                        {cashTendered < amountToCharge
+                          ? `Faltan ${formatCurrency(amountToCharge - cashTendered)}`
+                          : `Vuelto: ${formatCurrency(cashTendered - amountToCharge)}`}
+                      </p>
                     )}
-                  >
-                    <div className={cn(
-                      'h-10 w-10 rounded-full flex items-center justify-center',
-                      selectedPaymentMethod === method.id
-                        ? 'bg-primary-500 text-white'
-                        : 'bg-surface-100 text-surface-600'
-                    )}>
-                      {getPaymentIcon(method.type)}
-                    </div>
-                    <span className="font-medium">{method.name}</span>
-                  </button>
-                ))}
+                  </div>
+                )}
               </div>
             ) : (
               // Modo pago dividido
@@ -780,6 +1149,9 @@ export function POS() {
                 {splitPayments.map((payment, index) => {
                   const method = paymentMethods.find(pm => pm.id === payment.methodId)
                   const remaining = cartTotals.total - splitPayments.reduce((sum, p) => sum + p.amount, 0) + payment.amount
+                  const options = method && payment.amount > 0 ? pricingService.getPaymentOptions(Money.create(payment.amount), method) : []
+                  const option = getPaymentOption(payment.amount, method, payment.installments)
+                  const charged = option?.total.amount ?? payment.amount
                   
                   return (
                     <div key={index} className="border border-surface-200 rounded-lg p-3">
@@ -789,12 +1161,27 @@ export function POS() {
                             value={payment.methodId}
                             onChange={(e) => {
                               const newPayments = [...splitPayments]
-                              newPayments[index].methodId = e.target.value
+                              newPayments[index] = { ...payment, methodId: e.target.value, installments: undefined }
                               setSplitPayments(newPayments)
                             }}
                             options={paymentMethods.map(pm => ({ value: pm.id, label: pm.name }))}
                             className="w-40"
                           />
+                          {options.length > 1 && (
+                            <Select
+                              value={String(option?.installments ?? '')}
+                              onChange={(e) => {
+                                const newPayments = [...splitPayments]
+                                newPayments[index] = { ...payment, installments: Number(e.target.value) }
+                                setSplitPayments(newPayments)
+                              }}
+                              options={options.map(o => ({
+                                value: String(o.installments),
+                                label: o.installments === 1 ? '1 pago' : `${o.installments} x ${formatCurrency(o.installmentAmount.amount)}`
+                              }))}
+                              className="w-40"
+                            />
+                          )}
                         </div>
                         <button
                           onClick={() => {
@@ -826,6 +1213,34 @@ export function POS() {
                         />
                         <span className="text-sm text-surface-500">Restante: {formatCurrency(remaining - payment.amount)}</span>
                       </div>
+                      {Math.abs(charged - payment.amount) >= 0.01 && (
+                        <p className="text-sm text-surface-500 mt-1">
+                          {charged > payment.amount ? 'Con recargo' : 'Con descuento'}: {formatCurrency(charged)}
+                        </p>
+                      )}
+                      {method?.type === 'cash' && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <span className="text-sm text-surface-600">Recibido:</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="100"
+                            value={payment.tendered ?? ''}
+                            onChange={(e) => {
+                              const tendered = parseFloat(e.target.value)
+                              const newPayments = [...splitPayments]
+                              newPayments[index] = { ...payment, tendered: tendered > 0 ? tendered : undefined }
+                              setSplitPayments(newPayments)
+                            }}
+                            className="flex-1 h-8 px-2 text-sm border border-surface-200 rounded focus:outline-none focus:ring-0 focus:border-primary-500"
+                          />
+                          {payment.tendered !== undefined && payment.tendered >= charged && (
+                            <span className="text-sm font-medium text-success-600">
+                              Vuelto: {formatCurrency(payment.tendered - charged)}
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )
                 })}
@@ -896,6 +1311,11 @@ export function POS() {
           <p className="text-2xl font-mono font-bold text-primary-600 mb-6">
             {lastReceiptNumber}
           </p>
+          {lastChange > 0 && (
+            <p className="text-lg font-semibold text-success-600 -mt-4 mb-6">
+              Vuelto: {formatCurrency(lastChange)}
+            </p>
+          )}
 
           <div className="flex gap-3">
             <Button
@@ -923,6 +1343,86 @@ export function POS() {
         </div>
       </Modal>
 
+      {/* Poner ticket en espera */}
+      <Modal
+        isOpen={showParkModal}
+        onClose={() => setShowParkModal(false)}
+        title="Poner ticket en espera"
+        description="El stock del ticket queda reservado hasta retomarlo o descartarlo"
+        size="sm"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setShowParkModal(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleParkTicket} leftIcon={<PauseCircle className="h-4 w-4" />}>
+              Poner en espera
+            </Button>
+          </>
+        }
+      >
+        <Input
+          label="Etiqueta"
+          value={parkLabel}
+          onChange={(e) => setParkLabel(e.target.value)}
+          placeholder={activeTicket?.label ?? 'Ej: nombre del cliente'}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleParkTicket()
+          }}
+          autoFocus
+        />
+      </Modal>
+
+      {/* Tickets en espera */}
+      <Modal
+        isOpen={showParkedTickets}
+        onClose={() => setShowParkedTickets(false)}
+        title="Tickets en espera"
+        size="md"
+      >
+        {parkedTickets.length === 0 ? (
+          <p className="text-sm text-surface-500 text-center py-4">No hay tickets en espera</p>
+        ) : (
+          <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+            {parkedTickets.map(ticket => (
+              <div key={ticket.id} className="p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{ticket.label}</p>
+                  <p className="text-sm text-surface-500">
+                    {ticket.items.reduce((sum, item) => sum + item.quantity, 0)} artículos · {formatCurrency(getTicketTotal(ticket.items))}
+                    {ticket.parkedAt && ` · desde ${formatDateTime(ticket.parkedAt)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" onClick={() => handleResumeTicket(ticket.id)}>
+                    Retomar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTicketToDiscard({ id: ticket.id, label: ticket.label })}
+                    className="h-8 w-8 p-0"
+                    title="Descartar ticket"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Modal>
+
+      <ConfirmModal
+        isOpen={ticketToDiscard !== null}
+        onClose={() => setTicketToDiscard(null)}
+        onConfirm={confirmDiscardTicket}
+        title="Descartar ticket"
+        message={`Se descartará "${ticketToDiscard?.label ?? ''}" con todos sus artículos y se liberará el stock reservado.`}
+        confirmText="Descartar"
+        variant="danger"
+      />
+
       {/* Escáner de códigos de barras - COMENTADO: deshabilitado temporalmente */}
       {/* <BarcodeScanner
         isOpen={showBarcodeScanner}
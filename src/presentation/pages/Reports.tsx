@@ -292,7 +292,11 @@ export function Reports() {
                 <div className="text-3xl font-bold text-surface-900">
                   {isLoading ? <Skeleton className="h-8 w-32" /> : formatCurrency(salesData.totalAmount)}
                 </div>
-                <p className="text-sm text-surface-500 mt-1">Ingresos totales</p>
+                <p className="text-sm text-surface-500 mt-1">
+                  {salesData.totalFees > 0
+                    ? `Neto de comisiones: ${formatCurrency(salesData.netAmount)}`
+                    : 'Ingresos totales'}
+                </p>
               </div>
             </Card>
             <Card>
@@ -443,20 +447,22 @@ export function Reports() {
                   <TableRow>
                     <TableHead>Método de pago</TableHead>
                     <TableHead className="text-right">Ventas</TableHead>
-                    <TableHead className="text-right">Ingresos</TableHead>
+                    <TableHead className="text-right">Bruto</TableHead>
+                    <TableHead className="text-right">Comisiones</TableHead>
+                    <TableHead className="text-right">Neto</TableHead>
                     <TableHead className="text-right">% del total</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {loadingPaymentMethods ? (
                     <TableRow>
-                      <TableCell colSpan={4}>
+                      <TableCell colSpan={6}>
                         <Skeleton className="h-10 w-full" />
                       </TableCell>
                     </TableRow>
                   ) : salesByPaymentMethod.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center text-surface-500 py-8">
+                      <TableCell colSpan={6} className="text-center text-surface-500 py-8">
                         No hay datos para el período seleccionado
                       </TableCell>
                     </TableRow>
@@ -483,6 +489,12 @@ export function Reports() {
                           <TableCell className="text-right font-medium">
                             {formatCurrency(method.totalAmount)}
                           </TableCell>
+                          <TableCell className="text-right text-surface-500">
+                            {method.totalFees > 0 ? `-${formatCurrency(method.totalFees)}` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(method.netAmount)}
+                          </TableCell>
                           <TableCell className="text-right">
                             <Badge variant="secondary">
                               {percentage.toFixed(1)}%
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import {
   Search,
   Calendar,
@@ -10,7 +10,9 @@ import {
   TrendingUp,
   ShoppingBag,
   DollarSign,
-  Package
+  Package,
+  Receipt,
+  Undo2
 } from 'lucide-react'
 import {
   Button,
@@ -37,7 +39,7 @@ import {
   useToastActions,
   SkeletonSaleRow
 } from '@presentation/components/ui'
-import { useRecentSales, useTodaySales, useDailySalesSummary } from '@infrastructure/persistence/hooks/useSales'
+import { useRecentSales, useTodaySales, useDailySalesSummary, useSaleReturns } from '@infrastructure/persistence/hooks/useSales'
 import { useActivePaymentMethods } from '@infrastructure/persistence/hooks/usePaymentMethods'
 import { db } from '@infrastructure/persistence/indexeddb/database'
 import { SaleMapper } from '@infrastructure/persistence/indexeddb/mappers/SaleMapper'
@@ -45,6 +47,10 @@ import type { Sale } from '@domain/entities/Sale'
 import { formatCurrency, formatDateTime, formatDate, cn } from '@shared/lib/utils'
 import { useLiveQuery } from 'dexie-react-hooks'
 import { PDFService } from '@infrastructure/services/PDFService'
+import { BatchInvoiceModal } from '@presentation/components/invoicing/BatchInvoiceModal'
+import { SaleReturnModal } from '@presentation/components/sales/SaleReturnModal'
+import { invoiceService, type FiscalInvoice } from '@infrastructure/api'
+import { getErrorMessage } from '@shared/errors'
 
 // Componente de detalle de venta
 interface SaleDetailModalProps {
@@ -52,8 +58,18 @@ interface SaleDetailModalProps {
   onClose: () => void
 }
 
-function SaleDetailModal({ sale, onClose }: SaleDetailModalProps) {
+function SaleDetailModal({ sale: initialSale, onClose }: SaleDetailModalProps) {
   const { paymentMethods } = useActivePaymentMethods()
+  const toast = useToastActions()
+  const [fiscalDocuments, setFiscalDocuments] = useState<FiscalInvoice[]>([])
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+  const [showReturn, setShowReturn] = useState(false)
+
+  // Leer la venta en vivo para reflejar devoluciones registradas desde este modal
+  const saleRecord = useLiveQuery(() => db.sales.get(initialSale.id), [initialSale.id])
+  const sale = saleRecord ? SaleMapper.toDomain(saleRecord) : initialSale
+  const { returns } = useSaleReturns(sale.id)
+  const canReturn = sale.status === 'completed' || sale.status === 'partially_refunded'
   const paymentMethod = paymentMethods.find(pm => pm.id === sale.paymentMethodId)
   
   // Obtener pagos divididos de la venta
@@ -74,138 +90,251 @@ function SaleDetailModal({ sale, onClose }: SaleDetailModalProps) {
     PDFService.generateSaleInvoice(sale, { title: 'Factura' })
   }
 
+  // Comprobantes fiscales autorizados de la venta (requiere conexión con el servidor)
+  useEffect(() => {
+    let cancelled = false
+    invoiceService.getSaleInvoices(sale.id)
+      .then(invoices => {
+        if (!cancelled) setFiscalDocuments(invoices.filter(invoice => invoice.estado === 'AUTHORIZED'))
+      })
+      .catch(() => {
+        // Sin conexión: solo se ofrecen los comprobantes no fiscales
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sale.id])
+
+  const handleDownloadFiscal = async (invoice: FiscalInvoice) => {
+    setDownloadingId(invoice.id)
+    try {
+      await PDFService.generateFiscalInvoice(await invoiceService.getPrintData(invoice.id))
+    } catch (error) {
+      toast.error('Error al generar el comprobante', getErrorMessage(error))
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
   return (
-    <Modal
-      isOpen
-      onClose={onClose}
-      title={`Venta ${sale.receiptNumber}`}
-      size="md"
-    >
-      <div className="space-y-6">
-        {/* Info general */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-surface-50 rounded-lg">
-          <div>
-            <p className="text-xs text-surface-500">Fecha</p>
-            <p className="font-medium">{formatDateTime(sale.createdAt)}</p>
-          </div>
-          <div>
-            <p className="text-xs text-surface-500">Estado</p>
-            <StatusBadge status={sale.status} />
-          </div>
-          <div>
-            <p className="text-xs text-surface-500">Método de pago</p>
-            {splitPayments.length > 0 ? (
-              <p className="font-medium text-xs">Pago dividido ({splitPayments.length} métodos)</p>
-            ) : (
-              <p className="font-medium">{paymentMethod?.name ?? '-'}</p>
-            )}
+    <>
+      <Modal
+        isOpen
+        onClose={onClose}
+        title={`Venta ${sale.receiptNumber}`}
+        size="md"
+      >
+        <div className="space-y-6">
+          {/* Info general */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-surface-50 rounded-lg">
+            <div>
+              <p className="text-xs text-surface-500">Fecha</p>
+              <p className="font-medium">{formatDateTime(sale.createdAt)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">Estado</p>
+              <StatusBadge status={sale.status} />
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">Método de pago</p>
+              {splitPayments.length > 0 ? (
+                <p className="font-medium text-xs">Pago dividido ({splitPayments.length} métodos)</p>
+              ) : (
+                <p className="font-medium">{paymentMethod?.name ?? '-'}</p>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-surface-500">Total</p>
+              <p className="font-medium text-lg text-primary-600">{formatCurrency(sale.total.amount)}</p>
+            </div>
           </div>
+
+          {/* Items */}
           <div>
-            <p className="text-xs text-surface-500">Total</p>
-            <p className="font-medium text-lg text-primary-600">{formatCurrency(sale.total.amount)}</p>
+            <h4 className="font-medium mb-3">Productos ({sale.items.length})</h4>
+            <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+              {sale.items.map(item => (
+                <div key={item.id} className="p-3 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{item.productName}</p>
+                    <p className="text-sm text-surface-500">
+                      {item.variantName} · {item.quantity} × {formatCurrency(item.unitPrice.amount)}
+                    </p>
+                    {item.returnedQuantity > 0 && (
+                      <Badge variant="info" size="sm">{item.returnedQuantity} devueltas</Badge>
+                    )}
+                  </div>
+                  <div className="text-left sm:text-right shrink-0">
+                    <p className="font-medium">{formatCurrency(item.subtotal.amount)}</p>
+                    {item.discount.value > 0 && (
+                      <Badge variant="success" size="sm">-{item.discount.value}%</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
 
-        {/* Items */}
-        <div>
-          <h4 className="font-medium mb-3">Productos ({sale.items.length})</h4>
-          <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
-            {sale.items.map(item => (
-              <div key={item.id} className="p-3 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium">{item.productName}</p>
-                  <p className="text-sm text-surface-500">
-                    {item.variantName} · {item.quantity} × {formatCurrency(item.unitPrice.amount)}
-                  </p>
-                </div>
-                <div className="text-left sm:text-right shrink-0">
-                  <p className="font-medium">{formatCurrency(item.subtotal.amount)}</p>
-                  {item.discount.value > 0 && (
-                    <Badge variant="success" size="sm">-{item.discount.value}%</Badge>
-                  )}
-                </div>
+          {/* Totales */}
+          <div className="space-y-2 p-4 bg-surface-50 rounded-lg">
+            <div className="flex justify-between text-sm">
+              <span className="text-surface-600">Subtotal</span>
+              <span>{formatCurrency(sale.subtotal.amount)}</span>
+            </div>
+            {sale.totalDiscount.amount > 0 && (
+              <div className="flex justify-between text-sm text-success-600">
+                <span>Descuentos</span>
+                <span>-{formatCurrency(sale.totalDiscount.amount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 border-t border-surface-200">
+              <span className="font-semibold">Total</span>
+              <span className="text-xl font-bold">{formatCurrency(sale.total.amount)}</span>
+            </div>
+            {sale.returnedTotal.amount > 0 && (
+              <div className="flex justify-between text-sm text-danger-600">
+                <span>Devuelto</span>
+                <span>-{formatCurrency(sale.returnedTotal.amount)}</span>
               </div>
-            ))}
+            )}
           </div>
-        </div>
 
-        {/* Totales */}
-        <div className="space-y-2 p-4 bg-surface-50 rounded-lg">
-          <div className="flex justify-between text-sm">
-            <span className="text-surface-600">Subtotal</span>
-            <span>{formatCurrency(sale.subtotal.amount)}</span>
-          </div>
-          {sale.totalDiscount.amount > 0 && (
-            <div className="flex justify-between text-sm text-success-600">
-              <span>Descuentos</span>
-              <span>-{formatCurrency(sale.totalDiscount.amount)}</span>
+          {/* Devoluciones y cambios */}
+          {returns.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-3">Devoluciones y cambios</h4>
+              <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+                {returns.map(saleReturn => (
+                  <div key={saleReturn.id} className="p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">{formatDateTime(saleReturn.createdAt)}</p>
+                      <p className="text-sm font-medium">
+                        {saleReturn.balanceCents > 0
+                          ? `Reintegro ${formatCurrency(saleReturn.balanceCents / 100)}`
+                          : saleReturn.balanceCents < 0
+                            ? `Cobro ${formatCurrency(-saleReturn.balanceCents / 100)}`
+                            : 'Sin diferencia'}
+                      </p>
+                    </div>
+                    <p className="text-xs text-surface-500">
+                      Devuelto: {saleReturn.items.map(item => `${item.quantity} × ${item.productName}`).join(', ')}
+                    </p>
+                    {saleReturn.exchangeItems.length > 0 && (
+                      <p className="text-xs text-surface-500">
+                        A cambio: {saleReturn.exchangeItems.map(item => `${item.quantity} × ${item.productName}`).join(', ')}
+                      </p>
+                    )}
+                    {saleReturn.reason && (
+                      <p className="text-xs text-surface-500">Motivo: {saleReturn.reason}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
           )}
-          <div className="flex justify-between pt-2 border-t border-surface-200">
-            <span className="font-semibold">Total</span>
-            <span className="text-xl font-bold">{formatCurrency(sale.total.amount)}</span>
-          </div>
-        </div>
 
-        {/* Pagos divididos */}
-        {splitPayments.length > 0 && (
-          <div>
-            <h4 className="font-medium mb-3">Pagos divididos</h4>
-            <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
-              {splitPayments.map((payment) => {
-                const method = paymentMethods.find(pm => pm.id === payment.paymentMethodId)
-                return (
-                  <div key={payment.id} className="p-3 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
-                    <div className="flex-1">
-                      <p className="font-medium">{method?.name ?? 'Método desconocido'}</p>
+          {/* Pagos divididos */}
+          {splitPayments.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-3">Pagos divididos</h4>
+              <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+                {splitPayments.map((payment) => {
+                  const method = paymentMethods.find(pm => pm.id === payment.paymentMethodId)
+                  return (
+                    <div key={payment.id} className="p-3 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+                      <div className="flex-1">
+                        <p className="font-medium">{method?.name ?? 'Método desconocido'}</p>
+                      </div>
+                      <div className="text-left sm:text-right shrink-0">
+                        <p className="font-medium">{formatCurrency(payment.amount)}</p>
+                      </div>
                     </div>
-                    <div className="text-left sm:text-right shrink-0">
-                      <p className="font-medium">{formatCurrency(payment.amount)}</p>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Notas */}
+          {sale.notes && (
+            <div>
+              <h4 className="font-medium mb-2">Notas</h4>
+              <p className="text-sm text-surface-600 p-3 bg-surface-50 rounded-lg">{sale.notes}</p>
+            </div>
+          )}
+
+          {/* Comprobantes fiscales */}
+          {fiscalDocuments.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-3">Comprobantes fiscales</h4>
+              <div className="border border-surface-200 rounded-lg divide-y divide-surface-200">
+                {fiscalDocuments.map(invoice => (
+                  <div key={invoice.id} className="p-3 flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{invoice.type?.replace(/_/g, ' ')} {invoice.formattedNumber}</p>
+                      <p className="text-xs text-surface-500">CAE {invoice.cae} · {formatCurrency(invoice.impTotal)}</p>
                     </div>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleDownloadFiscal(invoice)}
+                      isLoading={downloadingId === invoice.id}
+                      leftIcon={<Download className="h-4 w-4" />}
+                    >
+                      PDF
+                    </Button>
                   </div>
-                )
-              })}
+                ))}
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Notas */}
-        {sale.notes && (
-          <div>
-            <h4 className="font-medium mb-2">Notas</h4>
-            <p className="text-sm text-surface-600 p-3 bg-surface-50 rounded-lg">{sale.notes}</p>
+          {/* Acciones */}
+          <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t border-surface-200">
+            <Button
+              variant="secondary"
+              onClick={handlePrintReceipt}
+              className="flex-1"
+              leftIcon={<Printer className="h-4 w-4" />}
+            >
+              Imprimir Recibo
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={handleDownloadReceipt}
+              className="flex-1"
+              leftIcon={<Download className="h-4 w-4" />}
+            >
+              Descargar PDF
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={handleDownloadInvoice}
+              className="flex-1"
+              leftIcon={<Download className="h-4 w-4" />}
+            >
+              Descargar Factura (A4)
+            </Button>
+            {canReturn && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowReturn(true)}
+                className="flex-1"
+                leftIcon={<Undo2 className="h-4 w-4" />}
+              >
+                Devolución / cambio
+              </Button>
+            )}
           </div>
-        )}
-
-        {/* Acciones */}
-        <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t border-surface-200">
-          <Button
-            variant="secondary"
-            onClick={handlePrintReceipt}
-            className="flex-1"
-            leftIcon={<Printer className="h-4 w-4" />}
-          >
-            Imprimir Recibo
-          </Button>
-          <Button
-            variant="secondary"
-            onClick={handleDownloadReceipt}
-            className="flex-1"
-            leftIcon={<Download className="h-4 w-4" />}
-          >
-            Descargar PDF
-          </Button>
-          <Button
-            variant="secondary"
-            onClick={handleDownloadInvoice}
-            className="flex-1"
-            leftIcon={<Download className="h-4 w-4" />}
-          >
-            Descargar Factura (A4)
-          </Button>
         </div>
-      </div>
-    </Modal>
+      </Modal>
+
+      <SaleReturnModal
+        sale={sale}
+        isOpen={showReturn}
+        onClose={() => setShowReturn(false)}
+      />
+    </>
   )
 }
 
@@ -228,6 +357,7 @@ export function SalesHistory() {
   const [paymentFilter, setPaymentFilter] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [selectedSale, setSelectedSale] = useState<Sale | null>(null)
+  const [showBatchInvoice, setShowBatchInvoice] = useState(false)
   const pageSize = 10
 
   // Calcular fecha mínima (un año atrás)
@@ -242,6 +372,29 @@ export function SalesHistory() {
     return new Date().toISOString().split('T')[0]
   }, [])
 
+  // Rango del filtro de fechas (para facturar las ventas pendientes del período)
+  const dateRange = useMemo((): { from?: Date; to?: Date } => {
+    const now = new Date()
+    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+
+    if (dateFilter === 'today') return { from: todayStart }
+    if (dateFilter === 'week') return { from: new Date(todayStart.getTime() - 7 * 24 * 60 * 60 * 1000) }
+    if (dateFilter === 'month') {
+      const monthStart = new Date(todayStart)
+      monthStart.setMonth(monthStart.getMonth() - 1)
+      return { from: monthStart }
+    }
+    if (dateFilter === 'custom' && customStartDate && customEndDate) {
+      const [startYear, startMonth, startDay] = customStartDate.split('-').map(Number)
+      const [endYear, endMonth, endDay] = customEndDate.split('-').map(Number)
+      return {
+        from: new Date(startYear, startMonth - 1, startDay, 0, 0, 0, 0),
+        to: new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999)
+      }
+    }
+    return {}
+  }, [dateFilter, customStartDate, customEndDate])
+
   // Filtrar ventas
   const filteredSales = useMemo(() => {
     const now = new Date()
@@ -303,10 +456,11 @@ export function SalesHistory() {
 
   // Calcular estadísticas de las ventas filtradas
   const stats = useMemo(() => {
-    const completed = filteredSales.filter(s => s.status === 'completed')
-    const totalAmount = completed.reduce((sum, s) => sum + s.total.amount, 0)
+    // Las ventas con devolución parcial cuentan por lo que no se devolvió
+    const completed = filteredSales.filter(s => s.status === 'completed' || s.status === 'partially_refunded')
+    const totalAmount = completed.reduce((sum, s) => sum + s.total.amount - s.returnedTotal.amount, 0)
     const totalItems = completed.reduce((sum, s) => 
-      sum + s.items.reduce((iSum, item) => iSum + item.quantity, 0), 0
+      sum + s.items.reduce((iSum, item) => iSum + item.quantity - item.returnedQuantity, 0), 0
     )
     const avgAmount = completed.length > 0 ? totalAmount / completed.length : 0
 
@@ -339,14 +493,24 @@ export function SalesHistory() {
           <h1 className="text-2xl font-bold text-surface-900">Historial de Ventas</h1>
           <p className="text-surface-500">Consulta y gestiona las ventas realizadas</p>
         </div>
-        <Button
-          variant="secondary"
-          leftIcon={<Download className="h-4 w-4" />}
-          onClick={() => toast.info('Exportación en desarrollo')}
-          className="w-full sm:w-auto"
-        >
-          Exportar
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            variant="secondary"
+            leftIcon={<Receipt className="h-4 w-4" />}
+            onClick={() => setShowBatchInvoice(true)}
+            className="w-full sm:w-auto"
+          >
+            Facturar pendientes
+          </Button>
+          <Button
+            variant="secondary"
+            leftIcon={<Download className="h-4 w-4" />}
+            onClick={() => toast.info('Exportación en desarrollo')}
+            className="w-full sm:w-auto"
+          >
+            Exportar
+          </Button>
+        </div>
       </div>
 
       {/* Estadísticas */}
@@ -494,6 +658,7 @@ export function SalesHistory() {
               options={[
                 { value: '', label: 'Todos los estados' },
                 { value: 'completed', label: 'Completadas' },
+                { value: 'partially_refunded', label: 'Devolución parcial' },
                 { value: 'pending', label: 'Pendientes' },
                 { value: 'cancelled', label: 'Canceladas' }
               ]}
@@ -615,6 +780,14 @@ export function SalesHistory() {
           onClose={() => setSelectedSale(null)}
         />
       )}
+
+      {/* Facturación por lotes */}
+      <BatchInvoiceModal
+        isOpen={showBatchInvoice}
+        onClose={() => setShowBatchInvoice(false)}
+        from={dateRange.from}
+        to={dateRange.to}
+      />
     </div>
   )
 }
@@ -16,7 +16,11 @@ import {
   Edit,
   Check,
   X,
-  AlertTriangle
+  AlertTriangle,
+  Inbox,
+  Activity,
+  Search,
+  ShieldCheck
 } from 'lucide-react'
 import {
   Card,
@@ -54,8 +58,14 @@ import { Customer } from '@domain/entities/Customer'
 import { Supplier } from '@domain/entities/Supplier'
 import { Email } from '@domain/value-objects/Email'
 import { db } from '@infrastructure/persistence/indexeddb/database'
+import { invoiceService, CONDICIONES_IVA_RECEPTOR } from '@infrastructure/api'
 import { getErrorMessage } from '@shared/errors'
 import { ConflictResolver } from '@presentation/components/sync/ConflictResolver'
+import { DeadLetterQueue } from '@presentation/components/sync/DeadLetterQueue'
+import { SyncHealthDashboard } from '@presentation/components/sync/SyncHealthDashboard'
+import { FiscalCertificatesPanel } from '@presentation/components/invoicing/FiscalCertificatesPanel'
+import { PaymentMethodPricingModal } from '@presentation/components/payments/PaymentMethodPricingModal'
+import { useAuth } from '@presentation/hooks/useAuth'
 import { downloadBackup, readBackupFile, restoreBackup, getBackupStats, type RestoreOptions } from '@infrastructure/services/BackupService'
 
 // Componente para editar proveedor
@@ -204,20 +214,35 @@ function SupplierEditor({
   )
 }
 
+type CustomerFormData = {
+  name: string
+  documentNumber?: string
+  ivaConditionId: number | null
+  phone?: string
+  email?: string
+  address?: string
+  notes?: string
+  isActive: boolean
+}
+
 // Componente para editar cliente
 function CustomerEditor({
   customer,
   onSave,
   onCancel,
-  isLoading = false
+  isLoading = false,
+  toast
 }: {
   customer?: Customer | null
-  onSave: (data: { name: string; documentNumber?: string; phone?: string; email?: string; address?: string; notes?: string; isActive: boolean }) => void
+  onSave: (data: CustomerFormData) => void
   onCancel: () => void
   isLoading?: boolean
+  toast: ReturnType<typeof useToastActions>
 }) {
   const [name, setName] = useState(customer?.name ?? '')
   const [documentNumber, setDocumentNumber] = useState(customer?.documentNumber ?? '')
+  const [ivaConditionId, setIvaConditionId] = useState(customer?.ivaConditionId?.toString() ?? '')
+  const [isLookingUp, setIsLookingUp] = useState(false)
   const [phone, setPhone] = useState(customer?.phone ?? '')
   const [email, setEmail] = useState(customer?.email?.value ?? '')
   const [address, setAddress] = useState(customer?.address ?? '')
@@ -229,6 +254,7 @@ function CustomerEditor({
     if (customer) {
       setName(customer.name)
       setDocumentNumber(customer.documentNumber ?? '')
+      setIvaConditionId(customer.ivaConditionId?.toString() ?? '')
       setPhone(customer.phone ?? '')
       setEmail(customer.email?.value ?? '')
       setAddress(customer.address ?? '')
@@ -237,6 +263,7 @@ function CustomerEditor({
     } else {
       setName('')
       setDocumentNumber('')
+      setIvaConditionId('')
       setPhone('')
       setEmail('')
       setAddress('')
@@ -245,6 +272,30 @@ function CustomerEditor({
     }
   }, [customer])
 
+  // Solo los CUIT/CUIL (11 dígitos) se pueden consultar en el padrón de AFIP
+  const canLookup = /^\d{11}$/.test(documentNumber.replace(/-/g, '').trim())
+
+  const handlePadronLookup = async () => {
+    if (!canLookup) return
+
+    setIsLookingUp(true)
+    try {
+      const persona = await invoiceService.lookupPadron(documentNumber.trim())
+      setDocumentNumber(persona.cuit)
+      setName(persona.razonSocial)
+      if (persona.domicilio) setAddress(persona.domicilio)
+      if (persona.condicionIvaId !== null) setIvaConditionId(persona.condicionIvaId.toString())
+      toast.success(
+        'Datos del padrón de AFIP',
+        persona.condicionIva ? `${persona.razonSocial} · ${persona.condicionIva}` : persona.razonSocial
+      )
+    } catch (error) {
+      toast.error('No se pudo consultar el padrón', getErrorMessage(error))
+    } finally {
+      setIsLookingUp(false)
+    }
+  }
+
   const handleSubmit = () => {
     if (!name.trim()) {
       return
@@ -260,6 +311,7 @@ function CustomerEditor({
     onSave({
       name: name.trim(),
       documentNumber: documentNumber.trim() || undefined,
+      ivaConditionId: ivaConditionId ? parseInt(ivaConditionId) : null,
       phone: phone.trim() || undefined,
       email: emailValue || undefined,
       address: address.trim() || undefined,
@@ -269,6 +321,7 @@ function CustomerEditor({
     if (!customer) {
       setName('')
       setDocumentNumber('')
+      setIvaConditionId('')
       setPhone('')
       setEmail('')
       setAddress('')
@@ -286,10 +339,31 @@ function CustomerEditor({
           placeholder="Nombre completo *"
           required
         />
-        <Input
-          value={documentNumber}
-          onChange={(e) => setDocumentNumber(e.target.value)}
-          placeholder="Número de documento"
+        <div className="flex gap-2">
+          <Input
+            value={documentNumber}
+            onChange={(e) => setDocumentNumber(e.target.value)}
+            placeholder="Número de documento / CUIT"
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handlePadronLookup}
+            isLoading={isLookingUp}
+            disabled={!canLookup || isLoading}
+            leftIcon={<Search className="h-4 w-4" />}
+            title="Completar razón social, domicilio y condición IVA desde el padrón de AFIP"
+          >
+            Padrón
+          </Button>
+        </div>
+        <Select
+          value={ivaConditionId}
+          onChange={(e) => setIvaConditionId(e.target.value)}
+          options={[
+            { value: '', label: 'Condición IVA (sin especificar)' },
+            ...CONDICIONES_IVA_RECEPTOR.map(condicion => ({ value: condicion.id.toString(), label: condicion.label }))
+          ]}
         />
         <Input
           value={phone}
@@ -531,6 +605,7 @@ export function Settings() {
   const [isSyncing, setIsSyncing] = useState(false)
   const [categoryToDelete, setCategoryToDelete] = useState<string | null>(null)
   const [paymentMethodToDelete, setPaymentMethodToDelete] = useState<string | null>(null)
+  const [pricingMethod, setPricingMethod] = useState<PaymentMethod | null>(null)
   const [editingUserId, setEditingUserId] = useState<string | null>(null)
   const [isAddingUser, setIsAddingUser] = useState(false)
   const [userToDelete, setUserToDelete] = useState<string | null>(null)
@@ -548,6 +623,7 @@ export function Settings() {
   const [isExporting, setIsExporting] = useState(false)
   const [isRestoring, setIsRestoring] = useState(false)
   const [activeTab, setActiveTab] = useState<string>('general')
+  const { user: authUser } = useAuth()
 
   // Sincronizar usuarios cuando se abre la pestaña de usuarios
   useEffect(() => {
@@ -790,7 +866,7 @@ export function Settings() {
   }
 
   // Handlers de clientes
-  const handleSaveCustomer = async (data: { name: string; documentNumber?: string; phone?: string; email?: string; address?: string; notes?: string; isActive: boolean }) => {
+  const handleSaveCustomer = async (data: CustomerFormData) => {
     try {
       if (editingCustomerId) {
         await updateCustomer({ id: editingCustomerId, data })
@@ -1002,6 +1078,22 @@ export function Settings() {
             <AlertTriangle className="h-4 w-4 mr-2" />
             Conflictos
           </TabsTrigger>
+          <TabsTrigger value="syncQueue">
+            <Inbox className="h-4 w-4 mr-2" />
+            Cola de Sync
+          </TabsTrigger>
+          {authUser?.role === 'ADMIN' && (
+            <TabsTrigger value="devices">
+              <Activity className="h-4 w-4 mr-2" />
+              Dispositivos
+            </TabsTrigger>
+          )}
+          {authUser?.role === 'ADMIN' && (
+            <TabsTrigger value="fiscal">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Facturación
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Categorías */}
@@ -1152,6 +1244,14 @@ export function Settings() {
                     <Badge variant={method.isActive ? 'success' : 'default'}>
                       {method.isActive ? 'Activo' : 'Inactivo'}
                     </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPricingMethod(method)}
+                      title="Recargos, cuotas, descuentos y comisiones"
+                    >
+                      Recargos
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -1683,6 +1783,25 @@ export function Settings() {
         <TabsContent value="conflicts">
           <ConflictResolver />
         </TabsContent>
+
+        {/* Operaciones de sincronización en dead-letter */}
+        <TabsContent value="syncQueue">
+          <DeadLetterQueue />
+        </TabsContent>
+
+        {/* Salud de sincronización por dispositivo (solo administradores) */}
+        {authUser?.role === 'ADMIN' && (
+          <TabsContent value="devices">
+            <SyncHealthDashboard />
+          </TabsContent>
+        )}
+
+        {/* Certificados de AFIP y entorno de facturación (solo administradores) */}
+        {authUser?.role === 'ADMIN' && (
+          <TabsContent value="fiscal">
+            <FiscalCertificatesPanel />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Confirmación de limpiar datos */}
@@ -1718,6 +1837,9 @@ export function Settings() {
         variant="danger"
       />
 
+      {/* Recargos, cuotas y comisiones del método de pago */}
+      <PaymentMethodPricingModal method={pricingMethod} onClose={() => setPricingMethod(null)} />
+
       {/* Confirmación de desactivar usuario */}
       <ConfirmModal
         isOpen={userToDelete !== null}
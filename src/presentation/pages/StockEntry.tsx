@@ -27,6 +27,7 @@ import { StockMovement } from '@domain/entities/StockMovement'
 import { Quantity } from '@domain/value-objects/Quantity'
 import { db } from '@infrastructure/persistence/indexeddb/database'
 import { StockMovementMapper } from '@infrastructure/persistence/indexeddb/mappers/StockMovementMapper'
+import { syncService } from '@infrastructure/sync'
 import { formatCurrency } from '@shared/lib/utils'
 
 type MovementType = 'entry' | 'exit' | 'adjustment'
@@ -298,6 +299,12 @@ export function StockEntry() {
         const record = StockMovementMapper.toPersistence(movement)
         await db.stockMovements.add(record)
         await updateStock(item.variantId, newStock)
+
+        // El servidor aplica el movimiento como delta (newStock - previousStock)
+        await syncService.queueOperation('create', 'stockMovements', record.id, {
+          ...record,
+          newStock
+        })
       }
 
       toast.success('Stock actualizado', `Se procesaron ${items.length} movimientos`)
@@ -4,6 +4,7 @@
 
 export { Dashboard } from './Dashboard'
 export { POS } from './POS'
+export { CashRegister } from './CashRegister'
 export { Inventory } from './Inventory'
 export { SalesHistory } from './SalesHistory'
 export { StockEntry } from './StockEntry'
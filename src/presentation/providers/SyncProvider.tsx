@@ -48,7 +48,14 @@ export function SyncProvider({
     return () => clearInterval(interval)
   }, [])
 
+  // Canal de eventos en tiempo real: el servidor avisa cambios y se hace pull inmediato
+  useEffect(() => {
+    syncService.connectRealtime()
+    return () => syncService.disconnectRealtime()
+  }, [])
+
   // Sincronización automática (no bloqueante)
+  // Con el canal en tiempo real conectado, el intervalo queda solo como respaldo
   const syncIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const isMountedRef = useRef(true)
 
@@ -62,10 +69,19 @@ export function SyncProvider({
       
       // Solo sincronizar si estamos online y no hay una sincronización en curso
       const currentStatus = syncService.getStatus()
+
+      // Con el canal en tiempo real conectado el pull llega por aviso: el intervalo solo
+      // envía lo que quedó en cola (ej: operaciones cuyo backoff ya venció)
+      const skipPull = currentStatus.isRealtimeConnected
+      if (skipPull && (await syncService.getPendingOperations()).length === 0) return
+
+      // Reintentar la conexión en tiempo real (ej: luego de iniciar sesión o volver a estar online)
+      syncService.connectRealtime()
+
       if (currentStatus.isOnline && !currentStatus.isSyncing) {
         try {
           // Ejecutar sincronización de forma no bloqueante
-          syncService.sync().then(() => {
+          syncService.sync({ skipPull }).then(() => {
             if (isMountedRef.current) {
               syncService.getPendingCount().then(count => {
                 if (isMountedRef.current) {
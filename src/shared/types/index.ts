@@ -89,6 +89,7 @@ export type SaleStatus =
   | 'completed'      // Completada
   | 'cancelled'      // Cancelada
   | 'refunded'       // Reembolsada
+  | 'partially_refunded' // Con devoluciones parciales
 
 /**
  * Tipo de método de pago